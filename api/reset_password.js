@@ -4,21 +4,33 @@ const crypto = require('crypto');
 
 const client = new Client({ connectionString: process.env.DATABASE_URL });
 
+// Same format and cost as hashPassword in supabase/functions/fanta-api
+// (see supabase/functions/_shared/password.ts).
+const PASSWORD_ITERATIONS = 600000;
+
 function hashPassword(password) {
-  return crypto.createHash('sha256').update(password).digest('hex');
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.pbkdf2Sync(password, salt, PASSWORD_ITERATIONS, 32, 'sha256');
+  return `pbkdf2_sha256$${PASSWORD_ITERATIONS}$${salt.toString('hex')}$${hash.toString('hex')}`;
 }
 
 async function run() {
+  // Usage: node reset_password.js <displayName> <newPassword>
+  const [displayName, newPassword] = process.argv.slice(2);
+  if (!displayName || !newPassword) {
+    console.log('Usage: node reset_password.js <displayName> <newPassword>');
+    return;
+  }
   await client.connect();
   try {
-    const displayName = 'Maxkaiser86';
-    const newPassword = '12345678';
     const hashed = hashPassword(newPassword);
     
     // We use LOWER() just in case, although names should match now
     const res = await client.query('UPDATE "User" SET "password" = $1 WHERE LOWER("displayName") = LOWER($2) RETURNING id, "displayName"', [hashed, displayName]);
     
     if (res.rowCount > 0) {
+      // Whoever had the old password is logged out everywhere.
+      await client.query('DELETE FROM "UserSession" WHERE "userId" = $1', [res.rows[0].id]);
       console.log(`Password reset successfully for user: ${res.rows[0].displayName} (ID: ${res.rows[0].id})`);
     } else {
       console.log(`User not found: ${displayName}`);
@@ -5,6 +5,7 @@ import { PrismaClient } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import crypto from "crypto";
 import { syncRaceResults } from "./services/openf1";
+import { isRaceStatus, raceIsLocked, selectActiveRace } from "../../supabase/functions/_shared/race-status";
 
 const adapter = new PrismaPg({ connectionString: process.env.DATABASE_URL! });
 const prisma = new PrismaClient({ adapter });
@@ -30,7 +31,14 @@ async function requireUser(req: any, reply: any) {
       replied: reply.code(401).send({ error: "missing_token" }),
     };
 
-  const user = await prisma.user.findUnique({ where: { authToken: token } });
+  // Device sessions first (see supabase/functions/fanta-api), then the
+  // anonymous users' permanent token.
+  const tokenHash = crypto.createHash("sha256").update(token).digest("hex");
+  const session = await prisma.userSession.findFirst({
+    where: { tokenHash, expiresAt: { gt: new Date() } },
+    include: { user: true },
+  });
+  const user = session?.user ?? (await prisma.user.findUnique({ where: { authToken: token } }));
   if (!user)
     return {
       ok: false as const,
@@ -100,7 +108,7 @@ async function start() {
 
   app.get("/races", async () => {
     const races = await prisma.race.findMany({
-      orderBy: { round: "asc" },
+      orderBy: [{ season: "asc" }, { round: "asc" }],
       select: {
         id: true,
         name: true,
@@ -113,6 +121,7 @@ async function start() {
         sprintQualifyingUtc: true,
         date: true,
         isCompleted: true,
+        status: true,
         results: true,
       },
     });
@@ -349,19 +358,12 @@ async function start() {
     if (!leagueId) return reply.code(400).send({ error: "missing_leagueId" });
 
     // 1. Validate Lock (current race)
-    const races = await prisma.race.findMany({ orderBy: { round: 'asc' } });
-    const now = new Date();
-    // Simple lock: find first incomplete race
-    const nextRace = races.find(r => !r.isCompleted) || races[races.length - 1];
-    
-    // Lock logic: 5 mins before Quali or Sprint Quali
-    if (nextRace) {
-      const sessionStr = nextRace.isSprint ? nextRace.sprintQualifyingUtc : nextRace.qualifyingUtc;
-      if (sessionStr) {
-        const lockDate = new Date(new Date(sessionStr).getTime() - 5 * 60 * 1000);
-        if (now > lockDate) return reply.code(403).send({ error: "lineup_locked" });
-      }
-    }
+    const races = (await prisma.race.findMany({ orderBy: [{ season: 'asc' }, { round: 'asc' }] }))
+      .map(r => ({ ...r, status: isRaceStatus(r.status) ? r.status : null }));
+    const now = Date.now();
+    // Lock logic: 5 mins before Quali or Sprint Quali, or as set by Race.status
+    const nextRace = selectActiveRace(races, now);
+    if (nextRace && raceIsLocked(nextRace, now)) return reply.code(403).send({ error: "lineup_locked" });
 
     // 2. Update roles
     await prisma.team.update({
@@ -1,43 +1,35 @@
 import { PrismaClient } from "@prisma/client";
+import {
+  applyChip,
+  applyRaceEntries,
+  buildTeammateMap,
+  calculateWeekendPoints,
+  type ChipId,
+  type CombinedResults,
+  DEFAULT_SCORING_RULES,
+  isRaceSameAsGrid,
+  normalizeScoringRules,
+  pickRulesVersion,
+  type RulesVersion,
+  scoreTeamLineup,
+  type TeamLineup,
+} from "../../../supabase/functions/_shared/scoring";
+import { buildDriverRoster } from "../../../supabase/functions/_shared/roster";
+import { countRaceControlPenalties } from "../../../supabase/functions/_shared/results-provider";
 
 const OPENF1_BASE = "https://api.openf1.org/v1";
 
-// Mapping of our internal IDs to official F1 Racing Numbers
-const DRIVER_NUMBER_MAP: Record<string, number> = {
-  'ver': 1,
-  'per': 11,
-  'ham': 44,
-  'lec': 16,
-  'rus': 63,
-  'ant': 12,
-  'nor': 4,
-  'pia': 81,
-  'alo': 14,
-  'str': 18,
-  'gas': 10,
-  'doo': 7,
-  'alb': 23,
-  'sai': 55,
-  'tsu': 22,
-  'law': 30,
-  'hul': 27,
-  'bor': 59,
-  'oco': 31,
-  'bea': 87,
-  'bot': 77,
-  'col': 43
-};
-
-const REVERSE_DRIVER_MAP: Record<number, string> = Object.fromEntries(
-  Object.entries(DRIVER_NUMBER_MAP).map(([id, num]) => [num, id])
-);
-
-const DEFAULT_RACE_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
-const DEFAULT_SPRINT_POINTS = [8, 7, 6, 5, 4, 3, 2, 1];
+// OpenF1 driver number -> our driver id, from Driver.number and the number
+// aliases (see buildDriverRoster).
+async function loadDriverNumbers(prisma: PrismaClient): Promise<Record<number, string>> {
+  const drivers = await prisma.driver.findMany({ select: { id: true, name: true, number: true, active: true } });
+  const aliases = await prisma.driverAlias.findMany({ select: { driverId: true, kind: true, value: true } });
+  return buildDriverRoster(drivers, aliases).numbers;
+}
 
 export async function getOpenF1SessionKey(year: number, location: string, sessionName: string): Promise<number | null> {
   const url = `${OPENF1_BASE}/sessions?year=${year}&location=${encodeURIComponent(location)}&session_name=${encodeURIComponent(sessionName)}`;
-  
+
   try {
     const res = await fetch(url);
     const data = await res.json();
@@ -50,9 +42,9 @@ export async function getOpenF1SessionKey(year: number, location: string, sessio
   return null;
 }
 
-export async function getOpenF1Classification(sessionKey: number): Promise<Record<string, number>> {
+export async function getOpenF1Classification(sessionKey: number, driverNumbers: Record<number, string>): Promise<Record<string, number>> {
   const url = `${OPENF1_BASE}/position?session_key=${sessionKey}`;
-  
+
   try {
     const res = await fetch(url);
     const data = await res.json();
@@ -74,7 +66,7 @@ export async function getOpenF1Classification(sessionKey: number): Promise<Recor
 
     const results: Record<string, number> = {};
     for (const [num, pos] of Object.entries(latestPositions)) {
-      const driverId = REVERSE_DRIVER_MAP[Number(num)];
+      const driverId = driverNumbers[Number(num)];
       if (driverId) {
         results[driverId] = pos;
       }
@@ -86,92 +78,180 @@ export async function getOpenF1Classification(sessionKey: number): Promise<Recor
   }
 }
 
+// DNF/DNS flags from the official session result. The position feed alone
+// keeps a retired driver at the place they held when they stopped.
+export async function getOpenF1RetiredDrivers(sessionKey: number, driverNumbers: Record<number, string>): Promise<{ dnfDrivers: string[]; dnsDrivers: string[] }> {
+  const url = `${OPENF1_BASE}/session_result?session_key=${sessionKey}`;
+  const dnfDrivers: string[] = [];
+  const dnsDrivers: string[] = [];
+
+  try {
+    const res = await fetch(url);
+    const data = await res.json();
+    if (Array.isArray(data)) {
+      for (const record of data) {
+        const driverId = driverNumbers[Number(record.driver_number)];
+        if (!driverId) continue;
+        if (record.dns === true) dnsDrivers.push(driverId);
+        if (record.dnf === true) dnfDrivers.push(driverId);
+      }
+    }
+  } catch (e) {
+    console.error("OpenF1 session_result fetch error:", e);
+  }
+  return { dnfDrivers, dnsDrivers };
+}
+
+// Race-control messages of a session; penalties are read from them.
+export async function getOpenF1RaceControl(sessionKey: number): Promise<Record<string, unknown>[]> {
+  const url = `${OPENF1_BASE}/race_control?session_key=${sessionKey}`;
+
+  try {
+    const res = await fetch(url);
+    const data = await res.json();
+    if (Array.isArray(data)) return data;
+  } catch (e) {
+    console.error("OpenF1 race_control fetch error:", e);
+  }
+  return [];
+}
+
 export async function syncRaceResults(prisma: PrismaClient, raceId: string) {
   const race = await prisma.race.findUnique({ where: { id: raceId } });
   if (!race) throw new Error("Race not found");
 
   const location = race.city || race.country || "";
-  const year = race.season && race.season <= 2024 ? race.season : 2024;
+  const year = race.season || new Date().getUTCFullYear();
+  const driverNumbers = await loadDriverNumbers(prisma);
 
   // 1. Fetch Classifications for all relevant sessions
-  const combinedResults: Record<string, Record<string, number>> = {};
+  const combinedResults: CombinedResults = {};
+  const driverOf = (n: number) => driverNumbers[n] ?? null;
+
+  // Grid penalties for this race are handed out from first practice up to
+  // qualifying, like in the Edge Function's sync.
+  const gridMessages: Record<string, unknown>[] = [];
+  const gridSessions = race.isSprint ? ["Practice 1", "Sprint Qualifying", "Sprint"] : ["Practice 1", "Practice 2", "Practice 3"];
+  for (const name of gridSessions) {
+    const key = await getOpenF1SessionKey(year, location, name);
+    if (key) gridMessages.push(...await getOpenF1RaceControl(key));
+    await new Promise(r => setTimeout(r, 1000));
+  }
 
   // Always fetch Qualifying
   const qualiKey = await getOpenF1SessionKey(year, location, "Qualifying");
   if (qualiKey) {
-    combinedResults.quali = await getOpenF1Classification(qualiKey);
+    combinedResults.quali = await getOpenF1Classification(qualiKey, driverNumbers);
+    gridMessages.push(...await getOpenF1RaceControl(qualiKey));
   }
+  const { gridPenalties } = countRaceControlPenalties(gridMessages, driverOf);
+  if (Object.keys(gridPenalties).length > 0) combinedResults.gridPenalties = gridPenalties;
 
   // Rate limit protection
   await new Promise(r => setTimeout(r, 1000));
 
-  // Fetch Race or Sprint
-  const mainSessionName = race.isSprint ? "Sprint" : "Race";
-  const mainKey = await getOpenF1SessionKey(year, location, mainSessionName);
+  if (race.isSprint) {
+    const sprintQualiKey = await getOpenF1SessionKey(year, location, "Sprint Qualifying");
+    if (sprintQualiKey) {
+      combinedResults.sprintQuali = await getOpenF1Classification(sprintQualiKey, driverNumbers);
+    }
+    await new Promise(r => setTimeout(r, 1000));
+
+    const sprintKey = await getOpenF1SessionKey(year, location, "Sprint");
+    if (sprintKey) {
+      combinedResults.sprint = await getOpenF1Classification(sprintKey, driverNumbers);
+    }
+    await new Promise(r => setTimeout(r, 1000));
+  }
+
+  const raceKey = await getOpenF1SessionKey(year, location, "Race");
   let classification: Record<string, number> = {};
-  
-  if (mainKey) {
-    classification = await getOpenF1Classification(mainKey);
-    combinedResults[race.isSprint ? "sprint" : "race"] = classification;
+
+  if (raceKey) {
+    classification = await getOpenF1Classification(raceKey, driverNumbers);
+    combinedResults.race = classification;
+    const { dnfDrivers, dnsDrivers } = await getOpenF1RetiredDrivers(raceKey, driverNumbers);
+    combinedResults.dnfDrivers = dnfDrivers;
+    combinedResults.dnsDrivers = dnsDrivers;
+    const { racePenalties } = countRaceControlPenalties(await getOpenF1RaceControl(raceKey), driverOf);
+    if (Object.keys(racePenalties).length > 0) combinedResults.racePenalties = racePenalties;
   }
 
-  if (Object.keys(combinedResults).length === 0) {
+  if (!combinedResults.quali && !combinedResults.race && !combinedResults.sprint) {
     throw new Error("No results found in OpenF1 for any session of this race.");
   }
-
-  // Calculate Points per Driver
-  const driverRacePoints: Record<string, number> = {};
-  for (const [driverId, position] of Object.entries(classification)) {
-    const pointsArray = race.isSprint ? DEFAULT_SPRINT_POINTS : DEFAULT_RACE_POINTS;
-    const pts = (position >= 1 && position <= pointsArray.length) ? (pointsArray[position - 1] ?? 0) : 0;
-    driverRacePoints[driverId] = pts;
+  if (isRaceSameAsGrid(combinedResults)) {
+    throw new Error("race_equals_grid");
   }
 
+  // Scored as entered for this race (reserves, team changes); see RaceEntry.
+  const entries = await prisma.raceEntry.findMany({ where: { raceId: race.id }, select: { driverId: true, constructorId: true, carNumber: true } });
+  const allDrivers = applyRaceEntries(await prisma.driver.findMany({ select: { id: true, constructorId: true } }), entries);
+  const teammates = buildTeammateMap(allDrivers, entries);
+
+  // Global driver standings use the default rules; team totals use each league's own.
+  const official = calculateWeekendPoints(combinedResults, DEFAULT_SCORING_RULES, teammates, allDrivers);
+  const previous = (race.results ?? {}) as CombinedResults;
+  const previousDriverPoints = previous.driverPoints ?? {};
+
   await prisma.$transaction(async (tx: any) => {
-    // 1. Update Global Driver Points (Cumulative)
-    for (const [driverId, points] of Object.entries(driverRacePoints)) {
-      // Check if driver exists to prevent crashes during simulation testing with old data
-      const driverExists = await tx.driver.findUnique({ where: { id: driverId } });
-      if (driverExists) {
+    // 1. Update Global Driver Points (Cumulative, replacing any earlier sync of this race)
+    for (const d of allDrivers) {
+      const delta = (official.driverPoints[d.id] ?? 0) - (previousDriverPoints[d.id] ?? 0);
+      if (delta !== 0) {
         await tx.driver.update({
-          where: { id: driverId },
-          data: { points: { increment: points } }
+          where: { id: d.id },
+          data: { points: { increment: delta } }
         });
       }
     }
 
-    // 2. Snapshot Results for all Teams
+    // 2. Drop a previous sync of this race before writing the new snapshot
+    const oldResults = await tx.teamResult.findMany({ where: { raceId: race.id } });
+    for (const old of oldResults) {
+      await tx.team.update({
+        where: { id: old.teamId },
+        data: { totalPoints: { decrement: old.points } }
+      });
+    }
+    await tx.teamResult.deleteMany({ where: { raceId: race.id } });
+
+    // 3. Snapshot Results for all Teams, scoring the lineup frozen at lock
     const teams = await tx.team.findMany({
-      include: { drivers: true }
+      include: { drivers: true, league: { include: { rulesVersions: true } }, lineups: { where: { raceId: race.id } }, chips: { where: { raceId: race.id } } }
     });
+    const pointsByLeague: Record<string, Record<string, number>> = {};
 
     for (const team of teams) {
-      let teamPoints = 0;
-      const resultDrivers = [];
-
-      for (const td of team.drivers) {
-        let pts = (driverRacePoints[td.driverId] as number) || 0;
-        
-        // Captain Bonus (2x)
-        if (team.captainId === td.driverId) {
-          pts *= 2;
-        }
-
-        teamPoints += pts;
-        resultDrivers.push({
-          driverId: td.driverId,
-          points: pts
-        });
+      // Rules version in force for this race, not the league's latest
+      const version = pickRulesVersion<RulesVersion & { rules: unknown }>(team.league.rulesVersions, year, race.round);
+      const rules = normalizeScoringRules(version?.rules || team.league.rules);
+      let driverPoints = pointsByLeague[team.leagueId];
+      if (!driverPoints) {
+        driverPoints = calculateWeekendPoints(combinedResults, rules, teammates, allDrivers).driverPoints;
+        pointsByLeague[team.leagueId] = driverPoints;
       }
 
+      const snapshot = team.lineups[0];
+      const lineup: TeamLineup = snapshot
+        ? { driverIds: snapshot.driverIds as string[], captainId: snapshot.captainId, reserveId: snapshot.reserveId }
+        : { driverIds: team.drivers.map((td: any) => td.driverId), captainId: team.captainId, reserveId: team.reserveId };
+
+      // A chip played this weekend may change the rules for this team only
+      const teamRules = applyChip(rules, team.chips[0]?.chip as ChipId | undefined);
+      const teamDriverPoints = teamRules === rules
+        ? driverPoints
+        : calculateWeekendPoints(combinedResults, teamRules, teammates, allDrivers).driverPoints;
+      const { points: teamPoints, drivers: resultDrivers } = scoreTeamLineup(teamDriverPoints, lineup, combinedResults, teamRules);
+
       // Create TeamResult snapshot
       await tx.teamResult.create({
         data: {
           raceId: race.id,
           teamId: team.id,
           points: teamPoints,
-          captainId: team.captainId,
-          reserveId: team.reserveId,
+          captainId: lineup.captainId,
+          reserveId: lineup.reserveId,
           drivers: {
             create: resultDrivers
           }
@@ -185,12 +265,12 @@ export async function syncRaceResults(prisma: PrismaClient, raceId: string) {
       });
     }
 
-    // 3. Mark race as completed and store combined results
+    // 4. Mark race as completed and store combined results
     await tx.race.update({
       where: { id: raceId },
-      data: { 
+      data: {
         isCompleted: true,
-        results: combinedResults
+        results: { ...combinedResults, ...official }
       }
     });
   });
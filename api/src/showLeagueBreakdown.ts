@@ -2,6 +2,7 @@ import "dotenv/config";
 import { PrismaClient } from '@prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import pg from 'pg';
+import { DEFAULT_SCORING_RULES, isReserveActivated, type ScoringRules } from '../../supabase/functions/_shared/scoring';
 
 const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
 const adapter = new PrismaPg(pool);
@@ -13,6 +14,7 @@ async function main() {
   const league = await prisma.league.findFirst({ where: { joinCode: JOIN_CODE } });
   if (!league) { console.log('League not found with code', JOIN_CODE); return; }
   console.log(`\nLega: ${league.name} (code: ${JOIN_CODE})\n`);
+  const rules = { ...DEFAULT_SCORING_RULES, ...((league.rules || {}) as Partial<ScoringRules>) } as ScoringRules;
 
   const race = await prisma.race.findUnique({ where: { id: 'r1' } });
   if (!race) { console.log('Race r1 not found'); return; }
@@ -50,20 +52,18 @@ async function main() {
       let mult = 1;
       
       if (isRes) {
-        // Reserve is insurance: only scores if a starter DNFed
-        const classification = results.race || {};
-        const starters = tr.drivers.filter((x: any) => x.driverId !== tr.reserveId);
-        const anyStarterDNF = starters.some((x: any) => !classification[x.driverId]);
-        if (!anyStarterDNF) {
+        // Reserve is insurance: only scores when the league's activation policy triggers
+        const driverIds = tr.drivers.map((x: any) => x.driverId);
+        if (!isReserveActivated(driverIds, tr.reserveId, results, rules)) {
           role = 'RES 🪑  ';
           mult = 0; // bench
         } else {
-          role = 'RES ✅  ';
-          mult = 1; // enters at full points
+          role = `RES ×${rules.reserveMultiplier.toFixed(1)}`;
+          mult = rules.reserveMultiplier;
         }
       } else if (isCpt) {
-        role = 'CPT ×2.0';
-        mult = 2.0;
+        role = `CPT ×${rules.captainMultiplier.toFixed(1)}`;
+        mult = rules.captainMultiplier;
       }
       
       const final = Math.round(base * mult * 10) / 10;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { type AttemptPolicy, type AttemptState, attemptRetryAfterMs, refundFailure, registerFailure } from "./attempts.ts";
+
+const policy: AttemptPolicy = { freeAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000, forgetAfterMs: 60_000 };
+const now = Date.parse("2026-10-19T12:00:00Z");
+
+const fail = (times: number, start: AttemptState | null = null) => {
+  let state = start;
+  for (let i = 0; i < times; i++) state = registerFailure(state, policy, now);
+  return state!;
+};
+
+describe("Attempt throttling", () => {
+  it("lets the free attempts through, then doubles the wait up to the lockout", () => {
+    expect(attemptRetryAfterMs(fail(3), now)).toBe(0);
+    expect(attemptRetryAfterMs(fail(4), now)).toBe(1000);
+    expect(attemptRetryAfterMs(fail(5), now)).toBe(2000);
+    expect(attemptRetryAfterMs(fail(6), now)).toBe(4000);
+    expect(attemptRetryAfterMs(fail(7), now)).toBe(5000);
+    expect(attemptRetryAfterMs(fail(200), now)).toBe(5000);
+  });
+
+  it("counts down and forgets a key that stays quiet", () => {
+    const locked = fail(5);
+    expect(attemptRetryAfterMs(locked, now + 1500)).toBe(500);
+    expect(attemptRetryAfterMs(locked, now + 2000)).toBe(0);
+    expect(registerFailure(locked, policy, now + 30_000).failures).toBe(6);
+    const fresh = registerFailure(locked, policy, now + 60_000);
+    expect(fresh).toEqual({ failures: 1, lastFailureAt: now + 60_000, lockedUntil: null });
+    expect(attemptRetryAfterMs(null, now)).toBe(0);
+  });
+
+  it("gives a successful attempt back without lifting a lock other failures earned", () => {
+    expect(refundFailure(fail(4), policy)).toEqual({ ...fail(4), failures: 3, lockedUntil: null });
+    const stillLocked = refundFailure(fail(6), policy);
+    expect(stillLocked.failures).toBe(5);
+    expect(attemptRetryAfterMs(stillLocked, now)).toBe(4000);
+    expect(refundFailure({ failures: 0, lastFailureAt: null, lockedUntil: null }, policy).failures).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+// Throttling of failed login, registration and join-code attempts.
+
+export interface AttemptPolicy {
+  freeAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  forgetAfterMs: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+export const ATTEMPT_POLICIES = {
+  // Wrong passwords for one account name, from anywhere.
+  login_account: { freeAttempts: 5, baseDelayMs: 2 * SECOND, maxDelayMs: 15 * MINUTE, forgetAfterMs: 24 * HOUR },
+  // Wrong passwords from one address, for any name: catches spraying.
+  login_address: { freeAttempts: 20, baseDelayMs: 2 * SECOND, maxDelayMs: 15 * MINUTE, forgetAfterMs: 24 * HOUR },
+  // Unknown join codes, per user and per address.
+  join_account: { freeAttempts: 5, baseDelayMs: 5 * SECOND, maxDelayMs: 30 * MINUTE, forgetAfterMs: 24 * HOUR },
+  join_address: { freeAttempts: 10, baseDelayMs: 5 * SECOND, maxDelayMs: 30 * MINUTE, forgetAfterMs: 24 * HOUR },
+  // Every registration counts, successful or not.
+  register_address: { freeAttempts: 5, baseDelayMs: MINUTE, maxDelayMs: HOUR, forgetAfterMs: HOUR },
+} satisfies Record<string, AttemptPolicy>;
+
+export type AttemptScope = keyof typeof ATTEMPT_POLICIES;
+
+// Times in epoch milliseconds.
+export interface AttemptState {
+  failures: number;
+  lastFailureAt: number | null;
+  lockedUntil: number | null;
+}
+
+// How long the key has to wait; 0 when it may try now.
+export function attemptRetryAfterMs(state: AttemptState | null, now: number): number {
+  if (!state?.lockedUntil) return 0;
+  return Math.max(0, state.lockedUntil - now);
+}
+
+// Past `freeAttempts` failures every further one locks the key for
+// `baseDelayMs`, doubled each time up to `maxDelayMs`; a key that stays quiet
+// for `forgetAfterMs` starts over.
+export function registerFailure(state: AttemptState | null, policy: AttemptPolicy, now: number): AttemptState {
+  const forgotten = !state || state.lastFailureAt === null || now - state.lastFailureAt >= policy.forgetAfterMs;
+  const failures = (forgotten ? 0 : state.failures) + 1;
+  const excess = failures - policy.freeAttempts;
+  const delay = excess > 0 ? Math.min(policy.baseDelayMs * 2 ** (excess - 1), policy.maxDelayMs) : 0;
+  return { failures, lastFailureAt: now, lockedUntil: delay > 0 ? now + delay : null };
+}
+
+// Takes back the failure counted up front for an attempt that then succeeded.
+// Its lock goes with it unless other failures keep the key past the free
+// attempts.
+export function refundFailure(state: AttemptState, policy: AttemptPolicy): AttemptState {
+  const failures = Math.max(0, state.failures - 1);
+  return { ...state, failures, lockedUntil: failures > policy.freeAttempts ? state.lockedUntil : null };
+}
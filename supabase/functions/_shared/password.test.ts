@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { constantTimeEqual, formatPasswordHash, needsRehash, parsePasswordHash, validatePassword } from "./password.ts";
+
+describe("Password policy", () => {
+  it("accepts a long enough password that is not the user's name", () => {
+    expect(validatePassword("box box box", "Lewis")).toEqual([]);
+  });
+
+  it("rejects short, common, repeated and name passwords", () => {
+    expect(validatePassword("abc", "Lewis")).toEqual(["too_short"]);
+    expect(validatePassword("Password", "Lewis")).toEqual(["too_common"]);
+    expect(validatePassword("aaaaaaaaaa", "Lewis")).toEqual(["too_common"]);
+    expect(validatePassword("hamilton44", "Hamilton44")).toEqual(["same_as_name"]);
+    expect(validatePassword("x".repeat(12) + "y".repeat(120), "Lewis")).toEqual(["too_long"]);
+  });
+});
+
+describe("Password hash format", () => {
+  it("round-trips a PBKDF2 hash", () => {
+    const h = { algorithm: "pbkdf2_sha256" as const, iterations: 600000, salt: new Uint8Array([1, 2, 255]), hash: new Uint8Array([16, 32]) };
+    const stored = formatPasswordHash(h);
+    expect(stored).toBe("pbkdf2_sha256$600000$0102ff$1020");
+    expect(parsePasswordHash(stored)).toEqual(h);
+    expect(needsRehash(h, 600000)).toBe(false);
+    expect(needsRehash(h, 700000)).toBe(true);
+  });
+
+  it("reads legacy SHA-256 digests and flags them for rehash", () => {
+    const legacy = parsePasswordHash("5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8");
+    expect(legacy?.algorithm).toBe("sha256");
+    expect(legacy?.hash.length).toBe(32);
+    expect(needsRehash(legacy!, 1)).toBe(true);
+  });
+
+  it("rejects malformed values", () => {
+    expect(parsePasswordHash(null)).toBeNull();
+    expect(parsePasswordHash("pbkdf2_sha256$0$00$00")).toBeNull();
+    expect(parsePasswordHash("pbkdf2_sha256$1000$zz$00")).toBeNull();
+    expect(parsePasswordHash("bcrypt$10$abc")).toBeNull();
+  });
+
+  it("compares digests of different lengths as unequal", () => {
+    expect(constantTimeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+    expect(constantTimeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2, 0]))).toBe(false);
+    expect(constantTimeEqual(new Uint8Array([1, 3]), new Uint8Array([1, 2]))).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+// Password policy and the stored password hash format.
+
+export const PASSWORD_MIN_LENGTH = 8;
+// PBKDF2 cost grows with the input; nobody needs more.
+export const PASSWORD_MAX_LENGTH = 128;
+
+export type PasswordIssue = 'too_short' | 'too_long' | 'same_as_name' | 'too_common';
+
+// Lowercased; checked before the length so "password" reads as common.
+const COMMON_PASSWORDS = new Set([
+  'password', 'password1', 'password123', 'passw0rd', 'qwertyui', 'qwerty123', '12345678', '123456789',
+  '1234567890', '87654321', '11111111', '00000000', 'iloveyou', 'abcdefgh', 'abc12345', 'letmein1',
+  'football', 'ferrari1', 'formula1', 'fantaf1', 'fantaf12026',
+]);
+
+export function validatePassword(password: string, name: string): PasswordIssue[] {
+  const lowered = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(lowered) || /^(.)\1*$/.test(password)) return ['too_common'];
+  const issues: PasswordIssue[] = [];
+  if (password.length < PASSWORD_MIN_LENGTH) issues.push('too_short');
+  if (password.length > PASSWORD_MAX_LENGTH) issues.push('too_long');
+  if (name.trim() && lowered === name.trim().toLowerCase()) issues.push('same_as_name');
+  return issues;
+}
+
+// Stored as
+//
+//   pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>
+//
+// Accounts created before that hold a bare, unsalted SHA-256 hex digest,
+// parsed as algorithm 'sha256' and replaced on the next successful login.
+export interface PasswordHash {
+  algorithm: 'pbkdf2_sha256' | 'sha256';
+  // 1 and an empty salt for legacy hashes.
+  iterations: number;
+  salt: Uint8Array;
+  hash: Uint8Array;
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (value: string): Uint8Array | null => {
+  if (value.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(value)) return null;
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  return bytes;
+};
+
+export function formatPasswordHash(h: PasswordHash): string {
+  if (h.algorithm === 'sha256') return toHex(h.hash);
+  return `${h.algorithm}$${h.iterations}$${toHex(h.salt)}$${toHex(h.hash)}`;
+}
+
+export function parsePasswordHash(stored: string | null | undefined): PasswordHash | null {
+  if (!stored) return null;
+  if (/^[0-9a-f]{64}$/i.test(stored)) return { algorithm: 'sha256', iterations: 1, salt: new Uint8Array(0), hash: fromHex(stored)! };
+  const [algorithm, iterations, salt, hash, ...rest] = stored.split('$');
+  if (algorithm !== 'pbkdf2_sha256' || rest.length > 0) return null;
+  const rounds = Number(iterations);
+  const saltBytes = fromHex(salt ?? '');
+  const hashBytes = fromHex(hash ?? '');
+  if (!Number.isInteger(rounds) || rounds < 1 || !saltBytes?.length || !hashBytes?.length) return null;
+  return { algorithm, iterations: rounds, salt: saltBytes, hash: hashBytes };
+}
+
+// Legacy hashes and ones derived with fewer iterations than today's.
+export function needsRehash(h: PasswordHash, iterations: number): boolean {
+  return h.algorithm !== 'pbkdf2_sha256' || h.iterations < iterations;
+}
+
+// Compares every byte so the time taken does not tell how many matched.
+export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  return diff === 0;
+}
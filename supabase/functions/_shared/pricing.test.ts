@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { calculatePriceChanges, DEFAULT_PRICING_RULES, type PricingInput } from "./pricing.ts";
+
+const field: PricingInput[] = [
+  { driverId: "ver", price: 30, points: 24, recentPoints: [], ownership: 0.5 },
+  { driverId: "alb", price: 10, points: 18, recentPoints: [], ownership: 0.1 },
+  { driverId: "bot", price: 5, points: 3, recentPoints: [], ownership: 0.0 },
+];
+
+describe("Driver pricing", () => {
+  const byId = (changes: ReturnType<typeof calculatePriceChanges>) => Object.fromEntries(changes.map((c) => [c.driverId, c]));
+
+  it("expects points in proportion to price", () => {
+    const changes = byId(calculatePriceChanges(field));
+    // Field average: 15 pts at $15M.
+    expect(changes.ver?.expected).toBe(30);
+    expect(changes.alb?.expected).toBe(10);
+  });
+
+  it("raises a cheap driver who outscored their price and lowers an expensive one who did not", () => {
+    const noOwnership = { ...DEFAULT_PRICING_RULES, ownershipWeight: 0 };
+    const changes = byId(calculatePriceChanges(field, noOwnership));
+    expect(changes.alb?.change).toBe(0.4);
+    expect(changes.ver?.change).toBe(-0.3);
+  });
+
+  it("caps the move per round and respects the price floor", () => {
+    const changes = byId(calculatePriceChanges([
+      { driverId: "ver", price: 30, points: 100, recentPoints: [], ownership: 0 },
+      { driverId: "bot", price: 3, points: -50, recentPoints: [], ownership: 0 },
+    ]));
+    expect(changes.ver?.change).toBe(DEFAULT_PRICING_RULES.maxChangePerRound);
+    expect(changes.bot?.newPrice).toBe(DEFAULT_PRICING_RULES.minPrice);
+  });
+
+  it("adds recent form only for drivers with earlier races", () => {
+    const withForm = field.map((d) => (d.driverId === "alb" ? { ...d, recentPoints: [30, 30, 30, 0] } : d));
+    const changes = byId(calculatePriceChanges(withForm, { ...DEFAULT_PRICING_RULES, ownershipWeight: 0 }));
+    expect(changes.alb?.form).toBe(30);
+    expect(changes.alb?.change).toBe(1.0);
+    expect(changes.ver?.form).toBeNull();
+  });
+
+  it("pushes widely owned drivers up", () => {
+    const level = field.map((d) => ({ ...d, points: d.price }));
+    const changes = byId(calculatePriceChanges(level));
+    expect(changes.ver?.change).toBeGreaterThan(0);
+    expect(changes.bot?.change).toBeLessThan(0);
+  });
+});
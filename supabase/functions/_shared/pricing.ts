@@ -0,0 +1,89 @@
+// Driver price changes after a race is final (repriceDriversForRace in fanta-api).
+
+export interface PricingRules {
+  // $M per fantasy point above (or below) what the price implies, this race.
+  pointsWeight: number;
+  // $M per point of recent average above (or below) expectation.
+  formWeight: number;
+  // Number of earlier races averaged into the form term.
+  formWindow: number;
+  // $M per unit of ownership share above the field average (0..1 scale).
+  ownershipWeight: number;
+  // Largest move, up or down, in one round.
+  maxChangePerRound: number;
+  // Prices are rounded to this step.
+  priceStep: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  pointsWeight: 0.05,
+  formWeight: 0.03,
+  formWindow: 3,
+  ownershipWeight: 2.0,
+  maxChangePerRound: 1.0,
+  priceStep: 0.1,
+  minPrice: 3.0,
+  maxPrice: 40.0,
+};
+
+export interface PricingInput {
+  driverId: string;
+  price: number;
+  // Official fantasy points of the race being priced (Race.results.driverPoints).
+  points: number;
+  // Official points of the previous races, most recent first.
+  recentPoints: number[];
+  // Share of teams that own the driver, 0..1.
+  ownership: number;
+}
+
+// One driver's repricing, with the inputs kept so the move can be explained.
+export interface PriceChange {
+  driverId: string;
+  oldPrice: number;
+  newPrice: number;
+  change: number;
+  points: number;
+  expected: number;
+  form: number | null;
+  ownership: number;
+}
+
+const average = (values: number[]) => (values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length);
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number, decimals = 2) => Number(value.toFixed(decimals));
+
+// Expected points scale with price: a driver priced at the field average is
+// expected to score the field's average for the race. A driver without
+// earlier races has no form term.
+export function calculatePriceChanges(drivers: PricingInput[], rules: PricingRules = DEFAULT_PRICING_RULES): PriceChange[] {
+  const meanPrice = average(drivers.map((d) => d.price));
+  const meanPoints = average(drivers.map((d) => d.points));
+  const meanOwnership = average(drivers.map((d) => d.ownership));
+  const step = rules.priceStep > 0 ? rules.priceStep : 0.1;
+
+  return drivers.map((d) => {
+    const expected = meanPrice > 0 ? (meanPoints * d.price) / meanPrice : meanPoints;
+    const recent = d.recentPoints.slice(0, Math.max(0, rules.formWindow));
+    const form = recent.length > 0 ? average(recent) : null;
+
+    const raw = rules.pointsWeight * (d.points - expected)
+      + (form === null ? 0 : rules.formWeight * (form - expected))
+      + rules.ownershipWeight * (d.ownership - meanOwnership);
+    const capped = clamp(raw, -rules.maxChangePerRound, rules.maxChangePerRound);
+    const newPrice = round(clamp(Math.round((d.price + capped) / step) * step, rules.minPrice, rules.maxPrice));
+
+    return {
+      driverId: d.driverId,
+      oldPrice: d.price,
+      newPrice,
+      change: round(newPrice - d.price),
+      points: d.points,
+      expected: round(expected),
+      form: form === null ? null : round(form),
+      ownership: round(d.ownership, 4),
+    };
+  });
+}
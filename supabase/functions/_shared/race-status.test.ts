@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { advanceRaceStatus, raceIsLocked, racesAwaitingLineupSnapshot, type RaceSchedule, selectActiveRace } from "./race-status.ts";
+
+const HOUR = 60 * 60 * 1000;
+const quali = Date.parse("2026-05-02T14:00:00Z");
+const race = (overrides: Partial<RaceSchedule & { id: string }> = {}): RaceSchedule & { id: string } => ({
+  id: "r1",
+  isSprint: false,
+  qualifyingUtc: "2026-05-02T14:00:00Z",
+  sprintQualifyingUtc: null,
+  date: "2026-05-03T13:00:00Z",
+  isCompleted: false,
+  status: null,
+  ...overrides,
+});
+
+describe("Race status", () => {
+  it("follows the clock from scheduled to in progress, then closes an unscored race", () => {
+    expect(advanceRaceStatus(race(), quali - HOUR)).toBe("scheduled");
+    expect(advanceRaceStatus(race(), quali - 60 * 1000)).toBe("locked");
+    expect(advanceRaceStatus(race(), quali + HOUR)).toBe("in_progress");
+    expect(advanceRaceStatus(race(), quali + 73 * HOUR)).toBe("final");
+  });
+
+  it("keeps a published race provisional until the resync window ends", () => {
+    const published = race({ isCompleted: true, status: "in_progress" });
+    expect(advanceRaceStatus(published, quali + 26 * HOUR)).toBe("provisional");
+    expect(advanceRaceStatus(published, quali + 11 * 24 * HOUR)).toBe("final");
+  });
+
+  it("never moves a cancelled, postponed or final race, nor back from an early lock", () => {
+    expect(advanceRaceStatus(race({ status: "cancelled" }), quali + HOUR)).toBe("cancelled");
+    expect(advanceRaceStatus(race({ status: "postponed", isCompleted: true }), quali)).toBe("postponed");
+    expect(advanceRaceStatus(race({ status: "final" }), quali - HOUR)).toBe("final");
+    expect(advanceRaceStatus(race({ status: "locked" }), quali - 2 * HOUR)).toBe("locked");
+    expect(raceIsLocked(race({ status: "locked" }), quali - 2 * HOUR)).toBe(true);
+    expect(raceIsLocked(race({ status: "postponed" }), quali + HOUR)).toBe(false);
+  });
+
+  it("skips races that are off or done when picking the active one", () => {
+    const races = [
+      race({ id: "done", isCompleted: true }),
+      race({ id: "off", status: "cancelled", qualifyingUtc: "2026-05-09T14:00:00Z", date: "2026-05-10T13:00:00Z" }),
+      race({ id: "next", qualifyingUtc: "2026-05-16T14:00:00Z", date: "2026-05-17T13:00:00Z" }),
+    ];
+    expect(selectActiveRace(races, quali + 2 * 24 * HOUR)?.id).toBe("next");
+    expect(selectActiveRace(races.slice(0, 2), quali + 2 * 24 * HOUR)?.id).toBe("done");
+    expect(selectActiveRace([], quali)).toBeNull();
+  });
+
+  it("still freezes a race's lineups when no request came between its lock and the sync", () => {
+    const races = [
+      race({ id: "silent" }),
+      race({ id: "next", qualifyingUtc: "2026-05-16T14:00:00Z", date: "2026-05-17T13:00:00Z" }),
+    ];
+    const firstRequest = quali + 4 * 24 * HOUR;
+    expect(selectActiveRace(races, firstRequest)?.id).toBe("next");
+    expect(racesAwaitingLineupSnapshot(races, firstRequest).map((r) => r.id)).toEqual(["silent"]);
+    expect(racesAwaitingLineupSnapshot(races, quali - HOUR)).toEqual([]);
+    expect(racesAwaitingLineupSnapshot([race({ isCompleted: true }), race({ status: "cancelled" })], firstRequest)).toEqual([]);
+  });
+});
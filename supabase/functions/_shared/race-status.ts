@@ -0,0 +1,113 @@
+// Race status lifecycle, lineup lock times and the choice of the active race.
+
+// Race.status, moved forward by advanceRaceStatus or set by an admin:
+//
+//   scheduled -> locked -> in_progress -> provisional -> final
+//
+// locked: lineups are frozen (LOCK_OFFSET before the first scored session).
+// in_progress: the weekend's first scored session has started.
+// provisional: the race is published; later syncs may still correct it.
+// final: settled, the crons leave it alone. cancelled and postponed are only
+// ever set (and lifted) by an admin.
+
+export const RACE_STATUSES = ['scheduled', 'locked', 'in_progress', 'provisional', 'final', 'cancelled', 'postponed'] as const;
+export type RaceStatus = typeof RACE_STATUSES[number];
+
+export const isRaceStatus = (value: unknown): value is RaceStatus =>
+  typeof value === 'string' && (RACE_STATUSES as readonly string[]).includes(value);
+
+// Races that do not take place (for now): never active, never locked.
+export const isRaceOff = (status: RaceStatus | null | undefined): boolean =>
+  status === 'cancelled' || status === 'postponed';
+
+export interface RaceSchedule {
+  isSprint: boolean;
+  qualifyingUtc: string | Date | null;
+  sprintQualifyingUtc: string | Date | null;
+  date: string | Date | null;
+  isCompleted: boolean;
+  status?: RaceStatus | null;
+}
+
+export interface RaceTiming {
+  // Lineups lock this long before the first scored session.
+  lockOffsetMs: number;
+  // A race still without results this long after its first session is
+  // closed as final (the old 72h auto-close).
+  autoCloseMs: number;
+  // A published race becomes final this long after race day, when
+  // /cron/resync-recent stops looking at it.
+  finalAfterMs: number;
+}
+
+export const DEFAULT_RACE_TIMING: RaceTiming = {
+  lockOffsetMs: 5 * 60 * 1000,
+  autoCloseMs: 72 * 60 * 60 * 1000,
+  finalAfterMs: 9 * 24 * 60 * 60 * 1000,
+};
+
+const parseTime = (value: string | Date | null | undefined): number | null => {
+  if (!value) return null;
+  const ms = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Number.isFinite(ms) ? ms : null;
+};
+
+// First scored session: sprint qualifying on a sprint weekend, else qualifying.
+export function raceStartMs(race: RaceSchedule): number | null {
+  const primary = race.isSprint ? race.sprintQualifyingUtc : race.qualifyingUtc;
+  return parseTime(primary) ?? parseTime(race.qualifyingUtc) ?? parseTime(race.date);
+}
+
+export function raceLockMs(race: RaceSchedule, timing: RaceTiming = DEFAULT_RACE_TIMING): number | null {
+  const start = raceStartMs(race);
+  return start === null ? null : start - timing.lockOffsetMs;
+}
+
+const TIMED_ORDER: RaceStatus[] = ['scheduled', 'locked', 'in_progress'];
+
+// Status `race` should have at `now`. Cancelled, postponed and final are
+// kept; a published race is provisional until finalAfterMs after race day.
+// Otherwise the status follows the clock, but never goes back from one an
+// admin set ahead of it (e.g. locked early).
+export function advanceRaceStatus(race: RaceSchedule, now: number, timing: RaceTiming = DEFAULT_RACE_TIMING): RaceStatus {
+  const stored = race.status ?? null;
+  if (stored === 'final' || isRaceOff(stored)) return stored!;
+  if (race.isCompleted || stored === 'provisional') {
+    const day = parseTime(race.date);
+    return day !== null && now > day + timing.finalAfterMs ? 'final' : 'provisional';
+  }
+  const start = raceStartMs(race);
+  let timed: RaceStatus = 'scheduled';
+  if (start !== null) {
+    if (now > start + timing.autoCloseMs) return 'final';
+    if (now >= start) timed = 'in_progress';
+    else if (now > start - timing.lockOffsetMs) timed = 'locked';
+  }
+  return stored && TIMED_ORDER.indexOf(stored) > TIMED_ORDER.indexOf(timed) ? stored : timed;
+}
+
+export function raceIsLocked(race: RaceSchedule, now: number, timing: RaceTiming = DEFAULT_RACE_TIMING): boolean {
+  const status = advanceRaceStatus(race, now, timing);
+  if (isRaceOff(status)) return false;
+  return status !== 'scheduled';
+}
+
+// The race lineups are for: the first one (in calendar order) still
+// scheduled, locked or in progress. Once every race is done, the last one
+// that took place.
+export function selectActiveRace<T extends RaceSchedule>(races: T[], now: number, timing: RaceTiming = DEFAULT_RACE_TIMING): T | null {
+  if (races.length === 0) return null;
+  const statuses = races.map((race) => advanceRaceStatus(race, now, timing));
+  const open = races.find((_race, idx) => TIMED_ORDER.includes(statuses[idx]!));
+  if (open) return open;
+  const held = races.filter((_race, idx) => !isRaceOff(statuses[idx]));
+  return held[held.length - 1] ?? races[races.length - 1] ?? null;
+}
+
+// Races whose lineups have to be frozen: past their lock, not scored and not
+// off. A race that ran out its auto-close window without any request in
+// between still qualifies, so the first request after the lock freezes it
+// even though selectActiveRace has already moved on to the next round.
+export function racesAwaitingLineupSnapshot<T extends RaceSchedule>(races: T[], now: number, timing: RaceTiming = DEFAULT_RACE_TIMING): T[] {
+  return races.filter((race) => !race.isCompleted && !isRaceOff(race.status) && raceIsLocked(race, now, timing));
+}
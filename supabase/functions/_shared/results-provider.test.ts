@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { countRaceControlPenalties, createFixtureProvider, createOpenF1Provider, importErgastRace } from "./results-provider.ts";
+import raceControl from "./fixtures/race-control-penalties.json";
+
+const ergastRace = {
+  season: "2025",
+  round: "3",
+  raceName: "Japanese Grand Prix",
+  date: "2025-04-06",
+  time: "05:00:00Z",
+  Circuit: { Location: { locality: "Suzuka", country: "Japan" } },
+  Results: [
+    { number: "1", position: "1", status: "Finished", Driver: { code: "VER", givenName: "Max", familyName: "Verstappen" }, FastestLap: { lap: "50", Time: { time: "1:30.965" } } },
+    { number: "4", position: "2", status: "+1 Lap", Driver: { code: "NOR", givenName: "Lando", familyName: "Norris" }, FastestLap: { lap: "48", Time: { time: "1:31.102" } } },
+    { number: "14", position: "3", status: "Engine", Driver: { code: "ALO", givenName: "Fernando", familyName: "Alonso" } },
+    { number: "44", position: "4", status: "Disqualified", Driver: { code: "HAM", givenName: "Lewis", familyName: "Hamilton" } },
+    { number: "31", position: "5", status: "Did not start", Driver: { code: "OCO", givenName: "Esteban", familyName: "Ocon" } },
+  ],
+  QualifyingResults: [
+    { number: "1", position: "1", Driver: { code: "VER", givenName: "Max", familyName: "Verstappen" } },
+  ],
+};
+
+describe("Ergast import", () => {
+  const fixture = importErgastRace(ergastRace);
+  const race = fixture.data[20250033]!;
+
+  it("creates one session per result table with OpenF1 names", () => {
+    expect(fixture.sessions.map((s) => [s.session_key, s.session_name, s.location])).toEqual([
+      [20250031, "Qualifying", "Suzuka"],
+      [20250033, "Race", "Suzuka"],
+    ]);
+    expect(fixture.sessions[1]?.date_start).toBe("2025-04-06T05:00:00Z");
+  });
+
+  it("maps finishing status to retirement flags", () => {
+    const flags = Object.fromEntries(race.session_result!.map((r) => [r.driver_number, [r.dnf, r.dns, r.dsq]]));
+    expect(flags).toEqual({
+      1: [false, false, false],
+      4: [false, false, false],
+      14: [true, false, false],
+      44: [false, false, true],
+      31: [false, true, false],
+    });
+  });
+
+  it("keeps each driver's fastest lap in seconds", () => {
+    expect(race.laps).toEqual([
+      { driver_number: 1, lap_number: 50, lap_duration: 90.965 },
+      { driver_number: 4, lap_number: 48, lap_duration: 91.102 },
+    ]);
+    expect(race.drivers?.[0]).toMatchObject({ name_acronym: "VER", full_name: "Max Verstappen", broadcast_name: "M VERSTAPPEN" });
+  });
+});
+
+describe("Results providers", () => {
+  it("replays fixture sessions filtered like the OpenF1 query", async () => {
+    const fixture = importErgastRace(ergastRace);
+    const files: Record<string, unknown> = { "sessions.json": fixture.sessions, "20250033/session_result.json": fixture.data[20250033]!.session_result };
+    const provider = createFixtureProvider(async (path) => files[path] ?? null);
+
+    expect((await provider.sessions({ year: 2025, location: "suzuka", sessionName: "Race" }))?.map((s) => s.session_key)).toEqual([20250033]);
+    expect(await provider.sessions({ year: 2024 })).toEqual([]);
+    expect(await provider.sessionData(20250033, "session_result")).toHaveLength(5);
+    expect(await provider.sessionData(20250033, "race_control")).toEqual([]);
+  });
+
+  it("builds the OpenF1 URLs the sync used to call", async () => {
+    const urls: string[] = [];
+    const provider = createOpenF1Provider(async (url) => {
+      urls.push(url);
+      return [];
+    });
+    await provider.sessions({ year: 2026, countryName: "Monaco", sessionName: "Sprint Qualifying" });
+    await provider.sessionData(9158, "laps");
+    expect(urls).toEqual([
+      "https://api.openf1.org/v1/sessions?year=2026&country_name=Monaco&session_name=Sprint%20Qualifying",
+      "https://api.openf1.org/v1/laps?session_key=9158",
+    ]);
+  });
+});
+
+describe("Race-control penalties", () => {
+  const drivers: Record<number, string> = { 1: "ver", 10: "gas", 16: "lec", 44: "ham" };
+
+  it("counts a penalty announced more than once a single time", () => {
+    expect(countRaceControlPenalties(raceControl.rows, (n) => drivers[n] ?? null)).toEqual({
+      gridPenalties: { gas: 1 },
+      racePenalties: { ham: 2, ver: 1 },
+    });
+  });
+
+  it("resolves car numbers per session row", () => {
+    const rows = [{ session_key: 1, driver_number: 5, message: "5 PLACE GRID PENALTY FOR CAR 5 - POWER UNIT" }];
+    expect(countRaceControlPenalties(rows, (n, row) => (row.session_key === 1 && n === 5 ? "bor" : null)).gridPenalties).toEqual({ bor: 1 });
+  });
+});
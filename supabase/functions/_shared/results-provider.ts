@@ -0,0 +1,222 @@
+// Where race results come from: OpenF1-shaped providers and the parsing shared by both syncs.
+
+export const OPENF1_BASE_URL = "https://api.openf1.org/v1";
+
+export type SessionName = "Race" | "Qualifying" | "Sprint" | "Sprint Qualifying" | "Practice 1" | "Practice 2" | "Practice 3";
+
+export interface SessionQuery {
+  year: number;
+  location?: string;
+  countryName?: string;
+  sessionName?: SessionName;
+}
+
+// Per-session OpenF1 endpoints the sync reads.
+export type SessionDataKind = "drivers" | "position" | "session_result" | "laps" | "race_control";
+export const SESSION_DATA_KINDS: SessionDataKind[] = ["drivers", "position", "session_result", "laps", "race_control"];
+
+// Sessions, classifications, retirements, laps and race-control messages,
+// shaped like the OpenF1 REST API so the parsing is the same whichever
+// provider answers. Providers are handed the function that does the fetching
+// or file reading.
+//
+// - createOpenF1Provider: the live API (default).
+// - createFixtureProvider: replays recorded OpenF1 JSON from a directory:
+//     sessions.json                      rows of GET /sessions
+//     <session_key>/<kind>.json          rows of GET /<kind>?session_key=...
+// - importErgastRace: turns an Ergast/Jolpica race file into that layout.
+export interface ResultsProvider {
+  readonly name: string;
+  // Rows of GET /sessions matching the query, or null when unavailable.
+  sessions(query: SessionQuery): Promise<Record<string, unknown>[] | null>;
+  sessionData(sessionKey: number, kind: SessionDataKind): Promise<Record<string, unknown>[] | null>;
+}
+
+const asRows = (data: unknown): Record<string, unknown>[] | null =>
+  Array.isArray(data) ? data.filter((r): r is Record<string, unknown> => typeof r === "object" && r !== null) : null;
+
+export function createOpenF1Provider(fetchJson: (url: string) => Promise<unknown | null>, baseUrl = OPENF1_BASE_URL): ResultsProvider {
+  return {
+    name: "openf1",
+    async sessions(query) {
+      const params = [`year=${query.year}`];
+      if (query.location) params.push(`location=${encodeURIComponent(query.location)}`);
+      if (query.countryName) params.push(`country_name=${encodeURIComponent(query.countryName)}`);
+      if (query.sessionName) params.push(`session_name=${encodeURIComponent(query.sessionName)}`);
+      return asRows(await fetchJson(`${baseUrl}/sessions?${params.join("&")}`));
+    },
+    async sessionData(sessionKey, kind) {
+      return asRows(await fetchJson(`${baseUrl}/${kind}?session_key=${sessionKey}`));
+    },
+  };
+}
+
+const sameText = (a: unknown, b: string) => String(a ?? "").trim().toLowerCase() === b.trim().toLowerCase();
+
+// Year of a session row: its `year`, else the year it started.
+const sessionYear = (row: Record<string, unknown>) =>
+  Number(row.year) || new Date(String(row.date_start || "")).getUTCFullYear();
+
+// `readJson` resolves a path relative to the fixture directory and returns
+// null when the file is missing. A session without a recording answers with
+// no rows, like OpenF1 does before data is published.
+export function createFixtureProvider(readJson: (path: string) => Promise<unknown | null>): ResultsProvider {
+  let all: Promise<Record<string, unknown>[]> | null = null;
+  return {
+    name: "fixture",
+    async sessions(query) {
+      const rows = await (all ||= readJson("sessions.json").then((data) => asRows(data) || []));
+      return rows.filter((row) =>
+        sessionYear(row) === query.year
+        && (!query.location || sameText(row.location, query.location))
+        && (!query.countryName || sameText(row.country_name, query.countryName))
+        && (!query.sessionName || sameText(row.session_name, query.sessionName))
+      );
+    },
+    async sessionData(sessionKey, kind) {
+      return asRows(await readJson(`${sessionKey}/${kind}.json`)) || [];
+    },
+  };
+}
+
+// --- Race-control penalties --------------------------------------------------
+
+// Notices about a penalty already counted (or never given).
+const PENALTY_IGNORE_RE = /SERVED|NO FURTHER|INVESTIGAT|NOTED|REVIEWED|WITHDRAWN|RESCINDED/;
+
+export interface RaceControlPenalties {
+  gridPenalties: Record<string, number>;
+  racePenalties: Record<string, number>;
+}
+
+// Stewards' penalties in race_control rows, counted once per driver and
+// incident. Race control often announces one decision several times (the
+// decision, then the confirmed time or grid drop, possibly in a later
+// session), so an incident is the offence after " - " or, when the message
+// names none, the message and its lap. `driverOf` resolves a car number for
+// the row it was read from.
+export function countRaceControlPenalties(
+  rows: Record<string, unknown>[],
+  driverOf: (carNumber: number, row: Record<string, unknown>) => string | null,
+): RaceControlPenalties {
+  const counts: RaceControlPenalties = { gridPenalties: {}, racePenalties: {} };
+  const seen = new Set<string>();
+  for (const row of rows) {
+    const msg = String(row.message || "").toUpperCase().replace(/\s+/g, " ").trim();
+    if (!msg.includes("PENALTY") || PENALTY_IGNORE_RE.test(msg)) continue;
+    const n = Number(row.driver_number) || Number(msg.match(/CAR (\d+)/)?.[1]);
+    const id = Number.isFinite(n) && n > 0 ? driverOf(n, row) : null;
+    if (!id) continue;
+    const kind = msg.includes("GRID") ? "gridPenalties" : "racePenalties";
+    const offence = msg.split(" - ").slice(1).join(" - ");
+    const incident = `${kind}|${id}|${offence || `${msg}|${row.lap_number ?? ""}`}`;
+    if (seen.has(incident)) continue;
+    seen.add(incident);
+    counts[kind][id] = (counts[kind][id] || 0) + 1;
+  }
+  return counts;
+}
+
+// --- Ergast / Jolpica import -------------------------------------------------
+
+// A provider directory's contents: the session rows and, per session key, the
+// rows of each endpoint.
+export interface ResultsFixture {
+  sessions: Record<string, unknown>[];
+  data: Record<number, Partial<Record<SessionDataKind, Record<string, unknown>[]>>>;
+}
+
+interface ErgastDriver {
+  code?: string;
+  permanentNumber?: string;
+  givenName?: string;
+  familyName?: string;
+}
+
+interface ErgastResult {
+  number?: string;
+  position?: string;
+  status?: string;
+  Driver?: ErgastDriver;
+  FastestLap?: { lap?: string; Time?: { time?: string } };
+}
+
+interface ErgastRace {
+  season: string;
+  round: string;
+  raceName?: string;
+  date: string;
+  time?: string;
+  Circuit?: { Location?: { locality?: string; country?: string } };
+  Results?: ErgastResult[];
+  QualifyingResults?: ErgastResult[];
+  SprintResults?: ErgastResult[];
+  Qualifying?: { date: string; time?: string };
+  Sprint?: { date: string; time?: string };
+}
+
+// "1:32.608" -> 92.608
+const lapSeconds = (time: string | undefined): number | null => {
+  if (!time) return null;
+  const seconds = time.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+const startOf = (date: string, time?: string) => `${date}T${time || "00:00:00Z"}`;
+
+// Ergast has no retirement flags, only a status text. Anything that is not a
+// finish ("Finished", "+1 Lap") is a retirement.
+const retirementOf = (status: string | undefined) => {
+  const s = String(status || "").toLowerCase();
+  if (s === "disqualified") return { dnf: false, dns: false, dsq: true };
+  if (s === "did not start" || s === "withdrew" || s === "did not qualify") return { dnf: false, dns: true, dsq: false };
+  const finished = s === "finished" || /^\+\d+ laps?$/.test(s) || s === "lapped";
+  return { dnf: !finished, dns: false, dsq: false };
+};
+
+// Converts one race of an Ergast/Jolpica response (MRData.RaceTable.Races[n])
+// into OpenF1-shaped rows. Session keys are synthetic: season, round and the
+// session (1 qualifying, 2 sprint, 3 race).
+export function importErgastRace(race: ErgastRace): ResultsFixture {
+  const season = Number(race.season);
+  const round = Number(race.round);
+  const base = season * 10000 + round * 10;
+  const location = race.Circuit?.Location?.locality ?? null;
+  const country = race.Circuit?.Location?.country ?? null;
+  const fixture: ResultsFixture = { sessions: [], data: {} };
+
+  const add = (offset: number, sessionName: SessionName, start: string, results: ErgastResult[], withFlags: boolean) => {
+    const sessionKey = base + offset;
+    fixture.sessions.push({
+      session_key: sessionKey,
+      meeting_key: season * 100 + round,
+      meeting_name: race.raceName ?? null,
+      location,
+      country_name: country,
+      date_start: start,
+      session_name: sessionName,
+      session_type: sessionName,
+      year: season,
+    });
+    const drivers = results.map((r) => ({
+      driver_number: Number(r.number || r.Driver?.permanentNumber),
+      name_acronym: r.Driver?.code ?? null,
+      full_name: [r.Driver?.givenName, r.Driver?.familyName].filter(Boolean).join(" "),
+      broadcast_name: `${(r.Driver?.givenName || "").charAt(0)} ${(r.Driver?.familyName || "").toUpperCase()}`.trim(),
+    }));
+    const sessionResult = results.map((r) => ({
+      driver_number: Number(r.number || r.Driver?.permanentNumber),
+      position: Number(r.position),
+      ...(withFlags ? retirementOf(r.status) : { dnf: false, dns: false, dsq: false }),
+    }));
+    const laps = results
+      .map((r) => ({ driver_number: Number(r.number || r.Driver?.permanentNumber), lap_number: Number(r.FastestLap?.lap) || null, lap_duration: lapSeconds(r.FastestLap?.Time?.time) }))
+      .filter((lap) => lap.lap_duration !== null);
+    fixture.data[sessionKey] = { drivers, position: [], session_result: sessionResult, laps, race_control: [] };
+  };
+
+  if (race.QualifyingResults?.length) add(1, "Qualifying", startOf(race.Qualifying?.date || race.date, race.Qualifying?.time), race.QualifyingResults, false);
+  if (race.SprintResults?.length) add(2, "Sprint", startOf(race.Sprint?.date || race.date, race.Sprint?.time), race.SprintResults, true);
+  if (race.Results?.length) add(3, "Race", startOf(race.date, race.time), race.Results, true);
+  return fixture;
+}
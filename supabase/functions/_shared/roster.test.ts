@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { buildDriverRoster, type DriverAlias, proposeRosterChanges, type RosterDriver } from "./roster.ts";
+
+const drivers: (RosterDriver & { constructorId: string })[] = [
+  { id: "nor", name: "Lando Norris", number: 1, active: true, constructorId: "mcl" },
+  { id: "pia", name: "Oscar Piastri", number: 81, active: true, constructorId: "mcl" },
+  { id: "bea", name: "Oliver Bearman", number: 87, active: true, constructorId: "has" },
+  { id: "tsu", name: "Yuki Tsunoda", number: 22, active: false, constructorId: "rbr" },
+];
+const aliases: DriverAlias[] = [
+  { driverId: "bea", kind: "number", value: "38" },
+  { driverId: "nor", kind: "number", value: "4" },
+  { driverId: "alb", kind: "name", value: "Alex Albon" },
+];
+
+describe("Driver roster", () => {
+  it("maps permanent numbers over aliases and active drivers over former ones", () => {
+    const roster = buildDriverRoster(
+      [...drivers, { id: "new", name: "New Driver", number: 22, active: true }],
+      [...aliases, { driverId: "pia", kind: "number", value: "1" }],
+    );
+    expect(roster.numbers[1]).toBe("nor");
+    expect(roster.numbers[38]).toBe("bea");
+    expect(roster.numbers[22]).toBe("new");
+    expect(roster.names["alex albon"]).toBe("alb");
+  });
+
+  it("proposes new drivers, number changes, name aliases and departures", () => {
+    const rows = [
+      { driver_number: 1, name_acronym: "NOR", full_name: "Lando NORRIS", team_name: "McLaren" },
+      { driver_number: 38, name_acronym: "BEA", full_name: "Oliver Bearman", team_name: "Haas F1 Team" },
+      { driver_number: 18, name_acronym: "PIA", full_name: "Oscar Piastri", team_name: "McLaren" },
+      { driver_number: 22, name_acronym: "TSU", full_name: "Yuki Tsunoda", team_name: "Red Bull Racing" },
+      { driver_number: 7, name_acronym: "DOO", full_name: "Jack Doohan", team_name: "Haas F1 Team" },
+    ];
+    expect(proposeRosterChanges(rows, drivers, aliases).map((c) => c.id)).toEqual([
+      "number:pia:18",
+      "active:tsu:true",
+      "new_driver:doo",
+    ]);
+    const newcomer = proposeRosterChanges(rows, drivers, aliases).find((c) => c.kind === "new_driver");
+    expect(newcomer).toMatchObject({ driverId: "doo", name: "Jack Doohan", number: 7, constructorId: "has" });
+  });
+
+  it("retires drivers missing from the entry list and learns new spellings", () => {
+    const rows = [{ driver_number: 1, name_acronym: "NOR", full_name: "Lando Norris Jr" }];
+    expect(proposeRosterChanges(rows, drivers, aliases).map((c) => c.id)).toEqual([
+      "alias:nor:lando norris jr",
+      "active:pia:false",
+      "active:bea:false",
+    ]);
+    expect(proposeRosterChanges([], drivers, aliases)).toEqual([]);
+  });
+});
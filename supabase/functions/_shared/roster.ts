@@ -0,0 +1,128 @@
+// Maps OpenF1 driver numbers and names to our driver ids, and proposes roster changes.
+
+export interface RosterDriver {
+  id: string;
+  name: string;
+  number: number | null;
+  active: boolean;
+}
+
+// Another number a driver has raced under (reserve or practice number, a
+// number given up for #1) or another spelling of their name.
+export interface DriverAlias {
+  driverId: string;
+  kind: 'number' | 'name';
+  value: string;
+}
+
+// Built from Driver.number, Driver.active and the DriverAlias rows.
+export interface DriverRoster {
+  numbers: Record<number, string>;
+  // Normalized full name -> driver id.
+  names: Record<string, string>;
+}
+
+// "Nico Hülkenberg" -> "nico hulkenberg"
+export function normalizeDriverName(value: string | null | undefined): string {
+  if (!value) return '';
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// A permanent number beats an alias, and an active driver beats one who left
+// the grid, so a number handed to a new driver resolves to them.
+export function buildDriverRoster(drivers: RosterDriver[], aliases: DriverAlias[]): DriverRoster {
+  const numbers: Record<number, string> = {};
+  const names: Record<string, string> = {};
+  for (const alias of aliases) {
+    if (alias.kind === 'number' && Number.isInteger(Number(alias.value))) numbers[Number(alias.value)] = alias.driverId;
+    if (alias.kind === 'name' && normalizeDriverName(alias.value)) names[normalizeDriverName(alias.value)] = alias.driverId;
+  }
+  for (const active of [false, true]) {
+    for (const d of drivers) {
+      if (d.active !== active) continue;
+      if (d.number !== null) numbers[d.number] = d.id;
+      if (normalizeDriverName(d.name)) names[normalizeDriverName(d.name)] = d.id;
+    }
+  }
+  return { numbers, names };
+}
+
+// --- Roster sync -----------------------------------------------------------
+//
+// Compares the OpenF1 entry list of a session (GET /drivers) with the roster
+// and proposes changes for an admin to approve. Nothing is applied here.
+
+export interface OpenF1DriverRow {
+  driver_number?: unknown;
+  name_acronym?: unknown;
+  full_name?: unknown;
+  team_name?: unknown;
+}
+
+export type RosterChange =
+  // A driver we do not know. `constructorId` is that of a known teammate.
+  | { id: string; kind: 'new_driver'; driverId: string; name: string; number: number; teamName: string | null; constructorId: string | null }
+  // The permanent number changed; the old one is kept as an alias.
+  | { id: string; kind: 'number'; driverId: string; from: number | null; to: number }
+  | { id: string; kind: 'alias'; driverId: string; aliasKind: 'name'; value: string }
+  | { id: string; kind: 'active'; driverId: string; active: boolean };
+
+export function proposeRosterChanges(
+  rows: OpenF1DriverRow[],
+  drivers: (RosterDriver & { constructorId: string })[],
+  aliases: DriverAlias[],
+): RosterChange[] {
+  const roster = buildDriverRoster(drivers, aliases);
+  const byId = new Map(drivers.map((d) => [d.id, d]));
+  const changes: RosterChange[] = [];
+  const seen = new Set<string>();
+  const teamConstructor = new Map<string, string>();
+  const unmatched: { number: number; acronym: string; name: string; teamName: string | null }[] = [];
+
+  for (const row of rows) {
+    const number = Number(row.driver_number);
+    if (!Number.isInteger(number) || number <= 0) continue;
+    const acronym = String(row.name_acronym || '').trim().toLowerCase();
+    const name = String(row.full_name || '').trim();
+    const teamName = row.team_name ? String(row.team_name) : null;
+    const matchedId = [acronym, roster.names[normalizeDriverName(name)], roster.numbers[number]].find((id) => id && byId.has(id));
+    const driver = matchedId ? byId.get(matchedId) : undefined;
+    if (!driver) {
+      unmatched.push({ number, acronym, name, teamName });
+      continue;
+    }
+    if (seen.has(driver.id)) continue;
+    seen.add(driver.id);
+    if (teamName) teamConstructor.set(teamName, driver.constructorId);
+    if (driver.number !== number && !aliases.some((a) => a.driverId === driver.id && a.kind === 'number' && Number(a.value) === number)) {
+      changes.push({ id: `number:${driver.id}:${number}`, kind: 'number', driverId: driver.id, from: driver.number, to: number });
+    }
+    const normalized = normalizeDriverName(name);
+    if (normalized && roster.names[normalized] !== driver.id) {
+      changes.push({ id: `alias:${driver.id}:${normalized}`, kind: 'alias', driverId: driver.id, aliasKind: 'name', value: name });
+    }
+    if (!driver.active) changes.push({ id: `active:${driver.id}:true`, kind: 'active', driverId: driver.id, active: true });
+  }
+
+  for (const row of unmatched) {
+    let driverId = row.acronym || `d${row.number}`;
+    if (byId.has(driverId)) driverId = `${driverId}${row.number}`;
+    changes.push({
+      id: `new_driver:${driverId}`,
+      kind: 'new_driver',
+      driverId,
+      name: row.name || row.acronym.toUpperCase(),
+      number: row.number,
+      teamName: row.teamName,
+      constructorId: row.teamName ? teamConstructor.get(row.teamName) ?? null : null,
+    });
+  }
+
+  // Drivers missing from a full entry list have left the grid.
+  if (rows.length > 0) {
+    for (const d of drivers) {
+      if (d.active && !seen.has(d.id)) changes.push({ id: `active:${d.id}:false`, kind: 'active', driverId: d.id, active: false });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,397 @@
+// Golden-fixture regressions for the shared scoring engine.
+// Each fixture in ./fixtures pins a bug we shipped once; expected values were
+// checked by hand against the rules in ARCHITECTURE.md before being frozen.
+import { describe, expect, it } from "vitest";
+import {
+  applyChip,
+  applyRaceEntries,
+  availableFreeTransfers,
+  buildTeammateMap,
+  calculateWeekendPoints,
+  type CombinedResults,
+  DEFAULT_SCORING_RULES,
+  finalSessionsOnly,
+  getSessionStatus,
+  isRaceSameAsGrid,
+  nextTransferKind,
+  normalizeScoringRules,
+  pickRulesVersion,
+  type RaceEntry,
+  type ScoringRules,
+  scoreTeamLineup,
+  tallyTransfers,
+  type TeamLineup,
+  validateManualResults,
+  validateRaceEntries,
+  validateScoringRules,
+} from "./scoring.ts";
+import drivers from "./fixtures/drivers-2026.json";
+import monteCarlo from "./fixtures/monte-carlo-dnf.json";
+import barcelona from "./fixtures/barcelona-grid-equals-race.json";
+import doubleMultiplier from "./fixtures/double-multiplier.json";
+import fastestLapPenalties from "./fixtures/fastest-lap-penalties.json";
+
+const teammates = buildTeammateMap(drivers);
+const score = (results: CombinedResults) => calculateWeekendPoints(results, DEFAULT_SCORING_RULES, teammates, drivers);
+const scoreTeam = (results: CombinedResults, lineup: TeamLineup, rules: ScoringRules = DEFAULT_SCORING_RULES) =>
+  scoreTeamLineup(score(results).driverPoints, lineup, results, rules);
+
+describe("Monte Carlo DNF", () => {
+  const pts = score(monteCarlo.results);
+
+  it("matches the golden per-driver points", () => {
+    expect(pts.driverPoints).toEqual(monteCarlo.expected.driverPoints);
+    expect(pts.driverBreakdown).toEqual(monteCarlo.expected.driverBreakdown);
+  });
+
+  it("gives no race-position points to a driver retired from P2", () => {
+    expect(pts.driverBreakdown.ver?.racePosition).toBe(0);
+    expect(pts.driverBreakdown.ver?.dnf).toBe(DEFAULT_SCORING_RULES.raceDNF);
+  });
+
+  it("gives the last-place malus to the last finisher, not a retired car", () => {
+    expect(pts.driverBreakdown.bot?.lastPlace).toBe(0);
+    expect(pts.driverBreakdown.per?.lastPlace).toBe(DEFAULT_SCORING_RULES.raceLastPlaceMalus);
+  });
+
+  it("matches the golden team total", () => {
+    const team = scoreTeam(monteCarlo.results, monteCarlo.lineup);
+    expect(team.points).toBeCloseTo(monteCarlo.expected.team.points, 6);
+    expect(team.drivers).toEqual(monteCarlo.expected.team.drivers);
+  });
+});
+
+describe("Barcelona grid equals race", () => {
+  it("flags a race classification identical to qualifying", () => {
+    expect(isRaceSameAsGrid(barcelona.results)).toBe(barcelona.expected.raceSameAsGrid);
+  });
+
+  it("accepts a real result that differs from the grid", () => {
+    expect(isRaceSameAsGrid(barcelona.swapped)).toBe(barcelona.expected.swappedRaceSameAsGrid);
+  });
+
+  it("does not flag missing sessions", () => {
+    expect(isRaceSameAsGrid({ quali: barcelona.results.quali })).toBe(false);
+    expect(isRaceSameAsGrid({ quali: {}, race: {} })).toBe(false);
+  });
+});
+
+describe("Double multiplier", () => {
+  const pts = score(doubleMultiplier.results);
+  const team = scoreTeam(doubleMultiplier.results, doubleMultiplier.lineup);
+
+  it("matches the golden per-driver points", () => {
+    expect(pts.driverPoints).toEqual(doubleMultiplier.expected.driverPoints);
+    expect(pts.driverBreakdown).toEqual(doubleMultiplier.expected.driverBreakdown);
+  });
+
+  it("applies only the captain factor on top of driver points", () => {
+    const captain = team.drivers.find((d) => d.driverId === doubleMultiplier.lineup.captainId);
+    expect(captain?.points).toBe(2 * (pts.driverPoints.rus ?? NaN));
+  });
+
+  it("matches the golden team total", () => {
+    expect(team.points).toBeCloseTo(doubleMultiplier.expected.team.points, 6);
+    expect(team.drivers).toEqual(doubleMultiplier.expected.team.drivers);
+  });
+
+  it("scores an inactive reserve at zero", () => {
+    const reserve = team.drivers.find((d) => d.driverId === doubleMultiplier.lineup.reserveId);
+    expect(reserve?.points).toBe(0);
+  });
+});
+
+describe("Fastest lap and penalties", () => {
+  const rules = { ...DEFAULT_SCORING_RULES, ...fastestLapPenalties.rules };
+  const pts = calculateWeekendPoints(fastestLapPenalties.results, rules, teammates, drivers);
+
+  it("matches the golden per-driver points", () => {
+    expect(pts.driverPoints).toEqual(fastestLapPenalties.expected.driverPoints);
+    expect(pts.driverBreakdown).toEqual(fastestLapPenalties.expected.driverBreakdown);
+  });
+
+  it("charges each race and grid penalty without the constructor multiplier", () => {
+    expect(pts.driverBreakdown.sai?.racePenalty).toBe(2 * rules.racePenalty);
+    expect(pts.driverBreakdown.rus?.gridPenalty).toBe(rules.qualiGridPenalty);
+  });
+
+  it("gives nothing for a fastest lap set before retiring", () => {
+    const retired = calculateWeekendPoints(fastestLapPenalties.retiredFastestLap, rules, teammates, drivers);
+    expect(retired.driverBreakdown.ver).toEqual(fastestLapPenalties.expected.retiredFastestLap);
+    expect(retired.driverBreakdown.ver?.fastestLap).toBe(0);
+  });
+});
+
+describe("League captain and reserve settings", () => {
+  const { driverPoints } = monteCarlo.expected;
+  const custom: ScoringRules = { ...DEFAULT_SCORING_RULES, captainMultiplier: 1.5, reserveMultiplier: 1.0 };
+
+  it("uses the league captain multiplier", () => {
+    const team = scoreTeam(monteCarlo.results, monteCarlo.lineup, custom);
+    expect(team.drivers.find((d) => d.driverId === "ver")?.points).toBe(1.5 * driverPoints.ver);
+  });
+
+  it("keeps the reserve benched on a DNF under the default DNS-only policy", () => {
+    const team = scoreTeam(monteCarlo.results, monteCarlo.lineup, custom);
+    expect(team.drivers.find((d) => d.driverId === "col")?.points).toBe(0);
+  });
+
+  it("brings the reserve in at the league multiplier when DNFs activate it", () => {
+    const team = scoreTeam(monteCarlo.results, monteCarlo.lineup, { ...custom, reserveActivation: "dns_dnf" });
+    expect(team.drivers.find((d) => d.driverId === "col")?.points).toBe(driverPoints.col);
+  });
+
+  it("falls back to x2 captain and x0.5 reserve for rules saved before these settings existed", () => {
+    const { captainMultiplier: _c, reserveMultiplier: _r, reserveActivation: _a, ...legacy } = DEFAULT_SCORING_RULES;
+    const results = { ...monteCarlo.results, dnsDrivers: ["lec"] };
+    const team = scoreTeamLineup(driverPoints, monteCarlo.lineup, results, legacy as ScoringRules);
+    expect(team.drivers.find((d) => d.driverId === "ver")?.points).toBe(2 * driverPoints.ver);
+    expect(team.drivers.find((d) => d.driverId === "col")?.points).toBe(0.5 * driverPoints.col);
+  });
+});
+
+describe("Chips", () => {
+  it("leaves the rules untouched for the wildcard and for no chip", () => {
+    expect(applyChip(DEFAULT_SCORING_RULES, "wildcard")).toBe(DEFAULT_SCORING_RULES);
+    expect(applyChip(DEFAULT_SCORING_RULES, null)).toBe(DEFAULT_SCORING_RULES);
+  });
+
+  it("triple captain scores the captain x3", () => {
+    const rules = applyChip(DEFAULT_SCORING_RULES, "triple_captain");
+    const team = scoreTeam(doubleMultiplier.results, doubleMultiplier.lineup, rules);
+    expect(team.drivers.find((d) => d.driverId === "rus")?.points).toBe(3 * doubleMultiplier.expected.driverPoints.rus);
+  });
+
+  it("triple captain builds on the league's captain multiplier", () => {
+    const rules = applyChip({ ...DEFAULT_SCORING_RULES, captainMultiplier: 1.5 }, "triple_captain");
+    expect(rules.captainMultiplier).toBe(2.5);
+    const team = scoreTeam(doubleMultiplier.results, doubleMultiplier.lineup, rules);
+    expect(team.drivers.find((d) => d.driverId === "rus")?.points).toBe(2.5 * doubleMultiplier.expected.driverPoints.rus);
+  });
+
+  it("no negatives clamps every negative component to zero", () => {
+    const pts = calculateWeekendPoints(monteCarlo.results, applyChip(DEFAULT_SCORING_RULES, "no_negatives"), teammates, drivers);
+    for (const bd of Object.values(pts.driverBreakdown)) {
+      const { constructorMult: _m, total: _t, ...components } = bd;
+      for (const v of Object.values(components)) expect(v).toBeGreaterThanOrEqual(0);
+    }
+    expect(pts.driverBreakdown.ver?.dnf).toBe(0);
+  });
+
+  it("no negatives also clamps a malus missing from older league rules", () => {
+    const { raceDNF: _dnf, ...legacy } = DEFAULT_SCORING_RULES;
+    const pts = calculateWeekendPoints(monteCarlo.results, applyChip(legacy as ScoringRules, "no_negatives"), teammates, drivers);
+    expect(pts.driverBreakdown.ver?.dnf).toBe(0);
+  });
+
+  it("sprint boost doubles sprint points and sprint pole", () => {
+    const pts = calculateWeekendPoints(doubleMultiplier.results, applyChip(DEFAULT_SCORING_RULES, "sprint_boost"), teammates, drivers);
+    expect(pts.driverBreakdown.rus?.sprint).toBe(2 * (doubleMultiplier.expected.driverBreakdown.rus?.sprint ?? NaN));
+    expect(pts.driverBreakdown.rus?.sprintPole).toBe(2 * (doubleMultiplier.expected.driverBreakdown.rus?.sprintPole ?? NaN));
+  });
+});
+
+describe("Free transfers", () => {
+  const rollover: ScoringRules = { ...DEFAULT_SCORING_RULES, freeTransfersPerRound: 1, freeTransfersRolloverCap: 3 };
+
+  it("gives the per-round allowance in a team's first round", () => {
+    expect(availableFreeTransfers([], DEFAULT_SCORING_RULES)).toBe(2);
+  });
+
+  it("does not carry unused transfers over when rollover is off", () => {
+    expect(availableFreeTransfers([0, 0, 0], DEFAULT_SCORING_RULES)).toBe(2);
+  });
+
+  it("carries unused transfers over up to the cap", () => {
+    expect(availableFreeTransfers([0], rollover)).toBe(2);
+    expect(availableFreeTransfers([0, 0, 0, 0], rollover)).toBe(3);
+    expect(availableFreeTransfers([0, 0, 3], rollover)).toBe(1);
+  });
+
+  it("keeps a sale counted when the driver is bought back in the same round", () => {
+    // r2: ver sold (free), ver bought back (not logged), ver sold again (free).
+    const log = [
+      { raceId: "r1", kind: "free" as const },
+      { raceId: "r2", kind: "free" as const },
+      { raceId: "r2", kind: "free" as const },
+    ];
+    const tally = tallyTransfers(log, "r2", ["r1"], DEFAULT_SCORING_RULES);
+    expect(tally).toEqual({ freeLeft: 0, made: 2, paid: 0 });
+    expect(nextTransferKind(tally.freeLeft, false)).toBe("paid");
+  });
+
+  it("books releases under a wildcard as neither free nor paid", () => {
+    expect(nextTransferKind(0, true)).toBe("wildcard");
+    expect(nextTransferKind(1, false)).toBe("free");
+  });
+});
+
+describe("Rules versions", () => {
+  const v1 = { version: 1, effectiveFromSeason: 2026, effectiveFromRound: 1 };
+  const v2 = { version: 2, effectiveFromSeason: 2026, effectiveFromRound: 6 };
+
+  it("scores each race with the version in force at that round", () => {
+    expect(pickRulesVersion([v1, v2], 2026, 5)).toBe(v1);
+    expect(pickRulesVersion([v1, v2], 2026, 6)).toBe(v2);
+    expect(pickRulesVersion([v1, v2], 2026, 12)).toBe(v2);
+  });
+
+  it("lets a later retroactive version override every race it covers", () => {
+    const v3 = { version: 3, effectiveFromSeason: 2026, effectiveFromRound: 3 };
+    expect(pickRulesVersion([v1, v2, v3], 2026, 2)).toBe(v1);
+    expect(pickRulesVersion([v1, v2, v3], 2026, 4)).toBe(v3);
+    expect(pickRulesVersion([v1, v2, v3], 2026, 9)).toBe(v3);
+  });
+
+  it("falls back to the earliest version before any took effect", () => {
+    expect(pickRulesVersion([v2, v1], 2025, 20)).toBe(v1);
+    expect(pickRulesVersion([], 2026, 1)).toBeNull();
+  });
+});
+
+describe("Rules validation", () => {
+  const constructorIds = DEFAULT_SCORING_RULES.constructors!.map((c) => c.id);
+
+  it("accepts the defaults", () => {
+    expect(validateScoringRules(DEFAULT_SCORING_RULES, constructorIds)).toEqual([]);
+  });
+
+  it("reports NaN, wrong lengths and out-of-range values per field", () => {
+    const bad = {
+      ...DEFAULT_SCORING_RULES,
+      racePositionPoints: [25, 18, NaN],
+      captainMultiplier: 50,
+      chipUsesPerSeason: 1.5,
+      reserveActivation: "always",
+    };
+    expect(validateScoringRules(bad, constructorIds)).toEqual([
+      { field: "racePositionPoints", code: "wrong_length", length: 22 },
+      { field: "racePositionPoints.2", code: "not_a_number" },
+      { field: "captainMultiplier", code: "out_of_range", min: 1, max: 5 },
+      { field: "chipUsesPerSeason", code: "not_an_integer" },
+      { field: "reserveActivation", code: "invalid_value" },
+    ]);
+  });
+
+  it("rejects constructor ids missing from the driver list", () => {
+    const constructors = [...DEFAULT_SCORING_RULES.constructors!, { id: "xyz", name: "Nobody", color: "#000000", multiplier: 1 }];
+    expect(validateScoringRules({ ...DEFAULT_SCORING_RULES, constructors }, constructorIds)).toEqual([
+      { field: `constructors.${constructors.length - 1}.id`, code: "unknown_constructor" },
+    ]);
+  });
+
+  it("normalises legacy rules without changing how they score", () => {
+    const { teammateBeatDNF: _dnf, constructors: _c, ...rest } = DEFAULT_SCORING_RULES;
+    const legacy = { ...rest, racePositionPoints: [25, 18, 15, 12, 10, 8, 6, 4, 2, 1], teammateBeat: 4, raceDNF: null };
+    const normalized = normalizeScoringRules(legacy);
+    expect(validateScoringRules(normalized, constructorIds)).toEqual([]);
+    expect(normalized.teammateBeatDNF).toBe(4);
+    expect(normalized.constructors).toBeUndefined();
+    expect(calculateWeekendPoints(monteCarlo.results, normalized, teammates, drivers))
+      .toEqual(calculateWeekendPoints(monteCarlo.results, { ...legacy, raceDNF: -5 } as unknown as ScoringRules, teammates, drivers));
+  });
+});
+
+describe("Manual results", () => {
+  const ids = drivers.map((d) => d.id);
+  const ranked = (order: string[]) => Object.fromEntries(order.map((id, i) => [id, i + 1]));
+
+  it("accepts a complete classification with non-starters left out of the race", () => {
+    const input = { quali: ranked(ids), race: ranked(ids.slice(1)), dnsDrivers: [ids[0]], dnfDrivers: [], dsqDrivers: [] };
+    expect(validateManualResults(input, ids, false)).toEqual([]);
+  });
+
+  it("reports duplicate, missing and unknown drivers per field", () => {
+    const race = { ...ranked(ids.slice(0, -1)), xxx: 3 };
+    const errors = validateManualResults({ quali: ranked(ids), race, dnfDrivers: ["ver"], dsqDrivers: ["ver"] }, ids, false);
+    expect(errors).toContainEqual({ field: "race.xxx", code: "unknown_driver" });
+    expect(errors).toContainEqual({ field: `race.${ids[ids.length - 1]}`, code: "missing_driver" });
+    expect(errors).toContainEqual({ field: "dsqDrivers.ver", code: "conflict" });
+    expect(validateManualResults({ quali: { ...ranked(ids), had: 1 }, race: ranked(ids) }, ids, false))
+      .toContainEqual({ field: "quali.had", code: "duplicate" });
+  });
+
+  it("requires the sprint sessions on a sprint weekend", () => {
+    const errors = validateManualResults({ quali: ranked(ids), race: ranked(ids) }, ids, true);
+    expect(errors.map((e) => e.field)).toEqual(["sprintQuali", "sprint"]);
+  });
+
+  it("scores a disqualified driver like a retirement", () => {
+    const dsq = score({ ...monteCarlo.results, dnfDrivers: [], dsqDrivers: ["ver"] });
+    const dnf = score({ ...monteCarlo.results, dnfDrivers: ["ver"] });
+    expect(dsq.driverBreakdown.ver).toEqual(dnf.driverBreakdown.ver);
+  });
+});
+
+describe("Session status", () => {
+  const ids = drivers.map((d) => d.id);
+  const ranked = Object.fromEntries(ids.map((id, i) => [id, i + 1]));
+
+  it("marks the sessions without a classification as pending", () => {
+    expect(getSessionStatus({ sprintQuali: ranked, sprint: ranked }, true)).toEqual({ sprintQuali: "final", sprint: "final", quali: "pending", race: "pending" });
+    expect(getSessionStatus(null, false)).toEqual({ quali: "pending", race: "pending" });
+  });
+
+  it("publishes qualifying without the race's retirements and penalties", () => {
+    const results: CombinedResults = {
+      quali: ranked,
+      race: ranked,
+      gridPenalties: { [ids[0]]: 3 },
+      dnfDrivers: [ids[1]],
+      fastestLap: ids[2],
+      racePenalties: { [ids[3]]: 5 },
+    };
+    expect(finalSessionsOnly(results, ["quali"])).toEqual({ quali: ranked, gridPenalties: { [ids[0]]: 3 } });
+    expect(finalSessionsOnly(results, ["quali", "race"])).toMatchObject({ race: ranked, dnfDrivers: [ids[1]], fastestLap: ids[2] });
+  });
+
+  it("scores a qualifying-only weekend", () => {
+    const teammates = buildTeammateMap(drivers);
+    const points = calculateWeekendPoints(finalSessionsOnly({ quali: ranked, race: ranked }, ["quali"]), DEFAULT_SCORING_RULES, teammates, drivers);
+    expect(Object.values(points.driverRacePoints).every((p) => p === 0)).toBe(true);
+    expect(Object.values(points.driverQualiPoints).some((p) => p !== 0)).toBe(true);
+  });
+});
+
+describe("Race entries", () => {
+  const withReserve = [...drivers, { id: "res", constructorId: "fer" }];
+  const entries: RaceEntry[] = withReserve
+    .filter((d) => d.id !== "ham")
+    .map((d) => ({ driverId: d.id, constructorId: d.id === "res" ? "fer" : d.id === "had" ? "rb" : d.constructorId, carNumber: null }));
+
+  it("pairs a reserve with the driver they raced alongside", () => {
+    expect(buildTeammateMap(withReserve).lec).toBeUndefined();
+    const teammates = buildTeammateMap(withReserve, entries);
+    expect(teammates.lec).toBe("res");
+    expect(teammates.res).toBe("lec");
+    expect(teammates.ham).toBeUndefined();
+  });
+
+  it("scores a driver with the constructor they were entered for", () => {
+    const raceDrivers = applyRaceEntries(withReserve, entries);
+    expect(raceDrivers.find((d) => d.id === "had")?.constructorId).toBe("rb");
+    expect(raceDrivers.find((d) => d.id === "ham")?.constructorId).toBe("fer");
+    const points = calculateWeekendPoints({ race: { had: 1 } }, DEFAULT_SCORING_RULES, buildTeammateMap(raceDrivers, entries), raceDrivers);
+    expect(points.driverBreakdown.had?.constructorMult).toBe(1.3);
+    expect(applyRaceEntries(withReserve, [])).toBe(withReserve);
+  });
+
+  it("rejects unknown drivers and constructors, duplicates and bad car numbers", () => {
+    const ids = withReserve.map((d) => d.id);
+    expect(validateRaceEntries(entries, ids, ["rbr", "mer", "fer", "mcl", "ast", "alp", "wil", "rb", "haa", "sau", "cad"])).toEqual([]);
+    expect(validateRaceEntries([
+      { driverId: "ver", constructorId: "rbr", carNumber: 3 },
+      { driverId: "ver", constructorId: "rbr", carNumber: 33 },
+      { driverId: "xyz", constructorId: "zzz", carNumber: 3 },
+      { driverId: "lec", constructorId: "fer", carNumber: 1.5 },
+      { constructorId: "fer" },
+    ], ids, ["rbr", "fer"])).toEqual([
+      { field: "entries.ver", code: "duplicate" },
+      { field: "entries.xyz", code: "unknown_driver" },
+      { field: "entries.xyz.constructorId", code: "unknown_constructor" },
+      { field: "entries.xyz.carNumber", code: "duplicate" },
+      { field: "entries.lec.carNumber", code: "not_an_integer" },
+      { field: "entries.4", code: "required" },
+    ]);
+  });
+});
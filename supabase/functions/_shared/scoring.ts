@@ -0,0 +1,717 @@
+// Platform-neutral fantasy scoring engine.
+//
+// Imported as-is by the Edge Function (Deno), the Node API (tsc/commonjs) and
+// the web app (Vite). Keep this file dependency-free: no imports, no Deno or
+// Node globals, no I/O. It must also compile under the Node API's
+// noUncheckedIndexedAccess + exactOptionalPropertyTypes settings.
+//
+// Golden fixtures for the regressions listed in ARCHITECTURE.md live in
+// ./fixtures and are exercised by ./scoring.test.ts (run from web/: npm test).
+
+export interface ConstructorRule {
+  id: string;
+  name: string;
+  color: string;
+  multiplier: number;
+}
+
+// Minimal driver shape the engine needs. Callers may pass richer rows.
+export interface ScoringDriver {
+  id: string;
+  constructorId: string;
+}
+
+export interface DriverBreakdown {
+  racePosition: number;
+  overtakes: number;
+  teammate: number;
+  sprint: number;
+  sprintPole: number;
+  dnf: number;
+  lastPlace: number;
+  fastestLap: number;
+  racePenalty: number;
+  gridPenalty: number;
+  qualiPole: number;
+  qualiSession: number;
+  total: number;
+  constructorMult: number;
+}
+
+export interface CombinedResults {
+  race?: Record<string, number>;
+  quali?: Record<string, number>;
+  sprint?: Record<string, number>;
+  sprintQuali?: Record<string, number>;
+  dnfDrivers?: string[];
+  dnsDrivers?: string[];
+  // Disqualified after the race. Scored like a retirement.
+  dsqDrivers?: string[];
+  fastestLap?: string;
+  // Penalty counts per driver: grid penalties handed out before the race, and
+  // time, drive-through or stop-go penalties handed out during it.
+  gridPenalties?: Record<string, number>;
+  racePenalties?: Record<string, number>;
+  driverPoints?: Record<string, number>;
+  driverRacePoints?: Record<string, number>;
+  driverQualiPoints?: Record<string, number>;
+  driverSprintPoints?: Record<string, number>;
+  driverSprintQualiPoints?: Record<string, number>;
+  driverBreakdown?: Record<string, DriverBreakdown>;
+}
+
+// When the reserve steps in: only for a driver who did not start, or also for
+// one who retired during the race.
+export type ReserveActivation = 'dns' | 'dns_dnf';
+
+// Season-limited power-ups a member can play on one race weekend. The
+// wildcard acts on /team/market; the other three change the scoring rules for
+// that team only (see applyChip).
+export type ChipId = 'triple_captain' | 'wildcard' | 'no_negatives' | 'sprint_boost';
+export const CHIP_IDS: ChipId[] = ['triple_captain', 'wildcard', 'no_negatives', 'sprint_boost'];
+
+export interface ScoringRules {
+  [key: string]: number | number[] | string | string[] | ConstructorRule[] | undefined;
+  racePositionPoints: number[];
+  sprintPositionPoints: number[];
+  raceFastestLap: number;
+  raceLastPlaceMalus: number;
+  qualiQ1Eliminated: number;
+  qualiQ2Reached: number;
+  qualiQ3Reached: number;
+  qualiPole: number;
+  qualiGridPenalty: number;
+  raceDNF: number;
+  racePenalty: number;
+  teammateBeat: number;
+  teammateLost: number;
+  teammateBeatDNF: number;
+  positionGainedPos1_10: number;
+  positionGainedPos11_Plus: number;
+  positionLostPos1_10: number;
+  positionLostPos11_Plus: number;
+  sprintPole: number;
+  captainMultiplier: number;
+  reserveMultiplier: number;
+  reserveActivation: ReserveActivation;
+  chipsEnabled: ChipId[];
+  chipUsesPerSeason: number;
+  freeTransfersPerRound: number;
+  freeTransfersRolloverCap: number;
+  extraTransferCost: number;
+  constructors?: ConstructorRule[];
+}
+
+export interface WeekendPoints {
+  driverPoints: Record<string, number>;
+  driverRacePoints: Record<string, number>;
+  driverQualiPoints: Record<string, number>;
+  driverSprintPoints: Record<string, number>;
+  driverSprintQualiPoints: Record<string, number>;
+  driverBreakdown: Record<string, DriverBreakdown>;
+}
+
+export interface TeamLineup {
+  driverIds: string[];
+  captainId: string | null;
+  reserveId: string | null;
+}
+
+export interface TeamScore {
+  points: number;
+  drivers: Array<{ driverId: string; points: number }>;
+}
+
+export const DEFAULT_RACE_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+export const DEFAULT_SPRINT_POINTS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  racePositionPoints: DEFAULT_RACE_POINTS, raceFastestLap: 0, raceLastPlaceMalus: -3, qualiQ1Eliminated: -3,
+  qualiQ2Reached: 1, qualiQ3Reached: 3, qualiPole: 3, qualiGridPenalty: 0, raceDNF: -5, racePenalty: -5,
+  teammateBeat: 2, teammateLost: -2, teammateBeatDNF: 1, positionGainedPos1_10: 1.0, positionGainedPos11_Plus: 0.5,
+  positionLostPos1_10: -1.0, positionLostPos11_Plus: -0.5, sprintPositionPoints: DEFAULT_SPRINT_POINTS, sprintPole: 1,
+  captainMultiplier: 2.0, reserveMultiplier: 0.5, reserveActivation: 'dns', chipsEnabled: [], chipUsesPerSeason: 1,
+  freeTransfersPerRound: 2, freeTransfersRolloverCap: 0, extraTransferCost: 0,
+  constructors: [
+    { id: 'rbr', name: 'Red Bull Racing', color: '#3671C6', multiplier: 1.0 },
+    { id: 'fer', name: 'Ferrari', color: '#F91536', multiplier: 1.1 },
+    { id: 'mer', name: 'Mercedes', color: '#6CD3BF', multiplier: 1.1 },
+    { id: 'mcl', name: 'McLaren', color: '#F58020', multiplier: 1.0 },
+    { id: 'ast', name: 'Aston Martin', color: '#225941', multiplier: 1.3 },
+    { id: 'alp', name: 'Alpine', color: '#2293D1', multiplier: 1.3 },
+    { id: 'wil', name: 'Williams', color: '#37BEDD', multiplier: 1.3 },
+    { id: 'rb', name: 'Racing Bulls', color: '#6692FF', multiplier: 1.3 },
+    { id: 'haa', name: 'Haas', color: '#B6BABD', multiplier: 1.3 },
+    { id: 'sau', name: 'Audi', color: '#000000', multiplier: 1.5 },
+    { id: 'cad', name: 'Cadillac', color: '#E5C25B', multiplier: 1.6 },
+  ]
+};
+
+// --- Rules validation ---
+//
+// `/league/rules` rejects anything validateScoringRules reports; rules
+// already stored (written before validation existed) go through
+// normalizeScoringRules when read, which keeps the engine's fallbacks.
+
+export interface RuleFieldError {
+  // Rules key, with the index for array entries: "racePositionPoints.3",
+  // "constructors.2.multiplier".
+  field: string;
+  code: 'required' | 'not_a_number' | 'not_an_integer' | 'out_of_range' | 'wrong_length' | 'invalid_value' | 'unknown_constructor' | 'duplicate';
+  min?: number;
+  max?: number;
+  length?: number;
+}
+
+interface RuleRange {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+const POINTS_RANGE: RuleRange = { min: -50, max: 50 };
+const POSITION_POINTS_RANGE: RuleRange = { min: -50, max: 100 };
+const CONSTRUCTOR_MULTIPLIER_RANGE: RuleRange = { min: 0.5, max: 3 };
+
+export const SCORING_RULE_RANGES: Record<string, RuleRange> = {
+  raceFastestLap: POINTS_RANGE,
+  raceLastPlaceMalus: POINTS_RANGE,
+  qualiQ1Eliminated: POINTS_RANGE,
+  qualiQ2Reached: POINTS_RANGE,
+  qualiQ3Reached: POINTS_RANGE,
+  qualiPole: POINTS_RANGE,
+  qualiGridPenalty: POINTS_RANGE,
+  raceDNF: POINTS_RANGE,
+  racePenalty: POINTS_RANGE,
+  teammateBeat: POINTS_RANGE,
+  teammateLost: POINTS_RANGE,
+  teammateBeatDNF: POINTS_RANGE,
+  positionGainedPos1_10: POINTS_RANGE,
+  positionGainedPos11_Plus: POINTS_RANGE,
+  positionLostPos1_10: POINTS_RANGE,
+  positionLostPos11_Plus: POINTS_RANGE,
+  sprintPole: POINTS_RANGE,
+  captainMultiplier: { min: 1, max: 5 },
+  reserveMultiplier: { min: 0, max: 2 },
+  chipUsesPerSeason: { min: 1, max: 10, integer: true },
+  freeTransfersPerRound: { min: 0, max: 10, integer: true },
+  freeTransfersRolloverCap: { min: 0, max: 10, integer: true },
+  extraTransferCost: POINTS_RANGE,
+};
+
+const POSITION_POINTS_LENGTH: Record<'racePositionPoints' | 'sprintPositionPoints', number> = {
+  racePositionPoints: DEFAULT_RACE_POINTS.length,
+  sprintPositionPoints: DEFAULT_SPRINT_POINTS.length,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkNumber = (field: string, value: unknown, range: RuleRange, errors: RuleFieldError[]) => {
+  if (value === undefined || value === null || value === '') errors.push({ field, code: 'required' });
+  else if (typeof value !== 'number' || !Number.isFinite(value)) errors.push({ field, code: 'not_a_number' });
+  else if (range.integer && !Number.isInteger(value)) errors.push({ field, code: 'not_an_integer' });
+  else if (value < range.min || value > range.max) errors.push({ field, code: 'out_of_range', min: range.min, max: range.max });
+};
+
+// Every problem with posted rules, one per field. Constructor ids are checked
+// against `constructorIds` (the Driver table) when given.
+export function validateScoringRules(input: unknown, constructorIds?: string[]): RuleFieldError[] {
+  if (!isRecord(input)) return [{ field: 'rules', code: 'required' }];
+  const errors: RuleFieldError[] = [];
+
+  for (const [key, length] of Object.entries(POSITION_POINTS_LENGTH)) {
+    const value = input[key];
+    if (!Array.isArray(value)) errors.push({ field: key, code: 'required' });
+    else {
+      if (value.length !== length) errors.push({ field: key, code: 'wrong_length', length });
+      value.slice(0, length).forEach((v, i) => checkNumber(`${key}.${i}`, v, POSITION_POINTS_RANGE, errors));
+    }
+  }
+  for (const [key, range] of Object.entries(SCORING_RULE_RANGES)) checkNumber(key, input[key], range, errors);
+
+  if (input.reserveActivation !== 'dns' && input.reserveActivation !== 'dns_dnf') {
+    errors.push({ field: 'reserveActivation', code: 'invalid_value' });
+  }
+  if (!Array.isArray(input.chipsEnabled)) errors.push({ field: 'chipsEnabled', code: 'required' });
+  else if (input.chipsEnabled.some((c) => !(CHIP_IDS as unknown[]).includes(c))) errors.push({ field: 'chipsEnabled', code: 'invalid_value' });
+  else if (new Set(input.chipsEnabled).size !== input.chipsEnabled.length) errors.push({ field: 'chipsEnabled', code: 'duplicate' });
+
+  if (input.constructors !== undefined) {
+    if (!Array.isArray(input.constructors)) errors.push({ field: 'constructors', code: 'invalid_value' });
+    else {
+      const known = constructorIds && constructorIds.length > 0 ? new Set(constructorIds) : null;
+      const seen = new Set<string>();
+      input.constructors.forEach((c, i) => {
+        if (!isRecord(c) || typeof c.id !== 'string' || !c.id) {
+          errors.push({ field: `constructors.${i}.id`, code: 'required' });
+          return;
+        }
+        if (seen.has(c.id)) errors.push({ field: `constructors.${i}.id`, code: 'duplicate' });
+        else if (known && !known.has(c.id)) errors.push({ field: `constructors.${i}.id`, code: 'unknown_constructor' });
+        seen.add(c.id);
+        checkNumber(`constructors.${i}.multiplier`, c.multiplier, CONSTRUCTOR_MULTIPLIER_RANGE, errors);
+      });
+    }
+  }
+  return errors;
+}
+
+const finiteOr = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+// Full, well-formed rules from a stored or posted object. Missing or broken
+// values get what the engine would have used: the default, 0 for a position
+// without points, teammateBeat for a missing teammateBeatDNF, and no
+// constructor multipliers when none were saved. Unknown keys are dropped.
+export function normalizeScoringRules(input: unknown): ScoringRules {
+  if (!isRecord(input)) return { ...DEFAULT_SCORING_RULES };
+  const { constructors: _defaultConstructors, ...defaults } = DEFAULT_SCORING_RULES;
+  const rules: ScoringRules = { ...defaults };
+  for (const key of Object.keys(SCORING_RULE_RANGES)) rules[key] = finiteOr(input[key], DEFAULT_SCORING_RULES[key] as number);
+  if (input.teammateBeatDNF === undefined) rules.teammateBeatDNF = rules.teammateBeat;
+
+  for (const [key, length] of Object.entries(POSITION_POINTS_LENGTH)) {
+    const stored = input[key];
+    const defaults = DEFAULT_SCORING_RULES[key] as number[];
+    rules[key] = Array.isArray(stored)
+      ? Array.from({ length }, (_, i) => finiteOr(stored[i], 0))
+      : [...defaults];
+  }
+  rules.reserveActivation = input.reserveActivation === 'dns_dnf' ? 'dns_dnf' : 'dns';
+  rules.chipsEnabled = Array.isArray(input.chipsEnabled)
+    ? CHIP_IDS.filter((c) => (input.chipsEnabled as unknown[]).includes(c))
+    : [];
+  if (Array.isArray(input.constructors)) {
+    rules.constructors = input.constructors
+      .filter((c): c is Record<string, unknown> => isRecord(c) && typeof c.id === 'string')
+      .map((c) => ({
+        id: String(c.id),
+        name: typeof c.name === 'string' ? c.name : String(c.id),
+        color: typeof c.color === 'string' ? c.color : '#888888',
+        multiplier: finiteOr(c.multiplier, 1.0),
+      }));
+  }
+  return rules;
+}
+
+// One driver entered for one race weekend (the RaceEntry table): who drove
+// which car, so a reserve standing in or a driver who changed team is scored
+// with the right constructor and teammate in that race.
+export interface RaceEntry {
+  driverId: string;
+  constructorId: string;
+  carNumber: number | null;
+}
+
+// The driver list as entered for one race: an entered driver takes the
+// entry's constructor (and its multiplier). Without entries, or for a driver
+// not entered, the Driver table stands.
+export function applyRaceEntries<T extends ScoringDriver>(allDrivers: T[], entries: RaceEntry[]): T[] {
+  if (entries.length === 0) return allDrivers;
+  const byDriver = new Map(entries.map((e) => [e.driverId, e.constructorId]));
+  return allDrivers.map((d) => {
+    const constructorId = byDriver.get(d.id);
+    return constructorId && constructorId !== d.constructorId ? { ...d, constructorId } : d;
+  });
+}
+
+// Teammate pairs from the race's entry list, or from the driver list when the
+// race has none. Only constructors with exactly two drivers are paired;
+// anything else has no well-defined duel.
+export function buildTeammateMap(allDrivers: ScoringDriver[], entries: RaceEntry[] = []): Record<string, string> {
+  const teammates: Record<string, string> = {};
+  const byConstructor: Record<string, string[]> = {};
+  const lineup = entries.length > 0 ? entries.map((e) => ({ id: e.driverId, constructorId: e.constructorId })) : allDrivers;
+  for (const d of lineup) {
+    (byConstructor[d.constructorId] ||= []).push(d.id);
+  }
+  for (const drivers of Object.values(byConstructor)) {
+    const [a, b] = drivers;
+    if (drivers.length === 2 && a && b) {
+      teammates[a] = b;
+      teammates[b] = a;
+    }
+  }
+  return teammates;
+}
+
+export function isReserveActivated(teamDriverIds: string[], reserveId: string | null | undefined, results: Pick<CombinedResults, 'dnsDrivers' | 'dnfDrivers'>, rules: ScoringRules): boolean {
+  if (!reserveId) return false;
+  const out = new Set(results.dnsDrivers || []);
+  if (rules.reserveActivation === 'dns_dnf') for (const id of results.dnfDrivers || []) out.add(id);
+  return teamDriverIds.some((id) => id !== reserveId && out.has(id));
+}
+
+export function calculateWeekendPoints(combinedResults: CombinedResults, rules: ScoringRules, teammates: Record<string, string>, allDrivers: ScoringDriver[]): WeekendPoints {
+  const r = (v: number) => Math.round(v * 10) / 10;
+  const driverPoints: Record<string, number> = {};
+  const driverRacePoints: Record<string, number> = {};
+  const driverQualiPoints: Record<string, number> = {};
+  const driverSprintPoints: Record<string, number> = {};
+  const driverSprintQualiPoints: Record<string, number> = {};
+  const driverBreakdown: Record<string, DriverBreakdown> = {};
+
+  const raceRes = combinedResults.race || {};
+  const qualiRes = combinedResults.quali || {};
+  const sprintRes = combinedResults.sprint || {};
+  const sqRes = combinedResults.sprintQuali || {};
+  const dnfL = combinedResults.dnfDrivers || [];
+  const dnsL = combinedResults.dnsDrivers || [];
+  const dsqL = combinedResults.dsqDrivers || [];
+  const fastestLap = combinedResults.fastestLap;
+  const gridPen = combinedResults.gridPenalties || {};
+  const racePen = combinedResults.racePenalties || {};
+
+  for (const d of allDrivers) {
+    const dId = d.id;
+    let racePts = 0; let qualiPts = 0; let sprintPts = 0; let overtakes = 0; let teammatePts = 0; let dnfPts = 0; let lastPts = 0; let polePts = 0; let sqPolePts = 0; let flPts = 0;
+    const pos = raceRes[dId] ?? NaN; const grid = qualiRes[dId] ?? NaN;
+    // A retired (DNF/DNS) driver must never earn race-position points, even if
+    // the results feed recorded a classification for them. OpenF1 snapshots the
+    // position held at the moment of retirement, so a driver who retires from
+    // P2 would otherwise be scored as a P2 finisher (Verstappen, Monte Carlo 2026).
+    const retired = dnfL.includes(dId) || dnsL.includes(dId) || dsqL.includes(dId);
+    const hasValidRacePos = Number.isFinite(pos) && pos > 0 && pos < 900 && !retired;
+    const hasValidGridPos = Number.isFinite(grid) && grid > 0 && grid < 900;
+    const hasUnclassifiedGrid = Number.isFinite(grid) && grid >= 900;
+
+    if (hasValidRacePos) {
+      racePts = (rules.racePositionPoints || DEFAULT_RACE_POINTS)[pos - 1] || 0;
+      // Last-place malus goes to the last *finisher*: retired drivers are
+      // excluded from the comparison (they already take the DNF malus).
+      const vps = Object.entries(raceRes)
+        .filter(([id, v]) => typeof v === 'number' && Number.isFinite(v) && v > 0 && v < 900 && !dnfL.includes(id) && !dnsL.includes(id) && !dsqL.includes(id))
+        .map(([, v]) => v);
+      const mx = vps.length > 0 ? Math.max(...vps) : 0;
+      if (pos === mx && mx > 10) lastPts = (rules.raceLastPlaceMalus ?? -3);
+    }
+    if (hasValidGridPos || hasUnclassifiedGrid) {
+      if (grid === 1) polePts = (rules.qualiPole ?? 3);
+      if (hasValidGridPos && grid <= 10) qualiPts += (rules.qualiQ3Reached ?? 3);
+      else if (hasValidGridPos && grid <= 16) qualiPts += (rules.qualiQ2Reached ?? 1);
+      else qualiPts += (rules.qualiQ1Eliminated ?? -3);
+    }
+    if (hasValidGridPos && hasValidRacePos && !retired) {
+      const diff = grid - pos;
+      if (diff > 0) {
+        for (let p = grid - 1; p >= pos; p--) overtakes += (p <= 10 ? (rules.positionGainedPos1_10 ?? 1.0) : (rules.positionGainedPos11_Plus ?? 0.5));
+      } else if (diff < 0) {
+        for (let p = grid + 1; p <= pos; p++) overtakes += (p <= 10 ? (rules.positionLostPos1_10 ?? -1.0) : (rules.positionLostPos11_Plus ?? -0.5));
+      }
+    }
+    const sPos = sprintRes[dId]; if (sPos) sprintPts = (rules.sprintPositionPoints || DEFAULT_SPRINT_POINTS)[sPos - 1] || 0;
+    if (sqRes[dId] === 1) sqPolePts = (rules.sprintPole ?? 1);
+    if (retired) dnfPts = (rules.raceDNF ?? -5);
+    // Fastest lap only counts for a classified finisher.
+    if (hasValidRacePos && fastestLap === dId) flPts = (rules.raceFastestLap ?? 0);
+    const nRacePen = racePen[dId] || 0; const nGridPen = gridPen[dId] || 0;
+    const penPts = nRacePen > 0 ? nRacePen * (rules.racePenalty ?? -5) : 0;
+    const gridPenPts = nGridPen > 0 ? nGridPen * (rules.qualiGridPenalty ?? 0) : 0;
+    const tmId = teammates[dId];
+    if (tmId) {
+      const myP = raceRes[dId] ?? NaN; const tmP = raceRes[tmId] ?? NaN;
+      const isMyR = retired;
+      const isTmR = dnfL.includes(tmId) || dnsL.includes(tmId) || dsqL.includes(tmId);
+      const myHasValidPos = Number.isFinite(myP) && myP > 0 && myP < 900;
+      const tmHasValidPos = Number.isFinite(tmP) && tmP > 0 && tmP < 900;
+      if (myHasValidPos && tmHasValidPos) {
+        if (isMyR && !isTmR) teammatePts += (rules.teammateLost ?? -2);
+        else if (!isMyR && isTmR) teammatePts += (rules.teammateBeatDNF !== undefined ? rules.teammateBeatDNF : (rules.teammateBeat ?? 2));
+        else if (myP < tmP) teammatePts += (rules.teammateBeat ?? 2);
+        else if (myP > tmP) teammatePts += (rules.teammateLost ?? -2);
+      } else if (!isMyR && isTmR) {
+        teammatePts += (rules.teammateBeatDNF !== undefined ? rules.teammateBeatDNF : (rules.teammateBeat ?? 2));
+      } else if (isMyR && !isTmR) {
+        teammatePts += (rules.teammateLost ?? -2);
+      }
+    }
+    let mult = 1.0;
+    const cId = d.constructorId;
+    if (rules.constructors && cId) {
+      const cR = rules.constructors.find(c => c.id === cId);
+      if (cR) mult = cR.multiplier;
+    }
+    const fRace = (racePts > 0 ? racePts * mult : racePts) + (flPts > 0 ? flPts * mult : flPts) + overtakes + dnfPts + lastPts + teammatePts + penPts;
+    const fQuali = (qualiPts > 0 ? qualiPts * mult : qualiPts) + (polePts > 0 ? polePts * mult : polePts) + gridPenPts;
+    const fSprint = (sprintPts > 0 ? sprintPts * mult : sprintPts);
+    const fSq = (sqPolePts > 0 ? sqPolePts * mult : sqPolePts);
+    const tot = r(fRace + fQuali + fSprint + fSq);
+    driverPoints[dId] = tot; driverRacePoints[dId] = r(fRace); driverQualiPoints[dId] = r(fQuali); driverSprintPoints[dId] = r(fSprint); driverSprintQualiPoints[dId] = r(fSq);
+    driverBreakdown[dId] = { racePosition: racePts, overtakes, teammate: teammatePts, sprint: sprintPts, sprintPole: sqPolePts, dnf: dnfPts, lastPlace: lastPts, fastestLap: flPts, racePenalty: penPts, gridPenalty: gridPenPts, qualiPole: polePts, qualiSession: qualiPts, total: tot, constructorMult: mult };
+  }
+  return { driverPoints, driverRacePoints, driverQualiPoints, driverSprintPoints, driverSprintQualiPoints, driverBreakdown };
+}
+
+// --- Manual results -------------------------------------------------------
+//
+// Admins can type a classification in when OpenF1 is wrong or late
+// (/admin/race-results). Each session must rank every driver exactly once
+// from 1 upwards; only drivers who did not start may be left out of the race.
+
+export const MANUAL_RESULT_SESSIONS = ['quali', 'sprintQuali', 'sprint', 'race'] as const;
+export type ManualResultSession = typeof MANUAL_RESULT_SESSIONS[number];
+
+export interface ResultFieldError {
+  // Session or list, with the driver when it is about one: "race.ver",
+  // "dnfDrivers.alb", "quali".
+  field: string;
+  code: 'required' | 'not_an_integer' | 'out_of_range' | 'duplicate' | 'missing_driver' | 'unknown_driver' | 'unknown_constructor' | 'conflict';
+  min?: number;
+  max?: number;
+}
+
+export function validateManualResults(input: unknown, driverIds: string[], isSprint: boolean): ResultFieldError[] {
+  if (!isRecord(input)) return [{ field: 'results', code: 'required' }];
+  const errors: ResultFieldError[] = [];
+  const known = new Set(driverIds);
+
+  const lists: Record<string, string[]> = {};
+  for (const key of ['dnfDrivers', 'dnsDrivers', 'dsqDrivers']) {
+    const value = input[key] ?? [];
+    if (!Array.isArray(value)) { errors.push({ field: key, code: 'required' }); continue; }
+    lists[key] = value.map(String);
+    for (const id of lists[key]!) if (!known.has(id)) errors.push({ field: `${key}.${id}`, code: 'unknown_driver' });
+  }
+  const seen = new Set<string>();
+  for (const key of ['dnfDrivers', 'dnsDrivers', 'dsqDrivers']) {
+    for (const id of lists[key] || []) {
+      if (seen.has(id)) errors.push({ field: `${key}.${id}`, code: 'conflict' });
+      seen.add(id);
+    }
+  }
+
+  const sessions: ManualResultSession[] = isSprint ? ['quali', 'sprintQuali', 'sprint', 'race'] : ['quali', 'race'];
+  for (const session of sessions) {
+    const value = input[session];
+    if (!isRecord(value)) { errors.push({ field: session, code: 'required' }); continue; }
+    const expected = session === 'race' ? driverIds.filter((id) => !(lists.dnsDrivers || []).includes(id)) : driverIds;
+    const max = Object.keys(value).length;
+    const taken = new Set<number>();
+    for (const [id, pos] of Object.entries(value)) {
+      const field = `${session}.${id}`;
+      if (!known.has(id)) errors.push({ field, code: 'unknown_driver' });
+      else if (typeof pos !== 'number' || !Number.isInteger(pos)) errors.push({ field, code: 'not_an_integer' });
+      else if (pos < 1 || pos > max) errors.push({ field, code: 'out_of_range', min: 1, max });
+      else if (taken.has(pos)) errors.push({ field, code: 'duplicate' });
+      else taken.add(pos);
+    }
+    for (const id of expected) if (!(id in value)) errors.push({ field: `${session}.${id}`, code: 'missing_driver' });
+  }
+  if (input.fastestLap !== undefined && input.fastestLap !== null && !known.has(String(input.fastestLap))) {
+    errors.push({ field: 'fastestLap', code: 'unknown_driver' });
+  }
+  return errors;
+}
+
+// An entry list typed in by an admin (/admin/race-entries): known drivers,
+// each entered once, for a known constructor, with distinct car numbers.
+// Fields are "entries.<index>" or "entries.<driverId>.<key>".
+export function validateRaceEntries(input: unknown, driverIds: string[], constructorIds: string[]): ResultFieldError[] {
+  if (!Array.isArray(input)) return [{ field: 'entries', code: 'required' }];
+  const errors: ResultFieldError[] = [];
+  const known = new Set(driverIds);
+  const constructors = new Set(constructorIds);
+  const drivers = new Set<string>();
+  const numbers = new Set<number>();
+  input.forEach((entry, idx) => {
+    if (!isRecord(entry) || typeof entry.driverId !== 'string') { errors.push({ field: `entries.${idx}`, code: 'required' }); return; }
+    const field = `entries.${entry.driverId}`;
+    if (!known.has(entry.driverId)) errors.push({ field, code: 'unknown_driver' });
+    else if (drivers.has(entry.driverId)) errors.push({ field, code: 'duplicate' });
+    drivers.add(entry.driverId);
+    if (typeof entry.constructorId !== 'string' || !constructors.has(entry.constructorId)) errors.push({ field: `${field}.constructorId`, code: 'unknown_constructor' });
+    const carNumber = entry.carNumber ?? null;
+    if (carNumber === null) return;
+    if (typeof carNumber !== 'number' || !Number.isInteger(carNumber)) errors.push({ field: `${field}.carNumber`, code: 'not_an_integer' });
+    else if (carNumber < 1 || carNumber > 99) errors.push({ field: `${field}.carNumber`, code: 'out_of_range', min: 1, max: 99 });
+    else if (numbers.has(carNumber)) errors.push({ field: `${field}.carNumber`, code: 'duplicate' });
+    else numbers.add(carNumber);
+  });
+  return errors;
+}
+
+// --- Session status --------------------------------------------------------
+//
+// A weekend is published session by session: each classification is stored
+// (and scored) as soon as that session is final, and the race completes the
+// weekend. A session is therefore final exactly when its classification is in
+// the stored results.
+
+export type WeekendSession = ManualResultSession;
+export type SessionStatus = 'final' | 'pending';
+
+// Sessions of a weekend in running order.
+export const weekendSessions = (isSprint: boolean): WeekendSession[] =>
+  isSprint ? ['sprintQuali', 'sprint', 'quali', 'race'] : ['quali', 'race'];
+
+export function getSessionStatus(results: Partial<CombinedResults> | null | undefined, isSprint: boolean): Partial<Record<WeekendSession, SessionStatus>> {
+  const status: Partial<Record<WeekendSession, SessionStatus>> = {};
+  for (const session of weekendSessions(isSprint)) {
+    const classification = results?.[session];
+    status[session] = classification && typeof classification === 'object' && Object.keys(classification).length > 0 ? 'final' : 'pending';
+  }
+  return status;
+}
+
+// Keeps what belongs to the final sessions: grid penalties go with qualifying;
+// retirements, fastest lap and race penalties with the race.
+export function finalSessionsOnly(results: CombinedResults, final: WeekendSession[]): CombinedResults {
+  const out: CombinedResults = {};
+  for (const session of final) {
+    if (results[session]) out[session] = results[session];
+  }
+  if (final.includes('quali') && results.gridPenalties) out.gridPenalties = results.gridPenalties;
+  if (final.includes('race')) {
+    out.dnfDrivers = results.dnfDrivers || [];
+    out.dnsDrivers = results.dnsDrivers || [];
+    out.dsqDrivers = results.dsqDrivers || [];
+    if (results.fastestLap) out.fastestLap = results.fastestLap;
+    if (results.racePenalties) out.racePenalties = results.racePenalties;
+  }
+  return out;
+}
+
+// Recurrence guard: if the race classification is identical to the
+// qualifying order, OpenF1 returned the starting grid, not real race results
+// (the race has not finished, or results aren't published yet). Publishing it
+// would score the grid as the finish (Barcelona r8 2026: Russell shown P1
+// instead of his P2 finish).
+export function isRaceSameAsGrid(results: CombinedResults): boolean {
+  const quali = results.quali;
+  const race = results.race;
+  if (!quali || !race) return false;
+  const qk = Object.keys(quali);
+  return qk.length > 0 &&
+    qk.length === Object.keys(race).length &&
+    qk.every((id) => quali[id] === race[id]);
+}
+
+// Team total for one weekend from the per-driver points, using the league's
+// captain/reserve multipliers and reserve activation policy. Driver points
+// already carry the constructor multiplier; only the captain/reserve factors
+// belong here. Multiplying by the constructor again at this stage is the "double
+// multiplier" bug from the China simulation (ARCHITECTURE.md, Issue 2).
+export function scoreTeamLineup(driverPoints: Record<string, number>, lineup: TeamLineup, results: Pick<CombinedResults, 'dnsDrivers' | 'dnfDrivers'>, rules: ScoringRules): TeamScore {
+  const captainMult = rules.captainMultiplier ?? 2.0;
+  const reserveMult = rules.reserveMultiplier ?? 0.5;
+  const reserveActive = isReserveActivated(lineup.driverIds, lineup.reserveId, results, rules);
+  let points = 0;
+  const drivers: TeamScore["drivers"] = [];
+  for (const driverId of lineup.driverIds) {
+    let p = Number(driverPoints[driverId]) || 0;
+    if (driverId === lineup.captainId) p *= captainMult;
+    else if (driverId === lineup.reserveId) p = reserveActive ? p * reserveMult : 0;
+    points += p;
+    drivers.push({ driverId, points: p });
+  }
+  return { points, drivers };
+}
+
+// Triple Captain adds one more share of the captain's points on top of the
+// league's captain multiplier: x3 with the default x2, x2.5 with x1.5.
+export function tripleCaptainMultiplier(rules: ScoringRules): number {
+  return (rules.captainMultiplier ?? 2.0) + 1;
+}
+
+// Rules one team is scored with when it played `chip` this weekend. Returns
+// `rules` itself when the chip does not affect scoring, so callers can reuse
+// the league-wide driver points in that case.
+export function applyChip(rules: ScoringRules, chip: ChipId | null | undefined): ScoringRules {
+  if (chip === 'triple_captain') return { ...rules, captainMultiplier: tripleCaptainMultiplier(rules) };
+  if (chip === 'sprint_boost') {
+    return {
+      ...rules,
+      sprintPositionPoints: (rules.sprintPositionPoints || DEFAULT_SPRINT_POINTS).map((p) => p * 2),
+      sprintPole: (rules.sprintPole ?? 1) * 2,
+    };
+  }
+  if (chip === 'no_negatives') {
+    // Start from the defaults so a malus missing from older League.rules does
+    // not slip through via the engine's `?? -3` style fallbacks.
+    const { constructors: _defaultConstructors, ...defaults } = DEFAULT_SCORING_RULES;
+    const clamped: ScoringRules = { ...defaults, ...rules };
+    for (const [key, value] of Object.entries(clamped)) {
+      if (typeof value === 'number' && value < 0) clamped[key] = 0;
+      else if (Array.isArray(value) && value.every((v) => typeof v === 'number')) clamped[key] = (value as number[]).map((v) => Math.max(0, v));
+    }
+    return clamped;
+  }
+  return rules;
+}
+
+// Free transfers a team has in the current round. `freeUsedByRound` holds,
+// oldest first, the free transfers it made in each earlier round of the
+// season. Unused ones carry over only while `freeTransfersRolloverCap` is
+// above the per-round allowance, and never past it.
+export function availableFreeTransfers(freeUsedByRound: number[], rules: ScoringRules): number {
+  const perRound = Math.max(0, rules.freeTransfersPerRound ?? 2);
+  const cap = Math.max(perRound, rules.freeTransfersRolloverCap ?? 0);
+  let available = perRound;
+  for (const used of freeUsedByRound) {
+    available = Math.min(cap, Math.max(0, available - used) + perRound);
+  }
+  return available;
+}
+
+export type TransferKind = "free" | "paid" | "wildcard";
+
+export interface TransferLogEntry {
+  raceId: string;
+  kind: TransferKind;
+}
+
+// Where a team stands in round `raceId`, from its transfer log and the ids of
+// the earlier rounds that count for rollover (oldest first). Every logged
+// release counts, whichever driver it was: buying a sold driver back later in
+// the round is a plain purchase and does not give the transfer back, or
+// selling and rebuying would reset a round's count.
+export function tallyTransfers(
+  log: TransferLogEntry[],
+  raceId: string,
+  earlierRaceIds: string[],
+  rules: ScoringRules,
+): { freeLeft: number; made: number; paid: number } {
+  const freeUsed: Record<string, number> = {};
+  let made = 0;
+  let paid = 0;
+  for (const entry of log) {
+    if (entry.kind === "free") freeUsed[entry.raceId] = (freeUsed[entry.raceId] || 0) + 1;
+    if (entry.raceId !== raceId) continue;
+    made++;
+    if (entry.kind === "paid") paid++;
+  }
+  const available = availableFreeTransfers(earlierRaceIds.map((id) => freeUsed[id] || 0), rules);
+  return { freeLeft: Math.max(0, available - (freeUsed[raceId] || 0)), made, paid };
+}
+
+// How the next release of the round is booked.
+export function nextTransferKind(freeLeft: number, wildcard: boolean): TransferKind {
+  return wildcard ? "wildcard" : freeLeft > 0 ? "free" : "paid";
+}
+
+// A league's rule set from a given round on. Versions are immutable; a new
+// one is added for every change.
+export interface RulesVersion {
+  version: number;
+  effectiveFromSeason: number;
+  effectiveFromRound: number;
+}
+
+// Version in force for a race: the newest one that had taken effect by then,
+// so a later retroactive version overrides older ones for every race it
+// covers. Races before every version fall back to the earliest one.
+export function pickRulesVersion<T extends RulesVersion>(versions: T[], season: number, round: number): T | null {
+  const key = (s: number, r: number) => s * 1000 + r;
+  const target = key(season, round);
+  let picked: T | null = null;
+  let earliest: T | null = null;
+  for (const v of versions) {
+    const from = key(v.effectiveFromSeason, v.effectiveFromRound);
+    if (from <= target && (!picked || v.version > picked.version)) picked = v;
+    if (!earliest) earliest = v;
+    else {
+      const earliestFrom = key(earliest.effectiveFromSeason, earliest.effectiveFromRound);
+      if (from < earliestFrom || (from === earliestFrom && v.version < earliest.version)) earliest = v;
+    }
+  }
+  return picked ?? earliest;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { describeDevice, SESSION_TOUCH_MS, SESSION_TTL_MS, sessionExpiry, sessionNeedsTouch } from "./session.ts";
+
+describe("Session expiry", () => {
+  it("slides the expiry at most once per touch interval", () => {
+    const now = Date.parse("2026-10-19T12:00:00Z");
+    expect(sessionNeedsTouch(new Date(now - SESSION_TOUCH_MS + 1000), now)).toBe(false);
+    expect(sessionNeedsTouch(new Date(now - SESSION_TOUCH_MS), now)).toBe(true);
+    expect(sessionNeedsTouch("not a date", now)).toBe(true);
+    expect(sessionExpiry(now).getTime()).toBe(now + SESSION_TTL_MS);
+  });
+});
+
+describe("Device names", () => {
+  it("names browsers that borrow each other's tokens correctly", () => {
+    const android = "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36";
+    const edge = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0";
+    const iphone = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1";
+    expect(describeDevice(android)).toBe("Chrome on Android");
+    expect(describeDevice(edge)).toBe("Edge on Windows");
+    expect(describeDevice(iphone)).toBe("Safari on iOS");
+  });
+
+  it("prefers the app platform and gives up on unknown agents", () => {
+    expect(describeDevice("anything", "ios")).toBe("iOS app");
+    expect(describeDevice("anything", "web")).toBeNull();
+    expect(describeDevice("curl/8.4.0")).toBeNull();
+    expect(describeDevice(null)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+// Login sessions: how long a token lives and how a device is named.
+
+// A device unused this long has to log in again.
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// lastSeenAt and the expiry are written at most this often per session.
+export const SESSION_TOUCH_MS = 60 * 60 * 1000;
+
+export function sessionNeedsTouch(lastSeenAt: Date | string, now = Date.now()): boolean {
+  const seen = new Date(lastSeenAt).getTime();
+  return !Number.isFinite(seen) || now - seen >= SESSION_TOUCH_MS;
+}
+
+export function sessionExpiry(now = Date.now(), ttlMs = SESSION_TTL_MS): Date {
+  return new Date(now + ttlMs);
+}
+
+// Order matters: Edge and Opera say "Chrome", Chrome says "Safari".
+const BROWSERS: Array<[RegExp, string]> = [
+  [/\bEdg(e|A|iOS)?\//, 'Edge'],
+  [/\b(OPR|Opera)\//, 'Opera'],
+  [/\b(Firefox|FxiOS)\//, 'Firefox'],
+  [/\b(Chrome|CriOS)\//, 'Chrome'],
+  [/\bSafari\//, 'Safari'],
+];
+
+const SYSTEMS: Array<[RegExp, string]> = [
+  [/\b(iPhone|iPad|iPod)\b/, 'iOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+const PLATFORMS: Record<string, string> = { ios: 'iOS app', android: 'Android app' };
+
+// "Chrome on Android", "iOS app", or null when nothing is recognised.
+// `platform` is what the app reported at login (Capacitor's getPlatform()).
+export function describeDevice(userAgent: string | null | undefined, platform?: string | null): string | null {
+  if (platform && PLATFORMS[platform]) return PLATFORMS[platform];
+  const ua = userAgent || '';
+  const browser = BROWSERS.find(([re]) => re.test(ua))?.[1];
+  const system = SYSTEMS.find(([re]) => re.test(ua))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser || system || null;
+}
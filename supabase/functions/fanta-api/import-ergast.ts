@@ -0,0 +1,52 @@
+// Builds a RESULTS_PROVIDER=fixture directory from Ergast/Jolpica result files.
+//
+//   deno run --allow-read --allow-write import-ergast.ts <outDir> <file.json>...
+//
+// Each file is an Ergast/Jolpica response (results, qualifying or sprint for
+// one or more races, e.g. https://api.jolpi.ca/ergast/f1/2025/1/results.json).
+// Files for the same race are merged; sessions already in <outDir> are kept.
+import { importErgastRace, type ResultsFixture, SESSION_DATA_KINDS } from "../_shared/results-provider.ts";
+
+const [outDir, ...files] = Deno.args;
+if (!outDir || files.length === 0) {
+  console.error("Usage: deno run --allow-read --allow-write import-ergast.ts <outDir> <file.json>...");
+  Deno.exit(1);
+}
+
+const readJson = async (path: string): Promise<unknown | null> => {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch {
+    return null;
+  }
+};
+
+const merged: ResultsFixture = { sessions: [], data: {} };
+for (const file of files) {
+  const body = await readJson(file) as { MRData?: { RaceTable?: { Races?: unknown[] } } } | null;
+  const races = body?.MRData?.RaceTable?.Races;
+  if (!Array.isArray(races)) {
+    console.error(`${file}: not an Ergast/Jolpica RaceTable response, skipped`);
+    continue;
+  }
+  for (const race of races) {
+    const fixture = importErgastRace(race as Parameters<typeof importErgastRace>[0]);
+    merged.sessions.push(...fixture.sessions);
+    Object.assign(merged.data, fixture.data);
+  }
+}
+
+const existing = await readJson(`${outDir}/sessions.json`);
+const byKey = new Map<number, Record<string, unknown>>();
+for (const row of Array.isArray(existing) ? existing : []) byKey.set(Number(row.session_key), row);
+for (const row of merged.sessions) byKey.set(Number(row.session_key), row);
+
+await Deno.mkdir(outDir, { recursive: true });
+await Deno.writeTextFile(`${outDir}/sessions.json`, JSON.stringify([...byKey.values()], null, 2));
+for (const [sessionKey, data] of Object.entries(merged.data)) {
+  await Deno.mkdir(`${outDir}/${sessionKey}`, { recursive: true });
+  for (const kind of SESSION_DATA_KINDS) {
+    await Deno.writeTextFile(`${outDir}/${sessionKey}/${kind}.json`, JSON.stringify(data[kind] || [], null, 2));
+  }
+}
+console.log(`Wrote ${Object.keys(merged.data).length} sessions to ${outDir}`);
@@ -2,6 +2,81 @@ import { serve } from "std/http/server.ts";
 import { Hono, Context, Next } from "hono";
 import { cors } from "hono/middleware.ts";
 import postgres from "postgres";
+import {
+  applyChip,
+  applyRaceEntries,
+  buildTeammateMap,
+  calculateWeekendPoints,
+  CHIP_IDS,
+  type ChipId,
+  type CombinedResults,
+  DEFAULT_SCORING_RULES,
+  finalSessionsOnly,
+  getSessionStatus,
+  isRaceSameAsGrid,
+  nextTransferKind,
+  normalizeScoringRules,
+  pickRulesVersion,
+  type RaceEntry,
+  type RulesVersion,
+  type ScoringRules,
+  scoreTeamLineup,
+  tallyTransfers,
+  type TeamLineup,
+  type TransferKind,
+  validateManualResults,
+  validateRaceEntries,
+  validateScoringRules,
+  type WeekendSession,
+} from "../_shared/scoring.ts";
+import { calculatePriceChanges, DEFAULT_PRICING_RULES, type PricingRules } from "../_shared/pricing.ts";
+import {
+  buildDriverRoster,
+  type DriverAlias,
+  type DriverRoster,
+  normalizeDriverName,
+  proposeRosterChanges,
+  type RosterChange,
+  type RosterDriver,
+} from "../_shared/roster.ts";
+import {
+  advanceRaceStatus,
+  DEFAULT_RACE_TIMING,
+  isRaceOff,
+  isRaceStatus,
+  raceIsLocked,
+  raceLockMs,
+  racesAwaitingLineupSnapshot,
+  type RaceStatus,
+  type RaceTiming,
+  selectActiveRace,
+} from "../_shared/race-status.ts";
+import {
+  constantTimeEqual,
+  formatPasswordHash,
+  needsRehash,
+  parsePasswordHash,
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+  validatePassword,
+} from "../_shared/password.ts";
+import { describeDevice, sessionExpiry, sessionNeedsTouch } from "../_shared/session.ts";
+import {
+  ATTEMPT_POLICIES,
+  type AttemptScope,
+  type AttemptState,
+  attemptRetryAfterMs,
+  refundFailure,
+  registerFailure,
+} from "../_shared/attempts.ts";
+import {
+  countRaceControlPenalties,
+  createFixtureProvider,
+  createOpenF1Provider,
+  type ResultsProvider,
+  type SessionName,
+  type SessionQuery,
+} from "../_shared/results-provider.ts";
 
 type Variables = {
   user: {
@@ -9,16 +84,12 @@ type Variables = {
     authToken: string;
     displayName: string;
     password?: string;
+    // UserSession the request was authenticated with; null while that table
+    // is unavailable.
+    sessionId: string | null;
   };
 }
 
-interface ConstructorRule {
-  id: string;
-  name: string;
-  color: string;
-  multiplier: number;
-}
-
 interface Driver {
   id: string;
   name: string;
@@ -26,61 +97,6 @@ interface Driver {
   points?: number;
 }
 
-interface DriverBreakdown {
-  racePosition: number;
-  overtakes: number;
-  teammate: number;
-  sprint: number;
-  sprintPole: number;
-  dnf: number;
-  lastPlace: number;
-  qualiPole: number;
-  qualiSession: number;
-  total: number;
-  constructorMult: number;
-}
-
-interface CombinedResults {
-  race?: Record<string, number>;
-  quali?: Record<string, number>;
-  sprint?: Record<string, number>;
-  sprintQuali?: Record<string, number>;
-  dnfDrivers?: string[];
-  dnsDrivers?: string[];
-  fastestLap?: string;
-  gridPenalties?: Record<string, number>;
-  driverPoints?: Record<string, number>;
-  driverRacePoints?: Record<string, number>;
-  driverQualiPoints?: Record<string, number>;
-  driverSprintPoints?: Record<string, number>;
-  driverSprintQualiPoints?: Record<string, number>;
-  driverBreakdown?: Record<string, DriverBreakdown>;
-}
-
-interface ScoringRules {
-  [key: string]: number | number[] | ConstructorRule[] | undefined; 
-  racePositionPoints: number[];
-  sprintPositionPoints: number[];
-  raceFastestLap: number;
-  raceLastPlaceMalus: number;
-  qualiQ1Eliminated: number;
-  qualiQ2Reached: number;
-  qualiQ3Reached: number;
-  qualiPole: number;
-  qualiGridPenalty: number;
-  raceDNF: number;
-  racePenalty: number;
-  teammateBeat: number;
-  teammateLost: number;
-  teammateBeatDNF: number;
-  positionGainedPos1_10: number;
-  positionGainedPos11_Plus: number;
-  positionLostPos1_10: number;
-  positionLostPos11_Plus: number;
-  sprintPole: number;
-  constructors?: ConstructorRule[];
-}
-
 const app = new Hono<{ Variables: Variables }>().basePath("/fanta-api");
 
 // DB Connection
@@ -90,6 +106,18 @@ const LOCK_OFFSET_MS = 5 * 60 * 1000;
 const parsedAutoCloseHours = Number(Deno.env.get("RACE_AUTO_CLOSE_HOURS") || "72");
 const AUTO_CLOSE_HOURS = Number.isFinite(parsedAutoCloseHours) && parsedAutoCloseHours > 0 ? parsedAutoCloseHours : 72;
 const AUTO_CLOSE_MS = AUTO_CLOSE_HOURS * 60 * 60 * 1000;
+const RACE_TIMING: RaceTiming = { ...DEFAULT_RACE_TIMING, lockOffsetMs: LOCK_OFFSET_MS, autoCloseMs: AUTO_CLOSE_MS };
+const TEAM_STARTING_BUDGET = 100.0;
+
+// Optional JSON override of DEFAULT_PRICING_RULES, e.g. {"maxChangePerRound":0.5}.
+const PRICING_RULES: PricingRules = (() => {
+  try {
+    return { ...DEFAULT_PRICING_RULES, ...JSON.parse(Deno.env.get("PRICING_RULES") || "{}") };
+  } catch (e) {
+    console.error("Invalid PRICING_RULES, using defaults:", e);
+    return DEFAULT_PRICING_RULES;
+  }
+})();
 
 interface RaceRow {
   id: string;
@@ -103,7 +131,9 @@ interface RaceRow {
   sprintQualifyingUtc: string | Date | null;
   date: string | Date | null;
   isCompleted: boolean;
+  status?: RaceStatus | null;
   results?: CombinedResults | null;
+  resultsPinned?: boolean;
 }
 
 const parseDateSafe = (value: string | Date | null | undefined): Date | null => {
@@ -112,59 +142,166 @@ const parseDateSafe = (value: string | Date | null | undefined): Date | null =>
   return Number.isNaN(parsed.getTime()) ? null : parsed;
 };
 
-const getRaceSessionUtc = (race: RaceRow): Date | null => {
-  const primary = race.isSprint ? race.sprintQualifyingUtc : race.qualifyingUtc;
-  return parseDateSafe(primary) || parseDateSafe(race.qualifyingUtc) || parseDateSafe(race.date);
-};
-
 const getRaceLockDate = (race: RaceRow): Date | null => {
-  const session = getRaceSessionUtc(race);
-  if (!session) return null;
-  return new Date(session.getTime() - LOCK_OFFSET_MS);
+  const lockMs = raceLockMs(race, RACE_TIMING);
+  return lockMs === null ? null : new Date(lockMs);
 };
 
-const isRaceStale = (race: RaceRow, now = new Date()): boolean => {
-  if (race.isCompleted) return false;
-  const session = getRaceSessionUtc(race);
-  if (!session) return false;
-  const autoCloseAt = session.getTime() + AUTO_CLOSE_MS;
-  return now.getTime() > autoCloseAt;
-};
+// See ../_shared/race-status.ts: cancelled and postponed races are never
+// active, and a race is locked by its status, not only by the clock.
+const pickActiveRace = (races: RaceRow[], now = new Date()): RaceRow | null =>
+  selectActiveRace(races, now.getTime(), RACE_TIMING);
 
-const pickActiveRace = (races: RaceRow[], now = new Date()): RaceRow | null => {
-  if (races.length === 0) return null;
-  const nonCompleted = races.filter((race) => !race.isCompleted);
-  if (nonCompleted.length === 0) return races[races.length - 1];
-  return nonCompleted.find((race) => !isRaceStale(race, now)) || nonCompleted[nonCompleted.length - 1];
-};
+const isRaceLocked = (race: RaceRow, now = new Date()): boolean =>
+  raceIsLocked(race, now.getTime(), RACE_TIMING);
+
+// Race."resultsPinned" is set by a manual results entry so the crons leave
+// the race alone until an admin unpins it. Checked once per isolate because
+// loadRacesOrdered runs on nearly every request.
+let raceResultsPinColumn: Promise<boolean> | null = null;
+const ensureRaceResultsPinColumn = (db: SqlExecutor): Promise<boolean> =>
+  (raceResultsPinColumn ||= (async () => {
+    try {
+      await db`ALTER TABLE "Race" ADD COLUMN IF NOT EXISTS "resultsPinned" BOOLEAN NOT NULL DEFAULT false`;
+      return true;
+    } catch (e) {
+      console.error("Race.resultsPinned unavailable:", e);
+      raceResultsPinColumn = null;
+      return false;
+    }
+  })());
+
+// Race.status (see ../_shared/race-status.ts). Until the column exists every
+// race reads as NULL and its status follows the clock alone.
+let raceStatusColumn: Promise<boolean> | null = null;
+const ensureRaceStatusColumn = (db: SqlExecutor): Promise<boolean> =>
+  (raceStatusColumn ||= (async () => {
+    try {
+      await db`ALTER TABLE "Race" ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled','locked','in_progress','provisional','final','cancelled','postponed'))`;
+      return true;
+    } catch (e) {
+      console.error("Race.status unavailable:", e);
+      raceStatusColumn = null;
+      return false;
+    }
+  })());
 
 const loadRacesOrdered = async (): Promise<RaceRow[]> => {
+  const pinned = await ensureRaceResultsPinColumn(sql as unknown as SqlExecutor);
+  const withStatus = await ensureRaceStatusColumn(sql as unknown as SqlExecutor);
   return sql<RaceRow[]>`
-    SELECT id, name, country, city, season, round, "isSprint", "qualifyingUtc", "sprintQualifyingUtc", date, "isCompleted", results
+    SELECT id, name, country, city, season, round, "isSprint", "qualifyingUtc", "sprintQualifyingUtc", date, "isCompleted", results,
+           ${pinned ? sql`"resultsPinned"` : sql`false AS "resultsPinned"`},
+           ${withStatus ? sql`status` : sql`NULL AS status`}
     FROM "Race"
-    ORDER BY round ASC
+    ORDER BY season ASC NULLS FIRST, round ASC
   `;
 };
 
+// Moves every race's status forward with the clock. A race that auto-closes
+// to final without results is also marked completed, as before.
 const autocloseStaleRaces = async (): Promise<RaceRow[]> => {
   await maybeSyncRaceCalendarFromOpenF1();
   const races = await loadRacesOrdered();
-  const staleIds = races.filter((race) => isRaceStale(race)).map((race) => race.id);
-  if (staleIds.length === 0) return races;
-
-  await sql`
-    UPDATE "Race"
-    SET "isCompleted" = true
-    WHERE id IN ${sql(staleIds)} AND "isCompleted" = false
-  `;
+  await snapshotLockedRaceLineups(races);
+  if (!(await ensureRaceStatusColumn(sql as unknown as SqlExecutor))) return races;
+  const now = Date.now();
+  const changed = races
+    .map((race) => ({ race, status: advanceRaceStatus(race, now, RACE_TIMING) }))
+    .filter(({ race, status }) => status !== race.status);
+  if (changed.length === 0) return races;
+
+  for (const { race, status } of changed) {
+    await sql`
+      UPDATE "Race"
+      SET status = ${status}, "isCompleted" = "isCompleted" OR ${status === "final"}
+      WHERE id = ${race.id}
+    `;
+  }
   return loadRacesOrdered();
 };
 
+// Season of the active race, else the calendar year.
+const currentSeason = async (): Promise<number> =>
+  Number(pickActiveRace(await loadRacesOrdered())?.season) || new Date().getUTCFullYear();
+
 // Helper for tokens
 function makeToken() {
   return crypto.randomUUID().replace(/-/g, "");
 }
 
+// One row per logged-in device. Only a SHA-256 of the token is stored; the
+// expiry slides forward while the device keeps using it (../_shared/session.ts).
+let userSessionTable: Promise<boolean> | null = null;
+const ensureUserSessionTable = (db: SqlExecutor): Promise<boolean> =>
+  (userSessionTable ||= (async () => {
+    try {
+      await db`
+        CREATE TABLE IF NOT EXISTS "UserSession" (
+          id TEXT PRIMARY KEY,
+          "userId" TEXT NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+          "tokenHash" TEXT NOT NULL UNIQUE,
+          device TEXT,
+          "userAgent" TEXT,
+          "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+          "lastSeenAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+          "expiresAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL
+        );
+      `;
+      await db`CREATE INDEX IF NOT EXISTS "UserSession_userId_idx" ON "UserSession"("userId");`;
+      await db`ALTER TABLE "UserSession" ENABLE ROW LEVEL SECURITY`;
+      return true;
+    } catch (e) {
+      console.error("UserSession table unavailable:", e);
+      userSessionTable = null;
+      return false;
+    }
+  })());
+
+const hashToken = async (token: string): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token)));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Starts a session for the device making the request and returns its token.
+// The user's expired sessions are cleared on the way.
+const createSession = async (c: Context, userId: string, platform?: unknown, token = makeToken()): Promise<{ id: string; token: string }> => {
+  const userAgent = (c.req.header("User-Agent") || "").slice(0, 512) || null;
+  const device = describeDevice(userAgent, typeof platform === "string" ? platform : null);
+  const id = crypto.randomUUID();
+  await sql`DELETE FROM "UserSession" WHERE "userId" = ${userId} AND "expiresAt" <= NOW()`;
+  await sql`
+    INSERT INTO "UserSession" (id, "userId", "tokenHash", device, "userAgent", "expiresAt")
+    VALUES (${id}, ${userId}, ${await hashToken(token)}, ${device}, ${userAgent}, ${sessionExpiry()})
+  `;
+  return { id, token };
+};
+
+const findSessionUser = async (token: string): Promise<Variables["user"] | null> => {
+  const [row] = await sql`
+    SELECT s.id AS "sessionId", s."lastSeenAt", u.id, u."authToken", u."displayName"
+    FROM "UserSession" s JOIN "User" u ON u.id = s."userId"
+    WHERE s."tokenHash" = ${await hashToken(token)} AND s."expiresAt" > NOW()
+  `;
+  if (!row) return null;
+  if (sessionNeedsTouch(row.lastSeenAt)) {
+    await sql`UPDATE "UserSession" SET "lastSeenAt" = NOW(), "expiresAt" = ${sessionExpiry()} WHERE id = ${row.sessionId}`;
+  }
+  return { id: row.id, authToken: row.authToken, displayName: row.displayName, sessionId: row.sessionId };
+};
+
+// Tokens handed out before sessions lived on User.authToken and never expired.
+// The first request with one turns it into a session and retires the column
+// value, so from then on it can expire and be revoked like any other.
+const adoptLegacyToken = async (c: Context, token: string): Promise<Variables["user"] | null> => {
+  const [user] = await sql`SELECT id, "authToken", "displayName" FROM "User" WHERE "authToken" = ${token}`;
+  if (!user) return null;
+  const session = await createSession(c, user.id, null, token);
+  await sql`UPDATE "User" SET "authToken" = ${makeToken()} WHERE id = ${user.id} AND "authToken" = ${token}`;
+  return { id: user.id, authToken: user.authToken, displayName: user.displayName, sessionId: session.id };
+};
+
 // Middleware: Auth
 const requireUser = async (c: Context<{ Variables: Variables }>, next: Next) => {
   const authHeader = c.req.header("Authorization");
@@ -172,8 +309,15 @@ const requireUser = async (c: Context<{ Variables: Variables }>, next: Next) =>
     return c.json({ error: "missing_token" }, 401);
   }
   const token = authHeader.slice(7);
-  
-  const [user] = await sql<Variables['user'][]>`SELECT id, "authToken", "displayName" FROM "User" WHERE "authToken" = ${token}`;
+
+  let user: Variables["user"] | null;
+  if (await ensureUserSessionTable(sql as unknown as SqlExecutor)) {
+    // The second lookup covers a concurrent request adopting the same legacy token.
+    user = (await findSessionUser(token)) ?? (await adoptLegacyToken(c, token)) ?? (await findSessionUser(token));
+  } else {
+    const [legacy] = await sql`SELECT id, "authToken", "displayName" FROM "User" WHERE "authToken" = ${token}`;
+    user = legacy ? { id: legacy.id, authToken: legacy.authToken, displayName: legacy.displayName, sessionId: null } : null;
+  }
   if (!user) {
     return c.json({ error: "invalid_token" }, 401);
   }
@@ -197,12 +341,32 @@ app.get("/health", async (c) => {
   }
 });
 
-// Helper: Hash Password
-async function hashPassword(password: string) {
-  const msgBuffer = new TextEncoder().encode(password);
-  const hashBuffer = await crypto.subtle.digest("SHA-256", msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, "0")).join("");
+// Passwords are stored as salted PBKDF2-SHA256 (format in
+// ../_shared/password.ts). Raising PASSWORD_ITERATIONS upgrades each account
+// on its next login, like the unsalted SHA-256 hashes from before.
+const PASSWORD_ITERATIONS = 600_000;
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PASSWORD_ITERATIONS);
+  return formatPasswordHash({ algorithm: "pbkdf2_sha256", iterations: PASSWORD_ITERATIONS, salt, hash });
+}
+
+// `rehash` is set when the password matched a hash that should be replaced.
+async function verifyPassword(password: string, stored: string): Promise<{ ok: boolean; rehash: boolean }> {
+  const parsed = parsePasswordHash(stored);
+  if (!parsed) return { ok: false, rehash: false };
+  const hash = parsed.algorithm === "sha256"
+    ? new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(password)))
+    : await pbkdf2(password, parsed.salt, parsed.iterations);
+  const ok = constantTimeEqual(hash, parsed.hash);
+  return { ok, rehash: ok && needsRehash(parsed, PASSWORD_ITERATIONS) };
 }
 
 type SqlExecutor = (template: TemplateStringsArray, ...params: unknown[]) => Promise<Array<Record<string, unknown>>>;
@@ -219,6 +383,8 @@ const ensureTeamPenaltyTable = async (db: SqlExecutor): Promise<boolean> => {
         "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
       );
     `;
+    // Automatic penalties (e.g. extra transfers) point at the race they belong to.
+    await db`ALTER TABLE "TeamPenalty" ADD COLUMN IF NOT EXISTS "raceId" TEXT REFERENCES "Race"(id) ON DELETE SET NULL`;
     // RLS must be enabled even on auto-created tables — without it anyone
     // with the anon key can read/write via the REST API. No policies are
     // needed because the backend uses the session pooler (service_role
@@ -402,30 +568,671 @@ const ensureWebhookEventTable = async (db: SqlExecutor): Promise<boolean> => {
   }
 };
 
+// --- Seasons -------------------------------------------------------------
+//
+// League.season is the season a league is playing and Team.season the one
+// its budget, roster and points belong to; NULL (leagues from before seasons)
+// counts every race. A team's total only sums TeamResult rows of races of its
+// season, and TeamPenalty rows not yet archived (season IS NULL).
+// /league/season/start archives the final standings in LeagueSeasonStanding,
+// stamps the penalties with the finished season and resets the teams.
+
+let leagueSeasonSchema: Promise<boolean> | null = null;
+const ensureLeagueSeasonSchema = (db: SqlExecutor): Promise<boolean> =>
+  (leagueSeasonSchema ||= (async () => {
+    try {
+      if (!(await ensureTeamPenaltyTable(db))) throw new Error("TeamPenalty table unavailable");
+      await db`ALTER TABLE "League" ADD COLUMN IF NOT EXISTS season INTEGER`;
+      await db`ALTER TABLE "Team" ADD COLUMN IF NOT EXISTS season INTEGER`;
+      await db`ALTER TABLE "TeamPenalty" ADD COLUMN IF NOT EXISTS season INTEGER`;
+      await db`
+        CREATE TABLE IF NOT EXISTS "LeagueSeasonStanding" (
+          id TEXT PRIMARY KEY,
+          "leagueId" TEXT NOT NULL REFERENCES "League"(id) ON DELETE CASCADE,
+          season INTEGER NOT NULL,
+          rank INTEGER NOT NULL,
+          "userId" TEXT NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+          "teamId" TEXT REFERENCES "Team"(id) ON DELETE SET NULL,
+          "teamName" TEXT,
+          "userName" TEXT,
+          "totalPoints" DOUBLE PRECISION NOT NULL DEFAULT 0,
+          "penaltyPoints" DOUBLE PRECISION NOT NULL DEFAULT 0,
+          "driverIds" JSONB NOT NULL DEFAULT '[]'::jsonb,
+          results JSONB NOT NULL DEFAULT '[]'::jsonb,
+          "archivedAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+        );
+      `;
+      await db`CREATE UNIQUE INDEX IF NOT EXISTS "LeagueSeasonStanding_league_season_user_key" ON "LeagueSeasonStanding"("leagueId", season, "userId")`;
+      await db`ALTER TABLE "LeagueSeasonStanding" ENABLE ROW LEVEL SECURITY`;
+      return true;
+    } catch (e) {
+      console.error("League seasons unavailable:", e);
+      leagueSeasonSchema = null;
+      return false;
+    }
+  })());
+
 const syncTeamTotalPoints = async (db: SqlExecutor, teamId: string, includePenalties = true) => {
-  const rows = includePenalties
+  const seasons = await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor);
+  const [results] = seasons
     ? await db`
-      SELECT
-        COALESCE((SELECT SUM(points) FROM "TeamResult" WHERE "teamId" = ${teamId}), 0)
-        + COALESCE((SELECT SUM(points) FROM "TeamPenalty" WHERE "teamId" = ${teamId}), 0) AS total
+      SELECT COALESCE(SUM(tr.points), 0) AS total
+      FROM "TeamResult" tr
+      JOIN "Race" r ON r.id = tr."raceId"
+      JOIN "Team" t ON t.id = tr."teamId"
+      WHERE tr."teamId" = ${teamId} AND (t.season IS NULL OR r.season = t.season)
     `
-    : await db`
-      SELECT
-        COALESCE((SELECT SUM(points) FROM "TeamResult" WHERE "teamId" = ${teamId}), 0) AS total
-    `;
-  const total = Number((rows[0] as { total?: number | string | null } | undefined)?.total ?? 0);
+    : await db`SELECT COALESCE(SUM(points), 0) AS total FROM "TeamResult" WHERE "teamId" = ${teamId}`;
+  const [penalties] = !includePenalties
+    ? []
+    : seasons
+    ? await db`SELECT COALESCE(SUM(points), 0) AS total FROM "TeamPenalty" WHERE "teamId" = ${teamId} AND season IS NULL`
+    : await db`SELECT COALESCE(SUM(points), 0) AS total FROM "TeamPenalty" WHERE "teamId" = ${teamId}`;
+  const total = Number(results?.total ?? 0) + Number(penalties?.total ?? 0);
   await db`UPDATE "Team" SET "totalPoints" = ${total} WHERE id = ${teamId}`;
 };
 
+// --- Lineup snapshots ----------------------------------------------------
+//
+// A race must be scored with the lineup each team actually fielded when the
+// race locked, not with whatever TeamDriver/captainId/reserveId say at sync
+// time. /cron/resync-recent re-scores a race days later, by which point
+// managers have already made transfers for the next weekend, and those used
+// to leak into the previous race. One row per (team, race), written once
+// after getRaceLockDate passes and never updated afterwards.
+
+const ensureTeamRaceLineupTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "TeamRaceLineup" (
+        id TEXT PRIMARY KEY,
+        "teamId" TEXT NOT NULL REFERENCES "Team"(id) ON DELETE CASCADE,
+        "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+        "driverIds" JSONB NOT NULL DEFAULT '[]'::jsonb,
+        "captainId" TEXT,
+        "reserveId" TEXT,
+        "lockedAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "TeamRaceLineup_team_race_idx" ON "TeamRaceLineup"("teamId","raceId");`;
+    await db`CREATE INDEX IF NOT EXISTS "TeamRaceLineup_race_idx" ON "TeamRaceLineup"("raceId");`;
+    await db`ALTER TABLE "TeamRaceLineup" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("TeamRaceLineup table unavailable:", e);
+    return false;
+  }
+};
+
+// Freeze the current lineup of every team that has no snapshot for this race
+// yet, stamped with the race's lock time. Idempotent: existing snapshots are
+// never overwritten.
+const snapshotRaceLineups = async (db: SqlExecutor, race: RaceRow) => {
+  const lockedAt = getRaceLockDate(race) ?? new Date();
+  await db`
+    INSERT INTO "TeamRaceLineup" (id, "teamId", "raceId", "driverIds", "captainId", "reserveId", "lockedAt")
+    SELECT
+      gen_random_uuid()::text,
+      t.id,
+      ${race.id},
+      COALESCE((SELECT jsonb_agg(td."driverId") FROM "TeamDriver" td WHERE td."teamId" = t.id), '[]'::jsonb),
+      t."captainId",
+      t."reserveId",
+      ${lockedAt}
+    FROM "Team" t
+    ON CONFLICT ("teamId", "raceId") DO NOTHING
+  `;
+};
+
+// Called on every autocloseStaleRaces pass, before statuses move on, so the
+// snapshot lands on the first request after lock. Every market and lineup
+// write goes through that pass, so no write after the lock can reach a
+// lineup before it is frozen, even when that first request comes after the
+// race has closed and the market is open for the next round.
+const snapshotLockedRaceLineups = async (races: RaceRow[]) => {
+  const pending = racesAwaitingLineupSnapshot(races, Date.now(), RACE_TIMING);
+  if (pending.length === 0) return;
+  try {
+    if (!(await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor))) return;
+    for (const race of pending) await snapshotRaceLineups(sql as unknown as SqlExecutor, race);
+  } catch (e) {
+    console.error("lineup_snapshot_error", e);
+  }
+};
+
+// Lineups to score `race` with, keyed by team id. Before lock the live lineup
+// is used (simulations of future races). After lock the snapshot wins; a race
+// that is not final yet gets its missing snapshots taken now. Completed races
+// without a snapshot (scored before snapshots existed) fall back to the
+// lineup recorded on their TeamResult rows, and only then to the live one.
+const loadRaceLineups = async (db: SqlExecutor, race: RaceRow, hasLineupTable: boolean): Promise<Record<string, TeamLineup>> => {
+  const lineups: Record<string, TeamLineup> = {};
+
+  const liveTeams = await db`SELECT id, "captainId", "reserveId" FROM "Team"`;
+  const liveDrivers = await db`SELECT "teamId", "driverId" FROM "TeamDriver"`;
+  for (const t of liveTeams) {
+    lineups[String(t.id)] = {
+      driverIds: liveDrivers.filter((d) => d.teamId === t.id).map((d) => String(d.driverId)),
+      captainId: (t.captainId as string | null) ?? null,
+      reserveId: (t.reserveId as string | null) ?? null,
+    };
+  }
+  if (!isRaceLocked(race)) return lineups;
+
+  const scored = await db`SELECT id, "teamId", "captainId", "reserveId" FROM "TeamResult" WHERE "raceId" = ${race.id}`;
+  const scoredDrivers = await db`
+    SELECT trd."teamResultId", trd."driverId"
+    FROM "TeamResultDriver" trd
+    JOIN "TeamResult" tr ON tr.id = trd."teamResultId"
+    WHERE tr."raceId" = ${race.id}
+  `;
+  for (const tr of scored) {
+    lineups[String(tr.teamId)] = {
+      driverIds: scoredDrivers.filter((d) => d.teamResultId === tr.id).map((d) => String(d.driverId)),
+      captainId: (tr.captainId as string | null) ?? null,
+      reserveId: (tr.reserveId as string | null) ?? null,
+    };
+  }
+
+  if (!hasLineupTable) return lineups;
+  if (!race.isCompleted) await snapshotRaceLineups(db, race);
+  const snapshots = await db`SELECT "teamId", "driverIds", "captainId", "reserveId" FROM "TeamRaceLineup" WHERE "raceId" = ${race.id}`;
+  for (const s of snapshots) {
+    lineups[String(s.teamId)] = {
+      driverIds: Array.isArray(s.driverIds) ? s.driverIds.map((x) => String(x)) : [],
+      captainId: (s.captainId as string | null) ?? null,
+      reserveId: (s.reserveId as string | null) ?? null,
+    };
+  }
+  return lineups;
+};
+
+// --- Chips ---------------------------------------------------------------
+//
+// A member can play one chip per race weekend, each at most
+// `chipUsesPerSeason` times, and only chips listed in the league's
+// `chipsEnabled`. Chips are played and cancelled against the active race
+// before getRaceLockDate; scoring reads them through loadRaceChips.
+
+const ensureChipActivationTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "ChipActivation" (
+        id TEXT PRIMARY KEY,
+        "teamId" TEXT NOT NULL REFERENCES "Team"(id) ON DELETE CASCADE,
+        "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+        chip TEXT NOT NULL CHECK (chip IN ('triple_captain','wildcard','no_negatives','sprint_boost')),
+        season INTEGER NOT NULL,
+        "marketUsed" BOOLEAN NOT NULL DEFAULT false,
+        "budgetBefore" DOUBLE PRECISION,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "ChipActivation_team_race_idx" ON "ChipActivation"("teamId","raceId");`;
+    await db`CREATE INDEX IF NOT EXISTS "ChipActivation_race_idx" ON "ChipActivation"("raceId");`;
+    await db`ALTER TABLE "ChipActivation" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("ChipActivation table unavailable:", e);
+    return false;
+  }
+};
+
+const isChipId = (value: unknown): value is ChipId => typeof value === "string" && (CHIP_IDS as string[]).includes(value);
+
+// Chip each team played on `raceId`, keyed by team id.
+const loadRaceChips = async (db: SqlExecutor, raceId: string, hasChipTable: boolean): Promise<Record<string, ChipId>> => {
+  const chips: Record<string, ChipId> = {};
+  if (!hasChipTable) return chips;
+  const rows = await db`SELECT "teamId", chip FROM "ChipActivation" WHERE "raceId" = ${raceId}`;
+  for (const r of rows) {
+    if (isChipId(r.chip)) chips[String(r.teamId)] = r.chip;
+  }
+  return chips;
+};
+
+// Team score for one race. `leaguePoints` are the league-wide driver points;
+// they are recomputed only when the team's chip changes the rules.
+const scoreTeamForRace = (
+  res: CombinedResults,
+  rules: ScoringRules,
+  leaguePoints: Record<string, number>,
+  lineup: TeamLineup,
+  chip: ChipId | undefined,
+  teammates: Record<string, string>,
+  allDrivers: Driver[],
+) => {
+  const teamRules = applyChip(rules, chip);
+  const driverPoints = teamRules === rules ? leaguePoints : calculateWeekendPoints(res, teamRules, teammates, allDrivers).driverPoints;
+  return scoreTeamLineup(driverPoints, lineup, res, teamRules);
+};
+
+// --- Transfers -----------------------------------------------------------
+//
+// Every driver released on /team/market is one transfer, counted against the
+// active race. A round gives `freeTransfersPerRound` free transfers (plus any
+// rolled over, see availableFreeTransfers); each extra one costs
+// `extraTransferCost` points, booked as a TeamPenalty tagged with the race.
+// Moves made under an active wildcard are logged but neither free nor paid.
+
+const ensureTeamTransferTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "TeamTransfer" (
+        id TEXT PRIMARY KEY,
+        "teamId" TEXT NOT NULL REFERENCES "Team"(id) ON DELETE CASCADE,
+        "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+        "driverIdOut" TEXT NOT NULL,
+        "driverIdIn" TEXT,
+        kind TEXT NOT NULL CHECK (kind IN ('free','paid','wildcard')),
+        "penaltyId" TEXT,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE INDEX IF NOT EXISTS "TeamTransfer_team_race_idx" ON "TeamTransfer"("teamId","raceId");`;
+    await db`ALTER TABLE "TeamTransfer" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("TeamTransfer table unavailable:", e);
+    return false;
+  }
+};
+
+interface TransferAllowance {
+  raceId: string;
+  freeTransfersPerRound: number;
+  freeLeft: number;
+  made: number;
+  paid: number;
+  extraTransferCost: number;
+  wildcard: boolean;
+}
+
+// Transfer allowance of a team for `activeRace`. Earlier rounds of the same
+// season count for rollover only if they took place and the team already
+// existed at their lock.
+const getTransferAllowance = async (
+  db: SqlExecutor,
+  teamId: string,
+  teamCreatedAt: string | Date | null,
+  rules: ScoringRules,
+  races: RaceRow[],
+  activeRace: RaceRow,
+  wildcard: boolean,
+): Promise<TransferAllowance> => {
+  const createdAt = parseDateSafe(teamCreatedAt);
+  const earlierRounds = races.filter((r) => {
+    if (r.season !== activeRace.season || r.round >= activeRace.round || isRaceOff(r.status)) return false;
+    const lockDate = getRaceLockDate(r);
+    return !createdAt || !lockDate || lockDate > createdAt;
+  });
+  const rows = await db`SELECT "raceId", kind FROM "TeamTransfer" WHERE "teamId" = ${teamId}`;
+  const log = rows.map((r) => ({ raceId: String(r.raceId), kind: r.kind as TransferKind }));
+  return {
+    raceId: activeRace.id,
+    freeTransfersPerRound: rules.freeTransfersPerRound ?? 2,
+    ...tallyTransfers(log, activeRace.id, earlierRounds.map((r) => r.id), rules),
+    // Stored as a malus like the scoring ones; a positive value is read as its cost.
+    extraTransferCost: -Math.abs(Number(rules.extraTransferCost ?? 0)),
+    wildcard,
+  };
+};
+
+// --- Driver pricing ------------------------------------------------------
+//
+// Once a race is final, syncRaceCore reprices every driver with
+// calculatePriceChanges (official points vs. what the price implies, recent
+// form, ownership across all teams). Each change, with its inputs, is kept in
+// DriverPriceHistory; manual edits from /admin/drivers are logged there too.
+
+const ensureDriverPriceHistoryTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "DriverPriceHistory" (
+        id TEXT PRIMARY KEY,
+        "driverId" TEXT NOT NULL REFERENCES "Driver"(id) ON DELETE CASCADE,
+        "raceId" TEXT REFERENCES "Race"(id) ON DELETE CASCADE,
+        source TEXT NOT NULL CHECK (source IN ('auto','admin')),
+        "oldPrice" DOUBLE PRECISION NOT NULL,
+        "newPrice" DOUBLE PRECISION NOT NULL,
+        change DOUBLE PRECISION NOT NULL,
+        points DOUBLE PRECISION,
+        expected DOUBLE PRECISION,
+        form DOUBLE PRECISION,
+        ownership DOUBLE PRECISION,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "DriverPriceHistory_auto_idx" ON "DriverPriceHistory"("driverId","raceId") WHERE source = 'auto';`;
+    await db`CREATE INDEX IF NOT EXISTS "DriverPriceHistory_driver_idx" ON "DriverPriceHistory"("driverId","createdAt");`;
+    await db`ALTER TABLE "DriverPriceHistory" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("DriverPriceHistory table unavailable:", e);
+    return false;
+  }
+};
+
+// Reprices all drivers for `race`. A re-sync of the same race (late DNF or
+// penalty decisions) replaces its earlier repricing, starting from the price
+// before it; once a later race has been priced the race is left alone.
+const repriceDriversForRace = async (
+  db: SqlExecutor,
+  race: { id: string; season?: number | null; round: number },
+  officialPoints: Record<string, number>,
+) => {
+  const [later] = await db`
+    SELECT 1 FROM "DriverPriceHistory" h JOIN "Race" r ON r.id = h."raceId"
+    WHERE h.source = 'auto' AND r.season = ${race.season ?? null} AND r.round > ${race.round}
+    LIMIT 1
+  `;
+  if (later) return;
+
+  const previous = await db`SELECT "driverId", change FROM "DriverPriceHistory" WHERE "raceId" = ${race.id} AND source = 'auto'`;
+  const undo: Record<string, number> = {};
+  for (const p of previous) undo[String(p.driverId)] = Number(p.change);
+
+  const drivers = await db`SELECT id, price FROM "Driver"`;
+  const recentRaces = await db`
+    SELECT results FROM "Race"
+    WHERE season = ${race.season ?? null} AND round < ${race.round} AND "isCompleted" = true AND results IS NOT NULL
+    ORDER BY round DESC
+    LIMIT ${PRICING_RULES.formWindow}
+  `;
+  const owners = await db`SELECT "driverId", COUNT(*)::int AS n FROM "TeamDriver" GROUP BY "driverId"`;
+  const [teamCount] = await db`SELECT COUNT(DISTINCT "teamId")::int AS n FROM "TeamDriver"`;
+  const ownedBy: Record<string, number> = {};
+  for (const o of owners) ownedBy[String(o.driverId)] = Number(o.n);
+  const teams = Number(teamCount?.n ?? 0);
+
+  const changes = calculatePriceChanges(drivers.map((d) => {
+    const id = String(d.id);
+    return {
+      driverId: id,
+      price: Number(d.price) - (undo[id] ?? 0),
+      points: Number(officialPoints[id] ?? 0),
+      recentPoints: recentRaces
+        .map((r) => (r.results as CombinedResults | null)?.driverPoints?.[id])
+        .filter((v): v is number => v !== undefined && v !== null)
+        .map(Number),
+      ownership: teams > 0 ? (ownedBy[id] ?? 0) / teams : 0,
+    };
+  }), PRICING_RULES);
+
+  await db`DELETE FROM "DriverPriceHistory" WHERE "raceId" = ${race.id} AND source = 'auto'`;
+  for (const ch of changes) {
+    await db`UPDATE "Driver" SET price = ${ch.newPrice} WHERE id = ${ch.driverId}`;
+    await db`
+      INSERT INTO "DriverPriceHistory" (id, "driverId", "raceId", source, "oldPrice", "newPrice", change, points, expected, form, ownership)
+      VALUES (${crypto.randomUUID()}, ${ch.driverId}, ${race.id}, 'auto', ${ch.oldPrice}, ${ch.newPrice}, ${ch.change}, ${ch.points}, ${ch.expected}, ${ch.form}, ${ch.ownership})
+    `;
+  }
+};
+
+// Value of every team (budget + current drivers at current prices) right
+// after a race was priced, one row per team and race; a re-sync overwrites it.
+const ensureTeamValueSnapshotTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "TeamValueSnapshot" (
+        id TEXT PRIMARY KEY,
+        "teamId" TEXT NOT NULL REFERENCES "Team"(id) ON DELETE CASCADE,
+        "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+        budget DOUBLE PRECISION NOT NULL,
+        "driversValue" DOUBLE PRECISION NOT NULL,
+        "totalValue" DOUBLE PRECISION NOT NULL,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "TeamValueSnapshot_team_race_idx" ON "TeamValueSnapshot"("teamId","raceId");`;
+    await db`ALTER TABLE "TeamValueSnapshot" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("TeamValueSnapshot table unavailable:", e);
+    return false;
+  }
+};
+
+const snapshotTeamValues = async (db: SqlExecutor, raceId: string) => {
+  await db`
+    INSERT INTO "TeamValueSnapshot" (id, "teamId", "raceId", budget, "driversValue", "totalValue")
+    SELECT gen_random_uuid()::text, t.id, ${raceId}, t.budget, v.value, t.budget + v.value
+    FROM "Team" t
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(SUM(d.price), 0) AS value
+      FROM "TeamDriver" td JOIN "Driver" d ON d.id = td."driverId"
+      WHERE td."teamId" = t.id
+    ) v
+    ON CONFLICT ("teamId", "raceId") DO UPDATE
+    SET budget = EXCLUDED.budget, "driversValue" = EXCLUDED."driversValue", "totalValue" = EXCLUDED."totalValue", "createdAt" = NOW()
+  `;
+};
+
+// --- Rules versions ------------------------------------------------------
+//
+// Every rules change adds an immutable LeagueRulesVersion effective from a
+// season and round; scoring picks the version in force for each race through
+// loadRulesResolver, so a mid-season change does not rewrite past races
+// unless the admin saved it as retroactive. League.rules mirrors the latest
+// version for the settings form, chips and transfers.
+
+const ensureLeagueRulesVersionTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "LeagueRulesVersion" (
+        id TEXT PRIMARY KEY,
+        "leagueId" TEXT NOT NULL REFERENCES "League"(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        rules JSONB NOT NULL,
+        "effectiveFromSeason" INTEGER NOT NULL,
+        "effectiveFromRound" INTEGER NOT NULL,
+        retroactive BOOLEAN NOT NULL DEFAULT false,
+        "createdBy" TEXT REFERENCES "User"(id) ON DELETE SET NULL,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "LeagueRulesVersion_league_version_idx" ON "LeagueRulesVersion"("leagueId","version");`;
+    await db`ALTER TABLE "LeagueRulesVersion" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("LeagueRulesVersion table unavailable:", e);
+    return false;
+  }
+};
+
+interface LeagueRulesVersion extends RulesVersion {
+  rules: ScoringRules;
+}
+
+// ScoringRules is plain JSON but, as an interface, not assignable to JSONValue.
+const rulesParam = (rules: ScoringRules) => sql.json(rules as unknown as postgres.JSONValue);
+
+// Rules a league scores a race with. Leagues whose rules were never changed
+// have no versions and keep using League.rules.
+const loadRulesResolver = async (db: SqlExecutor, hasVersionTable: boolean) => {
+  const byLeague: Record<string, LeagueRulesVersion[]> = {};
+  if (hasVersionTable) {
+    const rows = await db`SELECT "leagueId", version, rules, "effectiveFromSeason", "effectiveFromRound" FROM "LeagueRulesVersion"`;
+    for (const r of rows) {
+      (byLeague[String(r.leagueId)] ||= []).push({
+        version: Number(r.version),
+        rules: r.rules as ScoringRules,
+        effectiveFromSeason: Number(r.effectiveFromSeason),
+        effectiveFromRound: Number(r.effectiveFromRound),
+      });
+    }
+  }
+  return (leagueId: string, leagueRules: unknown, race: { season?: unknown; round: unknown }): ScoringRules => {
+    const picked = pickRulesVersion(byLeague[leagueId] || [], Number(race.season) || 2026, Number(race.round));
+    return normalizeScoringRules(picked?.rules || leagueRules);
+  };
+};
+
+// Every payload written to Race.results, newest revision last. Rows are never
+// updated; a revert adds a new revision copying an old one.
+const ensureRaceResultRevisionTable = async (db: SqlExecutor): Promise<boolean> => {
+  try {
+    await db`
+      CREATE TABLE IF NOT EXISTS "RaceResultRevision" (
+        id TEXT PRIMARY KEY,
+        "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+        revision INTEGER NOT NULL,
+        results JSONB NOT NULL,
+        "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+        source TEXT NOT NULL,
+        "actorId" TEXT REFERENCES "User"(id) ON DELETE SET NULL,
+        "revertOf" INTEGER,
+        summary JSONB NOT NULL DEFAULT '[]'::jsonb,
+        "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+      );
+    `;
+    await db`CREATE UNIQUE INDEX IF NOT EXISTS "RaceResultRevision_race_revision_idx" ON "RaceResultRevision"("raceId","revision");`;
+    await db`ALTER TABLE "RaceResultRevision" ENABLE ROW LEVEL SECURITY`;
+    return true;
+  } catch (e) {
+    console.error("RaceResultRevision table unavailable:", e);
+    return false;
+  }
+};
+
+// First round nobody has fielded a lineup for yet: a change that is not
+// retroactive takes effect there.
+const nextUnlockedRound = (races: RaceRow[], now = new Date()): { season: number; round: number } => {
+  const next = races.find((race) => !race.isCompleted && !isRaceOff(race.status) && !isRaceLocked(race, now));
+  if (next) return { season: Number(next.season) || 2026, round: Number(next.round) };
+  const last = races[races.length - 1];
+  if (!last) return { season: now.getUTCFullYear(), round: 1 };
+  return { season: Number(last.season) || 2026, round: Number(last.round) + 1 };
+};
+
+// Failed attempts per scope and key (../_shared/attempts.ts). Rows quiet for
+// longer than any policy remembers are dropped when the table is first used.
+let authAttemptTable: Promise<boolean> | null = null;
+const ensureAuthAttemptTable = (db: SqlExecutor): Promise<boolean> =>
+  (authAttemptTable ||= (async () => {
+    try {
+      await db`
+        CREATE TABLE IF NOT EXISTS "AuthAttempt" (
+          scope TEXT NOT NULL,
+          key TEXT NOT NULL,
+          failures INTEGER NOT NULL DEFAULT 0,
+          "lastFailureAt" TIMESTAMP WITHOUT TIME ZONE,
+          "lockedUntil" TIMESTAMP WITHOUT TIME ZONE,
+          PRIMARY KEY (scope, key)
+        );
+      `;
+      await db`ALTER TABLE "AuthAttempt" ENABLE ROW LEVEL SECURITY`;
+      await db`DELETE FROM "AuthAttempt" WHERE "lastFailureAt" < NOW() - INTERVAL '2 days'`;
+      return true;
+    } catch (e) {
+      console.error("AuthAttempt table unavailable:", e);
+      authAttemptTable = null;
+      return false;
+    }
+  })());
+
+type AttemptKey = { scope: AttemptScope; key: string };
+
+// Proxies in front of the function that append to X-Forwarded-For (the
+// Supabase gateway). Each appends the address it received the request from,
+// so the client is the hop added by the outermost one; anything left of it
+// came from the client itself and can be forged.
+const parsedProxyHops = Number(Deno.env.get("TRUSTED_PROXY_HOPS") || "1");
+const TRUSTED_PROXY_HOPS = Number.isInteger(parsedProxyHops) && parsedProxyHops > 0 ? parsedProxyHops : 1;
+
+const clientAddress = (c: Context): string => {
+  const hops = (c.req.header("X-Forwarded-For") || "").split(",").map((h) => h.trim()).filter(Boolean);
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || c.req.header("X-Real-IP") || "unknown";
+};
+
+const toAttemptState = (row: Record<string, unknown>): AttemptState => ({
+  failures: Number(row.failures) || 0,
+  lastFailureAt: row.lastFailureAt ? new Date(row.lastFailureAt as string).getTime() : null,
+  lockedUntil: row.lockedUntil ? new Date(row.lockedUntil as string).getTime() : null,
+});
+
+const writeAttemptState = (db: SqlExecutor, { scope, key }: AttemptKey, state: AttemptState) => db`
+  UPDATE "AuthAttempt"
+  SET failures = ${state.failures},
+      "lastFailureAt" = ${state.lastFailureAt === null ? null : new Date(state.lastFailureAt)},
+      "lockedUntil" = ${state.lockedUntil === null ? null : new Date(state.lockedUntil)}
+  WHERE scope = ${scope} AND key = ${key}
+`;
+
+// Counts the attempt as a failure on every key before the work is done, with
+// the rows locked, so a burst of parallel requests cannot all pass the check
+// before one of them writes its failure. Returns the seconds to wait when a
+// key is locked (nothing is counted then), 0 once the attempt is reserved.
+// Without the table nothing is throttled.
+const reserveAttempt = async (keys: AttemptKey[]): Promise<number> => {
+  if (!(await ensureAuthAttemptTable(sql as unknown as SqlExecutor))) return 0;
+  return await sql.begin(async (sql) => {
+    const now = Date.now();
+    const states: AttemptState[] = [];
+    for (const { scope, key } of keys) {
+      await sql`INSERT INTO "AuthAttempt" (scope, key) VALUES (${scope}, ${key}) ON CONFLICT (scope, key) DO NOTHING`;
+      const [row] = await sql`SELECT failures, "lastFailureAt", "lockedUntil" FROM "AuthAttempt" WHERE scope = ${scope} AND key = ${key} FOR UPDATE`;
+      states.push(toAttemptState(row));
+    }
+    const waitMs = Math.max(0, ...states.map((state) => attemptRetryAfterMs(state, now)));
+    if (waitMs > 0) return Math.ceil(waitMs / 1000);
+    for (const [i, attempt] of keys.entries()) {
+      await writeAttemptState(sql as unknown as SqlExecutor, attempt, registerFailure(states[i], ATTEMPT_POLICIES[attempt.scope], now));
+    }
+    return 0;
+  });
+};
+
+// A reserved attempt that succeeded no longer counts against these keys.
+const refundAttempts = async (keys: AttemptKey[]) => {
+  if (!(await ensureAuthAttemptTable(sql as unknown as SqlExecutor))) return;
+  for (const attempt of keys) {
+    await sql.begin(async (sql) => {
+      const [row] = await sql`SELECT failures, "lastFailureAt", "lockedUntil" FROM "AuthAttempt" WHERE scope = ${attempt.scope} AND key = ${attempt.key} FOR UPDATE`;
+      if (row) await writeAttemptState(sql as unknown as SqlExecutor, attempt, refundFailure(toAttemptState(row), ATTEMPT_POLICIES[attempt.scope]));
+    });
+  }
+};
+
+const clearAttempts = async (keys: AttemptKey[]) => {
+  if (!(await ensureAuthAttemptTable(sql as unknown as SqlExecutor))) return;
+  for (const { scope, key } of keys) {
+    await sql`DELETE FROM "AuthAttempt" WHERE scope = ${scope} AND key = ${key}`;
+  }
+};
+
+const tooManyAttempts = (c: Context, seconds: number) => {
+  c.header("Retry-After", String(seconds));
+  return c.json({
+    error: "too_many_attempts",
+    retryAfter: seconds,
+    message: `Troppi tentativi. Riprova tra ${seconds} secondi.`,
+  }, 429);
+};
+
+// Compared against when the account name is unknown, so that answer takes
+// as long as a wrong password.
+let dummyPasswordHash: Promise<string> | null = null;
+
 app.post("/auth/register", async (c) => {
   try {
-    const { name, password } = await c.req.json();
+    const { name, password, platform } = await c.req.json();
     const displayName = (name || "Player").slice(0, 32);
 
-    if (!password || password.length < 3) {
-      return c.json({ error: "weak_password", message: "Password must be at least 3 characters." }, 400);
+    const issues = validatePassword(typeof password === "string" ? password : "", displayName);
+    if (issues.length > 0) {
+      return c.json({
+        error: "weak_password",
+        issues,
+        message: `Password must be ${PASSWORD_MIN_LENGTH}-${PASSWORD_MAX_LENGTH} characters, not a common password and not your name.`,
+      }, 400);
     }
 
+    // Counted from here on, and never given back: every name checked or
+    // account created.
+    const wait = await reserveAttempt([{ scope: "register_address", key: clientAddress(c) }]);
+    if (wait > 0) return tooManyAttempts(c, wait);
+
     // Check if name exists (case-insensitive)
     const [existing] = await sql`SELECT id FROM "User" WHERE LOWER("displayName") = LOWER(${displayName})`;
     if (existing) {
@@ -444,6 +1251,9 @@ app.post("/auth/register", async (c) => {
       VALUES (${id}, ${token}, ${displayName}, ${passwordHash}, ${new Date().toISOString()}) 
       RETURNING id, "authToken", "displayName"
     `;
+    if (await ensureUserSessionTable(sql as unknown as SqlExecutor)) {
+      user.authToken = (await createSession(c, user.id, platform)).token;
+    }
     return c.json(user);
   } catch (e) {
     return c.json({ error: (e as Error).message, type: "auth_register_error" }, 500);
@@ -452,27 +1262,40 @@ app.post("/auth/register", async (c) => {
 
 app.post("/auth/login", async (c) => {
   try {
-    const { name, password } = await c.req.json();
+    const { name, password, platform } = await c.req.json();
     if (!name || !password) return c.json({ error: "missing_credentials" }, 400);
 
+    const attemptKeys: AttemptKey[] = [
+      { scope: "login_account", key: String(name).trim().toLowerCase() },
+      { scope: "login_address", key: clientAddress(c) },
+    ];
+    const wait = await reserveAttempt(attemptKeys);
+    if (wait > 0) return tooManyAttempts(c, wait);
+
     const [user] = await sql`SELECT id, "authToken", "password", "displayName" FROM "User" WHERE "displayName" = ${name}`;
-    
-    if (!user) {
-      return c.json({ error: "invalid_credentials", message: "Utente non trovato." }, 404);
-    }
 
-    if (!user.password) {
-       return c.json({ error: "legacy_user", message: "Account vecchio senza password. Contatta admin." }, 403);
+    // Unknown names, accounts without a password and wrong passwords all get
+    // the same answer, so it does not tell which names exist.
+    const stored = user?.password || await (dummyPasswordHash ||= hashPassword(makeToken()));
+    const { ok, rehash } = await verifyPassword(String(password), stored);
+    if (!user?.password || !ok) {
+      return c.json({ error: "invalid_credentials", message: "Nome utente o password errati." }, 401);
     }
-
-    const inputHash = await hashPassword(password);
-    if (inputHash !== user.password) {
-      return c.json({ error: "invalid_credentials", message: "Password errata." }, 401);
+    await clearAttempts([attemptKeys[0]]);
+    await refundAttempts([attemptKeys[1]]);
+    if (rehash) {
+      await sql`UPDATE "User" SET "password" = ${await hashPassword(String(password))}, "updatedAt" = ${new Date().toISOString()} WHERE id = ${user.id}`;
     }
 
+    // Each login is a new device session; User.authToken only answers while
+    // the session table is unavailable.
+    const authToken = await ensureUserSessionTable(sql as unknown as SqlExecutor)
+      ? (await createSession(c, user.id, platform)).token
+      : user.authToken;
+
     return c.json({ 
       id: user.id, 
-      authToken: user.authToken, 
+      authToken, 
       displayName: user.displayName 
     });
 
@@ -481,12 +1304,57 @@ app.post("/auth/login", async (c) => {
   }
 });
 
-app.get("/me", requireUser, async (c) => {
+app.post("/auth/logout", requireUser, async (c) => {
   const user = c.get("user");
-  
-  // Get memberships
+  if (user.sessionId) {
+    await sql`DELETE FROM "UserSession" WHERE id = ${user.sessionId}`;
+  }
+  return c.json({ ok: true });
+});
+
+app.get("/me/sessions", requireUser, async (c) => {
+  const user = c.get("user");
+  if (!(await ensureUserSessionTable(sql as unknown as SqlExecutor))) return c.json({ error: "sessions_unavailable" }, 503);
+  const rows = await sql`
+    SELECT id, device, "userAgent", "createdAt", "lastSeenAt", "expiresAt"
+    FROM "UserSession"
+    WHERE "userId" = ${user.id} AND "expiresAt" > NOW()
+    ORDER BY "lastSeenAt" DESC
+  `;
+  return c.json(rows.map((r) => ({ ...r, current: r.id === user.sessionId })));
+});
+
+app.post("/me/sessions/revoke", requireUser, async (c) => {
+  const user = c.get("user");
+  const { sessionId } = await c.req.json().catch(() => ({}));
+  if (!sessionId || typeof sessionId !== "string") return c.json({ error: "missing_session_id" }, 400);
+  if (!(await ensureUserSessionTable(sql as unknown as SqlExecutor))) return c.json({ error: "sessions_unavailable" }, 503);
+  const deleted = await sql`DELETE FROM "UserSession" WHERE id = ${sessionId} AND "userId" = ${user.id} RETURNING id`;
+  if (deleted.length === 0) return c.json({ error: "session_not_found" }, 404);
+  return c.json({ ok: true, current: sessionId === user.sessionId });
+});
+
+// Logs out every other device; `includeCurrent` logs this one out as well.
+app.post("/me/sessions/revoke-all", requireUser, async (c) => {
+  const user = c.get("user");
+  const { includeCurrent } = await c.req.json().catch(() => ({}));
+  if (!(await ensureUserSessionTable(sql as unknown as SqlExecutor))) return c.json({ error: "sessions_unavailable" }, 503);
+  const keep = includeCurrent === true ? null : user.sessionId;
+  const deleted = await sql`
+    DELETE FROM "UserSession"
+    WHERE "userId" = ${user.id} ${keep ? sql`AND id <> ${keep}` : sql``}
+    RETURNING id
+  `;
+  return c.json({ ok: true, revoked: deleted.length });
+});
+
+app.get("/me", requireUser, async (c) => {
+  const user = c.get("user");
+  
+  // Get memberships
+  const seasons = await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor);
   const memberships = await sql`
-    SELECT lm.role, l.id, l.name, l."joinCode", l.rules,
+    SELECT lm.role, l.id, l.name, l."joinCode", l.rules, ${seasons ? sql`l.season` : sql`NULL AS season`},
            t.id as team_id, t.name as team_name, t.budget, t."captainId", t."reserveId"
     FROM "LeagueMember" lm
     JOIN "League" l ON lm."leagueId" = l.id
@@ -515,8 +1383,9 @@ app.get("/me", requireUser, async (c) => {
       joinCode: m.joinCode,
       role: m.role,
       isAdmin: m.role === "ADMIN",
+      season: m.season === null ? null : Number(m.season),
       members, 
-      rules: m.rules || DEFAULT_SCORING_RULES, 
+      rules: normalizeScoringRules(m.rules),
       team: m.team_id ? {
         id: m.team_id,
         name: m.team_name,
@@ -536,7 +1405,7 @@ app.get("/me", requireUser, async (c) => {
 
 app.get("/races", async (c) => {
   const races = await autocloseStaleRaces();
-  return c.json(races);
+  return c.json(races.map((race) => ({ ...race, sessionStatus: getSessionStatus(race.results, race.isSprint) })));
 });
 
 app.get("/drivers", async (c) => {
@@ -546,6 +1415,69 @@ app.get("/drivers", async (c) => {
   return c.json(drivers);
 });
 
+// Price moves of every driver, oldest first, for the Market sparklines.
+app.get("/drivers/history", async (c) => {
+  if (!(await ensureDriverPriceHistoryTable(sql as unknown as SqlExecutor))) return c.json({});
+  const rows = await sql`
+    SELECT h."driverId", h."raceId", h."oldPrice", h."newPrice", h."createdAt"
+    FROM "DriverPriceHistory" h
+    ORDER BY h."createdAt" ASC
+  `;
+  const history: Record<string, { raceId: string | null; oldPrice: number; newPrice: number; createdAt: string }[]> = {};
+  for (const r of rows) {
+    (history[r.driverId] ||= []).push({ raceId: r.raceId, oldPrice: Number(r.oldPrice), newPrice: Number(r.newPrice), createdAt: r.createdAt });
+  }
+  return c.json(history);
+});
+
+app.get("/drivers/:id/history", async (c) => {
+  const driverId = c.req.param("id");
+  const [driver] = await sql`SELECT id, name, price FROM "Driver" WHERE id = ${driverId}`;
+  if (!driver) return c.json({ error: "driver_not_found" }, 404);
+  const history = (await ensureDriverPriceHistoryTable(sql as unknown as SqlExecutor))
+    ? await sql`
+      SELECT h."raceId", r.name AS "raceName", r.season, r.round, h.source, h."oldPrice", h."newPrice", h.change,
+             h.points, h.expected, h.form, h.ownership, h."createdAt"
+      FROM "DriverPriceHistory" h
+      LEFT JOIN "Race" r ON r.id = h."raceId"
+      WHERE h."driverId" = ${driverId}
+      ORDER BY h."createdAt" ASC
+    `
+    : [];
+  return c.json({ driverId: driver.id, name: driver.name, price: Number(driver.price), history });
+});
+
+app.get("/teams/:id/value-history", requireUser, async (c) => {
+  const user = c.get("user");
+  const teamId = c.req.param("id");
+  const [team] = await sql`
+    SELECT t.id, t.budget FROM "Team" t
+    JOIN "LeagueMember" m ON m."leagueId" = t."leagueId" AND m."userId" = ${user.id}
+    WHERE t.id = ${teamId}
+  `;
+  if (!team) return c.json({ error: "team_not_found" }, 404);
+  const history = (await ensureTeamValueSnapshotTable(sql as unknown as SqlExecutor))
+    ? await sql`
+      SELECT s."raceId", r.name AS "raceName", r.season, r.round, s.budget, s."driversValue", s."totalValue", s."createdAt"
+      FROM "TeamValueSnapshot" s
+      JOIN "Race" r ON r.id = s."raceId"
+      WHERE s."teamId" = ${teamId}
+      ORDER BY r.season ASC, r.round ASC
+    `
+    : [];
+  const [current] = await sql`
+    SELECT COALESCE(SUM(d.price), 0) AS value
+    FROM "TeamDriver" td JOIN "Driver" d ON d.id = td."driverId"
+    WHERE td."teamId" = ${teamId}
+  `;
+  const driversValue = Number(current?.value ?? 0);
+  return c.json({
+    teamId: team.id,
+    current: { budget: Number(team.budget), driversValue, totalValue: Number(team.budget) + driversValue },
+    history,
+  });
+});
+
 app.post("/leagues", requireUser, async (c) => {
   try {
     const user = c.get("user");
@@ -574,11 +1506,16 @@ app.post("/leagues", requireUser, async (c) => {
       const teamName = `${user.displayName}'s Team`;
       await sql`
         INSERT INTO "Team" (id, "userId", "leagueId", name, budget, "createdAt", "updatedAt")
-        VALUES (${teamId}, ${user.id}, ${l.id}, ${teamName}, 100.0, ${now}, ${now})
+        VALUES (${teamId}, ${user.id}, ${l.id}, ${teamName}, ${TEAM_STARTING_BUDGET}, ${now}, ${now})
       `;
       
       return [l];
     });
+    if (await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor)) {
+      const season = await currentSeason();
+      await sql`UPDATE "League" SET season = ${season} WHERE id = ${league.id}`;
+      await sql`UPDATE "Team" SET season = ${season} WHERE "leagueId" = ${league.id}`;
+    }
 
     return c.json(league);
   } catch (e) {
@@ -592,8 +1529,17 @@ app.post("/leagues/join", requireUser, async (c) => {
     const { joinCode } = await c.req.json();
     const code = (joinCode || "").trim().toUpperCase();
 
+    const attemptKeys: AttemptKey[] = [
+      { scope: "join_account", key: user.id },
+      { scope: "join_address", key: clientAddress(c) },
+    ];
+    const wait = await reserveAttempt(attemptKeys);
+    if (wait > 0) return tooManyAttempts(c, wait);
+
     const [league] = await sql`SELECT id, name, "joinCode" FROM "League" WHERE "joinCode" = ${code}`;
     if (!league) return c.json({ error: "league_not_found" }, 404);
+    await clearAttempts([attemptKeys[0]]);
+    await refundAttempts([attemptKeys[1]]);
 
     await sql.begin(async (sql) => {
       const now = new Date().toISOString();
@@ -608,10 +1554,16 @@ app.post("/leagues/join", requireUser, async (c) => {
       const teamName = `${user.displayName}'s Team`;
       await sql`
         INSERT INTO "Team" (id, "userId", "leagueId", name, budget, "createdAt", "updatedAt")
-        VALUES (${teamId}, ${user.id}, ${league.id}, ${teamName}, 100.0, ${now}, ${now})
+        VALUES (${teamId}, ${user.id}, ${league.id}, ${teamName}, ${TEAM_STARTING_BUDGET}, ${now}, ${now})
         ON CONFLICT ("userId", "leagueId") DO NOTHING
       `;
     });
+    if (await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor)) {
+      await sql`
+        UPDATE "Team" SET season = (SELECT season FROM "League" WHERE id = ${league.id})
+        WHERE "leagueId" = ${league.id} AND "userId" = ${user.id} AND season IS NULL
+      `;
+    }
 
     return c.json({ leagueId: league.id, name: league.name, joinCode: league.joinCode });
   } catch (e) {
@@ -629,39 +1581,71 @@ app.post("/team/market", requireUser, async (c) => {
   const races = await autocloseStaleRaces();
   const activeRace = pickActiveRace(races);
 
-  if (activeRace) {
-    const lockDate = getRaceLockDate(activeRace);
-    if (lockDate && new Date() > lockDate) return c.json({ error: "market_locked" }, 403);
-  }
+  if (activeRace && isRaceLocked(activeRace)) return c.json({ error: "market_locked" }, 403);
 
-  const [team] = await sql`SELECT * FROM "Team" WHERE "leagueId" = ${leagueId} AND "userId" = ${user.id}`;
+  const [team] = await sql`
+    SELECT t.*, l.rules FROM "Team" t JOIN "League" l ON l.id = t."leagueId"
+    WHERE t."leagueId" = ${leagueId} AND t."userId" = ${user.id}
+  `;
   if (!team) return c.json({ error: "team_not_found" }, 404);
 
-  const ownedDrivers = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${team.id}`;
-  const ownedIds = ownedDrivers.map(d => d.driverId);
-  const allDrivers = await sql`SELECT id, price FROM "Driver"`;
+  const hasRoster = await ensureDriverRosterSchema(sql as unknown as SqlExecutor);
+  const allDrivers = await sql`SELECT id, price, ${hasRoster ? sql`active` : sql`true AS active`} FROM "Driver"`;
+  const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
 
-  let newBudget = Number(team.budget);
-
-  if (driverIdOut) {
-    if (!ownedIds.includes(driverIdOut)) return c.json({ error: "not_owned" }, 400);
-    const d = allDrivers.find(x => x.id === driverIdOut);
-    if (!d) return c.json({ error: "invalid_driver_out" }, 400);
-    newBudget += Number(d.price);
+  // Releasing a driver before a race is a transfer for that round.
+  const rules = normalizeScoringRules(team.rules);
+  if (driverIdOut && activeRace) {
+    if (!(await ensureTeamTransferTable(sql as unknown as SqlExecutor))) return c.json({ error: "transfers_unavailable" }, 500);
+    if (Number(rules.extraTransferCost ?? 0) !== 0 && !(await ensureTeamPenaltyTable(sql as unknown as SqlExecutor))) {
+      return c.json({ error: "transfers_unavailable" }, 500);
+    }
   }
 
-  if (driverIdIn) {
-    if (ownedIds.includes(driverIdIn) && driverIdIn !== driverIdOut) return c.json({ error: "already_owned" }, 400);
-    const d = allDrivers.find(x => x.id === driverIdIn);
-    if (!d) return c.json({ error: "invalid_driver_in" }, 400);
-    if (newBudget < Number(d.price)) return c.json({ error: "insufficient_budget" }, 400);
-    newBudget -= Number(d.price);
-  }
+  let newBudget = 0;
+  let transfer: { kind: TransferKind; cost: number; freeLeft: number } | null = null;
+  // Budget, roster and allowance are all read on the locked team row, so two
+  // market calls at the same time cannot both spend the same budget, fill the
+  // same seat or take the last free transfer.
+  const refused = await sql.begin(async (sql) => {
+    const [locked] = await sql`SELECT budget FROM "Team" WHERE id = ${team.id} FOR UPDATE`;
+    const ownedDrivers = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${team.id}`;
+    const ownedIds = ownedDrivers.map(d => d.driverId);
+    newBudget = Number(locked.budget);
 
-  const netChange = (driverIdIn ? 1 : 0) - (driverIdOut ? 1 : 0);
-  if (ownedIds.length + netChange > 5) return c.json({ error: "team_full" }, 400);
+    if (driverIdOut) {
+      if (!ownedIds.includes(driverIdOut)) return { error: "not_owned" };
+      const d = allDrivers.find(x => x.id === driverIdOut);
+      if (!d) return { error: "invalid_driver_out" };
+      newBudget += Number(d.price);
+    }
+
+    if (driverIdIn) {
+      if (ownedIds.includes(driverIdIn) && driverIdIn !== driverIdOut) return { error: "already_owned" };
+      const d = allDrivers.find(x => x.id === driverIdIn);
+      if (!d) return { error: "invalid_driver_in" };
+      // Drivers who left the grid can be sold but not bought.
+      if (d.active === false) return { error: "driver_inactive" };
+      if (newBudget < Number(d.price)) return { error: "insufficient_budget" };
+      newBudget -= Number(d.price);
+    }
+
+    const netChange = (driverIdIn ? 1 : 0) - (driverIdOut ? 1 : 0);
+    if (ownedIds.length + netChange > 5) return { error: "team_full" };
+
+    if (driverIdOut && activeRace) {
+      const [wildcard] = hasChipTable
+        ? await sql`SELECT id FROM "ChipActivation" WHERE "teamId" = ${team.id} AND "raceId" = ${activeRace.id} AND chip = 'wildcard'`
+        : [];
+      const allowance = await getTransferAllowance(sql as unknown as SqlExecutor, team.id, team.createdAt as Date | null, rules, races, activeRace, Boolean(wildcard));
+      const kind = nextTransferKind(allowance.freeLeft, allowance.wildcard);
+      transfer = {
+        kind,
+        cost: kind === "paid" ? allowance.extraTransferCost : 0,
+        freeLeft: kind === "free" ? allowance.freeLeft - 1 : allowance.freeLeft,
+      };
+    }
 
-  await sql.begin(async (sql) => {
     if (driverIdOut) {
       await sql`DELETE FROM "TeamDriver" WHERE "teamId" = ${team.id} AND "driverId" = ${driverIdOut}`;
     }
@@ -671,9 +1655,30 @@ app.post("/team/market", requireUser, async (c) => {
     }
     const now = new Date().toISOString();
     await sql`UPDATE "Team" SET budget = ${newBudget}, "updatedAt" = ${now} WHERE id = ${team.id}`;
+    // A wildcard that has been used for a transfer can no longer be cancelled.
+    if (activeRace && hasChipTable) {
+      await sql`UPDATE "ChipActivation" SET "marketUsed" = true WHERE "teamId" = ${team.id} AND "raceId" = ${activeRace.id} AND chip = 'wildcard'`;
+    }
+    if (transfer && activeRace) {
+      let penaltyId: string | null = null;
+      if (transfer.cost !== 0) {
+        penaltyId = crypto.randomUUID();
+        await sql`
+          INSERT INTO "TeamPenalty" (id, "teamId", "leagueId", points, comment, "raceId")
+          VALUES (${penaltyId}, ${team.id}, ${leagueId}, ${transfer.cost}, ${`Extra transfer (${driverIdOut} out)`}, ${activeRace.id})
+        `;
+        await syncTeamTotalPoints(sql as unknown as SqlExecutor, team.id, true);
+      }
+      await sql`
+        INSERT INTO "TeamTransfer" (id, "teamId", "raceId", "driverIdOut", "driverIdIn", kind, "penaltyId")
+        VALUES (${crypto.randomUUID()}, ${team.id}, ${activeRace.id}, ${driverIdOut}, ${driverIdIn ?? null}, ${transfer.kind}, ${penaltyId})
+      `;
+    }
+    return null;
   });
+  if (refused) return c.json(refused, 400);
 
-  return c.json({ ok: true, newBudget });
+  return c.json({ ok: true, newBudget, transfer });
 });
 
 app.post("/team/lineup", requireUser, async (c) => {
@@ -683,10 +1688,7 @@ app.post("/team/lineup", requireUser, async (c) => {
   const races = await autocloseStaleRaces();
   const activeRace = pickActiveRace(races);
 
-  if (activeRace) {
-    const lockDate = getRaceLockDate(activeRace);
-    if (lockDate && new Date() > lockDate) return c.json({ error: "lineup_locked" }, 403);
-  }
+  if (activeRace && isRaceLocked(activeRace)) return c.json({ error: "lineup_locked" }, 403);
 
   const now = new Date().toISOString();
   await sql`
@@ -698,8 +1700,159 @@ app.post("/team/lineup", requireUser, async (c) => {
   return c.json({ ok: true });
 });
 
+app.get("/leagues/:leagueId/transfers", requireUser, async (c) => {
+  const user = c.get("user");
+  const leagueId = c.req.param("leagueId");
+
+  const [team] = await sql`
+    SELECT t.id, t."createdAt", l.rules FROM "Team" t JOIN "League" l ON l.id = t."leagueId"
+    WHERE t."leagueId" = ${leagueId} AND t."userId" = ${user.id}
+  `;
+  if (!team) return c.json({ error: "team_not_found" }, 404);
+  const rules = normalizeScoringRules(team.rules);
+
+  const races = await autocloseStaleRaces();
+  const activeRace = pickActiveRace(races);
+  if (!activeRace) return c.json({ error: "no_active_race" }, 404);
+  if (!(await ensureTeamTransferTable(sql as unknown as SqlExecutor))) return c.json({ error: "transfers_unavailable" }, 500);
+
+  const [wildcard] = (await ensureChipActivationTable(sql as unknown as SqlExecutor))
+    ? await sql`SELECT id FROM "ChipActivation" WHERE "teamId" = ${team.id} AND "raceId" = ${activeRace.id} AND chip = 'wildcard'`
+    : [];
+  return c.json(await getTransferAllowance(sql as unknown as SqlExecutor, team.id, team.createdAt as Date | null, rules, races, activeRace, Boolean(wildcard)));
+});
+
+app.get("/leagues/:leagueId/chips", requireUser, async (c) => {
+  const user = c.get("user");
+  const leagueId = c.req.param("leagueId");
+
+  const [team] = await sql`
+    SELECT t.id, l.rules FROM "Team" t JOIN "League" l ON l.id = t."leagueId"
+    WHERE t."leagueId" = ${leagueId} AND t."userId" = ${user.id}
+  `;
+  if (!team) return c.json({ error: "team_not_found" }, 404);
+  const rules = normalizeScoringRules(team.rules);
+
+  const races = await autocloseStaleRaces();
+  const activeRace = pickActiveRace(races);
+  const season = Number(activeRace?.season) || new Date().getUTCFullYear();
+  const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
+  const history = hasChipTable
+    ? await sql`SELECT "raceId", chip, season, "marketUsed" FROM "ChipActivation" WHERE "teamId" = ${team.id} ORDER BY "createdAt" ASC`
+    : [];
+
+  const used: Record<string, number> = {};
+  for (const h of history) if (Number(h.season) === season) used[h.chip] = (used[h.chip] || 0) + 1;
+  const active = activeRace ? history.find((h) => h.raceId === activeRace.id) : undefined;
+
+  return c.json({
+    enabled: rules.chipsEnabled || [],
+    usesPerSeason: rules.chipUsesPerSeason ?? 1,
+    season,
+    raceId: activeRace?.id ?? null,
+    lockDate: activeRace ? getRaceLockDate(activeRace) : null,
+    locked: activeRace ? isRaceLocked(activeRace) : false,
+    active: active ? { chip: active.chip, marketUsed: Boolean(active.marketUsed) } : null,
+    used,
+    history: history.map((h) => ({ raceId: h.raceId, chip: h.chip })),
+  });
+});
+
+app.post("/team/chips/activate", requireUser, async (c) => {
+  const user = c.get("user");
+  const { leagueId, chip } = await c.req.json();
+  if (!leagueId) return c.json({ error: "missing_leagueId" }, 400);
+  if (!isChipId(chip)) return c.json({ error: "invalid_chip" }, 400);
+
+  const races = await autocloseStaleRaces();
+  const activeRace = pickActiveRace(races);
+  if (!activeRace || activeRace.isCompleted) return c.json({ error: "no_active_race" }, 400);
+  if (isRaceLocked(activeRace)) return c.json({ error: "chip_locked" }, 403);
+
+  const [team] = await sql`
+    SELECT t.id, t.budget, l.rules FROM "Team" t JOIN "League" l ON l.id = t."leagueId"
+    WHERE t."leagueId" = ${leagueId} AND t."userId" = ${user.id}
+  `;
+  if (!team) return c.json({ error: "team_not_found" }, 404);
+  const rules = normalizeScoringRules(team.rules);
+  if (!(rules.chipsEnabled || []).includes(chip)) return c.json({ error: "chip_not_enabled" }, 400);
+
+  if (!(await ensureChipActivationTable(sql as unknown as SqlExecutor))) return c.json({ error: "chips_unavailable" }, 500);
+  const season = Number(activeRace.season) || new Date().getUTCFullYear();
+
+  let newBudget = Number(team.budget);
+  // Checked on the locked team row, so activations sent at the same time
+  // cannot both pass the one-per-race and per-season limits.
+  const refused = await sql.begin(async (sql) => {
+    const [locked] = await sql`SELECT budget FROM "Team" WHERE id = ${team.id} FOR UPDATE`;
+    newBudget = Number(locked.budget);
+    const [current] = await sql`SELECT chip FROM "ChipActivation" WHERE "teamId" = ${team.id} AND "raceId" = ${activeRace.id}`;
+    if (current) return { body: { error: "chip_already_active", chip: current.chip }, status: 409 as const };
+    const [usage] = await sql`SELECT COUNT(*)::int AS used FROM "ChipActivation" WHERE "teamId" = ${team.id} AND chip = ${chip} AND season = ${season}`;
+    if (Number(usage?.used ?? 0) >= (rules.chipUsesPerSeason ?? 1)) return { body: { error: "chip_limit_reached" }, status: 400 as const };
+
+    let budgetBefore: number | null = null;
+    if (chip === "wildcard") {
+      // Budget reset: re-value the current drivers at today's prices against
+      // the starting budget, so the team can be rebuilt from scratch.
+      const [owned] = await sql`
+        SELECT COALESCE(SUM(d.price), 0) AS value
+        FROM "TeamDriver" td JOIN "Driver" d ON d.id = td."driverId"
+        WHERE td."teamId" = ${team.id}
+      `;
+      budgetBefore = newBudget;
+      newBudget = TEAM_STARTING_BUDGET - Number(owned?.value ?? 0);
+      await sql`UPDATE "Team" SET budget = ${newBudget}, "updatedAt" = ${new Date().toISOString()} WHERE id = ${team.id}`;
+    }
+    await sql`
+      INSERT INTO "ChipActivation" (id, "teamId", "raceId", chip, season, "budgetBefore")
+      VALUES (${crypto.randomUUID()}, ${team.id}, ${activeRace.id}, ${chip}, ${season}, ${budgetBefore})
+    `;
+    return null;
+  });
+  if (refused) return c.json(refused.body, refused.status);
+
+  return c.json({ ok: true, chip, raceId: activeRace.id, newBudget });
+});
+
+app.post("/team/chips/cancel", requireUser, async (c) => {
+  const user = c.get("user");
+  const { leagueId } = await c.req.json();
+  if (!leagueId) return c.json({ error: "missing_leagueId" }, 400);
+
+  const races = await autocloseStaleRaces();
+  const activeRace = pickActiveRace(races);
+  if (!activeRace || activeRace.isCompleted) return c.json({ error: "no_active_race" }, 400);
+  if (isRaceLocked(activeRace)) return c.json({ error: "chip_locked" }, 403);
+
+  const [team] = await sql`SELECT id, budget FROM "Team" WHERE "leagueId" = ${leagueId} AND "userId" = ${user.id}`;
+  if (!team) return c.json({ error: "team_not_found" }, 404);
+  if (!(await ensureChipActivationTable(sql as unknown as SqlExecutor))) return c.json({ error: "chips_unavailable" }, 500);
+
+  let newBudget = Number(team.budget);
+  // Read on the locked team row, like /team/market, so a transfer made under
+  // the Wildcard cannot slip in between the check and the budget restore.
+  const refused = await sql.begin(async (sql) => {
+    const [locked] = await sql`SELECT budget FROM "Team" WHERE id = ${team.id} FOR UPDATE`;
+    newBudget = Number(locked.budget);
+    const [active] = await sql`SELECT id, chip, "marketUsed", "budgetBefore" FROM "ChipActivation" WHERE "teamId" = ${team.id} AND "raceId" = ${activeRace.id}`;
+    if (!active) return { body: { error: "no_active_chip" }, status: 404 as const };
+    if (active.chip === "wildcard" && active.marketUsed) return { body: { error: "chip_in_use" }, status: 409 as const };
+    await sql`DELETE FROM "ChipActivation" WHERE id = ${active.id}`;
+    if (active.chip === "wildcard" && active.budgetBefore !== null) {
+      newBudget = Number(active.budgetBefore);
+      await sql`UPDATE "Team" SET budget = ${newBudget}, "updatedAt" = ${new Date().toISOString()} WHERE id = ${team.id}`;
+    }
+    return null;
+  });
+  if (refused) return c.json(refused.body, refused.status);
+
+  return c.json({ ok: true, newBudget });
+});
+
 app.get("/leagues/:id/standings", requireUser, async (c) => {
   const leagueId = c.req.param("id");
+  const seasons = await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor);
   let standings: Array<Record<string, unknown>> = [];
   try {
     standings = await sql`
@@ -718,13 +1871,15 @@ app.get("/leagues/:id/standings", requireUser, async (c) => {
       FROM "Team" t
       JOIN "User" u ON t."userId" = u.id
       LEFT JOIN (
-        SELECT "teamId", SUM(points)::double precision AS "basePoints"
-        FROM "TeamResult"
-        GROUP BY "teamId"
+        SELECT tr."teamId", SUM(tr.points)::double precision AS "basePoints"
+        FROM "TeamResult" tr
+        ${seasons ? sql`JOIN "Race" r ON r.id = tr."raceId" JOIN "Team" st ON st.id = tr."teamId" WHERE st.season IS NULL OR r.season = st.season` : sql``}
+        GROUP BY tr."teamId"
       ) tr ON tr."teamId" = t.id
       LEFT JOIN (
         SELECT "teamId", SUM(points)::double precision AS "penaltyPoints"
         FROM "TeamPenalty"
+        ${seasons ? sql`WHERE season IS NULL` : sql``}
         GROUP BY "teamId"
       ) tp ON tp."teamId" = t.id
       WHERE t."leagueId" = ${leagueId}
@@ -808,6 +1963,12 @@ app.get("/leagues/:leagueId/results/:raceId", requireUser, async (c) => {
     ORDER BY tr.points DESC
   `;
 
+  const hasLineupTable = await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor);
+  const lineups = hasLineupTable
+    ? await sql`SELECT "teamId", "driverIds", "captainId", "reserveId", "lockedAt" FROM "TeamRaceLineup" WHERE "raceId" = ${raceId}`
+    : [];
+  const chips = await loadRaceChips(sql as unknown as SqlExecutor, raceId, await ensureChipActivationTable(sql as unknown as SqlExecutor));
+
   const resultsWithDrivers = await Promise.all(results.map(async (r) => {
     const drivers = await sql`
       SELECT d.id, d.name, trd.points
@@ -815,13 +1976,21 @@ app.get("/leagues/:leagueId/results/:raceId", requireUser, async (c) => {
       JOIN "Driver" d ON trd."driverId" = d.id
       WHERE trd."teamResultId" = ${r.id}
     `;
+    const lineup = lineups.find((l) => l.teamId === r.teamId);
     return {
       userId: r.userId,
       userName: r.userName || "User",
       points: Number(r.points),
-      captainId: r.captainId,
-      reserveId: r.reserveId,
-      drivers
+      captainId: lineup ? lineup.captainId : r.captainId,
+      reserveId: lineup ? lineup.reserveId : r.reserveId,
+      drivers,
+      chip: chips[r.teamId] ?? null,
+      lineup: lineup ? {
+        driverIds: Array.isArray(lineup.driverIds) ? lineup.driverIds : [],
+        captainId: lineup.captainId,
+        reserveId: lineup.reserveId,
+        lockedAt: lineup.lockedAt,
+      } : null,
     };
   }));
 
@@ -836,13 +2005,22 @@ app.post("/admin/drivers", requireUser, async (c) => {
   const { updates } = await c.req.json();
   if (!updates || !Array.isArray(updates)) return c.json({ error: "invalid_updates" }, 400);
 
+  const hasPriceHistoryTable = await ensureDriverPriceHistoryTable(sql as unknown as SqlExecutor);
+
   await sql.begin(async (sql) => {
     for (const u of updates) {
+      const [before] = await sql`SELECT price FROM "Driver" WHERE id = ${u.id}`;
       await sql`
         UPDATE "Driver" 
         SET price = ${u.price ?? sql`price`}, points = ${u.points ?? sql`points`}
         WHERE id = ${u.id}
       `;
+      if (hasPriceHistoryTable && before && u.price !== undefined && u.price !== null && Number(u.price) !== Number(before.price)) {
+        await sql`
+          INSERT INTO "DriverPriceHistory" (id, "driverId", source, "oldPrice", "newPrice", change)
+          VALUES (${crypto.randomUUID()}, ${u.id}, 'admin', ${Number(before.price)}, ${Number(u.price)}, ${Number((Number(u.price) - Number(before.price)).toFixed(2))})
+        `;
+      }
     }
   });
 
@@ -955,6 +2133,154 @@ app.post("/league/delete", requireUser, async (c) => {
   return c.json({ ok: true });
 });
 
+// Ends the league's season: archives the final standings, with each team's
+// points per race and last roster, in LeagueSeasonStanding, then resets
+// budgets, rosters and lineups for `season` (default: the next one). Members,
+// rules and cosmetics carry over. Without an explicit `season` every race of
+// the finished season must be final or cancelled.
+app.post("/league/season/start", requireUser, async (c) => {
+  const user = c.get("user");
+  const { leagueId, season: requestedSeason } = await c.req.json();
+  if (!leagueId) return c.json({ error: "missing_fields" }, 400);
+
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  if (!(await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor))) return c.json({ error: "seasons_unavailable" }, 503);
+
+  const explicitSeason = requestedSeason !== undefined && requestedSeason !== null;
+  if (explicitSeason && !Number.isInteger(Number(requestedSeason))) return c.json({ error: "invalid_season" }, 400);
+  const fallbackSeason = await currentSeason();
+  const withStatus = await ensureRaceStatusColumn(sql as unknown as SqlExecutor);
+
+  let finished = 0;
+  let next = 0;
+  let archived = 0;
+  // Everything is read on the locked league row, so a retry or a second
+  // click sees the season that was just started and is refused instead of
+  // archiving it empty.
+  const refused = await sql.begin(async (tx) => {
+    const [league] = await tx`SELECT id, season FROM "League" WHERE id = ${leagueId} FOR UPDATE`;
+    if (!league) return { body: { error: "league_not_found" }, status: 404 as const };
+    finished = league.season === null ? fallbackSeason : Number(league.season);
+    next = explicitSeason ? Number(requestedSeason) : finished + 1;
+    if (next <= finished) return { body: { error: "season_already_started", season: finished }, status: 409 as const };
+    // Without an explicit target season the finished one has to be over.
+    if (!explicitSeason) {
+      const [open] = await tx`
+        SELECT COUNT(*)::int AS races FROM "Race"
+        WHERE season = ${finished} AND NOT "isCompleted"
+        ${withStatus ? tx`AND status NOT IN ('final', 'cancelled')` : tx``}
+      `;
+      if (Number(open?.races ?? 0) > 0) {
+        return { body: { error: "season_not_over", season: finished, openRaces: Number(open.races) }, status: 409 as const };
+      }
+    }
+
+    const teams = await tx`
+      SELECT t.id, t."userId", t.name, u."displayName",
+             COALESCE((SELECT SUM(points) FROM "TeamPenalty" tp WHERE tp."teamId" = t.id AND tp.season IS NULL), 0)::double precision AS "penaltyPoints"
+      FROM "Team" t
+      JOIN "User" u ON u.id = t."userId"
+      WHERE t."leagueId" = ${leagueId}
+      FOR UPDATE OF t
+    `;
+    const teamIds = teams.map((t) => String(t.id));
+    const scored = await tx`
+      SELECT tr."teamId", tr."raceId", tr.points, r.name, r.round
+      FROM "TeamResult" tr
+      JOIN "Race" r ON r.id = tr."raceId"
+      JOIN "Team" t ON t.id = tr."teamId"
+      WHERE t."leagueId" = ${leagueId} AND r.season = COALESCE(t.season, ${finished})
+      ORDER BY r.round ASC
+    `;
+    const owned = teamIds.length > 0 ? await tx`SELECT "teamId", "driverId" FROM "TeamDriver" WHERE "teamId" IN ${tx(teamIds)}` : [];
+    const standings = teams
+      .map((t) => {
+        const results = scored
+          .filter((r) => r.teamId === t.id)
+          .map((r) => ({ raceId: String(r.raceId), name: String(r.name), round: Number(r.round), points: Number(r.points || 0) }));
+        const penaltyPoints = Number(t.penaltyPoints || 0);
+        return {
+          teamId: String(t.id),
+          userId: String(t.userId),
+          teamName: t.name ?? null,
+          userName: t.displayName ?? null,
+          totalPoints: results.reduce((sum, r) => sum + r.points, 0) + penaltyPoints,
+          penaltyPoints,
+          driverIds: owned.filter((d) => d.teamId === t.id).map((d) => String(d.driverId)),
+          results,
+        };
+      })
+      .sort((a, b) => b.totalPoints - a.totalPoints);
+
+    const now = new Date().toISOString();
+    for (const [idx, row] of standings.entries()) {
+      await tx`
+        INSERT INTO "LeagueSeasonStanding" (id, "leagueId", season, rank, "userId", "teamId", "teamName", "userName", "totalPoints", "penaltyPoints", "driverIds", results)
+        VALUES (${crypto.randomUUID()}, ${leagueId}, ${finished}, ${idx + 1}, ${row.userId}, ${row.teamId}, ${row.teamName}, ${row.userName},
+                ${row.totalPoints}, ${row.penaltyPoints}, ${JSON.stringify(row.driverIds)}::jsonb, ${JSON.stringify(row.results)}::jsonb)
+        ON CONFLICT ("leagueId", season, "userId") DO NOTHING
+      `;
+    }
+    await tx`UPDATE "TeamPenalty" SET season = ${finished} WHERE "leagueId" = ${leagueId} AND season IS NULL`;
+    if (teamIds.length > 0) await tx`DELETE FROM "TeamDriver" WHERE "teamId" IN ${tx(teamIds)}`;
+    await tx`
+      UPDATE "Team"
+      SET budget = ${TEAM_STARTING_BUDGET}, "captainId" = NULL, "reserveId" = NULL, "totalPoints" = 0, season = ${next}, "updatedAt" = ${now}
+      WHERE "leagueId" = ${leagueId}
+    `;
+    await tx`UPDATE "League" SET season = ${next}, "updatedAt" = ${now} WHERE id = ${leagueId}`;
+    // Races of the new season may already be scored.
+    for (const teamId of teamIds) await syncTeamTotalPoints(tx as unknown as SqlExecutor, teamId, true);
+    archived = standings.length;
+    return null;
+  });
+  if (refused) return c.json(refused.body, refused.status);
+
+  return c.json({ ok: true, season: next, archived: { season: finished, teams: archived } });
+});
+
+// The season a league is playing and the archived ones, newest first.
+app.get("/leagues/:id/seasons", requireUser, async (c) => {
+  const leagueId = c.req.param("id");
+  if (!(await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor))) return c.json({ current: null, archived: [] });
+  const [league] = await sql`SELECT season FROM "League" WHERE id = ${leagueId}`;
+  if (!league) return c.json({ error: "league_not_found" }, 404);
+  const rows = await sql`
+    SELECT season, COUNT(*)::int AS teams FROM "LeagueSeasonStanding"
+    WHERE "leagueId" = ${leagueId}
+    GROUP BY season
+    ORDER BY season DESC
+  `;
+  return c.json({
+    current: league.season === null ? null : Number(league.season),
+    archived: rows.map((r) => ({ season: Number(r.season), teams: Number(r.teams) })),
+  });
+});
+
+// Final standings of an archived season. Read-only: rescoring a race of that
+// season afterwards does not change them.
+app.get("/leagues/:id/seasons/:season/standings", requireUser, async (c) => {
+  const leagueId = c.req.param("id");
+  const season = Number(c.req.param("season"));
+  if (!Number.isInteger(season)) return c.json({ error: "invalid_season" }, 400);
+  if (!(await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor))) return c.json({ error: "season_not_found" }, 404);
+  const rows = await sql`
+    SELECT rank, "userId", "teamId", "teamName", "userName", "totalPoints", "penaltyPoints", "driverIds", results
+    FROM "LeagueSeasonStanding"
+    WHERE "leagueId" = ${leagueId} AND season = ${season}
+    ORDER BY rank ASC
+  `;
+  if (rows.length === 0) return c.json({ error: "season_not_found" }, 404);
+  return c.json(rows.map((r) => ({
+    ...r,
+    rank: Number(r.rank),
+    totalPoints: Number(r.totalPoints),
+    penaltyPoints: Number(r.penaltyPoints),
+    userName: r.userName || "User " + String(r.userId).slice(0, 4),
+  })));
+});
+
 // Required by Apple Guideline 5.1.1(v) and Google Play account-deletion policy:
 // any user who can create an account must be able to delete it from within
 // the app. Client must send { confirm: "DELETE" } to prove intent.
@@ -1026,13 +2352,13 @@ app.post("/account/delete", requireUser, async (c) => {
 });
 
 // Helper constants for Sync
-const OPENF1_BASE = "https://api.openf1.org/v1";
 const OPENF1_MAX_RETRIES = 3;
 
 function sleep(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
-async function fetchOpenF1Json(url: string): Promise<unknown | null> {
+// Raw response body, so the cache can keep it exactly as OpenF1 sent it.
+async function fetchOpenF1Text(url: string): Promise<string | null> {
   for (let attempt = 0; attempt <= OPENF1_MAX_RETRIES; attempt++) {
     try {
       const res = await fetch(url);
@@ -1051,7 +2377,7 @@ async function fetchOpenF1Json(url: string): Promise<unknown | null> {
         }
         return null;
       }
-      return await res.json();
+      return await res.text();
     } catch (e) {
       if (attempt < OPENF1_MAX_RETRIES) {
         await sleep((attempt + 1) * 600);
@@ -1064,6 +2390,133 @@ async function fetchOpenF1Json(url: string): Promise<unknown | null> {
   return null;
 }
 
+// --- OpenF1 response cache ---------------------------------------------------
+//
+// Raw responses keyed by URL. Session data expires quickly while the session
+// runs, every few minutes while stewards can still amend it, and never once
+// final, so rescoring a race days later reads exactly what the first sync did.
+// Bodies are stored as text to replay them byte for byte.
+
+const OPENF1_CACHE_TTL_SECONDS = {
+  sessions: 60 * 60,
+  live: 30,
+  settling: 15 * 60,
+  // Session data whose timing has not been seen yet in this isolate.
+  unknown: 2 * 60,
+};
+// Same window as /cron/resync-recent: after it, a session's data is final.
+const OPENF1_FINAL_AFTER_MS = 9 * 24 * 60 * 60 * 1000;
+
+let openF1CacheTable: Promise<boolean> | null = null;
+const ensureOpenF1CacheTable = (db: SqlExecutor): Promise<boolean> =>
+  (openF1CacheTable ||= (async () => {
+    try {
+      await db`
+        CREATE TABLE IF NOT EXISTS "OpenF1Cache" (
+          url TEXT PRIMARY KEY,
+          "sessionKey" INTEGER,
+          body TEXT NOT NULL,
+          "fetchedAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+          "expiresAt" TIMESTAMP WITHOUT TIME ZONE
+        );
+      `;
+      await db`CREATE INDEX IF NOT EXISTS "OpenF1Cache_sessionKey_idx" ON "OpenF1Cache"("sessionKey");`;
+      await db`ALTER TABLE "OpenF1Cache" ENABLE ROW LEVEL SECURITY`;
+      return true;
+    } catch (e) {
+      console.error("OpenF1Cache table unavailable:", e);
+      openF1CacheTable = null;
+      return false;
+    }
+  })());
+
+// Start and end of every session seen in a /sessions response.
+const openF1SessionTimes = new Map<number, { start: number; end: number }>();
+
+const rememberSessionTimes = (data: unknown) => {
+  if (!Array.isArray(data)) return;
+  for (const row of data as Record<string, unknown>[]) {
+    const key = Number(row?.session_key);
+    const start = Date.parse(String(row?.date_start || ""));
+    const end = Date.parse(String(row?.date_end || ""));
+    if (Number.isFinite(key) && Number.isFinite(start)) {
+      openF1SessionTimes.set(key, { start, end: Number.isFinite(end) ? end : start + 2 * 60 * 60 * 1000 });
+    }
+  }
+};
+
+const sessionKeyOfUrl = (url: string): number | null => {
+  const match = url.match(/[?&]session_key=(\d+)/);
+  return match ? Number(match[1]) : null;
+};
+
+// Seconds a response stays fresh, or null to keep it for good. An empty
+// answer is never kept for good: OpenF1 may simply not have published yet.
+const openF1CacheTtl = (url: string, data: unknown, now = Date.now()): number | null => {
+  const key = sessionKeyOfUrl(url);
+  if (key === null) return OPENF1_CACHE_TTL_SECONDS.sessions;
+  const times = openF1SessionTimes.get(key);
+  if (!times) return OPENF1_CACHE_TTL_SECONDS.unknown;
+  if (now < times.end) return OPENF1_CACHE_TTL_SECONDS.live;
+  if (now - times.end < OPENF1_FINAL_AFTER_MS) return OPENF1_CACHE_TTL_SECONDS.settling;
+  return Array.isArray(data) && data.length === 0 ? OPENF1_CACHE_TTL_SECONDS.settling : null;
+};
+
+// fetchOpenF1Text behind the cache, parsed. When the API fails (rate limit,
+// outage) an expired copy is better than nothing.
+async function cachedOpenF1Json(url: string): Promise<unknown | null> {
+  const hasCache = await ensureOpenF1CacheTable(sql as unknown as SqlExecutor);
+  const isSessionList = sessionKeyOfUrl(url) === null;
+  let stale: unknown = null;
+  if (hasCache) {
+    const [row] = await sql`SELECT body, ("expiresAt" IS NULL OR "expiresAt" > NOW()) AS fresh FROM "OpenF1Cache" WHERE url = ${url}`;
+    if (row) {
+      const body = JSON.parse(String(row.body));
+      if (isSessionList) rememberSessionTimes(body);
+      if (row.fresh) return body;
+      stale = body;
+    }
+  }
+  const text = await fetchOpenF1Text(url);
+  let data: unknown = null;
+  try {
+    if (text !== null) data = JSON.parse(text);
+  } catch (e) {
+    console.error("openf1_parse_error", { url, error: (e as Error).message });
+  }
+  if (data === null) return stale;
+  if (isSessionList) rememberSessionTimes(data);
+  if (hasCache) {
+    const ttl = openF1CacheTtl(url, data);
+    try {
+      await sql`
+        INSERT INTO "OpenF1Cache" (url, "sessionKey", body, "fetchedAt", "expiresAt")
+        VALUES (${url}, ${sessionKeyOfUrl(url)}, ${text}, NOW(), NOW() + make_interval(secs => ${ttl}))
+        ON CONFLICT (url) DO UPDATE SET body = EXCLUDED.body, "fetchedAt" = EXCLUDED."fetchedAt", "expiresAt" = EXCLUDED."expiresAt"
+      `;
+    } catch (e) {
+      console.error("openf1_cache_write_error", { url, error: (e as Error).message });
+    }
+  }
+  return data;
+}
+
+// RESULTS_PROVIDER=fixture replays recorded OpenF1 JSON from
+// RESULTS_FIXTURE_DIR instead of calling the API (offline runs and tests; see
+// import-ergast.ts to build a directory from Ergast/Jolpica files).
+const createResultsProvider = (): ResultsProvider => {
+  if (Deno.env.get("RESULTS_PROVIDER") !== "fixture") return createOpenF1Provider(cachedOpenF1Json);
+  const dir = Deno.env.get("RESULTS_FIXTURE_DIR") || "./fixtures";
+  return createFixtureProvider(async (path) => {
+    try {
+      return JSON.parse(await Deno.readTextFile(`${dir}/${path}`));
+    } catch {
+      return null;
+    }
+  });
+};
+const resultsProvider = createResultsProvider();
+
 interface OpenF1SessionRow {
   meeting_key?: number | string | null;
   meeting_name?: string | null;
@@ -1112,45 +2565,6 @@ function getSessionNameLower(session: OpenF1SessionRow): string {
   return String(session.session_name || session.session_type || "").trim().toLowerCase();
 }
 
-function parseCsvSet(value: string | undefined): Set<string> {
-  if (!value) return new Set<string>();
-  return new Set(
-    value
-      .split(",")
-      .map((s) => normalizeText(s))
-      .filter((s) => s.length > 0),
-  );
-}
-
-function isMeetingCancelledByRule(season: number, meeting: OpenF1MeetingCalendar): boolean {
-  const forcedCancelled = parseCsvSet(Deno.env.get("CANCELLED_RACE_MEETINGS"));
-  const candidates = [
-    meeting.meetingName,
-    meeting.country || "",
-    meeting.city || "",
-  ].map((x) => normalizeText(x));
-  for (const c of candidates) {
-    if (c && forcedCancelled.has(c)) return true;
-  }
-
-  // 2026 emergency cancellation fallback:
-  // Bahrain and Saudi Arabia races do not take place in April.
-  if (season === 2026) {
-    const raceTs = Date.parse(meeting.raceUtc);
-    const isApril = Number.isFinite(raceTs) && (new Date(raceTs).getUTCMonth() === 3);
-    if (!isApril) return false;
-    const fingerprint = normalizeText(`${meeting.meetingName} ${meeting.country || ""} ${meeting.city || ""}`);
-    if (
-      fingerprint.includes("bahrain")
-      || fingerprint.includes("sakhir")
-      || fingerprint.includes("saudi arabia")
-      || fingerprint.includes("jeddah")
-    ) return true;
-  }
-
-  return false;
-}
-
 function pickEarliestSessionByName(sessions: OpenF1SessionRow[], targetName: string): OpenF1SessionRow | null {
   const target = targetName.toLowerCase();
   const matches = sessions
@@ -1160,8 +2574,8 @@ function pickEarliestSessionByName(sessions: OpenF1SessionRow[], targetName: str
 }
 
 async function fetchOpenF1CalendarMeetings(season: number): Promise<OpenF1MeetingCalendar[]> {
-  const data = await fetchOpenF1Json(`${OPENF1_BASE}/sessions?year=${season}`);
-  if (!Array.isArray(data)) return [];
+  const data = await resultsProvider.sessions({ year: season });
+  if (!data) return [];
 
   const byMeeting = new Map<string, OpenF1SessionRow[]>();
   for (const raw of data) {
@@ -1203,9 +2617,15 @@ async function fetchOpenF1CalendarMeetings(season: number): Promise<OpenF1Meetin
   }
 
   meetings.sort((a, b) => Date.parse(a.raceUtc) - Date.parse(b.raceUtc));
-  return meetings.filter((m) => !isMeetingCancelledByRule(season, m));
+  return meetings;
 }
 
+// A meeting OpenF1 still lists for a race an admin cancelled or postponed.
+const meetingMatchesRace = (meeting: OpenF1MeetingCalendar, race: RaceRow): boolean => {
+  const names = new Set([race.name, race.country || "", race.city || ""].map((x) => normalizeText(x)).filter(Boolean));
+  return [meeting.meetingName, meeting.country || "", meeting.city || ""].some((x) => names.has(normalizeText(x)));
+};
+
 async function syncRaceCalendarFromOpenF1(): Promise<void> {
   const [seasonRow] = await sql<{ season?: number }[]>`
     SELECT season
@@ -1218,8 +2638,10 @@ async function syncRaceCalendarFromOpenF1(): Promise<void> {
   const meetings = await fetchOpenF1CalendarMeetings(season);
   if (meetings.length === 0) return;
 
+  const withStatus = await ensureRaceStatusColumn(sql as unknown as SqlExecutor);
   const dbRaces = await sql<RaceRow[]>`
-    SELECT id, name, country, city, season, round, "isSprint", "qualifyingUtc", "sprintQualifyingUtc", date, "isCompleted", results
+    SELECT id, name, country, city, season, round, "isSprint", "qualifyingUtc", "sprintQualifyingUtc", date, "isCompleted", results,
+           ${withStatus ? sql`status` : sql`NULL AS status`}
     FROM "Race"
     WHERE season = ${season}
     ORDER BY round ASC
@@ -1241,21 +2663,24 @@ async function syncRaceCalendarFromOpenF1(): Promise<void> {
   const pivotTs = lockedHistoricalRaces.length > 0
     ? Math.max(...lockedHistoricalRaces.map((r) => Date.parse(String(r.date || 0))).filter(Number.isFinite))
     : NaN;
-  const upcomingMeetings = Number.isFinite(pivotTs)
+  // Cancelled and postponed races keep their slot and dates, and the meeting
+  // OpenF1 may still list for them is not handed to another race.
+  const offRaces = dbRaces.filter((r) => isRaceOff(r.status));
+  const upcomingMeetings = (Number.isFinite(pivotTs)
     ? meetings.filter((m) => Date.parse(m.raceUtc) > pivotTs)
-    : meetings;
+    : meetings).filter((m) => !offRaces.some((r) => meetingMatchesRace(m, r)));
 
   // Only slots positioned AFTER the last locked race may be (re)assigned to
   // upcoming meetings. A non-locked race that sits at or before the last
   // locked round is a historical hole — e.g. a cancelled GP that someone
-  // marked not-completed. Letting such a hole pick up the next upcoming
+  // left scheduled. Letting such a hole pick up the next upcoming
   // meeting drags a future race back to an early round and scrambles the
   // whole calendar (the Bahrain hole once pulled Austria to round 4).
   const maxLockedRound = lockedHistoricalRaces.length > 0
     ? Math.max(...lockedHistoricalRaces.map((r) => Number(r.round) || 0))
     : 0;
   const mutableRaces = dbRaces
-    .filter((r) => !lockedHistoricalRaceIds.has(r.id))
+    .filter((r) => !lockedHistoricalRaceIds.has(r.id) && !isRaceOff(r.status))
     .filter((r) => (Number(r.round) || 0) > maxLockedRound);
 
   await sql.begin(async (tx) => {
@@ -1263,9 +2688,11 @@ async function syncRaceCalendarFromOpenF1(): Promise<void> {
       const race = mutableRaces[index];
       const meeting = upcomingMeetings[index];
       if (!meeting) {
-        // Hide local placeholder races that are no longer present in OpenF1.
+        // Local placeholder races that are no longer present in OpenF1 are
+        // cancelled; an admin can set them back to scheduled.
         if (!hasStoredResults(race) && !race.isCompleted) {
-          await tx`UPDATE "Race" SET "isCompleted" = true WHERE id = ${race.id}`;
+          if (withStatus) await tx`UPDATE "Race" SET status = 'cancelled' WHERE id = ${race.id}`;
+          else await tx`UPDATE "Race" SET "isCompleted" = true WHERE id = ${race.id}`;
         }
         continue;
       }
@@ -1315,19 +2742,113 @@ async function maybeSyncRaceCalendarFromOpenF1(force = false): Promise<void> {
   await raceCalendarSyncInFlight;
 }
 
-const DRIVER_NUMBER_FALLBACK: Record<number, string> = {
-  1: "nor", 3: "ver", 5: "bor", 6: "had", 10: "gas", 11: "per", 12: "ant", 14: "alo", 16: "lec", 18: "str",
-  22: "tsu", 23: "alb", 27: "hul", 30: "law", 31: "oco", 41: "lin", 43: "col", 44: "ham", 55: "sai",
-  63: "rus", 77: "bot", 81: "pia", 87: "bea", 38: "bea", 50: "bea"
+// --- Driver roster ---------------------------------------------------------
+//
+// OpenF1 numbers and names are mapped to driver ids through Driver.number,
+// Driver.active and DriverAlias (see ../_shared/roster.ts). DRIVER_ROSTER_SEED
+// only fills them in on a database that predates them; afterwards they change
+// through /admin/drivers/roster-sync.
+
+const DRIVER_ROSTER_SEED = {
+  numbers: {
+    nor: 1, ver: 3, bor: 5, had: 6, gas: 10, per: 11, ant: 12, alo: 14, lec: 16, str: 18, tsu: 22,
+    alb: 23, hul: 27, law: 30, oco: 31, lin: 41, col: 43, ham: 44, sai: 55, rus: 63, bot: 77, pia: 81, bea: 87,
+  } as Record<string, number>,
+  // Reserve and practice numbers Bearman has raced under.
+  numberAliases: { 38: "bea", 50: "bea" } as Record<number, string>,
+  nameAliases: {
+    "andrea kimi antonelli": "ant", "kimi antonelli": "ant", "max verstappen": "ver", "lando norris": "nor",
+    "charles leclerc": "lec", "lewis hamilton": "ham", "george russell": "rus", "oscar piastri": "pia",
+    "fernando alonso": "alo", "lance stroll": "str", "pierre gasly": "gas", "franco colapinto": "col",
+    "alexander albon": "alb", "alex albon": "alb", "carlos sainz": "sai", "arvid lindblad": "lin",
+    "liam lawson": "law", "oliver bearman": "bea", "esteban ocon": "oco", "gabriel bortoleto": "bor",
+    "nico hulkenberg": "hul", "sergio perez": "per", "valtteri bottas": "bot", "isack hadjar": "had",
+  } as Record<string, string>,
+};
+
+let driverRosterSchema: Promise<boolean> | null = null;
+const ensureDriverRosterSchema = (db: SqlExecutor): Promise<boolean> =>
+  (driverRosterSchema ||= (async () => {
+    try {
+      await db`ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "number" INTEGER`;
+      await db`ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "active" BOOLEAN NOT NULL DEFAULT true`;
+      await db`
+        CREATE TABLE IF NOT EXISTS "DriverAlias" (
+          id TEXT PRIMARY KEY,
+          "driverId" TEXT NOT NULL REFERENCES "Driver"(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL CHECK (kind IN ('number','name')),
+          value TEXT NOT NULL,
+          "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+        );
+      `;
+      await db`CREATE UNIQUE INDEX IF NOT EXISTS "DriverAlias_kind_value_key" ON "DriverAlias"(kind, value);`;
+      await db`ALTER TABLE "DriverAlias" ENABLE ROW LEVEL SECURITY`;
+      await seedDriverRoster(db);
+      return true;
+    } catch (e) {
+      console.error("Driver roster schema unavailable:", e);
+      driverRosterSchema = null;
+      return false;
+    }
+  })());
+
+// First run only: no driver has a number and there are no aliases yet.
+const seedDriverRoster = async (db: SqlExecutor) => {
+  const [numbered] = await db`SELECT COUNT(*)::int AS n FROM "Driver" WHERE "number" IS NOT NULL`;
+  const [aliased] = await db`SELECT COUNT(*)::int AS n FROM "DriverAlias"`;
+  if (Number(numbered?.n) > 0 || Number(aliased?.n) > 0) return;
+  const drivers = await db`SELECT id, name FROM "Driver"`;
+  const known = new Map(drivers.map((d) => [String(d.id), normalizeDriverName(String(d.name))]));
+  for (const [id, number] of Object.entries(DRIVER_ROSTER_SEED.numbers)) {
+    if (known.has(id)) await db`UPDATE "Driver" SET "number" = ${number} WHERE id = ${id}`;
+  }
+  const aliases: DriverAlias[] = [
+    ...Object.entries(DRIVER_ROSTER_SEED.numberAliases).map(([value, driverId]) => ({ driverId, kind: "number" as const, value })),
+    ...Object.entries(DRIVER_ROSTER_SEED.nameAliases).map(([value, driverId]) => ({ driverId, kind: "name" as const, value })),
+  ];
+  for (const a of aliases) {
+    // A name alias equal to the driver's own name adds nothing.
+    if (!known.has(a.driverId) || (a.kind === "name" && known.get(a.driverId) === a.value)) continue;
+    await db`
+      INSERT INTO "DriverAlias" (id, "driverId", kind, value) VALUES (${crypto.randomUUID()}, ${a.driverId}, ${a.kind}, ${a.value})
+      ON CONFLICT (kind, value) DO NOTHING
+    `;
+  }
 };
 
-const DRIVER_NAME_ID_ALIASES: Record<string, string> = {
-  "andrea kimi antonelli": "ant", "kimi antonelli": "ant", "max verstappen": "ver", "lando norris": "nor",
-  "charles leclerc": "lec", "lewis hamilton": "ham", "george russell": "rus", "oscar piastri": "pia",
-  "fernando alonso": "alo", "lance stroll": "str", "pierre gasly": "gas", "franco colapinto": "col",
-  "alexander albon": "alb", "alex albon": "alb", "carlos sainz": "sai", "arvid lindblad": "lin",
-  "liam lawson": "law", "oliver bearman": "bea", "esteban ocon": "oco", "gabriel bortoleto": "bor",
-  "nico hulkenberg": "hul", "sergio perez": "per", "valtteri bottas": "bot", "isack hadjar": "had"
+interface RosterState {
+  drivers: (RosterDriver & { constructorId: string; price: number })[];
+  aliases: DriverAlias[];
+  roster: DriverRoster;
+}
+
+// Re-read at most once a minute per isolate; cleared when the roster changes.
+const DRIVER_ROSTER_TTL_MS = 60 * 1000;
+let driverRosterState: { at: number; state: Promise<RosterState> } | null = null;
+
+const loadDriverRoster = (): Promise<RosterState> => {
+  if (driverRosterState && Date.now() - driverRosterState.at < DRIVER_ROSTER_TTL_MS) return driverRosterState.state;
+  const state = (async (): Promise<RosterState> => {
+    const hasRoster = await ensureDriverRosterSchema(sql as unknown as SqlExecutor);
+    const rows = hasRoster
+      ? await sql`SELECT id, name, "constructorId", price, "number", active FROM "Driver"`
+      : await sql`SELECT id, name, "constructorId", price, NULL::int AS "number", true AS active FROM "Driver"`;
+    const drivers = rows.map((d) => ({
+      id: String(d.id),
+      name: String(d.name || ""),
+      constructorId: String(d.constructorId || ""),
+      price: Number(d.price),
+      number: d.number === null || d.number === undefined ? null : Number(d.number),
+      active: d.active !== false,
+    }));
+    const aliases: DriverAlias[] = hasRoster
+      ? (await sql`SELECT "driverId", kind, value FROM "DriverAlias"`).map((a) => ({ driverId: String(a.driverId), kind: a.kind, value: String(a.value) }))
+      : [];
+    return { drivers, aliases, roster: buildDriverRoster(drivers, aliases) };
+  })();
+  state.catch(() => { driverRosterState = null; });
+  driverRosterState = { at: Date.now(), state };
+  return state;
 };
 
 function normalizeText(value: string | null | undefined): string {
@@ -1335,15 +2856,15 @@ function normalizeText(value: string | null | undefined): string {
   return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
 }
 
-function resolveDriverIdByNumber(driverNumber: number, sessionMap: Record<number, string>, knownDriverIds: Set<string>): string | null {
+function resolveDriverIdByNumber(driverNumber: number, sessionMap: Record<number, string>, knownDriverIds: Set<string>, roster: DriverRoster): string | null {
   const fromSession = sessionMap[driverNumber];
   if (fromSession && knownDriverIds.has(fromSession)) return fromSession;
-  const fromFallback = DRIVER_NUMBER_FALLBACK[driverNumber];
-  if (fromFallback && knownDriverIds.has(fromFallback)) return fromFallback;
+  const fromRoster = roster.numbers[driverNumber];
+  if (fromRoster && knownDriverIds.has(fromRoster)) return fromRoster;
   return null;
 }
 
-function buildDriverLookup(allDrivers: Driver[]) {
+function buildDriverLookup(allDrivers: Driver[], roster: DriverRoster) {
   const byId = new Map<string, string>();
   const byFullName = new Map<string, string>();
   const byLastName = new Map<string, string>();
@@ -1357,11 +2878,11 @@ function buildDriverLookup(allDrivers: Driver[]) {
       byFullName.set(fullNorm, d.id);
       const parts = fullNorm.split(" ");
       if (parts.length > 0) byLastName.set(parts[parts.length - 1], d.id);
-      const aliasId = DRIVER_NAME_ID_ALIASES[fullNorm];
+      const aliasId = roster.names[fullNorm];
       if (aliasId && knownIds.has(aliasId)) byFullName.set(fullNorm, aliasId);
     }
   }
-  for (const [aliasName, aliasId] of Object.entries(DRIVER_NAME_ID_ALIASES)) {
+  for (const [aliasName, aliasId] of Object.entries(roster.names)) {
     if (!knownIds.has(aliasId)) continue;
     const aliasNorm = normalizeText(aliasName);
     if (!aliasNorm) continue;
@@ -1374,11 +2895,11 @@ function buildDriverLookup(allDrivers: Driver[]) {
 
 async function getOpenF1DriverNumberMap(sessionKey: number, allDrivers: Driver[]): Promise<Record<number, string>> {
   const map: Record<number, string> = {};
-  const { byId, byFullName, byLastName, knownIds } = buildDriverLookup(allDrivers);
-  const url = `${OPENF1_BASE}/drivers?session_key=${sessionKey}`;
+  const { roster } = await loadDriverRoster();
+  const { byId, byFullName, byLastName, knownIds } = buildDriverLookup(allDrivers, roster);
   try {
-    const data = await fetchOpenF1Json(url);
-    if (!Array.isArray(data)) return map;
+    const data = await resultsProvider.sessionData(sessionKey, "drivers");
+    if (!data) return map;
     for (const rawRecord of data) {
       const record = rawRecord as Record<string, unknown>;
       const driverNumber = Number(record.driver_number);
@@ -1400,7 +2921,7 @@ async function getOpenF1DriverNumberMap(sessionKey: number, allDrivers: Driver[]
         if (parts.length > 0) driverId = byLastName.get(parts[parts.length - 1]);
       }
       if (!driverId) {
-        const fallback = DRIVER_NUMBER_FALLBACK[driverNumber];
+        const fallback = roster.numbers[driverNumber];
         if (fallback && knownIds.has(fallback)) driverId = fallback;
       }
       if (driverId && knownIds.has(driverId)) map[driverNumber] = driverId;
@@ -1409,98 +2930,479 @@ async function getOpenF1DriverNumberMap(sessionKey: number, allDrivers: Driver[]
   return map;
 }
 
-const DEFAULT_RACE_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
-const DEFAULT_SPRINT_POINTS = [8, 7, 6, 5, 4, 3, 2, 1];
-
-const DEFAULT_SCORING_RULES: ScoringRules = {
-  racePositionPoints: DEFAULT_RACE_POINTS, raceFastestLap: 0, raceLastPlaceMalus: -3, qualiQ1Eliminated: -3,
-  qualiQ2Reached: 1, qualiQ3Reached: 3, qualiPole: 3, qualiGridPenalty: 0, raceDNF: -5, racePenalty: -5,
-  teammateBeat: 2, teammateLost: -2, teammateBeatDNF: 1, positionGainedPos1_10: 1.0, positionGainedPos11_Plus: 0.5,
-  positionLostPos1_10: -1.0, positionLostPos11_Plus: -0.5, sprintPositionPoints: DEFAULT_SPRINT_POINTS, sprintPole: 1,
-  constructors: [
-    { id: 'rbr', name: 'Red Bull Racing', color: '#3671C6', multiplier: 1.0 },
-    { id: 'fer', name: 'Ferrari', color: '#F91536', multiplier: 1.1 },
-    { id: 'mer', name: 'Mercedes', color: '#6CD3BF', multiplier: 1.1 },
-    { id: 'mcl', name: 'McLaren', color: '#F58020', multiplier: 1.0 },
-    { id: 'ast', name: 'Aston Martin', color: '#225941', multiplier: 1.3 },
-    { id: 'alp', name: 'Alpine', color: '#2293D1', multiplier: 1.3 },
-    { id: 'wil', name: 'Williams', color: '#37BEDD', multiplier: 1.3 },
-    { id: 'rb', name: 'Racing Bulls', color: '#6692FF', multiplier: 1.3 },
-    { id: 'haa', name: 'Haas', color: '#B6BABD', multiplier: 1.3 },
-    { id: 'sau', name: 'Audi', color: '#000000', multiplier: 1.5 },
-    { id: 'cad', name: 'Cadillac', color: '#E5C25B', multiplier: 1.6 },
-  ]
+// Entry list of one session. OpenF1 team names are matched to the default
+// constructor names ("Haas F1 Team" -> Haas), else to the constructor most of
+// that team's drivers have in the Driver table.
+async function getOpenF1RaceEntries(sessionKey: number, driverNumberMap: Record<number, string>, allDrivers: Driver[]): Promise<RaceEntry[]> {
+  const constructorOf = new Map(allDrivers.map((d) => [d.id, d.constructorId]));
+  const constructors = (DEFAULT_SCORING_RULES.constructors || [])
+    .map((c) => ({ id: c.id, name: normalizeText(c.name) }))
+    .sort((a, b) => b.name.length - a.name.length);
+  try {
+    const data = await resultsProvider.sessionData(sessionKey, "drivers");
+    if (!data) return [];
+    const rows = data
+      .map((raw) => raw as Record<string, unknown>)
+      .map((row) => ({ driverId: driverNumberMap[Number(row.driver_number)], carNumber: Number(row.driver_number), team: normalizeText(String(row.team_name || "")) }))
+      .filter((row): row is { driverId: string; carNumber: number; team: string } => Boolean(row.driverId));
+    const votes = new Map<string, Record<string, number>>();
+    for (const row of rows) {
+      const usual = constructorOf.get(row.driverId);
+      if (!row.team || !usual) continue;
+      const tally = votes.get(row.team) || {};
+      tally[usual] = (tally[usual] || 0) + 1;
+      votes.set(row.team, tally);
+    }
+    const entries: RaceEntry[] = [];
+    for (const row of rows) {
+      const byName = row.team ? constructors.find((c) => row.team === c.name || row.team.startsWith(`${c.name} `))?.id : undefined;
+      const byVote = Object.entries(votes.get(row.team) || {}).sort((a, b) => b[1] - a[1])[0]?.[0];
+      const constructorId = byName || byVote || constructorOf.get(row.driverId);
+      if (constructorId) entries.push({ driverId: row.driverId, constructorId, carNumber: Number.isInteger(row.carNumber) ? row.carNumber : null });
+    }
+    return entries;
+  } catch (e) {
+    console.error("openf1_entries_error", e);
+    return [];
+  }
+}
+
+// Entry list the roster sync compares against: the latest race, sprint or
+// qualifying that has started, so reserve drivers in practice are ignored.
+const ROSTER_SESSION_NAMES: SessionName[] = ["Race", "Sprint", "Qualifying"];
+
+const applyRosterChange = async (db: SqlExecutor, change: RosterChange, entryPrice: number) => {
+  switch (change.kind) {
+    case "new_driver":
+      await db`
+        INSERT INTO "Driver" (id, name, "constructorId", price, points, "number", active)
+        VALUES (${change.driverId}, ${change.name}, ${change.constructorId}, ${entryPrice}, 0, ${change.number}, true)
+      `;
+      break;
+    case "number":
+      // Results recorded under the old number must still resolve.
+      if (change.from !== null) {
+        await db`
+          INSERT INTO "DriverAlias" (id, "driverId", kind, value) VALUES (${crypto.randomUUID()}, ${change.driverId}, 'number', ${String(change.from)})
+          ON CONFLICT (kind, value) DO UPDATE SET "driverId" = EXCLUDED."driverId"
+        `;
+      }
+      await db`UPDATE "Driver" SET "number" = ${change.to} WHERE id = ${change.driverId}`;
+      break;
+    case "alias":
+      await db`
+        INSERT INTO "DriverAlias" (id, "driverId", kind, value) VALUES (${crypto.randomUUID()}, ${change.driverId}, 'name', ${change.value})
+        ON CONFLICT (kind, value) DO UPDATE SET "driverId" = EXCLUDED."driverId"
+      `;
+      break;
+    case "active":
+      await db`UPDATE "Driver" SET active = ${change.active} WHERE id = ${change.driverId}`;
+      break;
+  }
 };
 
-app.post("/admin/migrate-rules", requireUser, async (c) => {
+// Proposes roster changes from OpenF1. With `approve` (change ids from a
+// previous call) the matching proposals are applied; proposals are rebuilt
+// from scratch on every call, so a stale id is simply not found.
+app.post("/admin/drivers/roster-sync", requireUser, async (c) => {
   const user = c.get("user");
-  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
   if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
-  try {
-    await sql`ALTER TABLE "League" ADD COLUMN IF NOT EXISTS "rules" JSONB`;
-    const leagues = await sql`SELECT id FROM "League" WHERE "rules" IS NULL`;
-    for (const l of leagues) {
-      const rulesJson = sql.json(DEFAULT_SCORING_RULES as any);
-      await sql`UPDATE "League" SET "rules" = ${rulesJson} WHERE id = ${l.id}`;
+  const { season: requestedSeason, approve } = await c.req.json().catch(() => ({}));
+  if (!(await ensureDriverRosterSchema(sql as unknown as SqlExecutor))) return c.json({ error: "roster_unavailable" }, 503);
+
+  const season = Number(requestedSeason) || await currentSeason();
+  const now = Date.now();
+  const session = ((await resultsProvider.sessions({ year: season })) || [])
+    .filter((row) => ROSTER_SESSION_NAMES.includes(row.session_name as SessionName) && Date.parse(String(row.date_start || "")) <= now)
+    .sort((a, b) => Date.parse(String(b.date_start)) - Date.parse(String(a.date_start)))[0];
+  if (!session) return c.json({ error: "no_session", season }, 404);
+  const sessionKey = Number(session.session_key);
+  const rows = await resultsProvider.sessionData(sessionKey, "drivers");
+  if (!rows || rows.length === 0) return c.json({ error: "no_drivers_found", sessionKey }, 404);
+
+  driverRosterState = null;
+  const { drivers, aliases } = await loadDriverRoster();
+  const changes = proposeRosterChanges(rows, drivers, aliases);
+  const source = { season, sessionKey, sessionName: session.session_name, meetingName: session.meeting_name ?? null };
+  if (!Array.isArray(approve)) return c.json({ ...source, changes });
+
+  const approved = changes.filter((change) => approve.includes(change.id));
+  const applied: string[] = [];
+  const skipped: { id: string; error: string }[] = [];
+  const entryPrice = Math.min(...drivers.map((d) => d.price).filter((p) => Number.isFinite(p)));
+  await sql.begin(async (sql) => {
+    for (const change of approved) {
+      if (change.kind === "new_driver" && !change.constructorId) {
+        skipped.push({ id: change.id, error: "missing_constructor" });
+        continue;
+      }
+      await applyRosterChange(sql as unknown as SqlExecutor, change, Number.isFinite(entryPrice) ? entryPrice : DEFAULT_PRICING_RULES.minPrice);
+      applied.push(change.id);
     }
-    return c.json({ ok: true, migrated: leagues.length });
-  } catch (e) { return c.json({ error: (e as Error).message }, 500); }
+  });
+  driverRosterState = null;
+  const after = await loadDriverRoster();
+  return c.json({ ...source, applied, skipped, changes: proposeRosterChanges(rows, after.drivers, after.aliases) });
 });
 
-app.post("/admin/sync-calendar", requireUser, async (c) => {
-  const user = c.get("user");
-  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+// --- Race entries ------------------------------------------------------------
+//
+// Who drove which car at each race (RaceEntry in ../_shared/scoring.ts), so
+// teammate duels and constructor multipliers follow substitutes and team
+// changes. A sync stores the entry list of the latest session; an admin can
+// replace it, and a sync never overwrites the admin's list. Races without
+// entries are scored from Driver.constructorId.
+
+let raceEntryTable: Promise<boolean> | null = null;
+const ensureRaceEntryTable = (db: SqlExecutor): Promise<boolean> =>
+  (raceEntryTable ||= (async () => {
+    try {
+      await db`
+        CREATE TABLE IF NOT EXISTS "RaceEntry" (
+          id TEXT PRIMARY KEY,
+          "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+          "driverId" TEXT NOT NULL REFERENCES "Driver"(id) ON DELETE CASCADE,
+          "constructorId" TEXT NOT NULL,
+          "carNumber" INTEGER,
+          source TEXT NOT NULL DEFAULT 'sync' CHECK (source IN ('sync','admin')),
+          "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+        );
+      `;
+      await db`CREATE UNIQUE INDEX IF NOT EXISTS "RaceEntry_raceId_driverId_key" ON "RaceEntry"("raceId", "driverId");`;
+      await db`ALTER TABLE "RaceEntry" ENABLE ROW LEVEL SECURITY`;
+      return true;
+    } catch (e) {
+      console.error("RaceEntry table unavailable:", e);
+      raceEntryTable = null;
+      return false;
+    }
+  })());
+
+interface RaceEntryList {
+  source: "sync" | "admin" | null;
+  entries: RaceEntry[];
+}
+
+const loadRaceEntries = async (db: SqlExecutor, raceId: string): Promise<RaceEntryList> => {
+  if (!(await ensureRaceEntryTable(db))) return { source: null, entries: [] };
+  const rows = await db`SELECT "driverId", "constructorId", "carNumber", source FROM "RaceEntry" WHERE "raceId" = ${raceId} ORDER BY "carNumber" NULLS LAST, "driverId"`;
+  return {
+    source: rows.some((r) => r.source === "admin") ? "admin" : rows.length > 0 ? "sync" : null,
+    entries: rows.map((r) => ({ driverId: String(r.driverId), constructorId: String(r.constructorId), carNumber: r.carNumber === null ? null : Number(r.carNumber) })),
+  };
+};
+
+const saveRaceEntries = async (db: SqlExecutor, raceId: string, entries: RaceEntry[], source: "sync" | "admin") => {
+  await db`DELETE FROM "RaceEntry" WHERE "raceId" = ${raceId}`;
+  for (const e of entries) {
+    await db`
+      INSERT INTO "RaceEntry" (id, "raceId", "driverId", "constructorId", "carNumber", source)
+      VALUES (${crypto.randomUUID()}, ${raceId}, ${e.driverId}, ${e.constructorId}, ${e.carNumber}, ${source})
+    `;
+  }
+};
+
+// The list a race is scored with: the admin's, else a freshly fetched one,
+// else the last one stored.
+const chooseRaceEntries = (stored: RaceEntryList, fetched: RaceEntry[]): RaceEntry[] =>
+  stored.source === "admin" || fetched.length === 0 ? stored.entries : fetched;
+
+// Drivers (with the constructor they were entered for) and teammate pairs
+// one race is scored with.
+const raceScoringDrivers = (allDrivers: Driver[], entries: RaceEntry[]) => {
+  const drivers = applyRaceEntries(allDrivers, entries);
+  return { drivers, teammates: buildTeammateMap(drivers, entries) };
+};
+
+app.get("/admin/races/:raceId/entries", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const raceId = c.req.param("raceId");
+  const [race] = await sql`SELECT id FROM "Race" WHERE id = ${raceId}`;
+  if (!race) return c.json({ error: "race_not_found" }, 404);
+  return c.json(await loadRaceEntries(sql as unknown as SqlExecutor, raceId));
+});
+
+// Replaces a race's entry list with the admin's; `entries: null` hands it
+// back to the sync. Stored points change on the next sync or recalculation.
+app.post("/admin/race-entries", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { raceId, entries } = await c.req.json();
+  if (!raceId) return c.json({ error: "missing_raceId" }, 400);
+  if (!(await ensureRaceEntryTable(sql as unknown as SqlExecutor))) return c.json({ error: "entries_unavailable" }, 503);
+  const [race] = await sql`SELECT id FROM "Race" WHERE id = ${raceId}`;
+  if (!race) return c.json({ error: "race_not_found" }, 404);
+  if (entries === null) {
+    await sql`DELETE FROM "RaceEntry" WHERE "raceId" = ${raceId}`;
+    return c.json({ ok: true, source: null, entries: [] });
+  }
+  const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+  const constructorIds = new Set([...(DEFAULT_SCORING_RULES.constructors || []).map((k) => k.id), ...allDrivers.map((d) => d.constructorId)]);
+  const fields = validateRaceEntries(entries, allDrivers.map((d) => d.id), [...constructorIds]);
+  if (fields.length > 0) return c.json({ error: "invalid_entries", fields }, 400);
+  const list: RaceEntry[] = (entries as RaceEntry[]).map((e) => ({ driverId: e.driverId, constructorId: e.constructorId, carNumber: e.carNumber ?? null }));
+  await sql.begin((sql) => saveRaceEntries(sql as unknown as SqlExecutor, raceId, list, "admin"));
+  return c.json({ ok: true, ...(await loadRaceEntries(sql as unknown as SqlExecutor, raceId)) });
+});
+
+app.post("/admin/migrate-rules", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  try {
+    await sql`ALTER TABLE "League" ADD COLUMN IF NOT EXISTS "rules" JSONB`;
+    const leagues = await sql`SELECT id FROM "League" WHERE "rules" IS NULL`;
+    for (const l of leagues) {
+      const rulesJson = sql.json(DEFAULT_SCORING_RULES as any);
+      await sql`UPDATE "League" SET "rules" = ${rulesJson} WHERE id = ${l.id}`;
+    }
+    return c.json({ ok: true, migrated: leagues.length });
+  } catch (e) { return c.json({ error: (e as Error).message }, 500); }
+});
+
+app.post("/admin/sync-calendar", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
   if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
   await maybeSyncRaceCalendarFromOpenF1(true);
   const races = await loadRacesOrdered();
   return c.json({ ok: true, races });
 });
 
+// Saves the rules as a new version. By default it applies from the next
+// unlocked round; `retroactive` applies it from `effectiveFromRound` (round 1
+// if omitted) of the same season, and the response lists the already scored
+// races the admin should recalculate. Invalid rules get a 400 listing every
+// bad field (validateScoringRules).
 app.post("/league/rules", requireUser, async (c) => {
   const user = c.get("user");
-  const { leagueId, rules } = await c.req.json();
+  const { leagueId, rules, retroactive, effectiveFromRound } = await c.req.json();
   if (!leagueId || !rules) return c.json({ error: "missing_fields" }, 400);
   const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} AND role = 'ADMIN'`;
   if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const knownConstructors = await sql`SELECT DISTINCT "constructorId" FROM "Driver"`;
+  const fields = validateScoringRules(rules, knownConstructors.map((d) => String(d.constructorId)));
+  if (fields.length > 0) return c.json({ error: "invalid_rules", fields }, 400);
+  const clean = normalizeScoringRules(rules);
+  if (!(await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor))) return c.json({ error: "rules_versions_unavailable" }, 500);
+
+  const races = await autocloseStaleRaces();
+  const next = nextUnlockedRound(races);
+  let fromRound = next.round;
+  if (retroactive) {
+    fromRound = effectiveFromRound === undefined || effectiveFromRound === null ? 1 : Number(effectiveFromRound);
+    if (!Number.isInteger(fromRound) || fromRound < 1 || fromRound > next.round) return c.json({ error: "invalid_effective_round" }, 400);
+  }
   try {
-    const rulesJson = sql.json(rules as any);
-    await sql`UPDATE "League" SET "rules" = ${rulesJson} WHERE id = ${leagueId}`;
-    return c.json({ ok: true });
+    const version = await sql.begin(async (sql) => {
+      const [league] = await sql`SELECT rules FROM "League" WHERE id = ${leagueId} FOR UPDATE`;
+      const [latest] = await sql`SELECT MAX(version) AS version FROM "LeagueRulesVersion" WHERE "leagueId" = ${leagueId}`;
+      let current = Number(latest?.version ?? 0);
+      // First change since versions exist: keep what the league played with
+      // so far as version 1.
+      if (current === 0) {
+        current = 1;
+        await sql`
+          INSERT INTO "LeagueRulesVersion" (id, "leagueId", version, rules, "effectiveFromSeason", "effectiveFromRound")
+          VALUES (${crypto.randomUUID()}, ${leagueId}, 1, ${rulesParam(normalizeScoringRules(league?.rules))}, ${next.season}, 1)
+        `;
+      }
+      await sql`
+        INSERT INTO "LeagueRulesVersion" (id, "leagueId", version, rules, "effectiveFromSeason", "effectiveFromRound", retroactive, "createdBy")
+        VALUES (${crypto.randomUUID()}, ${leagueId}, ${current + 1}, ${rulesParam(clean)}, ${next.season}, ${fromRound}, ${Boolean(retroactive)}, ${user.id})
+      `;
+      await sql`UPDATE "League" SET "rules" = ${rulesParam(clean)} WHERE id = ${leagueId}`;
+      return current + 1;
+    });
+    const rescoreRaceIds = retroactive
+      ? races.filter((r) => r.results && (Number(r.season) || 2026) === next.season && Number(r.round) >= fromRound).map((r) => r.id)
+      : [];
+    return c.json({ ok: true, version, effectiveFromSeason: next.season, effectiveFromRound: fromRound, retroactive: Boolean(retroactive), rescoreRaceIds });
   } catch(e) { return c.json({ error: (e as Error).message }, 500); }
 });
 
-async function getOpenF1SessionKey(year: number, location: string, type: 'Race' | 'Qualifying' | 'Sprint' | 'Sprint Qualifying', country?: string | null, raceDate?: string | Date | null): Promise<number | null> {
-  const candidates: string[] = [];
+// Rules change history, newest first, with the settings each version changed.
+app.get("/leagues/:leagueId/rules/history", requireUser, async (c) => {
+  const user = c.get("user");
+  const leagueId = c.req.param("leagueId");
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_member" }, 403);
+  if (!(await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor))) return c.json({ error: "rules_versions_unavailable" }, 500);
+
+  const rows = await sql`
+    SELECT v.version, v.rules, v."effectiveFromSeason", v."effectiveFromRound", v.retroactive, v."createdAt",
+           u."displayName" AS "createdByName", r.name AS "raceName"
+    FROM "LeagueRulesVersion" v
+    LEFT JOIN "User" u ON u.id = v."createdBy"
+    LEFT JOIN LATERAL (
+      SELECT name FROM "Race" WHERE season = v."effectiveFromSeason" AND round = v."effectiveFromRound" LIMIT 1
+    ) r ON true
+    WHERE v."leagueId" = ${leagueId}
+    ORDER BY v.version ASC
+  `;
+  let previous: Record<string, unknown> = {};
+  const versions = rows.map((row) => {
+    const rules = (row.rules || {}) as Record<string, unknown>;
+    const changes = row.version === 1 ? [] : Object.keys({ ...previous, ...rules })
+      .filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(rules[key]))
+      .map((key) => ({ key, from: previous[key] ?? null, to: rules[key] ?? null }));
+    previous = rules;
+    return {
+      version: row.version,
+      effectiveFromSeason: row.effectiveFromSeason,
+      effectiveFromRound: row.effectiveFromRound,
+      raceName: row.raceName ?? null,
+      retroactive: row.retroactive,
+      createdByName: row.createdByName ?? null,
+      createdAt: row.createdAt,
+      changes,
+    };
+  });
+  return c.json({ versions: versions.reverse() });
+});
+
+// What-if: standings if `rules` had applied to every completed race, next
+// to the current ones. Read-only. Only team/race pairs that were scored are
+// rescored, with the same lineups and chips; penalties and races still
+// waiting for a final classification keep their current points.
+app.post("/league/rules/preview", requireUser, async (c) => {
+  const user = c.get("user");
+  const { leagueId, rules } = await c.req.json();
+  if (!leagueId || !rules) return c.json({ error: "missing_fields" }, 400);
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} AND role = 'ADMIN'`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const knownConstructors = await sql`SELECT DISTINCT "constructorId" FROM "Driver"`;
+  const fields = validateScoringRules(rules, knownConstructors.map((d) => String(d.constructorId)));
+  if (fields.length > 0) return c.json({ error: "invalid_rules", fields }, 400);
+  const proposed = normalizeScoringRules(rules);
+
+  try {
+    const teams = await sql`
+      SELECT t.id, t.name, t."userId", u."displayName" AS "userName"
+      FROM "Team" t JOIN "User" u ON u.id = t."userId"
+      WHERE t."leagueId" = ${leagueId}
+    `;
+    const tIds = teams.map((t) => String(t.id));
+    if (tIds.length === 0) return c.json({ races: 0, standings: [] });
+
+    const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
+    const hasLineupTable = await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor);
+    const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
+    const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+
+    const current: Record<string, number> = {};
+    const projected: Record<string, number> = {};
+    const seasons = await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor);
+    const scored = await sql`
+      SELECT tr."teamId", tr."raceId", tr.points FROM "TeamResult" tr
+      ${seasons ? sql`JOIN "Race" r ON r.id = tr."raceId" JOIN "Team" t ON t.id = tr."teamId"` : sql``}
+      WHERE tr."teamId" IN ${sql(tIds)} ${seasons ? sql`AND (t.season IS NULL OR r.season = t.season)` : sql``}
+    `;
+    for (const r of scored) current[String(r.teamId)] = (current[String(r.teamId)] || 0) + Number(r.points || 0);
+    if (hasPenaltyTable) {
+      const penalties = await sql`
+        SELECT "teamId", SUM(points)::double precision AS points FROM "TeamPenalty"
+        WHERE "teamId" IN ${sql(tIds)} ${seasons ? sql`AND season IS NULL` : sql``}
+        GROUP BY "teamId"
+      `;
+      for (const p of penalties) current[String(p.teamId)] = (current[String(p.teamId)] || 0) + Number(p.points || 0);
+    }
+    for (const id of tIds) projected[id] = current[id] || 0;
+
+    const races = (await loadRacesOrdered()).filter((r) => r.isCompleted && r.results);
+    for (const race of races) {
+      const pairs = scored.filter((r) => r.raceId === race.id);
+      if (pairs.length === 0) continue;
+      const stored = race.results as CombinedResults;
+      const res: CombinedResults = { quali: stored.quali, race: stored.race, sprint: stored.sprint, sprintQuali: stored.sprintQuali, dnfDrivers: stored.dnfDrivers || [], dnsDrivers: stored.dnsDrivers || [], dsqDrivers: stored.dsqDrivers || [], fastestLap: stored.fastestLap, gridPenalties: stored.gridPenalties, racePenalties: stored.racePenalties };
+      const lineups = await loadRaceLineups(sql as unknown as SqlExecutor, race, hasLineupTable);
+      const chips = await loadRaceChips(sql as unknown as SqlExecutor, race.id, hasChipTable);
+      const { drivers, teammates } = raceScoringDrivers(allDrivers, (await loadRaceEntries(sql as unknown as SqlExecutor, race.id)).entries);
+      const lPts = calculateWeekendPoints(res, proposed, teammates, drivers);
+      for (const pair of pairs) {
+        const teamId = String(pair.teamId);
+        const lineup = lineups[teamId] || { driverIds: [], captainId: null, reserveId: null };
+        const { points } = scoreTeamForRace(res, proposed, lPts.driverPoints, lineup, chips[teamId], teammates, drivers);
+        projected[teamId] += points - Number(pair.points || 0);
+      }
+    }
+
+    const round1 = (n: number) => Math.round(n * 10) / 10;
+    const rankBy = (totals: Record<string, number>) => {
+      const order = [...tIds].sort((a, b) => (totals[b] || 0) - (totals[a] || 0));
+      return Object.fromEntries(order.map((id, idx) => [id, idx + 1]));
+    };
+    const currentRank = rankBy(current);
+    const projectedRank = rankBy(projected);
+    const standings = teams
+      .map((t) => {
+        const id = String(t.id);
+        return {
+          teamId: id,
+          teamName: t.name ?? null,
+          userId: t.userId,
+          userName: t.userName || "User " + String(t.userId || "").slice(0, 4),
+          currentPoints: round1(current[id] || 0),
+          projectedPoints: round1(projected[id]),
+          delta: round1(projected[id] - (current[id] || 0)),
+          currentRank: currentRank[id],
+          projectedRank: projectedRank[id],
+          rankChange: currentRank[id] - projectedRank[id],
+        };
+      })
+      .sort((a, b) => a.projectedRank - b.projectedRank);
+    return c.json({ races: races.length, standings });
+  } catch (e) { return c.json({ error: (e as Error).message }, 500); }
+});
+
+interface OpenF1SessionWindow {
+  key: number;
+  start: number;
+  end: number;
+}
+
+async function getOpenF1SessionKey(year: number, location: string, type: SessionName, country?: string | null, raceDate?: string | Date | null): Promise<number | null> {
+  return (await getOpenF1Session(year, location, type, country, raceDate))?.key ?? null;
+}
+
+// Session key with its start and end (ms; NaN when OpenF1 has no date).
+async function getOpenF1Session(year: number, location: string, type: SessionName, country?: string | null, raceDate?: string | Date | null): Promise<OpenF1SessionWindow | null> {
+  const candidates: SessionQuery[] = [];
   const loc = (location || "").trim();
   const ctry = (country || "").trim();
-  if (loc) candidates.push(`${OPENF1_BASE}/sessions?year=${year}&location=${encodeURIComponent(loc)}&session_name=${encodeURIComponent(type)}`);
-  if (ctry) candidates.push(`${OPENF1_BASE}/sessions?year=${year}&country_name=${encodeURIComponent(ctry)}&session_name=${encodeURIComponent(type)}`);
-  candidates.push(`${OPENF1_BASE}/sessions?year=${year}&session_name=${encodeURIComponent(type)}`);
+  if (loc) candidates.push({ year, location: loc, sessionName: type });
+  if (ctry) candidates.push({ year, countryName: ctry, sessionName: type });
+  candidates.push({ year, sessionName: type });
   const targetTs = raceDate ? Date.parse(String(raceDate)) : NaN;
   for (let idx = 0; idx < candidates.length; idx++) {
-    const url = candidates[idx];
     try {
-      const data = await fetchOpenF1Json(url);
-      if (!Array.isArray(data) || data.length === 0) continue;
-      const sessions = data.map((x) => x as Record<string, unknown>).filter((x) => Number.isFinite(Number(x.session_key))).map((x) => ({ key: Number(x.session_key), ts: Date.parse(String(x.date_start || 0)) }));
+      const data = await resultsProvider.sessions(candidates[idx]);
+      if (!data || data.length === 0) continue;
+      const sessions = data.filter((x) => Number.isFinite(Number(x.session_key))).map((x) => ({ key: Number(x.session_key), ts: Date.parse(String(x.date_start || 0)), end: Date.parse(String(x.date_end || "")) }));
       if (sessions.length === 0) continue;
+      const windowOf = (s: typeof sessions[number]): OpenF1SessionWindow => ({ key: s.key, start: s.ts, end: s.end });
       if (idx === candidates.length - 1 && Number.isFinite(targetTs)) {
         const sorted = sessions.filter((s) => Number.isFinite(s.ts)).sort((a, b) => Math.abs(a.ts - targetTs) - Math.abs(b.ts - targetTs));
-        if (sorted.length > 0) return sorted[0].key;
+        if (sorted.length > 0) return windowOf(sorted[0]);
       }
       sessions.sort((a, b) => (b.ts || 0) - (a.ts || 0));
-      return sessions[0].key;
+      return windowOf(sessions[0]);
     } catch (e) { console.error("sessions_key_error", e); }
   }
   return null;
 }
 
 async function getOpenF1Classification(sessionKey: number, sessionDriverMap: Record<number, string>, knownDriverIds: Set<string>): Promise<Record<string, number>> {
+  const { roster } = await loadDriverRoster();
   const results: Record<string, number> = {};
   let hasActualClassification = false;
   try {
-    const data = await fetchOpenF1Json(`${OPENF1_BASE}/position?session_key=${sessionKey}`);
-    if (Array.isArray(data)) {
+    const data = await resultsProvider.sessionData(sessionKey, "position");
+    if (data) {
       const latest: Record<number, number> = {};
       const tss: Record<number, string> = {};
       for (const r of data) {
@@ -1508,7 +3410,7 @@ async function getOpenF1Classification(sessionKey: number, sessionDriverMap: Rec
         if (Number.isFinite(n) && Number.isFinite(p) && p > 0 && t && (!tss[n] || t > tss[n])) { tss[n] = t; latest[n] = p; }
       }
       for (const [n, p] of Object.entries(latest)) {
-        const id = resolveDriverIdByNumber(Number(n), sessionDriverMap, knownDriverIds);
+        const id = resolveDriverIdByNumber(Number(n), sessionDriverMap, knownDriverIds, roster);
         if (id) {
           results[id] = p;
           hasActualClassification = true;
@@ -1517,12 +3419,12 @@ async function getOpenF1Classification(sessionKey: number, sessionDriverMap: Rec
     }
   } catch (e) { console.error("pos_err", e); }
   try {
-    const data = await fetchOpenF1Json(`${OPENF1_BASE}/session_result?session_key=${sessionKey}`);
-    if (Array.isArray(data)) {
+    const data = await resultsProvider.sessionData(sessionKey, "session_result");
+    if (data) {
       for (const r of data) {
         const n = Number(r.driver_number); const p = Number(r.position);
         if (Number.isFinite(n) && Number.isFinite(p) && p > 0) {
-          const id = resolveDriverIdByNumber(n, sessionDriverMap, knownDriverIds);
+          const id = resolveDriverIdByNumber(n, sessionDriverMap, knownDriverIds, roster);
           if (id && !results[id]) {
             results[id] = p;
             hasActualClassification = true;
@@ -1547,119 +3449,63 @@ async function getOpenF1Classification(sessionKey: number, sessionDriverMap: Rec
 }
 
 async function getOpenF1SessionFlags(sessionKey: number, sessionDriverMap: Record<number, string>, knownDriverIds: Set<string>) {
-  const dns = new Set<string>(); const dnf = new Set<string>();
+  const { roster } = await loadDriverRoster();
+  const dns = new Set<string>(); const dnf = new Set<string>(); const dsq = new Set<string>();
   try {
-    const data = await fetchOpenF1Json(`${OPENF1_BASE}/session_result?session_key=${sessionKey}`);
-    if (Array.isArray(data)) {
+    const data = await resultsProvider.sessionData(sessionKey, "session_result");
+    if (data) {
       for (const r of data) {
         const n = Number(r.driver_number);
-        const id = resolveDriverIdByNumber(n, sessionDriverMap, knownDriverIds);
+        const id = resolveDriverIdByNumber(n, sessionDriverMap, knownDriverIds, roster);
         if (id) {
           if (r.dns === true) dns.add(id);
           if (r.dnf === true) dnf.add(id);
+          if (r.dsq === true) dsq.add(id);
         }
       }
     }
   } catch (e) { console.error("flag_err", e); }
-  return { dnsDrivers: dns, dnfDrivers: dnf };
+  return { dnsDrivers: dns, dnfDrivers: dnf, dsqDrivers: dsq };
 }
 
-function isReserveActivatedByDns(teamDriverIds: string[], reserveId: string | null | undefined, dnsDrivers: Set<string>): boolean {
-  if (!reserveId) return false;
-  return teamDriverIds.some((id) => id !== reserveId && dnsDrivers.has(id));
-}
-
-function calculateWeekendPoints(combinedResults: CombinedResults, rules: ScoringRules, teammates: Record<string, string>, allDrivers: Driver[]) {
-  const r = (v: number) => Math.round(v * 10) / 10;
-  const driverPoints: Record<string, number> = {};
-  const driverRacePoints: Record<string, number> = {};
-  const driverQualiPoints: Record<string, number> = {};
-  const driverSprintPoints: Record<string, number> = {};
-  const driverSprintQualiPoints: Record<string, number> = {};
-  const driverBreakdown: Record<string, DriverBreakdown> = {};
-
-  const raceRes = combinedResults.race || {};
-  const qualiRes = combinedResults.quali || {};
-  const sprintRes = combinedResults.sprint || {};
-  const sqRes = combinedResults.sprintQuali || {};
-  const dnfL = combinedResults.dnfDrivers || [];
-  const dnsL = combinedResults.dnsDrivers || [];
-
-  for (const d of allDrivers) {
-    const dId = d.id;
-    let racePts = 0; let qualiPts = 0; let sprintPts = 0; let overtakes = 0; let teammatePts = 0; let dnfPts = 0; let lastPts = 0; let polePts = 0; let sqPolePts = 0;
-    const pos = raceRes[dId]; const grid = qualiRes[dId];
-    // A retired (DNF/DNS) driver must never earn race-position points, even if
-    // the results feed recorded a classification for them. OpenF1 snapshots the
-    // position held at the moment of retirement, so a driver who retires from
-    // P2 would otherwise be scored as a P2 finisher (Verstappen, Monte Carlo 2026).
-    const retired = dnfL.includes(dId) || dnsL.includes(dId);
-    const hasValidRacePos = Number.isFinite(pos) && Number(pos) > 0 && Number(pos) < 900 && !retired;
-    const hasValidGridPos = Number.isFinite(grid) && Number(grid) > 0 && Number(grid) < 900;
-    const hasUnclassifiedGrid = Number.isFinite(grid) && Number(grid) >= 900;
-
-    if (hasValidRacePos) {
-      racePts = (rules.racePositionPoints || DEFAULT_RACE_POINTS)[pos - 1] || 0;
-      // Last-place malus goes to the last *finisher*: retired drivers are
-      // excluded from the comparison (they already take the DNF malus).
-      const vps = Object.entries(raceRes)
-        .filter(([id, v]) => typeof v === 'number' && Number.isFinite(v) && v > 0 && v < 900 && !dnfL.includes(id) && !dnsL.includes(id))
-        .map(([, v]) => v as number);
-      const mx = vps.length > 0 ? Math.max(...vps) : 0;
-      if (pos === mx && mx > 10) lastPts = (rules.raceLastPlaceMalus ?? -3);
-    }
-    if (hasValidGridPos || hasUnclassifiedGrid) {
-      if (grid === 1) polePts = (rules.qualiPole ?? 3);
-      if (hasValidGridPos && grid <= 10) qualiPts += (rules.qualiQ3Reached ?? 3);
-      else if (hasValidGridPos && grid <= 16) qualiPts += (rules.qualiQ2Reached ?? 1);
-      else qualiPts += (rules.qualiQ1Eliminated ?? -3);
-    }
-    if (hasValidGridPos && hasValidRacePos && !retired) {
-      const diff = grid - pos;
-      if (diff > 0) {
-        for (let p = grid - 1; p >= pos; p--) overtakes += (p <= 10 ? (rules.positionGainedPos1_10 ?? 1.0) : (rules.positionGainedPos11_Plus ?? 0.5));
-      } else if (diff < 0) {
-        for (let p = grid + 1; p <= pos; p++) overtakes += (p <= 10 ? (rules.positionLostPos1_10 ?? -1.0) : (rules.positionLostPos11_Plus ?? -0.5));
-      }
-    }
-    const sPos = sprintRes[dId]; if (sPos) sprintPts = (rules.sprintPositionPoints || DEFAULT_SPRINT_POINTS)[sPos - 1] || 0;
-    if (sqRes[dId] === 1) sqPolePts = (rules.sprintPole ?? 1);
-    if (retired) dnfPts = (rules.raceDNF ?? -5);
-    const tmId = teammates[dId];
-    if (tmId) {
-      const myP = raceRes[dId]; const tmP = raceRes[tmId];
-      const isMyR = retired;
-      const isTmR = dnfL.includes(tmId) || dnsL.includes(tmId);
-      const myHasValidPos = Number.isFinite(myP) && Number(myP) > 0 && Number(myP) < 900;
-      const tmHasValidPos = Number.isFinite(tmP) && Number(tmP) > 0 && Number(tmP) < 900;
-      if (myHasValidPos && tmHasValidPos) {
-        if (isMyR && !isTmR) teammatePts += (rules.teammateLost ?? -2);
-        else if (!isMyR && isTmR) teammatePts += (rules.teammateBeatDNF !== undefined ? rules.teammateBeatDNF : (rules.teammateBeat ?? 2));
-        else if (myP < tmP) teammatePts += (rules.teammateBeat ?? 2);
-        else if (myP > tmP) teammatePts += (rules.teammateLost ?? -2);
-      } else if (!isMyR && isTmR) {
-        teammatePts += (rules.teammateBeatDNF !== undefined ? rules.teammateBeatDNF : (rules.teammateBeat ?? 2));
-      } else if (isMyR && !isTmR) {
-        teammatePts += (rules.teammateLost ?? -2);
+async function getOpenF1FastestLap(sessionKey: number, sessionDriverMap: Record<number, string>, knownDriverIds: Set<string>): Promise<string | null> {
+  const { roster } = await loadDriverRoster();
+  let bestId: string | null = null; let bestTime = Infinity;
+  try {
+    const data = await resultsProvider.sessionData(sessionKey, "laps");
+    if (data) {
+      for (const r of data) {
+        const t = Number(r.lap_duration);
+        if (!Number.isFinite(t) || t <= 0 || t >= bestTime) continue;
+        const id = resolveDriverIdByNumber(Number(r.driver_number), sessionDriverMap, knownDriverIds, roster);
+        if (id) { bestId = id; bestTime = t; }
       }
     }
-    let mult = 1.0;
-    const cId = d.constructorId;
-    if (rules.constructors && cId) {
-      const cR = (rules.constructors as ConstructorRule[]).find(c => c.id === cId);
-      if (cR) mult = cR.multiplier;
-    }
-    const fRace = (racePts > 0 ? racePts * mult : racePts) + overtakes + dnfPts + lastPts + teammatePts;
-    const fQuali = (qualiPts > 0 ? qualiPts * mult : qualiPts) + (polePts > 0 ? polePts * mult : polePts);
-    const fSprint = (sprintPts > 0 ? sprintPts * mult : sprintPts);
-    const fSq = (sqPolePts > 0 ? sqPolePts * mult : sqPolePts);
-    const tot = r(fRace + fQuali + fSprint + fSq);
-    driverPoints[dId] = tot; driverRacePoints[dId] = r(fRace); driverQualiPoints[dId] = r(fQuali); driverSprintPoints[dId] = r(fSprint); driverSprintQualiPoints[dId] = r(fSq);
-    driverBreakdown[dId] = { racePosition: racePts, overtakes, teammate: teammatePts, sprint: sprintPts, sprintPole: sqPolePts, dnf: dnfPts, lastPlace: lastPts, qualiPole: polePts, qualiSession: qualiPts, total: tot, constructorMult: mult };
-  }
-  return { driverPoints, driverRacePoints, driverQualiPoints, driverSprintPoints, driverSprintQualiPoints, driverBreakdown };
+  } catch (e) { console.error("laps_err", e); }
+  return bestId;
 }
 
+// Stewards' penalties from the race control of `sessions`, each decision
+// counted once even when it is announced again in a later session (see
+// countRaceControlPenalties).
+async function getOpenF1Penalties(sessions: { key: number; map: Record<number, string> }[], knownDriverIds: Set<string>) {
+  const { roster } = await loadDriverRoster();
+  const rows: Record<string, unknown>[] = [];
+  const maps: Record<number, Record<number, string>> = {};
+  for (const { key, map } of sessions) {
+    maps[key] = map;
+    try {
+      const data = await resultsProvider.sessionData(key, "race_control");
+      if (data) rows.push(...data.map((r) => ({ ...r, session_key: key })));
+    } catch (e) { console.error("rc_err", e); }
+  }
+  return countRaceControlPenalties(rows, (n, row) => resolveDriverIdByNumber(n, maps[Number(row.session_key)] || {}, knownDriverIds, roster));
+}
+
+// Grid penalties for a race can be handed out from first practice up to
+// qualifying; one given during the race applies to the next event.
+const GRID_PENALTY_SESSIONS: SessionName[] = ["Practice 1", "Practice 2", "Practice 3", "Sprint Qualifying", "Sprint"];
+
 app.get("/leagues/:leagueId/breakdown/:raceId", requireUser, async (c) => {
   const user = c.get("user");
   const { leagueId, raceId } = c.req.param();
@@ -1667,26 +3513,17 @@ app.get("/leagues/:leagueId/breakdown/:raceId", requireUser, async (c) => {
   const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} LIMIT 1`;
   if (membership.length === 0) return c.json({ error: "not_member" }, 403);
 
-  const [race] = await sql`SELECT id, name, results, "isCompleted" FROM "Race" WHERE id = ${raceId}`;
+  const [race] = await sql`SELECT id, name, season, round, results, "isCompleted" FROM "Race" WHERE id = ${raceId}`;
   if (!race) return c.json({ error: "race_not_found" }, 404);
   if (!race.results) return c.json({ error: "no_results_stored" }, 404);
 
   const [league] = await sql<{ rules: ScoringRules }[]>`SELECT rules FROM "League" WHERE id = ${leagueId}`;
-  const rules = (league?.rules || DEFAULT_SCORING_RULES) as unknown as ScoringRules;
-  const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
-
-  const teammates: Record<string, string> = {};
-  const byConstructor: Record<string, string[]> = {};
-  for (const d of allDrivers) {
-    if (!byConstructor[d.constructorId]) byConstructor[d.constructorId] = [];
-    byConstructor[d.constructorId].push(d.id);
-  }
-  for (const drivers of Object.values(byConstructor)) {
-    if (drivers.length === 2) {
-      teammates[drivers[0]] = drivers[1];
-      teammates[drivers[1]] = drivers[0];
-    }
-  }
+  const rulesFor = await loadRulesResolver(sql as unknown as SqlExecutor, await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor));
+  const rules = rulesFor(leagueId, league?.rules, race as { season: unknown; round: unknown });
+  const { drivers: allDrivers, teammates } = raceScoringDrivers(
+    await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`,
+    (await loadRaceEntries(sql as unknown as SqlExecutor, String(race.id))).entries,
+  );
 
   const stored = race.results as Record<string, unknown>;
   const combinedResults: CombinedResults = {
@@ -1696,14 +3533,47 @@ app.get("/leagues/:leagueId/breakdown/:raceId", requireUser, async (c) => {
     sprintQuali: typeof stored.sprintQuali === "object" && stored.sprintQuali !== null ? stored.sprintQuali as Record<string, number> : undefined,
     dnfDrivers: Array.isArray(stored.dnfDrivers) ? stored.dnfDrivers.filter((x): x is string => typeof x === "string") : [],
     dnsDrivers: Array.isArray(stored.dnsDrivers) ? stored.dnsDrivers.filter((x): x is string => typeof x === "string") : [],
+    dsqDrivers: Array.isArray(stored.dsqDrivers) ? stored.dsqDrivers.filter((x): x is string => typeof x === "string") : [],
+    fastestLap: typeof stored.fastestLap === "string" ? stored.fastestLap : undefined,
+    gridPenalties: typeof stored.gridPenalties === "object" && stored.gridPenalties !== null ? stored.gridPenalties as Record<string, number> : undefined,
+    racePenalties: typeof stored.racePenalties === "object" && stored.racePenalties !== null ? stored.racePenalties as Record<string, number> : undefined,
   };
 
   const points = calculateWeekendPoints(combinedResults, rules, teammates, allDrivers);
 
+  // The caller's lineup as fielded at lock, so the breakdown can highlight
+  // the drivers that actually scored for them.
+  let lineup: (TeamLineup & { lockedAt: unknown }) | null = null;
+  if (await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor)) {
+    const [snap] = await sql`
+      SELECT trl."driverIds", trl."captainId", trl."reserveId", trl."lockedAt"
+      FROM "TeamRaceLineup" trl
+      JOIN "Team" t ON t.id = trl."teamId"
+      WHERE trl."raceId" = ${raceId} AND t."leagueId" = ${leagueId} AND t."userId" = ${user.id}
+    `;
+    if (snap) {
+      lineup = {
+        driverIds: Array.isArray(snap.driverIds) ? snap.driverIds : [],
+        captainId: snap.captainId,
+        reserveId: snap.reserveId,
+        lockedAt: snap.lockedAt,
+      };
+    }
+  }
+
+  let chip: ChipId | null = null;
+  const [myTeam] = await sql`SELECT id FROM "Team" WHERE "leagueId" = ${leagueId} AND "userId" = ${user.id}`;
+  if (myTeam) {
+    const chips = await loadRaceChips(sql as unknown as SqlExecutor, raceId, await ensureChipActivationTable(sql as unknown as SqlExecutor));
+    chip = chips[myTeam.id] ?? null;
+  }
+
   return c.json({
     raceId: race.id,
     raceName: race.name,
     isCompleted: Boolean(race.isCompleted),
+    lineup,
+    chip,
     results: {
       ...combinedResults,
       driverPoints: points.driverPoints,
@@ -1716,92 +3586,380 @@ app.get("/leagues/:leagueId/breakdown/:raceId", requireUser, async (c) => {
   });
 });
 
-// Core race-sync logic, shared by the admin endpoint and the weekly cron.
-// Re-fetches a race from OpenF1, applies the grid-guard, and rescores every
-// league. Returns a discriminated result instead of an HTTP response so both
-// callers can decide how to surface it.
-type SyncResult =
-  | { ok: true; loc: string; season: number }
-  | { ok: false; error: string; status: number; loc?: string; season?: number };
+// --- Live centre ---------------------------------------------------------
+//
+// While a qualifying, sprint or race session of the active race runs, and for
+// a while after it ends, /leagues/:id/live scores the provisional OpenF1
+// classification with the league's rules and ranks the teams on their
+// standings total plus those points. Nothing is written: the provisional
+// numbers are rebuilt from OpenF1 at most every LIVE_REFRESH_MS per race and
+// isolate, and the final ones still come from syncRaceCore.
+
+const LIVE_SESSIONS: SessionName[] = ["Qualifying", "Sprint Qualifying", "Sprint", "Race"];
+// A session stays live this long after its scheduled end, so late laps,
+// red flags and the cool-down classification are still shown.
+const LIVE_GRACE_MS = 60 * 60 * 1000;
+const LIVE_REFRESH_MS = 15 * 1000;
+// Edge Functions are cut off after a few minutes: a stream ends by itself and
+// the app opens a new one.
+const LIVE_STREAM_MS = 2 * 60 * 1000;
+
+interface LiveSession {
+  name: SessionName;
+  startsAt: string;
+  endsAt: string | null;
+}
 
-async function syncRaceCore(raceId: string): Promise<SyncResult> {
-  const [race] = await sql`SELECT * FROM "Race" WHERE id = ${raceId}`;
-  if (!race) return { ok: false, error: "race_not_found", status: 404 };
-  try {
-    await sql`ALTER TABLE "TeamResultDriver" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
-    await sql`ALTER TABLE "Driver" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
-    await sql`ALTER TABLE "Team" ALTER COLUMN "totalPoints" TYPE DOUBLE PRECISION USING "totalPoints"::double precision`;
-    await sql`ALTER TABLE "TeamResult" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
-  } catch (_e) {}
-  const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
-  if (allDrivers.length === 0) return { ok: false, error: "no_drivers_found", status: 400 };
-  const teammates: Record<string, string> = {};
-  const byC: Record<string, string[]> = {};
-  for (const d of allDrivers) {
-    if (!byC[d.constructorId]) byC[d.constructorId] = [];
-    byC[d.constructorId].push(d.id);
+interface LiveRaceState {
+  session: LiveSession | null;
+  res: CombinedResults | null;
+  entries: RaceEntry[];
+  updatedAt: string;
+}
+
+const liveRaceStates = new Map<string, { at: number; state: Promise<LiveRaceState> }>();
+
+// The session of `race` running now (the latest started if they overlap).
+const findLiveSession = async (race: RaceRow, now = Date.now()): Promise<LiveSession | null> => {
+  const season = Number(race.season) || 2026; const loc = race.city || race.country || "";
+  let live: (LiveSession & { start: number }) | null = null;
+  for (const name of LIVE_SESSIONS) {
+    if (!race.isSprint && (name === "Sprint" || name === "Sprint Qualifying")) continue;
+    const session = await getOpenF1Session(season, loc, name, race.country, race.date);
+    if (!session || !Number.isFinite(session.start) || session.start > now) continue;
+    if (now > sessionEndOf(session) + LIVE_GRACE_MS) continue;
+    if (!live || session.start > live.start) {
+      live = { name, start: session.start, startsAt: new Date(session.start).toISOString(), endsAt: Number.isFinite(session.end) ? new Date(session.end).toISOString() : null };
+    }
   }
-  for (const drvs of Object.values(byC)) if (drvs.length === 2) { teammates[drvs[0]] = drvs[1]; teammates[drvs[1]] = drvs[0]; }
-  const season = Number(race.season) || 2026; const loc = race.city || race.country || ""; const known = new Set(allDrivers.map((d) => d.id));
-  const res: CombinedResults = {};
-  const qK = await getOpenF1SessionKey(season, loc, "Qualifying", race.country, race.date);
-  if (qK) {
-    const map = await getOpenF1DriverNumberMap(qK, allDrivers);
-    const pos = await getOpenF1Classification(qK, map, known);
-    if (Object.keys(pos).length > 0) res.quali = pos;
+  if (!live) return null;
+  const { start: _start, ...session } = live;
+  return session;
+};
+
+const getLiveRaceState = (race: RaceRow, allDrivers: Driver[]): Promise<LiveRaceState> => {
+  const cached = liveRaceStates.get(race.id);
+  if (cached && Date.now() - cached.at < LIVE_REFRESH_MS) return cached.state;
+  const state = (async (): Promise<LiveRaceState> => {
+    const session = await findLiveSession(race);
+    const fetched = session ? await fetchRaceResults(race, allDrivers) : null;
+    return { session, res: fetched?.res ?? null, entries: fetched?.entries ?? [], updatedAt: new Date().toISOString() };
+  })();
+  state.catch(() => liveRaceStates.delete(race.id));
+  liveRaceStates.set(race.id, { at: Date.now(), state });
+  return state;
+};
+
+// Provisional standings of a league. `previousRank` is the rank before the
+// live points, i.e. the one on the standings page.
+async function loadLeagueLive(leagueId: string) {
+  const race = pickActiveRace(await loadRacesOrdered());
+  const idle = { live: false, raceId: race?.id ?? null, raceName: race?.name ?? null, session: null as LiveSession | null, updatedAt: new Date().toISOString(), teams: [], drivers: [] };
+  if (!race) return idle;
+  const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+  const state = await getLiveRaceState(race, allDrivers);
+  if (!state.session || !state.res) return { ...idle, session: state.session, updatedAt: state.updatedAt };
+
+  const [league] = await sql<{ rules: ScoringRules }[]>`SELECT rules FROM "League" WHERE id = ${leagueId}`;
+  const rulesFor = await loadRulesResolver(sql as unknown as SqlExecutor, await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor));
+  const rules = rulesFor(leagueId, league?.rules, race);
+  const entries = chooseRaceEntries(await loadRaceEntries(sql as unknown as SqlExecutor, race.id), state.entries);
+  const { drivers: raceDrivers, teammates } = raceScoringDrivers(allDrivers, entries);
+  const points = calculateWeekendPoints(state.res, rules, teammates, raceDrivers);
+  const lineups = await loadRaceLineups(sql as unknown as SqlExecutor, race, await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor));
+  const chips = await loadRaceChips(sql as unknown as SqlExecutor, race.id, await ensureChipActivationTable(sql as unknown as SqlExecutor));
+  const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
+  const seasons = await ensureLeagueSeasonSchema(sql as unknown as SqlExecutor);
+
+  // Standings total without this race's TeamResult, which the live points
+  // replace (a quali-only sync may already have stored one).
+  const teams = await sql`
+    SELECT
+      t.id AS "teamId",
+      t.name AS "teamName",
+      t."userId",
+      u."displayName" AS "userName",
+      COALESCE((
+        SELECT SUM(points) FROM "TeamResult" tr WHERE tr."teamId" = t.id AND tr."raceId" <> ${race.id}
+        ${seasons ? sql`AND tr."raceId" IN (SELECT id FROM "Race" WHERE t.season IS NULL OR season = t.season)` : sql``}
+      ), 0)::double precision AS "basePoints",
+      COALESCE((SELECT SUM(points) FROM "TeamResult" tr WHERE tr."teamId" = t.id AND tr."raceId" = ${race.id}), 0)::double precision AS "storedPoints",
+      ${hasPenaltyTable ? sql`COALESCE((SELECT SUM(points) FROM "TeamPenalty" tp WHERE tp."teamId" = t.id ${seasons ? sql`AND tp.season IS NULL` : sql``}), 0)::double precision` : sql`0::double precision`} AS "penaltyPoints"
+    FROM "Team" t
+    JOIN "User" u ON t."userId" = u.id
+    WHERE t."leagueId" = ${leagueId}
+  `;
+  const scored = teams.map((t) => {
+    const lineup = lineups[t.teamId] || { driverIds: [], captainId: null, reserveId: null };
+    const { points: livePoints } = scoreTeamForRace(state.res!, rules, points.driverPoints, lineup, chips[t.teamId], teammates, raceDrivers);
+    const base = Number(t.basePoints) + Number(t.penaltyPoints);
+    return {
+      teamId: String(t.teamId),
+      teamName: t.teamName ?? null,
+      userId: String(t.userId),
+      userName: t.userName || "User " + String(t.userId || "").slice(0, 4),
+      driverIds: lineup.driverIds,
+      captainId: lineup.captainId,
+      livePoints,
+      totalPoints: base + livePoints,
+      previousTotal: base + Number(t.storedPoints),
+    };
+  });
+  const previous = [...scored].sort((a, b) => b.previousTotal - a.previousTotal).map((t) => t.teamId);
+  const ranked = scored
+    .sort((a, b) => b.totalPoints - a.totalPoints)
+    .map(({ previousTotal: _previousTotal, ...t }, idx) => ({ ...t, rank: idx + 1, previousRank: previous.indexOf(t.teamId) + 1 }));
+  const drivers = allDrivers
+    .filter((d) => points.driverPoints[d.id] !== undefined)
+    .map((d) => ({ id: d.id, name: d.name, points: points.driverPoints[d.id] }))
+    .sort((a, b) => b.points - a.points);
+
+  return { live: true, raceId: race.id, raceName: race.name, session: state.session, updatedAt: state.updatedAt, teams: ranked, drivers };
+}
+
+app.get("/leagues/:id/live", requireUser, async (c) => {
+  const user = c.get("user");
+  const leagueId = c.req.param("id");
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_member" }, 403);
+  return c.json(await loadLeagueLive(leagueId));
+});
+
+// Same payload as /leagues/:id/live as server-sent `live` events, one every
+// LIVE_REFRESH_MS, until LIVE_STREAM_MS has passed or the client goes away.
+app.get("/leagues/:id/live/stream", requireUser, async (c) => {
+  const user = c.get("user");
+  const leagueId = c.req.param("id");
+  const membership = await sql`SELECT role FROM "LeagueMember" WHERE "userId" = ${user.id} AND "leagueId" = ${leagueId} LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_member" }, 403);
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const deadline = Date.now() + LIVE_STREAM_MS;
+      send(`retry: ${LIVE_REFRESH_MS}\n\n`);
+      while (!closed && Date.now() < deadline) {
+        try {
+          send(`event: live\ndata: ${JSON.stringify(await loadLeagueLive(leagueId))}\n\n`);
+        } catch (e) {
+          console.error("live_stream_error", { leagueId, error: (e as Error).message });
+          send(`event: error\ndata: ${JSON.stringify({ error: "live_unavailable" })}\n\n`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, LIVE_REFRESH_MS));
+      }
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+  return c.body(stream, 200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+  });
+});
+
+// --- Dry runs ------------------------------------------------------------
+//
+// With `dryRun`, /admin/sync-race and /admin/recalculate-race run their whole
+// scoring transaction, report what it changed and roll it back. The returned
+// `confirmToken` is a hash of that diff: sending it back commits only if the
+// fresh run produces exactly the same diff; otherwise nothing is written and
+// the new diff comes back with 409 `diff_changed`.
+
+interface ReviewOptions {
+  dryRun?: boolean;
+  confirmToken?: string;
+}
+
+interface ClassificationChange {
+  session: string;
+  driverId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+interface TeamPointsChange {
+  leagueId: string;
+  teamId: string;
+  teamName: string | null;
+  userName: string | null;
+  oldPoints: number | null;
+  newPoints: number | null;
+  delta: number;
+}
+
+interface ScoringDiff {
+  raceId: string;
+  classification: ClassificationChange[];
+  teams: TeamPointsChange[];
+}
+
+interface ScoringReview {
+  diff: ScoringDiff;
+  confirmToken: string;
+  confirmed: boolean;
+}
+
+// Thrown at the end of a reviewed scoring transaction to roll it back.
+const DRY_RUN_ROLLBACK = new Error("dry_run_rollback");
+
+const reviewRequested = (opts: ReviewOptions) => Boolean(opts.dryRun || opts.confirmToken);
+
+const POSITION_SESSIONS = ["quali", "sprintQuali", "sprint", "race", "gridPenalties", "racePenalties"] as const;
+
+// Per-driver differences between the stored classification and a new one.
+const diffClassification = (before: CombinedResults | null | undefined, after: CombinedResults): ClassificationChange[] => {
+  const changes: ClassificationChange[] = [];
+  for (const session of POSITION_SESSIONS) {
+    const b = before?.[session] || {};
+    const a = after[session] || {};
+    for (const driverId of [...new Set([...Object.keys(b), ...Object.keys(a)])].sort()) {
+      if (b[driverId] !== a[driverId]) changes.push({ session, driverId, before: b[driverId] ?? null, after: a[driverId] ?? null });
+    }
   }
-  if (race.isSprint) {
-    const sqK = await getOpenF1SessionKey(season, loc, "Sprint Qualifying", race.country, race.date);
-    if (sqK) {
-      const map = await getOpenF1DriverNumberMap(sqK, allDrivers);
-      const pos = await getOpenF1Classification(sqK, map, known);
-      if (Object.keys(pos).length > 0) res.sprintQuali = pos;
-    }
-    const sK = await getOpenF1SessionKey(season, loc, "Sprint", race.country, race.date);
-    if (sK) {
-      const map = await getOpenF1DriverNumberMap(sK, allDrivers);
-      const pos = await getOpenF1Classification(sK, map, known);
-      if (Object.keys(pos).length > 0) res.sprint = pos;
-    }
-  }
-  let pub = false; let dnsD = new Set<string>(); let dnfD = new Set<string>();
-  const rK = await getOpenF1SessionKey(season, loc, "Race", race.country, race.date);
-  if (rK) {
-    const map = await getOpenF1DriverNumberMap(rK, allDrivers);
-    const pos = await getOpenF1Classification(rK, map, known);
-    if (Object.keys(pos).length > 0) { res.race = pos; pub = true; }
-    const flg = await getOpenF1SessionFlags(rK, map, known);
-    dnsD = flg.dnsDrivers; dnfD = flg.dnfDrivers;
-  }
-  res.dnsDrivers = Array.from(dnsD); res.dnfDrivers = Array.from(dnfD);
-  if (Object.keys(res).length === 0) return { ok: false, error: "no_data", status: 404, loc, season };
-
-  // Recurrence guard: if OpenF1's race classification is identical to the
-  // qualifying order, we fetched the starting grid, not real race results —
-  // the race has not finished (or results aren't published yet). Publishing
-  // this would score the grid as the finish (Barcelona r8 2026: Russell shown
-  // P1 instead of his P2 finish). Refuse to publish and tell the caller to
-  // re-sync once the race is final.
-  if (pub && res.quali && res.race) {
-    const qk = Object.keys(res.quali);
-    const sameAsGrid = qk.length > 0 &&
-      qk.length === Object.keys(res.race).length &&
-      qk.every((id) => res.quali![id] === res.race![id]);
-    if (sameAsGrid) {
-      return { ok: false, error: "race_equals_grid", status: 409, loc, season };
+  for (const session of ["dnfDrivers", "dnsDrivers", "dsqDrivers"] as const) {
+    const b = new Set(before?.[session] || []);
+    const a = new Set(after[session] || []);
+    for (const driverId of [...new Set([...b, ...a])].sort()) {
+      if (b.has(driverId) !== a.has(driverId)) changes.push({ session, driverId, before: b.has(driverId), after: a.has(driverId) });
     }
   }
+  if ((before?.fastestLap ?? null) !== (after.fastestLap ?? null)) {
+    changes.push({ session: "fastestLap", driverId: null, before: before?.fastestLap ?? null, after: after.fastestLap ?? null });
+  }
+  return changes;
+};
+
+// Points of every team on `raceId`, keyed by team id.
+const loadTeamRacePoints = async (db: SqlExecutor, raceId: string): Promise<Record<string, number>> => {
+  const rows = await db`SELECT "teamId", points FROM "TeamResult" WHERE "raceId" = ${raceId}`;
+  return Object.fromEntries(rows.map((r) => [String(r.teamId), Number(r.points || 0)]));
+};
+
+// Diff of a scoring run that has written its TeamResults but not committed,
+// limited to the `scope` teams when given.
+const buildScoringReview = async (
+  db: SqlExecutor,
+  kind: "sync" | "recalculate" | "revert" | "manual",
+  raceId: string,
+  classification: ClassificationChange[],
+  before: Record<string, number>,
+  opts: ReviewOptions,
+  scope?: string[],
+): Promise<ScoringReview> => {
+  const after = await loadTeamRacePoints(db, raceId);
+  const teamIds = new Set([...Object.keys(before), ...Object.keys(after)].filter((id) => !scope || scope.includes(id)));
+  const teams = await db`SELECT t.id, t.name, t."leagueId", u."displayName" FROM "Team" t LEFT JOIN "User" u ON u.id = t."userId"`;
+  const round2 = (n: number) => Math.round(n * 100) / 100;
+  const changes: TeamPointsChange[] = teams
+    .filter((t) => teamIds.has(String(t.id)))
+    .map((t) => {
+      const id = String(t.id);
+      const oldPoints = id in before ? round2(before[id]!) : null;
+      const newPoints = id in after ? round2(after[id]!) : null;
+      return {
+        leagueId: String(t.leagueId),
+        teamId: id,
+        teamName: (t.name as string | null) ?? null,
+        userName: (t.displayName as string | null) ?? null,
+        oldPoints,
+        newPoints,
+        delta: round2((newPoints ?? 0) - (oldPoints ?? 0)),
+      };
+    })
+    .sort((a, b) => a.leagueId.localeCompare(b.leagueId) || a.teamId.localeCompare(b.teamId));
+  const diff: ScoringDiff = { raceId, classification, teams: changes };
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify({ kind, ...diff })));
+  const confirmToken = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+  return { diff, confirmToken, confirmed: !opts.dryRun && confirmToken === opts.confirmToken };
+};
+
+// --- Result revisions -------------------------------------------------------
+//
+// Every write to Race.results is kept in RaceResultRevision with where it came
+// from, who triggered it and what it changed, so an admin can go back to an
+// earlier payload after a bad OpenF1 snapshot.
+
+type ResultSource = "openf1_sync" | "cron_resync" | "manual" | "simulation" | "revert" | "legacy";
+
+interface ResultProvenance {
+  source: ResultSource;
+  actorId: string | null;
+  // Revision a revert copied.
+  revertOf?: number;
+}
+
+// Appends `results` as the race's next revision. Results stored before
+// revisions existed are kept first as a "legacy" revision.
+const recordResultRevision = async (
+  db: SqlExecutor,
+  race: { id: string; results?: CombinedResults | null; isCompleted?: boolean },
+  results: CombinedResults,
+  isCompleted: boolean,
+  provenance: ResultProvenance,
+): Promise<number> => {
+  const [last] = await db`SELECT COALESCE(MAX(revision), 0)::int AS n FROM "RaceResultRevision" WHERE "raceId" = ${race.id}`;
+  let revision = Number(last?.n ?? 0);
+  if (revision === 0 && race.results) {
+    revision = 1;
+    await db`
+      INSERT INTO "RaceResultRevision" (id, "raceId", revision, results, "isCompleted", source)
+      VALUES (${crypto.randomUUID()}, ${race.id}, ${revision}, ${JSON.stringify(race.results)}::jsonb, ${Boolean(race.isCompleted)}, 'legacy')
+    `;
+  }
+  revision += 1;
+  const summary = diffClassification(race.results, results);
+  await db`
+    INSERT INTO "RaceResultRevision" (id, "raceId", revision, results, "isCompleted", source, "actorId", "revertOf", summary)
+    VALUES (${crypto.randomUUID()}, ${race.id}, ${revision}, ${JSON.stringify(results)}::jsonb, ${isCompleted}, ${provenance.source},
+            ${provenance.actorId}, ${provenance.revertOf ?? null}, ${JSON.stringify(summary)}::jsonb)
+  `;
+  return revision;
+};
+
+// Writes a new classification for `race` and rescores every league from it,
+// in one transaction, recording the payload as a result revision.
+async function publishRaceResults(
+  race: RaceRow,
+  res: CombinedResults,
+  pub: boolean,
+  allDrivers: Driver[],
+  entries: RaceEntry[],
+  provenance: ResultProvenance,
+  opts: ReviewOptions = {},
+): Promise<{ ok: true; review?: ScoringReview } | { ok: false; review: ScoringReview }> {
   // Recompute results for EVERY league, each with its own scoring rules.
   // Previously only the syncing admin's league was updated, leaving every
   // other league with stale (often wrong) TeamResults after a re-sync —
   // e.g. a DNF correction reached only one league. A race sync is global
   // data, so all leagues must be rescored.
   const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
+  const hasLineupTable = await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor);
+  const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
+  const hasPriceHistoryTable = await ensureDriverPriceHistoryTable(sql as unknown as SqlExecutor);
+  const hasValueSnapshotTable = await ensureTeamValueSnapshotTable(sql as unknown as SqlExecutor);
+  const hasRevisionTable = await ensureRaceResultRevisionTable(sql as unknown as SqlExecutor);
+  const rulesFor = await loadRulesResolver(sql as unknown as SqlExecutor, await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor));
   const allLeagues = await sql<{ id: string; rules: ScoringRules }[]>`SELECT id, rules FROM "League"`;
+  const { drivers: raceDrivers, teammates } = raceScoringDrivers(allDrivers, entries);
+  let review = null as ScoringReview | null;
+  try {
   await sql.begin(async (sql) => {
+    const before = await loadTeamRacePoints(sql as unknown as SqlExecutor, race.id);
+    const lineups = await loadRaceLineups(sql as unknown as SqlExecutor, race, hasLineupTable);
+    const chips = await loadRaceChips(sql as unknown as SqlExecutor, race.id, hasChipTable);
     for (const lg of allLeagues) {
-      const rules = (lg.rules || DEFAULT_SCORING_RULES) as unknown as ScoringRules;
-      const lPts = calculateWeekendPoints(res, rules, teammates, allDrivers);
+      const rules = rulesFor(lg.id, lg.rules, race);
+      const lPts = calculateWeekendPoints(res, rules, teammates, raceDrivers);
       const teams = await sql`SELECT id, "captainId", "reserveId" FROM "Team" WHERE "leagueId" = ${lg.id}`;
       const tIds = teams.map((t) => t.id);
       if (tIds.length > 0) {
@@ -1813,25 +3971,18 @@ async function syncRaceCore(raceId: string): Promise<SyncResult> {
         }
       }
       for (const t of teams) {
-        const td = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${t.id}`;
-        const tdIds = td.map((x) => x.driverId);
-        const resA = isReserveActivatedByDns(tdIds, t.reserveId, dnsD);
-        let tP = 0; const rD = [];
-        for (const dId of tdIds) {
-          let p = Number(lPts.driverPoints[dId] || 0);
-          if (dId === t.reserveId) p = resA ? p * 0.5 : 0;
-          if (dId === t.captainId) p = p * 2.0;
-          tP += p; rD.push({ driverId: dId, points: p });
-        }
+        const lineup = lineups[t.id] || { driverIds: [], captainId: null, reserveId: null };
+        const { points: tP, drivers: rD } = scoreTeamForRace(res, rules, lPts.driverPoints, lineup, chips[t.id], teammates, raceDrivers);
         const trId = crypto.randomUUID();
-        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId", "createdAt") VALUES (${trId}, ${race.id}, ${t.id}, ${tP}, ${t.captainId}, ${t.reserveId}, ${new Date().toISOString()})`;
+        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId", "createdAt") VALUES (${trId}, ${race.id}, ${t.id}, ${tP}, ${lineup.captainId}, ${lineup.reserveId}, ${new Date().toISOString()})`;
         for (const d of rD) await sql`INSERT INTO "TeamResultDriver" (id, "teamResultId", "driverId", points) VALUES (${crypto.randomUUID()}, ${trId}, ${d.driverId}, ${d.points})`;
         await syncTeamTotalPoints(sql as unknown as SqlExecutor, t.id, hasPenaltyTable);
       }
     }
-    const offP = calculateWeekendPoints(res, DEFAULT_SCORING_RULES, teammates, allDrivers);
+    const offP = calculateWeekendPoints(res, DEFAULT_SCORING_RULES, teammates, raceDrivers);
     const finalR = { ...res, driverPoints: offP.driverPoints, driverRacePoints: offP.driverRacePoints, driverQualiPoints: offP.driverQualiPoints, driverSprintPoints: offP.driverSprintPoints, driverSprintQualiPoints: offP.driverSprintQualiPoints, driverBreakdown: offP.driverBreakdown };
     await sql`UPDATE "Race" SET "isCompleted" = ${pub}, "results" = ${sql.json(finalR as any)} WHERE id = ${race.id}`;
+    if (hasRevisionTable) await recordResultRevision(sql as unknown as SqlExecutor, race, finalR, pub, provenance);
     const allR = await sql`SELECT results FROM "Race" WHERE results IS NOT NULL`;
     const dTot: Record<string, number> = {};
     for (const r of allR) {
@@ -1839,41 +3990,189 @@ async function syncRaceCore(raceId: string): Promise<SyncResult> {
       for (const [id, v] of Object.entries(rp)) dTot[id] = (dTot[id] || 0) + Number(v || 0);
     }
     for (const d of allDrivers) await sql`UPDATE "Driver" SET points = ${dTot[d.id] || 0} WHERE id = ${d.id}`;
+    // Prices move only on a final classification, never on quali-only data.
+    if (pub && hasPriceHistoryTable) {
+      await repriceDriversForRace(sql as unknown as SqlExecutor, { id: race.id, season: race.season, round: Number(race.round) }, offP.driverPoints);
+    }
+    if (pub && hasValueSnapshotTable) await snapshotTeamValues(sql as unknown as SqlExecutor, race.id);
+    if (reviewRequested(opts)) {
+      const kind = provenance.source === "revert" || provenance.source === "manual" ? provenance.source : "sync";
+      review = await buildScoringReview(sql as unknown as SqlExecutor, kind, race.id, diffClassification(race.results, res), before, opts);
+      if (!review.confirmed) throw DRY_RUN_ROLLBACK;
+    }
   });
-  return { ok: true, loc, season };
+  } catch (e) {
+    if (e !== DRY_RUN_ROLLBACK || !review) throw e;
+    if (!opts.dryRun) return { ok: false, review };
+  }
+  return { ok: true, review: review ?? undefined };
+}
+
+// A session counts as final this long after it ends, once the classification
+// has settled. Later changes still arrive through /cron/resync-recent.
+const SESSION_SETTLE_MS = 15 * 60 * 1000;
+
+// Scheduled end of a session; OpenF1 rows without date_end last two hours.
+const sessionEndOf = (session: OpenF1SessionWindow) =>
+  Number.isFinite(session.end) ? session.end : session.start + 2 * 60 * 60 * 1000;
+
+// Everything OpenF1 has on a race weekend so far, as CombinedResults. During a
+// session its classification is the latest live positions. `final` lists the
+// sessions that have a classification and ended SESSION_SETTLE_MS ago: only
+// those are published (see finalSessionsOnly), and `pub` is true once the
+// race is one of them. `entries` is the entry list of the latest session.
+async function fetchRaceResults(race: RaceRow, allDrivers: Driver[], now = Date.now()): Promise<{ res: CombinedResults; pub: boolean; final: WeekendSession[]; entries: RaceEntry[] }> {
+  const season = Number(race.season) || 2026; const loc = race.city || race.country || ""; const known = new Set(allDrivers.map((d) => d.id));
+  const res: CombinedResults = {};
+  const final: WeekendSession[] = [];
+  let entries: RaceEntry[] = [];
+  const takeEntries = async (sessionKey: number, map: Record<number, string>) => {
+    const list = await getOpenF1RaceEntries(sessionKey, map, allDrivers);
+    if (list.length > 0) entries = list;
+  };
+  const isOver = (session: OpenF1SessionWindow) => Number.isFinite(session.start) && now >= sessionEndOf(session) + SESSION_SETTLE_MS;
+  const gridSessions: { key: number; map: Record<number, string> }[] = [];
+  for (const name of GRID_PENALTY_SESSIONS) {
+    if (!race.isSprint && name.startsWith("Sprint")) continue;
+    const session = await getOpenF1Session(season, loc, name, race.country, race.date);
+    if (session) gridSessions.push({ key: session.key, map: await getOpenF1DriverNumberMap(session.key, allDrivers) });
+  }
+  const q = await getOpenF1Session(season, loc, "Qualifying", race.country, race.date);
+  if (q) {
+    const map = await getOpenF1DriverNumberMap(q.key, allDrivers);
+    await takeEntries(q.key, map);
+    const pos = await getOpenF1Classification(q.key, map, known);
+    if (Object.keys(pos).length > 0) {
+      res.quali = pos;
+      if (isOver(q)) final.push("quali");
+    }
+    gridSessions.push({ key: q.key, map });
+  }
+  const { gridPenalties } = await getOpenF1Penalties(gridSessions, known);
+  if (Object.keys(gridPenalties).length > 0) res.gridPenalties = gridPenalties;
+  if (race.isSprint) {
+    const sq = await getOpenF1Session(season, loc, "Sprint Qualifying", race.country, race.date);
+    if (sq) {
+      const map = await getOpenF1DriverNumberMap(sq.key, allDrivers);
+      const pos = await getOpenF1Classification(sq.key, map, known);
+      if (Object.keys(pos).length > 0) {
+        res.sprintQuali = pos;
+        if (isOver(sq)) final.push("sprintQuali");
+      }
+    }
+    const sp = await getOpenF1Session(season, loc, "Sprint", race.country, race.date);
+    if (sp) {
+      const map = await getOpenF1DriverNumberMap(sp.key, allDrivers);
+      await takeEntries(sp.key, map);
+      const pos = await getOpenF1Classification(sp.key, map, known);
+      if (Object.keys(pos).length > 0) {
+        res.sprint = pos;
+        if (isOver(sp)) final.push("sprint");
+      }
+    }
+  }
+  let dnsD = new Set<string>(); let dnfD = new Set<string>(); let dsqD = new Set<string>();
+  const r = await getOpenF1Session(season, loc, "Race", race.country, race.date);
+  if (r) {
+    const map = await getOpenF1DriverNumberMap(r.key, allDrivers);
+    await takeEntries(r.key, map);
+    const pos = await getOpenF1Classification(r.key, map, known);
+    if (Object.keys(pos).length > 0) {
+      res.race = pos;
+      if (isOver(r)) final.push("race");
+    }
+    const flg = await getOpenF1SessionFlags(r.key, map, known);
+    dnsD = flg.dnsDrivers; dnfD = flg.dnfDrivers; dsqD = flg.dsqDrivers;
+    const fl = await getOpenF1FastestLap(r.key, map, known);
+    if (fl) res.fastestLap = fl;
+    const { racePenalties } = await getOpenF1Penalties([{ key: r.key, map }], known);
+    if (Object.keys(racePenalties).length > 0) res.racePenalties = racePenalties;
+  }
+  res.dnsDrivers = Array.from(dnsD); res.dnfDrivers = Array.from(dnfD); res.dsqDrivers = Array.from(dsqD);
+  return { res, pub: final.includes("race"), final, entries };
+}
+
+// Core race-sync logic, shared by the admin endpoint and the weekly cron.
+// Re-fetches a race from OpenF1, applies the grid-guard, and rescores every
+// league. Returns a discriminated result instead of an HTTP response so both
+// callers can decide how to surface it.
+type SyncResult =
+  | { ok: true; loc: string; season: number; review?: ScoringReview }
+  | { ok: false; error: string; status: number; loc?: string; season?: number; review?: ScoringReview };
+
+async function syncRaceCore(raceId: string, provenance: ResultProvenance, opts: ReviewOptions = {}): Promise<SyncResult> {
+  const [race] = await sql`SELECT * FROM "Race" WHERE id = ${raceId}`;
+  if (!race) return { ok: false, error: "race_not_found", status: 404 };
+  // Manually entered results stay until an admin unpins them.
+  if (race.resultsPinned) return { ok: false, error: "results_pinned", status: 409 };
+  if (isRaceOff(race.status)) return { ok: false, error: `race_${race.status}`, status: 409 };
+  try {
+    await sql`ALTER TABLE "TeamResultDriver" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
+    await sql`ALTER TABLE "Driver" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
+    await sql`ALTER TABLE "Team" ALTER COLUMN "totalPoints" TYPE DOUBLE PRECISION USING "totalPoints"::double precision`;
+    await sql`ALTER TABLE "TeamResult" ALTER COLUMN "points" TYPE DOUBLE PRECISION USING "points"::double precision`;
+  } catch (_e) {}
+  const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+  if (allDrivers.length === 0) return { ok: false, error: "no_drivers_found", status: 400 };
+  const season = Number(race.season) || 2026; const loc = race.city || race.country || "";
+  // Sessions are published one by one as they become final; one still
+  // running (or not run yet) stays out of the stored results.
+  const fetched = await fetchRaceResults(race as unknown as RaceRow, allDrivers);
+  if (fetched.final.length === 0) return { ok: false, error: "no_data", status: 404, loc, season };
+  const res = finalSessionsOnly(fetched.res, fetched.final); const pub = fetched.pub;
+
+  // Grid guard (see isRaceSameAsGrid): refuse to publish a race classification
+  // that is just the starting grid and tell the caller to re-sync once the
+  // race is final.
+  if (pub && isRaceSameAsGrid(res)) {
+    return { ok: false, error: "race_equals_grid", status: 409, loc, season };
+  }
+  const stored = await loadRaceEntries(sql as unknown as SqlExecutor, race.id);
+  const entries = chooseRaceEntries(stored, fetched.entries);
+  const out = await publishRaceResults(race as unknown as RaceRow, res, pub, allDrivers, entries, provenance, opts);
+  if (!out.ok) return { ok: false, error: "diff_changed", status: 409, loc, season, review: out.review };
+  if (!opts.dryRun && stored.source !== "admin" && fetched.entries.length > 0 && await ensureRaceEntryTable(sql as unknown as SqlExecutor)) {
+    await sql.begin((sql) => saveRaceEntries(sql as unknown as SqlExecutor, race.id, fetched.entries, "sync"));
+  }
+  return { ok: true, loc, season, review: out.review };
 }
 
 app.post("/admin/sync-race", requireUser, async (c) => {
   const user = c.get("user");
   const membership = await sql`SELECT "leagueId", role FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
   if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
-  const { raceId } = await c.req.json();
+  const { raceId, dryRun, confirmToken } = await c.req.json();
   if (!raceId) return c.json({ error: "missing_raceId" }, 400);
-  const r = await syncRaceCore(raceId);
-  if (!r.ok) return c.json({ error: r.error, loc: r.loc, season: r.season }, r.status as 400 | 404 | 409);
-  return c.json({ ok: true, loc: r.loc, season: r.season });
+  const r = await syncRaceCore(raceId, { source: "openf1_sync", actorId: user.id }, { dryRun: Boolean(dryRun), confirmToken });
+  if (!r.ok) return c.json({ error: r.error, loc: r.loc, season: r.season, diff: r.review?.diff, confirmToken: r.review?.confirmToken }, r.status as 400 | 404 | 409);
+  return c.json({ ok: true, dryRun: Boolean(dryRun), loc: r.loc, season: r.season, diff: r.review?.diff, confirmToken: r.review?.confirmToken });
 });
 
 // Weekly mid-week re-sync (pg_cron -> pg_net). Re-pulls every race whose date
 // is in the last ~9 days so that final DNF flags, penalties, and race-direction
 // decisions (which OpenF1 publishes hours/days after the chequered flag) land
 // in the standings without anyone clicking Sync. The grid-guard inside
-// syncRaceCore skips any race that isn't final yet. Protected by a shared
-// secret header, not user auth.
+// syncRaceCore skips any race that isn't final yet; races an admin marked
+// final, cancelled or postponed are left alone. Protected by a shared secret
+// header, not user auth.
 app.post("/cron/resync-recent", async (c) => {
   const provided = c.req.header("x-cron-secret");
   const expected = Deno.env.get("CRON_SECRET");
   if (!expected || provided !== expected) return c.json({ error: "unauthorized" }, 401);
 
+  // From the weekend's first scored session on, so that qualifying and the
+  // sprint are published on Saturday.
+  const withStatus = await ensureRaceStatusColumn(sql as unknown as SqlExecutor);
   const recent = await sql<{ id: string; name: string }[]>`
     SELECT id, name FROM "Race"
-    WHERE date <= NOW() AND date >= NOW() - INTERVAL '9 days'
+    WHERE COALESCE(LEAST("sprintQualifyingUtc", "qualifyingUtc"), date) <= NOW() AND date >= NOW() - INTERVAL '9 days'
+      ${withStatus ? sql`AND status NOT IN ('final', 'cancelled', 'postponed')` : sql``}
     ORDER BY round
   `;
   const results: Array<Record<string, unknown>> = [];
   for (const r of recent) {
     try {
-      const out = await syncRaceCore(r.id);
+      const out = await syncRaceCore(r.id, { source: "cron_resync", actorId: null });
       results.push({ raceId: r.id, name: r.name, ...out });
     } catch (e) {
       results.push({ raceId: r.id, name: r.name, ok: false, error: (e as Error).message });
@@ -1884,7 +4183,8 @@ app.post("/cron/resync-recent", async (c) => {
 
 app.post("/admin/recalculate-race", requireUser, async (c) => {
   const user = c.get("user");
-  const { raceId, leagueId: requestedLeagueId } = await c.req.json();
+  const { raceId, leagueId: requestedLeagueId, dryRun, confirmToken } = await c.req.json();
+  const opts: ReviewOptions = { dryRun: Boolean(dryRun), confirmToken };
   if (!raceId) return c.json({ error: "missing_raceId" }, 400);
   // Optional explicit leagueId: an admin of multiple leagues can pick which
   // one to recalculate. Without it the first ADMIN membership is used (legacy).
@@ -1895,19 +4195,25 @@ app.post("/admin/recalculate-race", requireUser, async (c) => {
   try {
     const [race] = await sql`SELECT * FROM "Race" WHERE id = ${raceId}`;
     if (!race || !race.results) return c.json({ error: "no_results" }, 400);
-    const cRes: CombinedResults = { quali: race.results.quali, race: race.results.race, sprint: race.results.sprint, sprintQuali: race.results.sprintQuali, dnfDrivers: race.results.dnfDrivers || [], dnsDrivers: race.results.dnsDrivers || [] };
+    const cRes: CombinedResults = { quali: race.results.quali, race: race.results.race, sprint: race.results.sprint, sprintQuali: race.results.sprintQuali, dnfDrivers: race.results.dnfDrivers || [], dnsDrivers: race.results.dnsDrivers || [], dsqDrivers: race.results.dsqDrivers || [], fastestLap: race.results.fastestLap, gridPenalties: race.results.gridPenalties, racePenalties: race.results.racePenalties };
     const lId = membership[0].leagueId; const [lD] = await sql`SELECT rules FROM "League" WHERE id = ${lId}`;
-    const rules = (lD?.rules || DEFAULT_SCORING_RULES) as unknown as ScoringRules;
-    const allD = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
-    const teammates: Record<string, string> = {}; const byC: Record<string, string[]> = {};
-    for (const d of allD) { if (!byC[d.constructorId]) byC[d.constructorId] = []; byC[d.constructorId].push(d.id); }
-    for (const drvs of Object.values(byC)) if (drvs.length === 2) { teammates[drvs[0]] = drvs[1]; teammates[drvs[1]] = drvs[0]; }
+    const rulesFor = await loadRulesResolver(sql as unknown as SqlExecutor, await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor));
+    const rules = rulesFor(lId, lD?.rules, race as unknown as RaceRow);
+    const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+    const { drivers: allD, teammates } = raceScoringDrivers(allDrivers, (await loadRaceEntries(sql as unknown as SqlExecutor, race.id)).entries);
     const recalculated = calculateWeekendPoints(cRes, rules, teammates, allD);
     const points = recalculated.driverPoints;
     const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
+    const hasLineupTable = await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor);
+    const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
+    let review = null as ScoringReview | null;
+    try {
     await sql.begin(async (sql) => {
-      const teams = await sql`SELECT id, "captainId", "reserveId" FROM "Team" WHERE "leagueId" = ${lId}`;
+      const lineups = await loadRaceLineups(sql as unknown as SqlExecutor, race as unknown as RaceRow, hasLineupTable);
+      const chips = await loadRaceChips(sql as unknown as SqlExecutor, race.id, hasChipTable);
+      const teams = await sql`SELECT id FROM "Team" WHERE "leagueId" = ${lId}`;
       const tIds = teams.map(t => t.id);
+      const before = await loadTeamRacePoints(sql as unknown as SqlExecutor, race.id);
       if (tIds.length > 0) {
         const old = await sql`SELECT id FROM "TeamResult" WHERE "raceId" = ${race.id} AND "teamId" IN ${sql(tIds)}`;
         if (old.length > 0) {
@@ -1917,21 +4223,188 @@ app.post("/admin/recalculate-race", requireUser, async (c) => {
         }
       }
       for (const t of teams) {
-        const td = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${t.id}`;
-        const dnsS = new Set<string>(cRes.dnsDrivers); const resA = isReserveActivatedByDns(td.map(x=>x.driverId), t.reserveId, dnsS);
-        let tP = 0; const rD = [];
-        for (const drv of td) {
-          let p = Number(points[drv.driverId]) || 0;
-          if (t.captainId === drv.driverId) p *= 2.0; else if (t.reserveId === drv.driverId) p = resA ? p * 0.5 : 0;
-          tP += p; rD.push({ driverId: drv.driverId, points: p });
-        }
+        const lineup = lineups[t.id] || { driverIds: [], captainId: null, reserveId: null };
+        const { points: tP, drivers: rD } = scoreTeamForRace(cRes, rules, points, lineup, chips[t.id], teammates, allD);
         const trId = crypto.randomUUID();
-        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId") VALUES (${trId}, ${race.id}, ${t.id}, ${tP}, ${t.captainId}, ${t.reserveId})`;
+        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId") VALUES (${trId}, ${race.id}, ${t.id}, ${tP}, ${lineup.captainId}, ${lineup.reserveId})`;
         for (const rd of rD) await sql`INSERT INTO "TeamResultDriver" (id, "teamResultId", "driverId", points) VALUES (${crypto.randomUUID()}, ${trId}, ${rd.driverId}, ${rd.points})`;
         await syncTeamTotalPoints(sql as unknown as SqlExecutor, t.id, hasPenaltyTable);
       }
+      if (reviewRequested(opts)) {
+        // Stored results are reused as-is, so only team points can differ
+        review = await buildScoringReview(sql as unknown as SqlExecutor, "recalculate", race.id, [], before, opts, tIds.map(String));
+        if (!review.confirmed) throw DRY_RUN_ROLLBACK;
+      }
     });
-    return c.json({ ok: true });
+    } catch (e) {
+      if (e !== DRY_RUN_ROLLBACK || !review) throw e;
+      if (!opts.dryRun) return c.json({ error: "diff_changed", diff: review.diff, confirmToken: review.confirmToken }, 409);
+    }
+    return c.json({ ok: true, dryRun: Boolean(opts.dryRun), diff: review?.diff, confirmToken: review?.confirmToken });
+  } catch (e) { return c.json({ error: (e as Error).message }, 500); }
+});
+
+// Hand-entered classification for when OpenF1 is wrong or late. Penalties
+// and, unless given, the fastest lap are kept from the stored results. The
+// race is pinned afterwards so the crons do not overwrite it. Same
+// dryRun/confirmToken review as a sync.
+app.post("/admin/race-results", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { raceId, results, dryRun, confirmToken } = await c.req.json();
+  if (!raceId) return c.json({ error: "missing_raceId" }, 400);
+  try {
+    const [race] = await sql<RaceRow[]>`SELECT * FROM "Race" WHERE id = ${raceId}`;
+    if (!race) return c.json({ error: "race_not_found" }, 404);
+    const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+    // Only the drivers entered for the race have to be classified, so an
+    // earlier round can still list a substitute or a driver who has since
+    // left. Races without an entry list use today's grid.
+    const { entries } = await loadRaceEntries(sql as unknown as SqlExecutor, race.id);
+    const gridIds = entries.length > 0
+      ? entries.map((e) => e.driverId)
+      : (await loadDriverRoster()).drivers.filter((d) => d.active).map((d) => d.id);
+    const fields = validateManualResults(results, gridIds, Boolean(race.isSprint));
+    if (fields.length > 0) return c.json({ error: "invalid_results", fields }, 400);
+    const previous: CombinedResults = race.results || {};
+    const res: CombinedResults = {
+      quali: results.quali,
+      race: results.race,
+      ...(race.isSprint ? { sprintQuali: results.sprintQuali, sprint: results.sprint } : {}),
+      dnfDrivers: results.dnfDrivers || [],
+      dnsDrivers: results.dnsDrivers || [],
+      dsqDrivers: results.dsqDrivers || [],
+      fastestLap: "fastestLap" in results ? results.fastestLap || undefined : previous.fastestLap,
+      gridPenalties: previous.gridPenalties,
+      racePenalties: previous.racePenalties,
+    };
+    const out = await publishRaceResults(race, res, true, allDrivers, entries, { source: "manual", actorId: user.id }, { dryRun: Boolean(dryRun), confirmToken });
+    if (!out.ok) return c.json({ error: "diff_changed", diff: out.review.diff, confirmToken: out.review.confirmToken }, 409);
+    let pinned = false;
+    if (!dryRun && await ensureRaceResultsPinColumn(sql as unknown as SqlExecutor)) {
+      await sql`UPDATE "Race" SET "resultsPinned" = true WHERE id = ${race.id}`;
+      pinned = true;
+    }
+    return c.json({ ok: true, dryRun: Boolean(dryRun), pinned, diff: out.review?.diff, confirmToken: out.review?.confirmToken });
+  } catch (e) { return c.json({ error: (e as Error).message }, 500); }
+});
+
+// Unpinning hands the race back to the OpenF1 sync and the crons.
+app.post("/admin/race-results/pin", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { raceId, pinned } = await c.req.json();
+  if (!raceId) return c.json({ error: "missing_raceId" }, 400);
+  if (!(await ensureRaceResultsPinColumn(sql as unknown as SqlExecutor))) return c.json({ error: "pinning_unavailable" }, 503);
+  const updated = await sql`UPDATE "Race" SET "resultsPinned" = ${Boolean(pinned)} WHERE id = ${raceId} RETURNING id`;
+  if (updated.length === 0) return c.json({ error: "race_not_found" }, 404);
+  return c.json({ ok: true, pinned: Boolean(pinned) });
+});
+
+// Sets a race's status (see ../_shared/race-status.ts). Cancelling or
+// postponing takes the race out of the calendar sync, the locks and the
+// crons; setting it back to scheduled hands it back to the clock, which
+// moves it on at once if its sessions are already past. Final also marks
+// the race completed.
+app.post("/admin/race-status", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { raceId, status } = await c.req.json();
+  if (!raceId) return c.json({ error: "missing_raceId" }, 400);
+  if (!isRaceStatus(status)) return c.json({ error: "invalid_status" }, 400);
+  if (!(await ensureRaceStatusColumn(sql as unknown as SqlExecutor))) return c.json({ error: "status_unavailable" }, 503);
+  const [race] = await sql<RaceRow[]>`
+    UPDATE "Race" SET status = ${status}, "isCompleted" = "isCompleted" OR ${status === "final"}
+    WHERE id = ${raceId}
+    RETURNING id, name, season, round, "isSprint", "qualifyingUtc", "sprintQualifyingUtc", date, "isCompleted", status
+  `;
+  if (!race) return c.json({ error: "race_not_found" }, 404);
+  const next = advanceRaceStatus(race, Date.now(), RACE_TIMING);
+  if (next !== status) await sql`UPDATE "Race" SET status = ${next}, "isCompleted" = "isCompleted" OR ${next === "final"} WHERE id = ${race.id}`;
+  return c.json({ ok: true, status: next });
+});
+
+// Drops cached OpenF1 responses of one session, or of every session of a race,
+// so the next sync fetches them again.
+app.post("/admin/openf1-cache/purge", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { sessionKey, raceId } = await c.req.json();
+  if (!sessionKey && !raceId) return c.json({ error: "missing_session" }, 400);
+  if (!(await ensureOpenF1CacheTable(sql as unknown as SqlExecutor))) return c.json({ error: "cache_unavailable" }, 503);
+  const sessionKeys: number[] = [];
+  if (sessionKey) sessionKeys.push(Number(sessionKey));
+  else {
+    const [race] = await sql`SELECT season, city, country, date, "isSprint" FROM "Race" WHERE id = ${raceId}`;
+    if (!race) return c.json({ error: "race_not_found" }, 404);
+    // Every session the sync reads, practice included for grid penalties.
+    const types: SessionName[] = [...GRID_PENALTY_SESSIONS.filter((name) => race.isSprint || !name.startsWith("Sprint")), "Qualifying", "Race"];
+    for (const type of types) {
+      const key = await getOpenF1SessionKey(Number(race.season) || 2026, race.city || race.country || "", type, race.country, race.date);
+      if (key !== null) sessionKeys.push(key);
+    }
+  }
+  if (sessionKeys.length === 0) return c.json({ ok: true, sessionKeys, purged: 0 });
+  const purged = await sql`DELETE FROM "OpenF1Cache" WHERE "sessionKey" IN ${sql(sessionKeys)} RETURNING url`;
+  return c.json({ ok: true, sessionKeys, purged: purged.length });
+});
+
+// Result revisions of a race, newest first, without their payloads.
+app.get("/admin/races/:raceId/revisions", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const raceId = c.req.param("raceId");
+  if (!(await ensureRaceResultRevisionTable(sql as unknown as SqlExecutor))) return c.json({ revisions: [] });
+  const rows = await sql`
+    SELECT r.id, r.revision, r."isCompleted", r.source, r."actorId", r."revertOf", r.summary, r."createdAt", u."displayName"
+    FROM "RaceResultRevision" r LEFT JOIN "User" u ON u.id = r."actorId"
+    WHERE r."raceId" = ${raceId}
+    ORDER BY r.revision DESC
+  `;
+  const [race] = await sql`SELECT results FROM "Race" WHERE id = ${raceId}`;
+  const current = rows.length > 0 ? Number(rows[0].revision) : null;
+  return c.json({
+    revisions: rows.map((r) => ({
+      id: r.id,
+      revision: Number(r.revision),
+      isCompleted: Boolean(r.isCompleted),
+      source: r.source,
+      actorId: r.actorId ?? null,
+      actorName: r.displayName ?? null,
+      revertOf: r.revertOf === null ? null : Number(r.revertOf),
+      summary: r.summary || [],
+      createdAt: r.createdAt,
+      current: race?.results ? Number(r.revision) === current : false,
+    })),
+  });
+});
+
+// Puts an earlier revision back as the race's results and rescores every
+// league from it. Supports the same dryRun/confirmToken review as a sync.
+app.post("/admin/revert-race", requireUser, async (c) => {
+  const user = c.get("user");
+  const membership = await sql`SELECT "leagueId" FROM "LeagueMember" WHERE "userId" = ${user.id} AND role = 'ADMIN' LIMIT 1`;
+  if (membership.length === 0) return c.json({ error: "not_admin" }, 403);
+  const { raceId, revisionId, dryRun, confirmToken } = await c.req.json();
+  if (!raceId || !revisionId) return c.json({ error: "missing_fields" }, 400);
+  if (!(await ensureRaceResultRevisionTable(sql as unknown as SqlExecutor))) return c.json({ error: "revisions_unavailable" }, 503);
+  try {
+    const [race] = await sql<RaceRow[]>`SELECT * FROM "Race" WHERE id = ${raceId}`;
+    if (!race) return c.json({ error: "race_not_found" }, 404);
+    const [target] = await sql`SELECT revision, results, "isCompleted" FROM "RaceResultRevision" WHERE id = ${revisionId} AND "raceId" = ${raceId}`;
+    if (!target) return c.json({ error: "revision_not_found" }, 404);
+    const stored = target.results as CombinedResults;
+    const res: CombinedResults = { quali: stored.quali, race: stored.race, sprint: stored.sprint, sprintQuali: stored.sprintQuali, dnfDrivers: stored.dnfDrivers || [], dnsDrivers: stored.dnsDrivers || [], dsqDrivers: stored.dsqDrivers || [], fastestLap: stored.fastestLap, gridPenalties: stored.gridPenalties, racePenalties: stored.racePenalties };
+    const allDrivers = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
+    const { entries } = await loadRaceEntries(sql as unknown as SqlExecutor, race.id);
+    const out = await publishRaceResults(race, res, Boolean(target.isCompleted), allDrivers, entries, { source: "revert", actorId: user.id, revertOf: Number(target.revision) }, { dryRun: Boolean(dryRun), confirmToken });
+    if (!out.ok) return c.json({ error: "diff_changed", diff: out.review.diff, confirmToken: out.review.confirmToken }, 409);
+    return c.json({ ok: true, dryRun: Boolean(dryRun), revertOf: Number(target.revision), diff: out.review?.diff, confirmToken: out.review?.confirmToken });
   } catch (e) { return c.json({ error: (e as Error).message }, 500); }
 });
 
@@ -1948,31 +4421,30 @@ app.post("/admin/simulate-race", requireUser, async (c) => {
     const dnsIds = shuffle(allD).slice(0, 1).map(d => d.id); const participants = allD.filter(d => !dnsIds.includes(d.id));
     const cRes: CombinedResults = { quali: bld(allD), race: bld(participants), dnfDrivers: [], dnsDrivers: dnsIds };
     if (race.isSprint) { cRes.sprintQuali = bld(allD); cRes.sprint = bld(allD); }
-    const teammates: Record<string, string> = {}; const byC: Record<string, string[]> = {};
-    for (const d of allD) { if (!byC[d.constructorId]) byC[d.constructorId] = []; byC[d.constructorId].push(d.id); }
-    for (const drvs of Object.values(byC)) if (drvs.length === 2) { teammates[drvs[0]] = drvs[1]; teammates[drvs[1]] = drvs[0]; }
+    const teammates = buildTeammateMap(allD);
     const lId = membership[0].leagueId; const [lD] = await sql<{ rules: ScoringRules }[]>`SELECT rules FROM "League" WHERE id = ${lId}`;
-    const rules = (lD?.rules || DEFAULT_SCORING_RULES) as unknown as ScoringRules;
+    const rulesFor = await loadRulesResolver(sql as unknown as SqlExecutor, await ensureLeagueRulesVersionTable(sql as unknown as SqlExecutor));
+    const rules = rulesFor(lId, lD?.rules, race as unknown as RaceRow);
     const points = calculateWeekendPoints(cRes, rules, teammates, allD);
-    const dnsSet = new Set(dnsIds);
     const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
+    const hasLineupTable = await ensureTeamRaceLineupTable(sql as unknown as SqlExecutor);
+    const hasChipTable = await ensureChipActivationTable(sql as unknown as SqlExecutor);
+    const hasRevisionTable = await ensureRaceResultRevisionTable(sql as unknown as SqlExecutor);
     await sql.begin(async (sql) => {
-      const teams = await sql`SELECT id, "captainId", "reserveId" FROM "Team" WHERE "leagueId" = ${lId}`;
+      const lineups = await loadRaceLineups(sql as unknown as SqlExecutor, race as unknown as RaceRow, hasLineupTable);
+      const chips = await loadRaceChips(sql as unknown as SqlExecutor, race.id, hasChipTable);
+      const teams = await sql`SELECT id FROM "Team" WHERE "leagueId" = ${lId}`;
       for (const t of teams) {
-        const td = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${t.id}`;
-        const tdIds = td.map(x => x.driverId); const resA = isReserveActivatedByDns(tdIds, t.reserveId, dnsSet);
-        let teamP = 0; const rD = [];
-        for (const dId of tdIds) {
-          let p = Number(points.driverPoints[dId] || 0); if (t.captainId === dId) p *= 2.0; else if (t.reserveId === dId) p = resA ? p * 0.5 : 0;
-          teamP += p; rD.push({ driverId: dId, points: p });
-        }
+        const lineup = lineups[t.id] || { driverIds: [], captainId: null, reserveId: null };
+        const { points: teamP, drivers: rD } = scoreTeamForRace(cRes, rules, points.driverPoints, lineup, chips[t.id], teammates, allD);
         const trId = crypto.randomUUID();
-        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId") VALUES (${trId}, ${race.id}, ${t.id}, ${teamP}, ${t.captainId}, ${t.reserveId})`;
+        await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId") VALUES (${trId}, ${race.id}, ${t.id}, ${teamP}, ${lineup.captainId}, ${lineup.reserveId})`;
         for (const rd of rD) await sql`INSERT INTO "TeamResultDriver" (id, "teamResultId", "driverId", points) VALUES (${crypto.randomUUID()}, ${trId}, ${rd.driverId}, ${rd.points})`;
         await syncTeamTotalPoints(sql as unknown as SqlExecutor, t.id, hasPenaltyTable);
       }
       const finalR = { ...cRes, driverPoints: points.driverPoints, driverRacePoints: points.driverRacePoints, driverQualiPoints: points.driverQualiPoints, driverSprintPoints: points.driverSprintPoints, driverSprintQualiPoints: points.driverSprintQualiPoints, driverBreakdown: points.driverBreakdown };
       await sql`UPDATE "Race" SET "isCompleted" = true, "results" = ${sql.json(finalR as any)} WHERE id = ${race.id}`;
+      if (hasRevisionTable) await recordResultRevision(sql as unknown as SqlExecutor, race as unknown as RaceRow, finalR, true, { source: "simulation", actorId: user.id });
       const allR = await sql`SELECT results FROM "Race" WHERE results IS NOT NULL`;
       const dTot: Record<string, number> = {};
       for (const r of allR) { const rp = r.results?.driverPoints || {}; for (const [id, v] of Object.entries(rp)) dTot[id] = (dTot[id] || 0) + Number(v || 0); }
@@ -1989,68 +4461,14 @@ app.post("/cron/sync-all", async (c) => {
   try {
     const races = await autocloseStaleRaces();
     const race = pickActiveRace(races);
-    if (!race || race.isCompleted) return c.json({ message: "No active races" }, 200);
-
-    const allD = await sql<Driver[]>`SELECT id, name, "constructorId" FROM "Driver"`;
-    if (allD.length === 0) return c.json({ error: "no_drivers" }, 400);
-    const teammates: Record<string, string> = {}; const byC: Record<string, string[]> = {};
-    for (const d of allD) { if (!byC[d.constructorId]) byC[d.constructorId] = []; byC[d.constructorId].push(d.id); }
-    for (const drvs of Object.values(byC)) if (drvs.length === 2) { teammates[drvs[0]] = drvs[1]; teammates[drvs[1]] = drvs[0]; }
-    const season = Number(race.season) || 2026; const loc = race.city || race.country || ""; const known = new Set(allD.map((d) => d.id));
-    const cRes: CombinedResults = {};
-    const qK = await getOpenF1SessionKey(season, loc, "Qualifying", race.country, race.date);
-    if (qK) { const map = await getOpenF1DriverNumberMap(qK, allD); const pos = await getOpenF1Classification(qK, map, known); if (Object.keys(pos).length > 0) cRes.quali = pos; }
-    if (race.isSprint) {
-      const sqK = await getOpenF1SessionKey(season, loc, "Sprint Qualifying", race.country, race.date);
-      if (sqK) { const map = await getOpenF1DriverNumberMap(sqK, allD); const pos = await getOpenF1Classification(sqK, map, known); if (Object.keys(pos).length > 0) cRes.sprintQuali = pos; }
-      const sK = await getOpenF1SessionKey(season, loc, "Sprint", race.country, race.date);
-      if (sK) { const map = await getOpenF1DriverNumberMap(sK, allD); const pos = await getOpenF1Classification(sK, map, known); if (Object.keys(pos).length > 0) cRes.sprint = pos; }
-    }
-    let pub = false; const rK = await getOpenF1SessionKey(season, loc, "Race", race.country, race.date);
-    if (rK) {
-      const map = await getOpenF1DriverNumberMap(rK, allD); const pos = await getOpenF1Classification(rK, map, known);
-      if (Object.keys(pos).length > 0) { cRes.race = pos; pub = true; }
-      const flg = await getOpenF1SessionFlags(rK, map, known); cRes.dnsDrivers = Array.from(flg.dnsDrivers); cRes.dnfDrivers = Array.from(flg.dnfDrivers);
-    }
-    if (Object.keys(cRes).length === 0) return c.json({ message: "No data" }, 200);
-    const allL = await sql`SELECT id, rules FROM "League"`;
-    const hasPenaltyTable = await ensureTeamPenaltyTable(sql as unknown as SqlExecutor);
-    await sql.begin(async (sql) => {
-      for (const l of allL) {
-        const rules = (l.rules || DEFAULT_SCORING_RULES) as unknown as ScoringRules;
-        const pts = calculateWeekendPoints(cRes, rules, teammates, allD);
-        const teams = await sql`SELECT id, "captainId", "reserveId" FROM "Team" WHERE "leagueId" = ${l.id}`;
-        const teamIds = teams.map((t) => t.id);
-        if (teamIds.length > 0) {
-          const old = await sql`SELECT id FROM "TeamResult" WHERE "raceId" = ${race.id} AND "teamId" IN ${sql(teamIds)}`;
-          if (old.length > 0) {
-            const oldIds = old.map((r) => r.id);
-            await sql`DELETE FROM "TeamResultDriver" WHERE "teamResultId" IN ${sql(oldIds)}`;
-            await sql`DELETE FROM "TeamResult" WHERE id IN ${sql(oldIds)}`;
-          }
-        }
-        for (const t of teams) {
-          const td = await sql`SELECT "driverId" FROM "TeamDriver" WHERE "teamId" = ${t.id}`;
-          const dnsS = new Set<string>(cRes.dnsDrivers || []); const resA = isReserveActivatedByDns(td.map(x=>x.driverId), t.reserveId, dnsS);
-          let teamP = 0; const rD = [];
-          for (const dId of td.map(x=>x.driverId)) {
-            let p = Number(pts.driverPoints[dId]) || 0; if (t.captainId === dId) p *= 2.0; else if (t.reserveId === dId) p = resA ? p * 0.5 : 0;
-            teamP += p; rD.push({ driverId: dId, points: p });
-          }
-          const trId = crypto.randomUUID();
-          await sql`INSERT INTO "TeamResult" (id, "raceId", "teamId", points, "captainId", "reserveId", "createdAt") VALUES (${trId}, ${race.id}, ${t.id}, ${teamP}, ${t.captainId}, ${t.reserveId}, ${new Date().toISOString()})`;
-          for (const rd of rD) await sql`INSERT INTO "TeamResultDriver" (id, "teamResultId", "driverId", points) VALUES (${crypto.randomUUID()}, ${trId}, ${rd.driverId}, ${rd.points})`;
-          await syncTeamTotalPoints(sql as unknown as SqlExecutor, t.id, hasPenaltyTable);
-        }
-      }
-      const defP = calculateWeekendPoints(cRes, DEFAULT_SCORING_RULES, teammates, allD);
-      const finalR = { ...cRes, driverPoints: defP.driverPoints, driverRacePoints: defP.driverRacePoints, driverQualiPoints: defP.driverQualiPoints, driverSprintPoints: defP.driverSprintPoints, driverSprintQualiPoints: defP.driverSprintQualiPoints, driverBreakdown: defP.driverBreakdown };
-      await sql`UPDATE "Race" SET "isCompleted" = ${pub}, "results" = ${sql.json(finalR as any)} WHERE id = ${race.id}`;
-      const allR = await sql`SELECT results FROM "Race" WHERE results IS NOT NULL`;
-      const dTot: Record<string, number> = {};
-      for (const r of allR) { const rp = r.results?.driverPoints || {}; for (const [id, v] of Object.entries(rp)) dTot[id] = (dTot[id] || 0) + Number(v || 0); }
-      for (const d of allD) await sql`UPDATE "Driver" SET points = ${dTot[d.id] || 0} WHERE id = ${d.id}`;
-    });
+    if (!race || race.isCompleted || isRaceOff(race.status)) return c.json({ message: "No active races" }, 200);
+    if (race.resultsPinned) return c.json({ message: "Results pinned", raceId: race.id }, 200);
+
+    // Same path as the admin sync: grid guard, entry list, and once the race
+    // is final, repricing and team value snapshots.
+    const out = await syncRaceCore(race.id, { source: "cron_resync", actorId: null });
+    if (!out.ok && out.error === "no_data") return c.json({ message: "No data" }, 200);
+    if (!out.ok) return c.json({ error: out.error, raceId: race.id }, out.status as 400 | 404 | 409);
     return c.json({ ok: true, raceId: race.id });
   } catch (e) { return c.json({ error: (e as Error).message }, 500); }
 });
@@ -0,0 +1,49 @@
+-- Migration: per-race lineup snapshots
+-- Date:      2026-10-19
+-- Reason:    Races were scored from the team's *current* TeamDriver rows and
+--            Team.captainId/reserveId. A re-sync days later (/cron/resync-recent)
+--            applied next weekend's transfers to the previous race. Each team's
+--            lineup is now frozen once the race locks and every scoring path
+--            reads it from here.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureTeamRaceLineupTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--            The backfill only inserts rows that do not exist yet.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "TeamRaceLineup_race_idx";
+--   DROP INDEX IF EXISTS "TeamRaceLineup_team_race_idx";
+--   DROP TABLE IF EXISTS "TeamRaceLineup";
+
+CREATE TABLE IF NOT EXISTS "TeamRaceLineup" (
+  "id"         TEXT PRIMARY KEY,
+  "teamId"     TEXT NOT NULL REFERENCES "Team"("id") ON DELETE CASCADE,
+  "raceId"     TEXT NOT NULL REFERENCES "Race"("id") ON DELETE CASCADE,
+  "driverIds"  JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "captainId"  TEXT,
+  "reserveId"  TEXT,
+  "lockedAt"   TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "TeamRaceLineup_team_race_idx"
+  ON "TeamRaceLineup"("teamId", "raceId");
+
+CREATE INDEX IF NOT EXISTS "TeamRaceLineup_race_idx"
+  ON "TeamRaceLineup"("raceId");
+
+ALTER TABLE "TeamRaceLineup" ENABLE ROW LEVEL SECURITY;
+
+-- Backfill races that were already scored: their TeamResult/TeamResultDriver
+-- rows are the only record of what each team fielded.
+INSERT INTO "TeamRaceLineup" ("id", "teamId", "raceId", "driverIds", "captainId", "reserveId", "lockedAt")
+SELECT
+  gen_random_uuid()::text,
+  tr."teamId",
+  tr."raceId",
+  COALESCE((SELECT jsonb_agg(trd."driverId") FROM "TeamResultDriver" trd WHERE trd."teamResultId" = tr."id"), '[]'::jsonb),
+  tr."captainId",
+  tr."reserveId",
+  tr."createdAt"
+FROM "TeamResult" tr
+ON CONFLICT ("teamId", "raceId") DO NOTHING;
@@ -0,0 +1,35 @@
+-- Migration: chips / power-ups
+-- Date:      2026-10-19
+-- Reason:    Members can play one season-limited chip per race weekend
+--            (Triple Captain, Wildcard, No Negatives, Sprint Boost). One row
+--            per (team, race) records which chip was played; scoring reads it
+--            when the race is synced. "budgetBefore" keeps the budget a
+--            wildcard reset so cancelling it before any transfer restores it.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureChipActivationTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "ChipActivation_race_idx";
+--   DROP INDEX IF EXISTS "ChipActivation_team_race_idx";
+--   DROP TABLE IF EXISTS "ChipActivation";
+
+CREATE TABLE IF NOT EXISTS "ChipActivation" (
+  "id"          TEXT PRIMARY KEY,
+  "teamId"      TEXT NOT NULL REFERENCES "Team"("id") ON DELETE CASCADE,
+  "raceId"      TEXT NOT NULL REFERENCES "Race"("id") ON DELETE CASCADE,
+  "chip"        TEXT NOT NULL CHECK ("chip" IN ('triple_captain','wildcard','no_negatives','sprint_boost')),
+  "season"      INTEGER NOT NULL,
+  "marketUsed"  BOOLEAN NOT NULL DEFAULT false,
+  "budgetBefore" DOUBLE PRECISION,
+  "createdAt"   TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ChipActivation_team_race_idx"
+  ON "ChipActivation"("teamId", "raceId");
+
+CREATE INDEX IF NOT EXISTS "ChipActivation_race_idx"
+  ON "ChipActivation"("raceId");
+
+ALTER TABLE "ChipActivation" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,36 @@
+-- Migration: transfer allowance
+-- Date:      2026-10-19
+-- Reason:    Each round gives a team a number of free transfers (league rule
+--            `freeTransfersPerRound`, optional rollover); every extra one costs
+--            points. "TeamTransfer" logs each driver released on the market
+--            against the race it was made for, and the cost of a paid one is
+--            booked as a "TeamPenalty" row that now carries that race id.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureTeamTransferTable` and
+--            `ensureTeamPenaltyTable` helpers in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "TeamTransfer_team_race_idx";
+--   DROP TABLE IF EXISTS "TeamTransfer";
+--   ALTER TABLE "TeamPenalty" DROP COLUMN IF EXISTS "raceId";
+
+ALTER TABLE "TeamPenalty"
+  ADD COLUMN IF NOT EXISTS "raceId" TEXT REFERENCES "Race"("id") ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS "TeamTransfer" (
+  "id"          TEXT PRIMARY KEY,
+  "teamId"      TEXT NOT NULL REFERENCES "Team"("id") ON DELETE CASCADE,
+  "raceId"      TEXT NOT NULL REFERENCES "Race"("id") ON DELETE CASCADE,
+  "driverIdOut" TEXT NOT NULL,
+  "driverIdIn"  TEXT,
+  "kind"        TEXT NOT NULL CHECK ("kind" IN ('free','paid','wildcard')),
+  "penaltyId"   TEXT,
+  "createdAt"   TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "TeamTransfer_team_race_idx"
+  ON "TeamTransfer"("teamId", "raceId");
+
+ALTER TABLE "TeamTransfer" ENABLE ROW LEVEL SECURITY;
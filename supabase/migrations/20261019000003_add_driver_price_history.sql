@@ -0,0 +1,39 @@
+-- Migration: dynamic driver pricing
+-- Date:      2026-10-19
+-- Reason:    Driver prices are recalculated after every final race sync from
+--            fantasy points vs. expectation, recent form and ownership. Each
+--            change is stored with the inputs that produced it so members can
+--            see why a price moved. Manual admin edits are logged with
+--            source = 'admin' and no race.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureDriverPriceHistoryTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "DriverPriceHistory_driver_idx";
+--   DROP INDEX IF EXISTS "DriverPriceHistory_auto_idx";
+--   DROP TABLE IF EXISTS "DriverPriceHistory";
+
+CREATE TABLE IF NOT EXISTS "DriverPriceHistory" (
+  "id"        TEXT PRIMARY KEY,
+  "driverId"  TEXT NOT NULL REFERENCES "Driver"("id") ON DELETE CASCADE,
+  "raceId"    TEXT REFERENCES "Race"("id") ON DELETE CASCADE,
+  "source"    TEXT NOT NULL CHECK ("source" IN ('auto','admin')),
+  "oldPrice"  DOUBLE PRECISION NOT NULL,
+  "newPrice"  DOUBLE PRECISION NOT NULL,
+  "change"    DOUBLE PRECISION NOT NULL,
+  "points"    DOUBLE PRECISION,
+  "expected"  DOUBLE PRECISION,
+  "form"      DOUBLE PRECISION,
+  "ownership" DOUBLE PRECISION,
+  "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "DriverPriceHistory_auto_idx"
+  ON "DriverPriceHistory"("driverId", "raceId") WHERE "source" = 'auto';
+
+CREATE INDEX IF NOT EXISTS "DriverPriceHistory_driver_idx"
+  ON "DriverPriceHistory"("driverId", "createdAt");
+
+ALTER TABLE "DriverPriceHistory" ENABLE ROW LEVEL SECURITY;
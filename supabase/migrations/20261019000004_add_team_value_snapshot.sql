@@ -0,0 +1,29 @@
+-- Migration: team value timeline
+-- Date:      2026-10-19
+-- Reason:    Members want to see how their team value (budget + drivers at
+--            current prices) moved over the season. After a race is priced,
+--            syncRaceCore stores one value per (team, race); a re-sync of the
+--            same race overwrites it. Served by /teams/:id/value-history.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureTeamValueSnapshotTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "TeamValueSnapshot_team_race_idx";
+--   DROP TABLE IF EXISTS "TeamValueSnapshot";
+
+CREATE TABLE IF NOT EXISTS "TeamValueSnapshot" (
+  "id"           TEXT PRIMARY KEY,
+  "teamId"       TEXT NOT NULL REFERENCES "Team"("id") ON DELETE CASCADE,
+  "raceId"       TEXT NOT NULL REFERENCES "Race"("id") ON DELETE CASCADE,
+  "budget"       DOUBLE PRECISION NOT NULL,
+  "driversValue" DOUBLE PRECISION NOT NULL,
+  "totalValue"   DOUBLE PRECISION NOT NULL,
+  "createdAt"    TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "TeamValueSnapshot_team_race_idx"
+  ON "TeamValueSnapshot"("teamId", "raceId");
+
+ALTER TABLE "TeamValueSnapshot" ENABLE ROW LEVEL SECURITY;
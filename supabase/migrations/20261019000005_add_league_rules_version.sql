@@ -0,0 +1,33 @@
+-- Migration: versioned league scoring rules
+-- Date:      2026-10-19
+-- Reason:    /league/rules used to overwrite League.rules in place, so the
+--            next recalculation rescored past races with today's rules. Each
+--            change is now an immutable version effective from a season and
+--            round; scoring picks the version in force for the race. The first
+--            change of a league also stores its previous rules as version 1.
+--            League.rules keeps mirroring the latest version.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureLeagueRulesVersionTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "LeagueRulesVersion_league_version_idx";
+--   DROP TABLE IF EXISTS "LeagueRulesVersion";
+
+CREATE TABLE IF NOT EXISTS "LeagueRulesVersion" (
+  "id"                  TEXT PRIMARY KEY,
+  "leagueId"            TEXT NOT NULL REFERENCES "League"("id") ON DELETE CASCADE,
+  "version"             INTEGER NOT NULL,
+  "rules"               JSONB NOT NULL,
+  "effectiveFromSeason" INTEGER NOT NULL,
+  "effectiveFromRound"  INTEGER NOT NULL,
+  "retroactive"         BOOLEAN NOT NULL DEFAULT false,
+  "createdBy"           TEXT REFERENCES "User"("id") ON DELETE SET NULL,
+  "createdAt"           TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "LeagueRulesVersion_league_version_idx"
+  ON "LeagueRulesVersion"("leagueId", "version");
+
+ALTER TABLE "LeagueRulesVersion" ENABLE ROW LEVEL SECURITY;
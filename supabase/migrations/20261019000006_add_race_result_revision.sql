@@ -0,0 +1,33 @@
+-- Migration: race result revisions
+-- Date:      2026-10-19
+-- Reason:    Every sync overwrote Race.results in place, so a bad OpenF1
+--            snapshot could not be undone. Each payload written to
+--            Race.results is now kept as a revision with its source, the
+--            acting user and a summary of the classification changes. An
+--            admin can revert to a revision, which rescores every league.
+--
+-- Safety:    Fully additive. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureRaceResultRevisionTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP INDEX IF EXISTS "RaceResultRevision_race_revision_idx";
+--   DROP TABLE IF EXISTS "RaceResultRevision";
+
+CREATE TABLE IF NOT EXISTS "RaceResultRevision" (
+  "id"          TEXT PRIMARY KEY,
+  "raceId"      TEXT NOT NULL REFERENCES "Race"("id") ON DELETE CASCADE,
+  "revision"    INTEGER NOT NULL,
+  "results"     JSONB NOT NULL,
+  "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+  "source"      TEXT NOT NULL,
+  "actorId"     TEXT REFERENCES "User"("id") ON DELETE SET NULL,
+  "revertOf"    INTEGER,
+  "summary"     JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "createdAt"   TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RaceResultRevision_race_revision_idx"
+  ON "RaceResultRevision"("raceId", "revision");
+
+ALTER TABLE "RaceResultRevision" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,15 @@
+-- Migration: pin manually entered race results
+-- Date:      2026-10-19
+-- Reason:    Admins can now enter or correct a classification by hand
+--            (/admin/race-results). Such a race is pinned so that
+--            /admin/sync-race, /cron/resync-recent and /cron/sync-all leave
+--            it alone until an admin unpins it.
+--
+-- Safety:    Additive column with a default. No DROP, no TRUNCATE, no DELETE.
+--            Mirrors the runtime `ensureRaceResultsPinColumn` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   ALTER TABLE "Race" DROP COLUMN IF EXISTS "resultsPinned";
+
+ALTER TABLE "Race" ADD COLUMN IF NOT EXISTS "resultsPinned" BOOLEAN NOT NULL DEFAULT false;
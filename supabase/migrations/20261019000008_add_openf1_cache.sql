@@ -0,0 +1,26 @@
+-- Migration: persistent OpenF1 response cache
+-- Date:      2026-10-19
+-- Reason:    Raw OpenF1 responses are cached by URL so that syncs stay under
+--            the API rate limit and rescoring a final race replays exactly the
+--            data it was first scored from. Rows expire quickly while a
+--            session runs and never ("expiresAt" NULL) once it is final.
+--            /admin/openf1-cache/purge drops the rows of a session.
+--
+-- Safety:    New table only. No DROP, no TRUNCATE, no DELETE on existing data.
+--            Mirrors the runtime `ensureOpenF1CacheTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "OpenF1Cache";
+
+CREATE TABLE IF NOT EXISTS "OpenF1Cache" (
+  url TEXT PRIMARY KEY,
+  "sessionKey" INTEGER,
+  body TEXT NOT NULL,
+  "fetchedAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+  "expiresAt" TIMESTAMP WITHOUT TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS "OpenF1Cache_sessionKey_idx" ON "OpenF1Cache"("sessionKey");
+
+ALTER TABLE "OpenF1Cache" ENABLE ROW LEVEL SECURITY;
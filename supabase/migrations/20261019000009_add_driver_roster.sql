@@ -0,0 +1,34 @@
+-- Migration: driver numbers, aliases and active flag
+-- Date:      2026-10-19
+-- Reason:    OpenF1 driver numbers and names used to be mapped to our driver
+--            ids by constants in fanta-api and api/src/services/openf1.ts,
+--            which disagreed. The mapping now lives in the database:
+--            Driver.number (permanent number), Driver.active (on the grid)
+--            and DriverAlias (other numbers and spellings). The roster sync
+--            (/admin/drivers/roster-sync) proposes changes from OpenF1.
+--
+-- Safety:    Additive columns with defaults and a new table. No DROP, no
+--            TRUNCATE, no DELETE. Mirrors the runtime
+--            `ensureDriverRosterSchema` helper in
+--            supabase/functions/fanta-api/index.ts, which also seeds numbers
+--            and aliases on first use.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "DriverAlias";
+--   ALTER TABLE "Driver" DROP COLUMN IF EXISTS "active";
+--   ALTER TABLE "Driver" DROP COLUMN IF EXISTS "number";
+
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "number" INTEGER;
+ALTER TABLE "Driver" ADD COLUMN IF NOT EXISTS "active" BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS "DriverAlias" (
+  id TEXT PRIMARY KEY,
+  "driverId" TEXT NOT NULL REFERENCES "Driver"(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('number','name')),
+  value TEXT NOT NULL,
+  "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "DriverAlias_kind_value_key" ON "DriverAlias"(kind, value);
+
+ALTER TABLE "DriverAlias" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,31 @@
+-- Migration: per-race driver entries
+-- Date:      2026-10-19
+-- Reason:    Teammate pairs and constructor multipliers were rebuilt from
+--            Driver.constructorId, pairing only constructors with exactly
+--            two drivers. A reserve standing in for a weekend or a driver
+--            changing team broke the duel for that team, and rescoring an
+--            older race used today's pairings. RaceEntry records who drove
+--            which car at each race: the sync fills it from OpenF1 and an
+--            admin can replace it (/admin/race-entries).
+--
+-- Safety:    New table only. No DROP, no TRUNCATE, no DELETE. Mirrors the
+--            runtime `ensureRaceEntryTable` helper in
+--            supabase/functions/fanta-api/index.ts. Races without entries
+--            keep scoring from Driver.constructorId.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "RaceEntry";
+
+CREATE TABLE IF NOT EXISTS "RaceEntry" (
+  id TEXT PRIMARY KEY,
+  "raceId" TEXT NOT NULL REFERENCES "Race"(id) ON DELETE CASCADE,
+  "driverId" TEXT NOT NULL REFERENCES "Driver"(id) ON DELETE CASCADE,
+  "constructorId" TEXT NOT NULL,
+  "carNumber" INTEGER,
+  source TEXT NOT NULL DEFAULT 'sync' CHECK (source IN ('sync','admin')),
+  "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RaceEntry_raceId_driverId_key" ON "RaceEntry"("raceId", "driverId");
+
+ALTER TABLE "RaceEntry" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,26 @@
+-- Migration: race status
+-- Date:      2026-10-19
+-- Reason:    Cancelled races were recognised from the CANCELLED_RACE_MEETINGS
+--            env var and a hard-coded 2026 Bahrain/Saudi Arabia rule, and a
+--            race was guessed stale 72h after its first session. Race.status
+--            now records where each race is: scheduled, locked, in_progress,
+--            provisional, final, cancelled or postponed. The Edge Function
+--            moves it with the clock (supabase/functions/_shared/race-status.ts)
+--            and admins set it through /admin/race-status.
+--
+-- Safety:    Additive column with a default, plus a backfill of races that
+--            are already completed: with results they become provisional
+--            (final 9 days after race day), without results final. No DROP,
+--            no TRUNCATE, no DELETE. Mirrors the runtime
+--            `ensureRaceStatusColumn` helper in
+--            supabase/functions/fanta-api/index.ts. Cancelled races must be
+--            set again by an admin; CANCELLED_RACE_MEETINGS is no longer read.
+--
+-- Rollback (only if required):
+--   ALTER TABLE "Race" DROP COLUMN IF EXISTS status;
+
+ALTER TABLE "Race" ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'scheduled'
+  CHECK (status IN ('scheduled','locked','in_progress','provisional','final','cancelled','postponed'));
+
+UPDATE "Race" SET status = CASE WHEN results IS NOT NULL THEN 'provisional' ELSE 'final' END
+WHERE "isCompleted" = true AND status = 'scheduled';
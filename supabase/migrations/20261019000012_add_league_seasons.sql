@@ -0,0 +1,50 @@
+-- Migration: league seasons
+-- Date:      2026-10-19
+-- Reason:    Leagues had no season: budgets, rosters and points carried on
+--            forever and the standings summed every race ever scored.
+--            League.season is the season a league plays and Team.season the
+--            one its budget, roster and points belong to; standings only sum
+--            races of that season. /league/season/start archives the final
+--            standings in LeagueSeasonStanding, marks the league's penalties
+--            with the finished season (TeamPenalty.season, NULL = current)
+--            and resets the teams.
+--
+-- Safety:    Additive columns and a new table, plus a backfill of
+--            League.season and Team.season with the latest season in the
+--            calendar. No DROP, no TRUNCATE, no DELETE. Mirrors the runtime
+--            `ensureLeagueSeasonSchema` helper in
+--            supabase/functions/fanta-api/index.ts; TeamPenalty is itself
+--            created at runtime, hence IF EXISTS.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "LeagueSeasonStanding";
+--   ALTER TABLE IF EXISTS "TeamPenalty" DROP COLUMN IF EXISTS season;
+--   ALTER TABLE "Team" DROP COLUMN IF EXISTS season;
+--   ALTER TABLE "League" DROP COLUMN IF EXISTS season;
+
+ALTER TABLE "League" ADD COLUMN IF NOT EXISTS season INTEGER;
+ALTER TABLE "Team" ADD COLUMN IF NOT EXISTS season INTEGER;
+ALTER TABLE IF EXISTS "TeamPenalty" ADD COLUMN IF NOT EXISTS season INTEGER;
+
+UPDATE "League" SET season = (SELECT MAX(season) FROM "Race") WHERE season IS NULL;
+UPDATE "Team" t SET season = l.season FROM "League" l WHERE l.id = t."leagueId" AND t.season IS NULL;
+
+CREATE TABLE IF NOT EXISTS "LeagueSeasonStanding" (
+  id TEXT PRIMARY KEY,
+  "leagueId" TEXT NOT NULL REFERENCES "League"(id) ON DELETE CASCADE,
+  season INTEGER NOT NULL,
+  rank INTEGER NOT NULL,
+  "userId" TEXT NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+  "teamId" TEXT REFERENCES "Team"(id) ON DELETE SET NULL,
+  "teamName" TEXT,
+  "userName" TEXT,
+  "totalPoints" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "penaltyPoints" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  "driverIds" JSONB NOT NULL DEFAULT '[]'::jsonb,
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "archivedAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "LeagueSeasonStanding_league_season_user_key" ON "LeagueSeasonStanding"("leagueId", season, "userId");
+
+ALTER TABLE "LeagueSeasonStanding" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- Migration: user sessions
+-- Date:      2026-10-19
+-- Reason:    A user had one permanent token (User.authToken) shared by every
+--            device: it never expired and could not be revoked. Each login
+--            now creates a UserSession holding a SHA-256 of its own token,
+--            with created/last-seen timestamps and an expiry that slides
+--            while the device is in use. Users list their sessions and log
+--            out one device or all of them. An existing User.authToken is
+--            turned into a session on its first use and then retired.
+--
+-- Safety:    New table only. No DROP, no TRUNCATE, no DELETE. Mirrors the
+--            runtime `ensureUserSessionTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "UserSession";
+--   Devices that logged in after this migration have to log in again.
+
+CREATE TABLE IF NOT EXISTS "UserSession" (
+  id TEXT PRIMARY KEY,
+  "userId" TEXT NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+  "tokenHash" TEXT NOT NULL UNIQUE,
+  device TEXT,
+  "userAgent" TEXT,
+  "createdAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+  "lastSeenAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL DEFAULT NOW(),
+  "expiresAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "UserSession_userId_idx" ON "UserSession"("userId");
+
+ALTER TABLE "UserSession" ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,28 @@
+-- Migration: auth attempt throttling
+-- Date:      2026-10-19
+-- Reason:    /auth/login answered unlimited password guesses and
+--            /leagues/join unlimited guesses at 6-character join codes.
+--            AuthAttempt counts failures per scope and key (account name,
+--            client address, user id); past a few free attempts each further
+--            failure locks the key for a doubling wait up to a temporary
+--            lockout, and the endpoints answer 429 too_many_attempts with
+--            the seconds left (policies in supabase/functions/_shared/attempts.ts).
+--            Registrations are counted per address the same way.
+--
+-- Safety:    New table only. No DROP, no TRUNCATE, no DELETE. Mirrors the
+--            runtime `ensureAuthAttemptTable` helper in
+--            supabase/functions/fanta-api/index.ts.
+--
+-- Rollback (only if required):
+--   DROP TABLE IF EXISTS "AuthAttempt";
+
+CREATE TABLE IF NOT EXISTS "AuthAttempt" (
+  scope TEXT NOT NULL,
+  key TEXT NOT NULL,
+  failures INTEGER NOT NULL DEFAULT 0,
+  "lastFailureAt" TIMESTAMP WITHOUT TIME ZONE,
+  "lockedUntil" TIMESTAMP WITHOUT TIME ZONE,
+  PRIMARY KEY (scope, key)
+);
+
+ALTER TABLE "AuthAttempt" ENABLE ROW LEVEL SECURITY;
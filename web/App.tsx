@@ -5,9 +5,12 @@ import { initializeAdMob, showAppOpen, showInterstitialWithProbability } from '.
 import { App as CapApp } from '@capacitor/app';
 import { Capacitor } from '@capacitor/core';
 import { AdBanner } from './components/AdBanner';
-import { AppData, Tab, UserTeam, Driver, Race, User, ScoringRules } from './types';
-import { DEFAULT_SCORING_RULES, DRIVERS, CONSTRUCTORS, APP_VERSION } from './constants';
-import { getRaces, getDrivers, register, login, createLeague, joinLeague, getMe, updateMarket, updateLineup, updateDriverInfo, updateTeamName, syncRaceResults, getLeagueStandings, getRaceResults, getRaceBreakdown, kickMember, deleteLeague, addPenalty, updateLeagueRules, deleteMyAccount } from "./api";
+import { AppData, Tab, UserTeam, Driver, Race, User, ScoringRules, RaceLineup, ChipId, ChipsState, TransferAllowance, DriverPricePoint, TeamValuePoint, RulesVersionEntry, RuleFieldError, RulesPreviewRow, ScoringDiff, ResultRevision, ManualResults, ResultFieldError, LiveSnapshot, RosterChange, RaceEntry, RaceEntryList, RaceStatus } from './types';
+import { tripleCaptainMultiplier, validateManualResults, validateRaceEntries, validateScoringRules } from '../supabase/functions/_shared/scoring';
+import { RACE_STATUSES, raceIsLocked, selectActiveRace } from '../supabase/functions/_shared/race-status';
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH, validatePassword, type PasswordIssue } from '../supabase/functions/_shared/password';
+import { DEFAULT_SCORING_RULES, DRIVERS, CONSTRUCTORS, APP_VERSION, CHIP_IDS } from './constants';
+import { getRaces, getDrivers, register, login, createLeague, joinLeague, getMe, updateMarket, updateLineup, updateDriverInfo, updateTeamName, syncRaceResults, getLeagueStandings, getRaceResults, getRaceBreakdown, kickMember, deleteLeague, addPenalty, updateLeagueRules, deleteMyAccount, getChips, activateChip, cancelChip, getTransfers, getDriversPriceHistory, getDriverHistory, getTeamValueHistory, getRulesHistory, recalculateRace, getRuleFieldErrors, previewLeagueRules, getChangedDiff, getResultRevisions, revertRaceResults, saveManualResults, setResultsPinned, getResultFieldErrors, purgeOpenF1Cache, subscribeLeagueLive, syncDriverRoster, getRaceEntries, saveRaceEntries, setRaceStatus, startNewSeason, getLeagueSeasons, getSeasonStandings, logout, getSessions, revokeSession, revokeAllSessions, getRetryAfter } from "./api";
 import { initializePurchases, checkPremiumStatus, purchasePackage, restorePurchases, getOfferings, getPurchasesInitIssue, logInUser } from './services/purchases';
 import { PurchasesPackage } from '@revenuecat/purchases-capacitor';
 import { fetchMyCosmetics, getCosmeticById } from './services/cosmetics';
@@ -16,7 +19,8 @@ import CosmeticSlot from './components/CosmeticSlot';
 import MyDriverCard from './components/MyDriverCard';
 import StandingPodium from './components/StandingPodium';
 import DriverCardModal from './components/DriverCardModal';
-import type { CosmeticsState, LeagueStanding } from './types';
+import Sparkline from './components/Sparkline';
+import type { CosmeticsState, LeagueStanding, LeagueSeasons, SeasonStanding, UserSession } from './types';
 // RACES_2026 removed
 
 const INITIAL_TEAM: UserTeam = {
@@ -102,35 +106,9 @@ const getNextRaceIndex = (races: Race[]) => {
   return idx === -1 ? races.length - 1 : idx;
 };
 
-const RACE_AUTO_CLOSE_HOURS = 72;
-
-const parseRaceDateSafe = (value?: string | null): Date | null => {
-  if (!value) return null;
-  const parsed = new Date(value);
-  return Number.isNaN(parsed.getTime()) ? null : parsed;
-};
-
-const getRaceSessionUtc = (race: Race): Date | null => {
-  const primary = race.isSprint ? race.sprintQualifyingUtc : race.qualifyingUtc;
-  return parseRaceDateSafe(primary) || parseRaceDateSafe(race.qualifyingUtc) || parseRaceDateSafe(race.date);
-};
-
-const isRaceStale = (race: Race, nowMs: number) => {
-  if (race.isCompleted) return false;
-  const session = getRaceSessionUtc(race);
-  if (!session) return false;
-  const autoCloseMs = session.getTime() + RACE_AUTO_CLOSE_HOURS * 60 * 60 * 1000;
-  return nowMs > autoCloseMs;
-};
-
-// Keep lineup lock logic aligned with backend:
-// first non-completed race that is not stale, otherwise fallback to latest open race.
-const getActiveLockRace = (races: Race[], nowMs = Date.now()): Race | null => {
-  if (races.length === 0) return null;
-  const nonCompleted = races.filter((race) => !race.isCompleted);
-  if (nonCompleted.length === 0) return races[races.length - 1];
-  return nonCompleted.find((race) => !isRaceStale(race, nowMs)) || nonCompleted[nonCompleted.length - 1];
-};
+// Same pick as the backend (selectActiveRace): first race still scheduled,
+// locked or in progress, skipping cancelled and postponed ones.
+const getActiveLockRace = (races: Race[], nowMs = Date.now()): Race | null => selectActiveRace(races, nowMs);
 
 const raceHasResults = (race?: Race | null): boolean => {
   const results = race?.results;
@@ -190,6 +168,8 @@ const App: React.FC = () => {
 
   // Use constructors from rules (editable) fallback to constant if needed
   const activeConstructors = data?.rules?.constructors || CONSTRUCTORS;
+  // Drivers currently on the grid; former ones stay in fetchedDrivers for history.
+  const gridDrivers = useMemo(() => fetchedDrivers.filter(d => d.active !== false), [fetchedDrivers]);
 
   // Initial AdMob & Premium Check
   useEffect(() => {
@@ -326,6 +306,17 @@ const App: React.FC = () => {
 
   // Admin Points Anti-NaN States
   const [syncing, setSyncing] = useState(false);
+  // revisionId / manualResults are set when the preview is for a revert or a
+  // manual entry rather than an OpenF1 sync
+  const [syncPreview, setSyncPreview] = useState<{ raceId: string; diff: ScoringDiff; confirmToken: string; revisionId?: string; manualResults?: ManualResults } | null>(null);
+  const [resultRevisions, setResultRevisions] = useState<ResultRevision[] | null>(null);
+  const [manualResults, setManualResults] = useState<ManualResults | null>(null);
+  const [manualSession, setManualSession] = useState<'quali' | 'sprintQuali' | 'sprint' | 'race'>('quali');
+  const [manualErrors, setManualErrors] = useState<ResultFieldError[]>([]);
+  // Drivers the manual editor classifies: the race's entry list, else the grid.
+  const [manualDrivers, setManualDrivers] = useState<Driver[]>([]);
+  const [raceEntries, setRaceEntries] = useState<RaceEntryList | null>(null);
+  const [raceEntryErrors, setRaceEntryErrors] = useState<ResultFieldError[]>([]);
 
   const [seasonPackage, setSeasonPackage] = useState<PurchasesPackage | null>(null);
   const [isPurchasingPremium, setIsPurchasingPremium] = useState(false);
@@ -340,8 +331,28 @@ const App: React.FC = () => {
   const [viewingResult, setViewingResult] = useState<any | null>(null);
   const [viewingOfficialResultsRaceId, setViewingOfficialResultsRaceId] = useState<string | null>(null);
   const [officialResultsData, setOfficialResultsData] = useState<any | null>(null);
+  const [officialResultsLineup, setOfficialResultsLineup] = useState<RaceLineup | null>(null);
+  const [officialResultsChip, setOfficialResultsChip] = useState<ChipId | null>(null);
   const [loadingOfficialResults, setLoadingOfficialResults] = useState(false);
   const [officialResultsError, setOfficialResultsError] = useState<string | null>(null);
+  const [chipsState, setChipsState] = useState<ChipsState | null>(null);
+  const [chipBusy, setChipBusy] = useState(false);
+  const [transferState, setTransferState] = useState<TransferAllowance | null>(null);
+  const [priceHistory, setPriceHistory] = useState<Record<string, DriverPricePoint[]>>({});
+  const [priceDetail, setPriceDetail] = useState<Awaited<ReturnType<typeof getDriverHistory>> | null>(null);
+  const [teamValueHistory, setTeamValueHistory] = useState<{ current: { totalValue: number }; history: TeamValuePoint[] } | null>(null);
+  const [rulesHistory, setRulesHistory] = useState<RulesVersionEntry[]>([]);
+  const [rulesRetroactive, setRulesRetroactive] = useState(false);
+  const [rulesEffectiveRound, setRulesEffectiveRound] = useState(1);
+  const [ruleErrors, setRuleErrors] = useState<RuleFieldError[]>([]);
+  const [rulesPreview, setRulesPreview] = useState<{ races: number; standings: RulesPreviewRow[] } | null>(null);
+  const [rulesPreviewLoading, setRulesPreviewLoading] = useState(false);
+  const [liveSnapshot, setLiveSnapshot] = useState<LiveSnapshot | null>(null);
+  const [rosterProposal, setRosterProposal] = useState<{ source: string; changes: RosterChange[] } | null>(null);
+  const [rosterApproved, setRosterApproved] = useState<string[]>([]);
+  const [rosterLoading, setRosterLoading] = useState(false);
+  const [leagueSeasons, setLeagueSeasons] = useState<LeagueSeasons | null>(null);
+  const [archivedSeason, setArchivedSeason] = useState<{ season: number; standings: SeasonStanding[] } | null>(null);
   const [activeResultSession, setActiveResultSession] = useState<'quali' | 'race' | 'sprintQuali' | 'sprint' | 'fantasyPts' | 'breakdown'>('race');
 
   // Fetch Standings
@@ -358,6 +369,30 @@ const App: React.FC = () => {
     }
   }, [activeTab, data?.user?.leagueId]);
 
+  // Past seasons, listed in Standings and used by the admin season rollover
+  useEffect(() => {
+    if ((activeTab === Tab.STANDINGS || activeTab === Tab.ADMIN) && data?.user?.leagueId) {
+      getLeagueSeasons(data.user.leagueId)
+        .then(setLeagueSeasons)
+        .catch(e => console.error("Failed to load seasons", e));
+    }
+  }, [activeTab, data?.user?.leagueId]);
+
+  // Live centre: provisional points streamed while the tab is open
+  useEffect(() => {
+    if (activeTab !== Tab.LIVE || !data?.user?.leagueId) return;
+    return subscribeLeagueLive(data.user.leagueId, setLiveSnapshot);
+  }, [activeTab, data?.user?.leagueId]);
+
+  // Rules change history, shown to members in Standings and to admins
+  useEffect(() => {
+    if ((activeTab === Tab.STANDINGS || activeTab === Tab.ADMIN) && data?.user?.leagueId) {
+      getRulesHistory(data.user.leagueId)
+        .then(res => setRulesHistory(res.versions))
+        .catch(e => console.error("Failed to load rules history", e));
+    }
+  }, [activeTab, data?.user?.leagueId]);
+
   // Handle Tab Change
   useEffect(() => {
     if (activeTab !== Tab.STANDINGS) return;
@@ -390,6 +425,8 @@ const App: React.FC = () => {
   useEffect(() => {
     if (!viewingOfficialResultsRaceId || !data?.user?.leagueId) {
       setOfficialResultsData(null);
+      setOfficialResultsLineup(null);
+      setOfficialResultsChip(null);
       setLoadingOfficialResults(false);
       setOfficialResultsError(null);
       return;
@@ -399,10 +436,15 @@ const App: React.FC = () => {
     setLoadingOfficialResults(true);
     setOfficialResultsError(null);
     setOfficialResultsData(null);
+    setOfficialResultsLineup(null);
+    setOfficialResultsChip(null);
 
     getRaceBreakdown(data.user.leagueId, viewingOfficialResultsRaceId)
       .then((payload) => {
-        if (!cancelled) setOfficialResultsData(payload.results || null);
+        if (cancelled) return;
+        setOfficialResultsData(payload.results || null);
+        setOfficialResultsLineup(payload.lineup || null);
+        setOfficialResultsChip(payload.chip || null);
       })
       .catch((e: any) => {
         if (!cancelled) {
@@ -419,6 +461,52 @@ const App: React.FC = () => {
     };
   }, [viewingOfficialResultsRaceId, data?.user?.leagueId]);
 
+  // Fetch Chips
+  useEffect(() => {
+    if (activeTab === Tab.LINEUP && data?.user?.leagueId) {
+      getChips(data.user.leagueId)
+        .then(setChipsState)
+        .catch(e => {
+          console.error("Failed to load chips", e);
+          setChipsState(null);
+        });
+    }
+  }, [activeTab, data?.user?.leagueId]);
+
+  // Fetch Price & Team Value History
+  useEffect(() => {
+    if (activeTab !== Tab.MARKET && activeTab !== Tab.TEAM) return;
+    getDriversPriceHistory()
+      .then(setPriceHistory)
+      .catch(e => console.error("Failed to load price history", e));
+  }, [activeTab]);
+
+  useEffect(() => {
+    const teamId = data?.team?.id;
+    if (activeTab !== Tab.TEAM || !teamId) {
+      setTeamValueHistory(null);
+      return;
+    }
+    getTeamValueHistory(teamId)
+      .then(setTeamValueHistory)
+      .catch(e => {
+        console.error("Failed to load team value history", e);
+        setTeamValueHistory(null);
+      });
+  }, [activeTab, data?.team?.id]);
+
+  // Fetch Transfer Allowance
+  useEffect(() => {
+    if (activeTab === Tab.MARKET && data?.user?.leagueId) {
+      getTransfers(data.user.leagueId)
+        .then(setTransferState)
+        .catch(e => {
+          console.error("Failed to load transfers", e);
+          setTransferState(null);
+        });
+    }
+  }, [activeTab, data?.user?.leagueId]);
+
   // Login Form State
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -426,6 +514,8 @@ const App: React.FC = () => {
   const [loginMode, setLoginMode] = useState<'create' | 'join'>('join'); // Default to Join for new users
   const [leagueName, setLeagueName] = useState('');
   const [leagueCodeInput, setLeagueCodeInput] = useState('');
+  const [authRetryUntil, setAuthRetryUntil] = useState<number | null>(null); // after 429 too_many_attempts
+  const [authRetrySeconds, setAuthRetrySeconds] = useState(0);
 
   // UI State
   const [showResetConfirm, setShowResetConfirm] = useState(false);
@@ -433,6 +523,8 @@ const App: React.FC = () => {
   const [deleteAccountInput, setDeleteAccountInput] = useState("");
   const [deleteAccountPending, setDeleteAccountPending] = useState(false);
   const [deleteAccountError, setDeleteAccountError] = useState("");
+  const [sessions, setSessions] = useState<UserSession[] | null>(null); // null until "Devices" is opened
+  const [sessionsError, setSessionsError] = useState("");
   const [isEditingTeamName, setIsEditingTeamName] = useState(false);
   const [showLeagueSelector, setShowLeagueSelector] = useState(false);
   const [teamNameEdit, setTeamNameEdit] = useState("");
@@ -505,6 +597,7 @@ const App: React.FC = () => {
 
           // Re-sync team data from backend if available
           const serverTeam: UserTeam = firstLeague.team ? {
+             id: firstLeague.team.id,
              name: firstLeague.team.name || 'My F1 Team',
              driverIds: firstLeague.team.driverIds,
              budget: firstLeague.team.budget,
@@ -537,6 +630,29 @@ const App: React.FC = () => {
     return dict[language] || dict['en'] || '';
   };
 
+  // Price trend of a driver: the price before the first recorded move, then
+  // the price after each one.
+  const priceSeries = (driverId: string) => {
+    const moves = priceHistory[driverId];
+    if (!moves || moves.length === 0) return [];
+    return [moves[0]!.oldPrice, ...moves.map(m => m.newPrice)];
+  };
+
+  const openPriceDetail = (driverId: string) => {
+    getDriverHistory(driverId)
+      .then(setPriceDetail)
+      .catch(e => console.error("Failed to load driver price history", e));
+  };
+
+  const chipLabel = (chip: ChipId) => {
+    switch (chip) {
+      case 'triple_captain': return t({ en: 'Triple Captain', it: 'Triplo Capitano', fr: 'Triple Capitaine', de: 'Dreifach-Kapitän', es: 'Triple Capitán', ru: 'Тройной капитан', zh: '三倍队长', ar: 'كابتن ثلاثي', ja: 'トリプルキャプテン' });
+      case 'wildcard': return t({ en: 'Wildcard', it: 'Wildcard', fr: 'Joker', de: 'Wildcard', es: 'Comodín', ru: 'Вайлдкард', zh: '外卡', ar: 'البطاقة الحرة', ja: 'ワイルドカード' });
+      case 'no_negatives': return t({ en: 'No Negatives', it: 'Niente Malus', fr: 'Sans Malus', de: 'Keine Minuspunkte', es: 'Sin Negativos', ru: 'Без штрафов', zh: '无负分', ar: 'بلا سلبيات', ja: 'ノーマイナス' });
+      case 'sprint_boost': return t({ en: 'Sprint Boost', it: 'Sprint Boost', fr: 'Boost Sprint', de: 'Sprint-Boost', es: 'Impulso Sprint', ru: 'Спринт-буст', zh: '冲刺加成', ar: 'تعزيز السبرنت', ja: 'スプリントブースト' });
+    }
+  };
+
   // NOTE: The separate useEffect for loading races from localStorage has been removed
   // to avoid overwriting the API call in the main useEffect above.
 
@@ -647,7 +763,30 @@ const App: React.FC = () => {
     }
   }, [data]);
 
+  const describePasswordIssue = (issue: PasswordIssue) => {
+    switch (issue) {
+      case 'too_short': return t({ en: `Password too short (min ${PASSWORD_MIN_LENGTH} chars).`, it: `Password troppo corta (min ${PASSWORD_MIN_LENGTH} caratteri).` });
+      case 'too_long': return t({ en: `Password too long (max ${PASSWORD_MAX_LENGTH} chars).`, it: `Password troppo lunga (max ${PASSWORD_MAX_LENGTH} caratteri).` });
+      case 'same_as_name': return t({ en: 'Password must not be your username.', it: 'La password non può essere il nome utente.' });
+      case 'too_common': return t({ en: 'Password too easy to guess. Pick another one.', it: 'Password troppo facile da indovinare. Scegline un\'altra.' });
+    }
+  };
+
+  // Counts the login button down while the server refuses attempts.
+  useEffect(() => {
+    if (!authRetryUntil) return;
+    const tick = () => {
+      const left = Math.ceil((authRetryUntil - Date.now()) / 1000);
+      setAuthRetrySeconds(Math.max(0, left));
+      if (left <= 0) setAuthRetryUntil(null);
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [authRetryUntil]);
+
   const handleAuth = async () => {
+    if (authRetrySeconds > 0) return;
     if (!username.trim()) return alert(t({ en: "Please enter a username.", it: "Inserisci un nome utente." }));
     if (!password.trim()) return alert(t({ en: "Please enter a password.", it: "Inserisci una password." }));
 
@@ -655,6 +794,9 @@ const App: React.FC = () => {
       let authToken = '';
 
       if (isRegistering) {
+         const passwordIssues = validatePassword(password.trim(), username.trim());
+         if (passwordIssues.length > 0) return alert(describePasswordIssue(passwordIssues[0]!));
+
          // 1. Register
          const res = await import("./api").then(m => m.register(username.trim(), password.trim()));
          authToken = res.authToken;
@@ -687,6 +829,7 @@ const App: React.FC = () => {
          isAdmin: l.isAdmin,
          joinCode: l.joinCode,
          team: l.team ? {
+            id: l.team.id,
             name: l.team.name || 'My F1 Team',
             driverIds: l.team.driverIds,
             reserveDriverId: l.team.reserveId,
@@ -725,6 +868,7 @@ const App: React.FC = () => {
       };
 
       const serverTeam: UserTeam = myLeague.team ? {
+        id: myLeague.team.id,
         name: myLeague.team.name || 'My F1 Team',
         driverIds: myLeague.team.driverIds,
         budget: myLeague.team.budget,
@@ -758,15 +902,20 @@ const App: React.FC = () => {
     } catch (e: any) {
       console.error('Auth Error Details:', e);
       let msg = t({ en: "Authentication failed.", it: "Autenticazione fallita." });
+      const retryAfter = getRetryAfter(e);
       
-      if (e.message && e.message.includes("name_taken")) {
+      if (retryAfter) {
+        setAuthRetryUntil(Date.now() + retryAfter * 1000);
+        msg = t({ en: `Too many attempts. Try again in ${retryAfter} seconds.`, it: `Troppi tentativi. Riprova tra ${retryAfter} secondi.` });
+      } else if (e.message && e.message.includes("name_taken")) {
         msg = t({ en: "Name already taken. Log in instead?", it: "Nome già in uso. Prova il Login." });
       } else if (e.message && e.message.includes("invalid_credentials")) {
          msg = t({ en: "Invalid username or password.", it: "Nome utente o password errati." });
       } else if (e.message && e.message.includes("league_not_found")) {
         msg = t({ en: "League not found. Check the code.", it: "Lega non trovata. Controlla il codice." });
       } else if (e.message && e.message.includes("weak_password")) {
-         msg = t({ en: "Password too short (min 3 chars).", it: "Password troppo corta (min 3 caratteri)." });
+         const issue = (['too_common', 'same_as_name', 'too_long'] as const).find(i => e.message.includes(i)) || 'too_short';
+         msg = describePasswordIssue(issue);
       } else if (e.message) {
          // Show raw error if none of the above
          msg = `${msg}\n(${e.message})`;
@@ -781,6 +930,9 @@ const App: React.FC = () => {
   };
 
   const handleLogout = () => {
+    // Reads the token before it is cleared below; a failure only leaves the
+    // session to expire on its own.
+    if (localStorage.getItem('fantaF1AuthToken')) logout().catch(() => {});
     localStorage.removeItem('fantaF1Data');
     localStorage.removeItem('fantaF1Races');
     localStorage.removeItem('fantaF1AuthToken'); // Clear token
@@ -796,6 +948,7 @@ const App: React.FC = () => {
     setIsRegistering(true);
     setShowResetConfirm(false);
     setShowDeleteAccountConfirm(false);
+    setSessions(null);
     setDeleteAccountInput('');
     setDeleteAccountError('');
   };
@@ -821,6 +974,39 @@ const App: React.FC = () => {
     }
   };
 
+  const loadSessions = async () => {
+    setSessionsError('');
+    try {
+      setSessions(await getSessions());
+    } catch (e) {
+      setSessionsError((e as Error)?.message || 'unknown error');
+    }
+  };
+
+  const handleRevokeSession = async (session: UserSession) => {
+    if (session.current) {
+      handleLogout();
+      return;
+    }
+    try {
+      await revokeSession(session.id);
+      await loadSessions();
+    } catch (e) {
+      setSessionsError((e as Error)?.message || 'unknown error');
+    }
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    if (!confirm(t({ en: 'Log out every other device?', it: 'Disconnettere tutti gli altri dispositivi?' }))) return;
+    try {
+      const res = await revokeAllSessions();
+      alert(t({ en: `${res.revoked} devices logged out.`, it: `${res.revoked} dispositivi disconnessi.` }));
+      await loadSessions();
+    } catch (e) {
+      setSessionsError((e as Error)?.message || 'unknown error');
+    }
+  };
+
   const switchLeague = (leagueId: string) => {
     if (!data.user?.leagues) return;
     const target = data.user.leagues.find(l => l.id === leagueId);
@@ -895,10 +1081,26 @@ const App: React.FC = () => {
     }
   };
 
+  // Releasing a driver uses a free transfer; once none are left it costs points.
+  const confirmTransferCost = () => {
+    if (!transferState || transferState.wildcard || transferState.freeLeft > 0 || transferState.extraTransferCost === 0) return true;
+    return confirm(t({
+      en: `No free transfers left. This transfer will cost ${Math.abs(transferState.extraTransferCost)} points. Continue?`,
+      it: `Nessun cambio gratuito rimasto. Questo cambio costerà ${Math.abs(transferState.extraTransferCost)} punti. Continuare?`
+    }));
+  };
+
+  const refreshTransfers = () => {
+    if (!data?.user?.leagueId) return;
+    getTransfers(data.user.leagueId).then(setTransferState).catch(e => console.error("Failed to load transfers", e));
+  };
+
   const handleSwapDriver = async (oldD: Driver, newD: Driver) => {
     if (!data?.user) return;
+    if (!confirmTransferCost()) return;
     try {
       await updateMarket(data.user.leagueId, newD.id, oldD.id);
+      refreshTransfers();
       const updatedData = await getMe();
       const league = updatedData.leagues.find(l => l.id === data.user?.leagueId);
       if (league?.team) {
@@ -974,6 +1176,8 @@ const App: React.FC = () => {
 
   const handleRuleChange = (key: keyof ScoringRules, val: any) => {
     if (!data) return;
+    setRuleErrors(prev => prev.filter(err => err.field !== key && !err.field.startsWith(`${String(key)}.`)));
+    setRulesPreview(null);
     setData({
       ...data,
       rules: { ...data.rules, [key]: val }
@@ -983,7 +1187,7 @@ const App: React.FC = () => {
   const handleRacePointChange = (index: number, val: number) => {
     if (!data) return;
     if (!Number.isFinite(val)) return;
-    const newPoints = [...(data.rules.racePositionPoints || Array(22).fill(0))];
+    const newPoints = Array.from({ length: 22 }, (_, i) => data.rules.racePositionPoints?.[i] ?? 0);
     newPoints[index] = val;
     handleRuleChange('racePositionPoints', newPoints);
   };
@@ -991,7 +1195,7 @@ const App: React.FC = () => {
   const handleSprintSinglePointChange = (index: number, val: number) => {
     if (!data) return;
     if (!Number.isFinite(val)) return;
-    const newPoints = [...(data.rules.sprintPositionPoints || Array(8).fill(0))];
+    const newPoints = Array.from({ length: 8 }, (_, i) => data.rules.sprintPositionPoints?.[i] ?? 0);
     newPoints[index] = val;
     handleRuleChange('sprintPositionPoints', newPoints);
   };
@@ -1080,7 +1284,8 @@ const App: React.FC = () => {
     const lockDate = new Date(targetDate.getTime() - 5 * 60 * 1000); // 5 mins before
     const msToLock = lockDate.getTime() - currentTime;
     let status: LockStatus = 'open';
-    if (msToLock <= 0) {
+    // An admin may lock a race early through its status.
+    if (msToLock <= 0 || raceIsLocked(race, currentTime)) {
       status = 'locked';
     } else if (msToLock <= 30 * 60 * 1000) {
       status = 'closing_soon';
@@ -1093,6 +1298,8 @@ const App: React.FC = () => {
     };
   };
 
+  // First click runs a dry run and shows what would change; nothing is saved
+  // until the admin confirms that exact diff.
   const handleSyncOpenF1 = async () => {
     if (!data) return;
     const currentRace = races[data.currentRaceIndex];
@@ -1100,22 +1307,706 @@ const App: React.FC = () => {
     
     try {
       setSyncing(true);
-      const result = await syncRaceResults(currentRace.id);
+      const result = await syncRaceResults(currentRace.id, { dryRun: true });
+      if (result.ok && result.diff && result.confirmToken) {
+        setSyncPreview({ raceId: currentRace.id, diff: result.diff, confirmToken: result.confirmToken });
+      } else {
+        alert(t({ en: `Sync failed`, it: `Sincronizzazione fallita` }));
+      }
+    } catch (e) {
+      console.error(e);
+      if ((e as Error).message?.includes('results_pinned')) {
+        alert(t({ en: 'These results were entered by hand. Unpin them before syncing.', it: 'Questi risultati sono stati inseriti a mano. Sbloccali prima di sincronizzare.' }));
+      } else {
+        alert(t({ en: 'Network error during sync', it: 'Errore di rete durante la sincronizzazione' }));
+      }
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleConfirmSync = async () => {
+    if (!syncPreview) return;
+    try {
+      setSyncing(true);
+      const options = { confirmToken: syncPreview.confirmToken };
+      const result = syncPreview.revisionId
+        ? await revertRaceResults(syncPreview.raceId, syncPreview.revisionId, options)
+        : syncPreview.manualResults
+          ? await saveManualResults(syncPreview.raceId, syncPreview.manualResults, options)
+          : await syncRaceResults(syncPreview.raceId, options);
       if (result.ok) {
-        alert(t({ en: 'Race synced successfully!', it: 'Gara sincronizzata con successo!' }));
+        setSyncPreview(null);
+        alert(syncPreview.revisionId
+          ? t({ en: 'Results reverted and leagues rescored.', it: 'Risultati ripristinati e leghe ricalcolate.' })
+          : syncPreview.manualResults
+            ? t({ en: 'Results saved and pinned.', it: 'Risultati salvati e bloccati.' })
+            : t({ en: 'Race synced successfully!', it: 'Gara sincronizzata con successo!' }));
         window.location.reload();
       } else {
         alert(t({ en: `Sync failed`, it: `Sincronizzazione fallita` }));
       }
     } catch (e) {
+      const changed = getChangedDiff(e);
+      if (changed) {
+        setSyncPreview({ ...syncPreview, ...changed });
+        alert(t({ en: 'The results changed since the preview. Review the new diff and confirm again.', it: 'I risultati sono cambiati dall\'anteprima. Controlla le nuove differenze e conferma di nuovo.' }));
+      } else {
+        console.error(e);
+        alert(t({ en: 'Network error during sync', it: 'Errore di rete durante la sincronizzazione' }));
+      }
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  // Editor starts from the stored classification, or from the driver list
+  // order when the race has none yet. It lists the race's entries when there
+  // are any, so a past round can still classify a driver who has left.
+  const handleOpenManualResults = async () => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    let drivers = gridDrivers;
+    try {
+      const { entries } = await getRaceEntries(currentRace.id);
+      if (entries.length > 0) {
+        const entered = new Set(entries.map(e => e.driverId));
+        drivers = fetchedDrivers.filter(d => entered.has(d.id));
+      }
+    } catch (e) {
+      console.error(e);
+    }
+    setManualDrivers(drivers);
+    const stored = currentRace.results || {};
+    const byListOrder = Object.fromEntries(drivers.map((d, i) => [d.id, i + 1]));
+    setManualResults({
+      quali: { ...(stored.quali || byListOrder) },
+      ...(currentRace.isSprint ? { sprintQuali: { ...(stored.sprintQuali || byListOrder) }, sprint: { ...(stored.sprint || byListOrder) } } : {}),
+      race: { ...(stored.race || byListOrder) },
+      dnfDrivers: [...(stored.dnfDrivers || [])],
+      dnsDrivers: [...(stored.dnsDrivers || [])],
+      dsqDrivers: [...(stored.dsqDrivers || [])],
+      fastestLap: stored.fastestLap || null,
+    });
+    setManualSession('quali');
+    setManualErrors([]);
+  };
+
+  const handleManualPosition = (driverId: string, value: string) => {
+    if (!manualResults) return;
+    const session = { ...(manualResults[manualSession] || {}) };
+    if (value === '') delete session[driverId];
+    else session[driverId] = Number(value);
+    setManualResults({ ...manualResults, [manualSession]: session });
+    setManualErrors(manualErrors.filter(e => e.field !== `${manualSession}.${driverId}` && e.field !== manualSession));
+  };
+
+  // A driver is in at most one of the DNF/DNS/DSQ lists; a non-starter has no
+  // race position.
+  const handleManualStatus = (driverId: string, status: '' | 'dnfDrivers' | 'dnsDrivers' | 'dsqDrivers') => {
+    if (!manualResults) return;
+    const next = { ...manualResults };
+    for (const key of ['dnfDrivers', 'dnsDrivers', 'dsqDrivers'] as const) {
+      next[key] = manualResults[key].filter(id => id !== driverId);
+    }
+    if (status) next[status] = [...next[status], driverId];
+    if (status === 'dnsDrivers') {
+      const race = { ...next.race };
+      delete race[driverId];
+      next.race = race;
+    }
+    setManualResults(next);
+    setManualErrors(manualErrors.filter(e => !e.field.endsWith(`.${driverId}`)));
+  };
+
+  const handlePreviewManualResults = async () => {
+    if (!data || !manualResults) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    const localErrors = validateManualResults(manualResults, manualDrivers.map(d => d.id), currentRace.isSprint);
+    setManualErrors(localErrors);
+    if (localErrors.length > 0) {
+      alert(t({ en: 'Some positions are invalid: check the highlighted drivers.', it: 'Alcune posizioni non sono valide: controlla i piloti evidenziati.' }));
+      return;
+    }
+    try {
+      setSyncing(true);
+      const result = await saveManualResults(currentRace.id, manualResults, { dryRun: true });
+      if (result.ok && result.diff && result.confirmToken) {
+        setSyncPreview({ raceId: currentRace.id, diff: result.diff, confirmToken: result.confirmToken, manualResults });
+        setManualResults(null);
+      }
+    } catch (e) {
+      const fieldErrors = getResultFieldErrors(e);
+      if (fieldErrors) setManualErrors(fieldErrors);
       console.error(e);
-      alert(t({ en: 'Network error during sync', it: 'Errore di rete durante la sincronizzazione' }));
+      alert(t({ en: 'Could not check the results.', it: 'Impossibile verificare i risultati.' }));
     } finally {
       setSyncing(false);
     }
   };
 
+  const handleTogglePin = async (pinned: boolean) => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      await setResultsPinned(currentRace.id, pinned);
+      setRaces(races.map(r => (r.id === currentRace.id ? { ...r, resultsPinned: pinned } : r)));
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not change the pin.', it: 'Impossibile modificare il blocco.' }));
+    }
+  };
+
+  const handleSetRaceStatus = async (status: RaceStatus) => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      const res = await setRaceStatus(currentRace.id, status);
+      setRaces(races.map(r => (r.id === currentRace.id ? { ...r, status: res.status, isCompleted: r.isCompleted || res.status === 'final' } : r)));
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not change the race status.', it: 'Impossibile modificare lo stato della gara.' }));
+    }
+  };
+
+  const handlePurgeOpenF1Cache = async () => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      const res = await purgeOpenF1Cache(currentRace.id);
+      alert(t({ en: `Cleared ${res.purged} cached OpenF1 responses.`, it: `Rimosse ${res.purged} risposte OpenF1 in cache.` }));
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not clear the OpenF1 cache.', it: 'Impossibile svuotare la cache OpenF1.' }));
+    }
+  };
+
+  // Editor starts from the stored entry list, or from the grid as in the
+  // Driver table when the race has none yet.
+  const handleOpenRaceEntries = async () => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      const list = await getRaceEntries(currentRace.id);
+      setRaceEntries(list.entries.length > 0 ? list : {
+        source: null,
+        entries: gridDrivers.map(d => ({ driverId: d.id, constructorId: d.constructorId, carNumber: d.number ?? null })),
+      });
+      setRaceEntryErrors([]);
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not load the entry list.', it: 'Impossibile caricare la lista iscritti.' }));
+    }
+  };
+
+  const handleRaceEntryChange = (driverId: string, change: Partial<RaceEntry> | null) => {
+    if (!raceEntries) return;
+    const driver = fetchedDrivers.find(d => d.id === driverId);
+    const current = raceEntries.entries.find(e => e.driverId === driverId);
+    const others = raceEntries.entries.filter(e => e.driverId !== driverId);
+    const entries = change === null
+      ? others
+      : [...others, { driverId, constructorId: driver?.constructorId || '', carNumber: driver?.number ?? null, ...current, ...change }];
+    setRaceEntries({ ...raceEntries, entries });
+    setRaceEntryErrors(raceEntryErrors.filter(e => !e.field.startsWith(`entries.${driverId}`)));
+  };
 
+  const handleSaveRaceEntries = async (reset = false) => {
+    if (!data || !raceEntries) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    if (!reset) {
+      const localErrors = validateRaceEntries(raceEntries.entries, fetchedDrivers.map(d => d.id), activeConstructors.map(c => c.id));
+      setRaceEntryErrors(localErrors);
+      if (localErrors.length > 0) return;
+    }
+    try {
+      await saveRaceEntries(currentRace.id, reset ? null : raceEntries.entries);
+      setRaceEntries(null);
+      if (currentRace.results) {
+        alert(t({ en: 'Entry list saved. Sync or recalculate the race to rescore it.', it: 'Lista iscritti salvata. Sincronizza o ricalcola la gara per aggiornare i punti.' }));
+      }
+    } catch (e) {
+      const fieldErrors = getResultFieldErrors(e);
+      if (fieldErrors) setRaceEntryErrors(fieldErrors);
+      console.error(e);
+      alert(t({ en: 'Could not save the entry list.', it: 'Impossibile salvare la lista iscritti.' }));
+    }
+  };
+
+  const renderRaceEntries = () => {
+    if (!raceEntries) return null;
+    const entered = new Map(raceEntries.entries.map(e => [e.driverId, e]));
+    const rows = [...fetchedDrivers].sort((a, b) => Number(entered.has(b.id)) - Number(entered.has(a.id)));
+    return (
+      <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 mb-3 space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold text-white">
+            {t({ en: 'Entry list', it: 'Lista iscritti', fr: 'Liste des engagés', de: 'Starterliste', es: 'Lista de inscritos', ru: 'Список участников', zh: '参赛名单', ar: 'قائمة المشاركين', ja: 'エントリーリスト' })}
+          </h4>
+          <button onClick={() => setRaceEntries(null)} className="text-slate-400 hover:text-white text-xs">✕</button>
+        </div>
+        <p className="text-[10px] text-slate-400">
+          {raceEntries.source === 'admin'
+            ? t({ en: 'Edited by an admin: syncs keep this list.', it: 'Modificata da un admin: le sincronizzazioni la mantengono.' })
+            : raceEntries.source === 'sync'
+              ? t({ en: 'From OpenF1. Saving it here stops syncs from replacing it.', it: 'Da OpenF1. Salvandola qui le sincronizzazioni non la sostituiscono più.' })
+              : t({ en: 'No entry list yet: the race is scored with each driver\'s current team.', it: 'Nessuna lista iscritti: la gara usa la scuderia attuale di ogni pilota.' })}
+        </p>
+        <div className="divide-y divide-slate-800 max-h-80 overflow-y-auto">
+          {rows.map(driver => {
+            const entry = entered.get(driver.id);
+            const err = raceEntryErrors.find(e => e.field.startsWith(`entries.${driver.id}`));
+            return (
+              <div key={driver.id} className="py-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(entry)}
+                    onChange={e => handleRaceEntryChange(driver.id, e.target.checked ? {} : null)}
+                  />
+                  <span className={`flex-1 truncate ${entry ? 'text-slate-200' : 'text-slate-500'}`}>{driver.name}</span>
+                  {entry && (
+                    <>
+                      <input
+                        type="number"
+                        min={1}
+                        max={99}
+                        value={entry.carNumber ?? ''}
+                        onChange={e => handleRaceEntryChange(driver.id, { carNumber: e.target.value === '' ? null : Number(e.target.value) })}
+                        className={`w-12 bg-slate-800 rounded px-1 py-0.5 text-white font-mono ${err?.field.endsWith('carNumber') ? 'border border-red-500' : 'border border-slate-700'}`}
+                      />
+                      <select
+                        value={entry.constructorId}
+                        onChange={e => handleRaceEntryChange(driver.id, { constructorId: e.target.value })}
+                        className={`bg-slate-800 rounded px-1 py-0.5 text-[10px] text-slate-200 ${err?.field.endsWith('constructorId') ? 'border border-red-500' : 'border border-slate-700'}`}
+                      >
+                        {activeConstructors.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                      </select>
+                    </>
+                  )}
+                </div>
+                {err && (
+                  <p className="text-[10px] text-red-400 mt-0.5 ml-6">
+                    {err.code === 'duplicate' ? t({ en: 'Car number already taken', it: 'Numero già assegnato' }) : describeResultError(err)}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleSaveRaceEntries()}
+            className="flex-1 py-2 rounded-lg text-xs font-bold bg-blue-600 hover:bg-blue-500 text-white"
+          >
+            {t({ en: 'Save entry list', it: 'Salva lista iscritti', fr: 'Enregistrer la liste', de: 'Starterliste speichern', es: 'Guardar lista', ru: 'Сохранить список', zh: '保存名单', ar: 'حفظ القائمة', ja: 'リストを保存' })}
+          </button>
+          {raceEntries.source === 'admin' && (
+            <button
+              onClick={() => handleSaveRaceEntries(true)}
+              className="px-3 py-2 rounded-lg text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200"
+            >
+              {t({ en: 'Use OpenF1', it: 'Usa OpenF1' })}
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const describeResultError = (err: ResultFieldError) => {
+    switch (err.code) {
+      case 'required': return t({ en: 'Required', it: 'Obbligatorio' });
+      case 'not_an_integer': return t({ en: 'Must be a whole number', it: 'Deve essere un numero intero' });
+      case 'out_of_range': return t({ en: `Between ${err.min} and ${err.max}`, it: `Tra ${err.min} e ${err.max}` });
+      case 'duplicate': return t({ en: 'Position already taken', it: 'Posizione già assegnata' });
+      case 'missing_driver': return t({ en: 'Missing position', it: 'Posizione mancante' });
+      case 'unknown_driver': return t({ en: 'Unknown driver', it: 'Pilota sconosciuto' });
+      case 'unknown_constructor': return t({ en: 'Unknown constructor', it: 'Scuderia sconosciuta' });
+      case 'conflict': return t({ en: 'Only one of DNF, DNS or DSQ', it: 'Solo uno tra DNF, DNS o DSQ' });
+      default: return t({ en: 'Invalid value', it: 'Valore non valido' });
+    }
+  };
+
+  const describeRaceStatus = (status: RaceStatus) => {
+    switch (status) {
+      case 'scheduled': return t({ en: 'Scheduled', it: 'In programma' });
+      case 'locked': return t({ en: 'Locked', it: 'Bloccata' });
+      case 'in_progress': return t({ en: 'In progress', it: 'In corso' });
+      case 'provisional': return t({ en: 'Provisional', it: 'Provvisoria' });
+      case 'final': return t({ en: 'Final', it: 'Definitiva' });
+      case 'cancelled': return t({ en: 'Cancelled', it: 'Annullata' });
+      case 'postponed': return t({ en: 'Postponed', it: 'Rinviata' });
+    }
+  };
+
+  const renderManualResults = () => {
+    if (!data || !manualResults) return null;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return null;
+    const sessions = currentRace.isSprint ? (['quali', 'sprintQuali', 'sprint', 'race'] as const) : (['quali', 'race'] as const);
+    const sessionLabels = {
+      quali: t({ en: 'Qualifying', it: 'Qualifiche', fr: 'Qualifications', de: 'Qualifying', es: 'Clasificación', ru: 'Квалификация', zh: '排位赛', ar: 'التأهيل', ja: '予選' }),
+      sprintQuali: t({ en: 'Sprint Quali', it: 'Qualifiche Sprint', fr: 'Qualif. Sprint', de: 'Sprint-Quali', es: 'Clasif. Sprint', ru: 'Спринт-квал.', zh: '冲刺排位', ar: 'تأهيل السرعة', ja: 'スプリント予選' }),
+      sprint: t({ en: 'Sprint', it: 'Sprint', fr: 'Sprint', de: 'Sprint', es: 'Sprint', ru: 'Спринт', zh: '冲刺赛', ar: 'السرعة', ja: 'スプリント' }),
+      race: t({ en: 'Race', it: 'Gara', fr: 'Course', de: 'Rennen', es: 'Carrera', ru: 'Гонка', zh: '正赛', ar: 'السباق', ja: '決勝' }),
+    };
+    const positions = manualResults[manualSession] || {};
+    const rows = [...manualDrivers].sort((a, b) => (positions[a.id] ?? 999) - (positions[b.id] ?? 999));
+    const statusOf = (id: string) => (['dnfDrivers', 'dnsDrivers', 'dsqDrivers'] as const).find(key => manualResults[key].includes(id)) || '';
+    const sessionError = manualErrors.find(e => e.field === manualSession);
+    return (
+      <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 mb-3 space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold text-white">
+            {t({ en: 'Manual results', it: 'Risultati manuali', fr: 'Résultats manuels', de: 'Manuelle Ergebnisse', es: 'Resultados manuales', ru: 'Ручные результаты', zh: '手动结果', ar: 'نتائج يدوية', ja: '手動結果' })}
+          </h4>
+          <button onClick={() => setManualResults(null)} className="text-slate-400 hover:text-white text-xs">✕</button>
+        </div>
+        <div className="flex gap-1">
+          {sessions.map(session => (
+            <button
+              key={session}
+              onClick={() => setManualSession(session)}
+              className={`flex-1 py-1 rounded text-[10px] font-bold ${manualSession === session ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'} ${manualErrors.some(e => e.field === session || e.field.startsWith(`${session}.`)) ? 'ring-1 ring-red-500' : ''}`}
+            >
+              {sessionLabels[session]}
+            </button>
+          ))}
+        </div>
+        {sessionError && <p className="text-[10px] text-red-400">{describeResultError(sessionError)}</p>}
+        <div className="divide-y divide-slate-800 max-h-80 overflow-y-auto">
+          {rows.map(driver => {
+            const err = manualErrors.find(e => e.field === `${manualSession}.${driver.id}`)
+              || (manualSession === 'race' ? manualErrors.find(e => e.field.endsWith(`Drivers.${driver.id}`)) : undefined);
+            const status = statusOf(driver.id);
+            return (
+              <div key={driver.id} className="py-1">
+                <div className="flex items-center gap-2 text-xs">
+                  <input
+                    type="number"
+                    min={1}
+                    value={positions[driver.id] ?? ''}
+                    disabled={manualSession === 'race' && status === 'dnsDrivers'}
+                    onChange={e => handleManualPosition(driver.id, e.target.value)}
+                    className={`w-12 bg-slate-800 rounded px-1 py-0.5 text-white font-mono disabled:opacity-40 ${err ? 'border border-red-500' : 'border border-slate-700'}`}
+                  />
+                  <span className="flex-1 truncate text-slate-200">{driver.name}</span>
+                  {manualSession === 'race' && (
+                    <select
+                      value={status}
+                      onChange={e => handleManualStatus(driver.id, e.target.value as '' | 'dnfDrivers' | 'dnsDrivers' | 'dsqDrivers')}
+                      className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200"
+                    >
+                      <option value="">—</option>
+                      <option value="dnfDrivers">DNF</option>
+                      <option value="dnsDrivers">DNS</option>
+                      <option value="dsqDrivers">DSQ</option>
+                    </select>
+                  )}
+                </div>
+                {err && <p className="text-[10px] text-red-400 mt-0.5 ml-14">{describeResultError(err)}</p>}
+              </div>
+            );
+          })}
+        </div>
+        {manualSession === 'race' && (
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            {t({ en: 'Fastest lap', it: 'Giro più veloce', fr: 'Meilleur tour', de: 'Schnellste Runde', es: 'Vuelta rápida', ru: 'Быстрый круг', zh: '最快圈', ar: 'أسرع لفة', ja: 'ファステストラップ' })}
+            <select
+              value={manualResults.fastestLap || ''}
+              onChange={e => setManualResults({ ...manualResults, fastestLap: e.target.value || null })}
+              className="flex-1 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+            >
+              <option value="">—</option>
+              {fetchedDrivers.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+          </label>
+        )}
+        <button
+          onClick={handlePreviewManualResults}
+          disabled={syncing}
+          className="w-full py-2 rounded-lg text-xs font-bold bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+        >
+          {t({ en: 'Review and save', it: 'Controlla e salva', fr: 'Vérifier et enregistrer', de: 'Prüfen und speichern', es: 'Revisar y guardar', ru: 'Проверить и сохранить', zh: '检查并保存', ar: 'مراجعة وحفظ', ja: '確認して保存' })}
+        </button>
+      </div>
+    );
+  };
+
+  const handleLoadRevisions = async () => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      const res = await getResultRevisions(currentRace.id);
+      setResultRevisions(res.revisions);
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not load result history', it: 'Impossibile caricare lo storico risultati' }));
+    }
+  };
+
+  const handleRevertRevision = async (revision: ResultRevision) => {
+    if (!data) return;
+    const currentRace = races[data.currentRaceIndex];
+    if (!currentRace) return;
+    try {
+      setSyncing(true);
+      const result = await revertRaceResults(currentRace.id, revision.id, { dryRun: true });
+      if (result.ok && result.diff && result.confirmToken) {
+        setSyncPreview({ raceId: currentRace.id, diff: result.diff, confirmToken: result.confirmToken, revisionId: revision.id });
+      }
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Revert failed', it: 'Ripristino fallito' }));
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const describeResultSource = (source: ResultRevision['source']) => {
+    switch (source) {
+      case 'openf1_sync': return t({ en: 'OpenF1 sync', it: 'Sincronizzazione OpenF1' });
+      case 'cron_resync': return t({ en: 'Scheduled resync', it: 'Risincronizzazione automatica' });
+      case 'manual': return t({ en: 'Manual entry', it: 'Inserimento manuale' });
+      case 'simulation': return t({ en: 'Simulation', it: 'Simulazione' });
+      case 'revert': return t({ en: 'Revert', it: 'Ripristino' });
+      default: return t({ en: 'Before history', it: 'Prima dello storico' });
+    }
+  };
+
+  const renderResultRevisions = () => {
+    if (!resultRevisions) return null;
+    return (
+      <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 mb-3 space-y-2">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold text-white">
+            {t({ en: 'Result history', it: 'Storico risultati', fr: 'Historique des résultats', de: 'Ergebnisverlauf', es: 'Historial de resultados', ru: 'История результатов', zh: '结果历史', ar: 'سجل النتائج', ja: '結果の履歴' })}
+          </h4>
+          <button onClick={() => setResultRevisions(null)} className="text-slate-400 hover:text-white text-xs">✕</button>
+        </div>
+        {resultRevisions.length === 0 && (
+          <p className="text-xs text-slate-400">{t({ en: 'No revisions yet.', it: 'Ancora nessuna revisione.' })}</p>
+        )}
+        <div className="divide-y divide-slate-800 max-h-64 overflow-y-auto">
+          {resultRevisions.map(rev => (
+            <div key={rev.id} className="flex items-center gap-2 py-1.5 text-xs">
+              <span className="w-8 font-mono text-slate-400">#{rev.revision}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-200 truncate">
+                  {describeResultSource(rev.source)}
+                  {rev.revertOf !== null && <span className="text-slate-500"> → #{rev.revertOf}</span>}
+                  {rev.actorName && <span className="text-slate-500"> · {rev.actorName}</span>}
+                </p>
+                <p className="text-[10px] text-slate-500">
+                  {new Date(rev.createdAt).toLocaleString()} · {t({ en: `${rev.summary.length} changes`, it: `${rev.summary.length} modifiche` })}
+                </p>
+              </div>
+              {rev.current ? (
+                <span className="text-[10px] font-bold text-green-400 uppercase">{t({ en: 'Current', it: 'Attuale' })}</span>
+              ) : (
+                <button
+                  onClick={() => handleRevertRevision(rev)}
+                  disabled={syncing}
+                  className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold disabled:opacity-50"
+                >
+                  {t({ en: 'Revert', it: 'Ripristina', fr: 'Rétablir', de: 'Zurücksetzen', es: 'Revertir', ru: 'Откатить', zh: '恢复', ar: 'استعادة', ja: '元に戻す' })}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const formatDiffValue = (value: unknown) => {
+    if (value === null || value === undefined) return '—';
+    if (typeof value === 'boolean') return value ? '✓' : '✗';
+    return String(value);
+  };
+
+  const renderSyncPreview = () => {
+    if (!syncPreview) return null;
+    const { classification, teams } = syncPreview.diff;
+    const driverName = (id: string | null) => (id && fetchedDrivers.find(d => d.id === id)?.name) || id || '';
+    return (
+      <div className="bg-slate-900/60 rounded-lg border border-blue-700/50 p-3 mb-3 space-y-3">
+        <div className="flex justify-between items-center">
+          <h4 className="text-sm font-bold text-white">
+            {t({ en: 'Review changes', it: 'Controlla le modifiche', fr: 'Vérifier les changements', de: 'Änderungen prüfen', es: 'Revisar cambios', ru: 'Проверить изменения', zh: '检查更改', ar: 'مراجعة التغييرات', ja: '変更を確認' })}
+          </h4>
+          <button onClick={() => setSyncPreview(null)} className="text-slate-400 hover:text-white text-xs">✕</button>
+        </div>
+        {classification.length === 0 && teams.length === 0 && (
+          <p className="text-xs text-slate-400">{t({ en: 'Nothing would change.', it: 'Non cambierebbe nulla.' })}</p>
+        )}
+        {classification.length > 0 && (
+          <div>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">{t({ en: 'Classification', it: 'Classifica' })}</p>
+            <div className="divide-y divide-slate-800 max-h-40 overflow-y-auto">
+              {classification.map((change, i) => (
+                <div key={`${change.session}-${change.driverId}-${i}`} className="flex items-center gap-2 py-1 text-xs">
+                  <span className="w-24 text-slate-500">{change.session}</span>
+                  <span className="flex-1 truncate text-slate-200">{driverName(change.driverId)}</span>
+                  <span className="font-mono text-slate-500">{formatDiffValue(change.before)}</span>
+                  <span className="text-slate-600">→</span>
+                  <span className="font-mono text-white">{formatDiffValue(change.after)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {teams.length > 0 && (
+          <div>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">{t({ en: 'Team points', it: 'Punti squadre' })}</p>
+            <div className="divide-y divide-slate-800 max-h-48 overflow-y-auto">
+              {teams.map(team => (
+                <div key={team.teamId} className="flex items-center gap-3 py-1 text-xs">
+                  <span className="flex-1 truncate text-slate-200">{team.teamName || team.userName || team.teamId}</span>
+                  <span className="font-mono text-slate-500">{team.oldPoints === null ? '—' : team.oldPoints.toFixed(1)}</span>
+                  <span className="font-mono text-white">{team.newPoints === null ? '—' : team.newPoints.toFixed(1)}</span>
+                  <span className={`w-14 text-right font-mono ${team.delta > 0 ? 'text-green-400' : team.delta < 0 ? 'text-red-400' : 'text-slate-600'}`}>
+                    {team.delta > 0 ? '+' : ''}{team.delta.toFixed(1)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={() => setSyncPreview(null)}
+            disabled={syncing}
+            className="flex-1 py-2 rounded-lg text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200"
+          >
+            {t({ en: 'Cancel', it: 'Annulla', fr: 'Annuler', de: 'Abbrechen', es: 'Cancelar', ru: 'Отмена', zh: '取消', ar: 'إلغاء', ja: 'キャンセル' })}
+          </button>
+          <button
+            onClick={handleConfirmSync}
+            disabled={syncing}
+            className="flex-1 py-2 rounded-lg text-xs font-bold bg-blue-600 hover:bg-blue-500 text-white disabled:opacity-50"
+          >
+            {syncPreview.manualResults
+              ? t({ en: 'Confirm and pin', it: 'Conferma e blocca', fr: 'Confirmer et épingler', de: 'Bestätigen und fixieren', es: 'Confirmar y fijar', ru: 'Подтвердить и закрепить', zh: '确认并锁定', ar: 'تأكيد وتثبيت', ja: '確定して固定' })
+              : syncPreview.revisionId
+                ? t({ en: 'Confirm revert', it: 'Conferma ripristino', fr: 'Confirmer le rétablissement', de: 'Zurücksetzen bestätigen', es: 'Confirmar reversión', ru: 'Подтвердить откат', zh: '确认恢复', ar: 'تأكيد الاستعادة', ja: '復元を確定' })
+                : t({ en: 'Confirm sync', it: 'Conferma sincronizzazione', fr: 'Confirmer la sync', de: 'Sync bestätigen', es: 'Confirmar sincronización', ru: 'Подтвердить синхр.', zh: '确认同步', ar: 'تأكيد المزامنة', ja: '同期を確定' })}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+
+
+  const describeLiveSession = (name: NonNullable<LiveSnapshot['session']>['name']) => {
+    switch (name) {
+      case 'Qualifying': return t({ en: 'Qualifying', it: 'Qualifiche', fr: 'Qualifications', de: 'Qualifying', es: 'Clasificación', ru: 'Квалификация', zh: '排位赛', ar: 'التأهيل', ja: '予選' });
+      case 'Sprint Qualifying': return t({ en: 'Sprint Qualifying', it: 'Qualifiche Sprint', fr: 'Qualif. Sprint', de: 'Sprint-Qualifying', es: 'Clasificación Sprint', ru: 'Квалификация спринта', zh: '冲刺排位赛', ar: 'تأهيل السباق القصير', ja: 'スプリント予選' });
+      case 'Sprint': return t({ en: 'Sprint', it: 'Sprint', fr: 'Sprint', de: 'Sprint', es: 'Sprint', ru: 'Спринт', zh: '冲刺赛', ar: 'السباق القصير', ja: 'スプリント' });
+      default: return t({ en: 'Race', it: 'Gara', fr: 'Course', de: 'Rennen', es: 'Carrera', ru: 'Гонка', zh: '正赛', ar: 'السباق', ja: '決勝' });
+    }
+  };
+
+  const renderLive = () => {
+    const myTeam = liveSnapshot?.teams.find((team) => team.userId === data?.user?.id) || null;
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-bold text-white flex items-center gap-2">
+          <span className="text-3xl">🔴</span> {t({ en: 'Live', it: 'Live', fr: 'Direct', de: 'Live', es: 'En vivo', ru: 'Онлайн', zh: '直播', ar: 'مباشر', ja: 'ライブ' })}
+        </h1>
+
+        {!liveSnapshot ? (
+          <div className="p-8 text-center text-slate-500 animate-pulse">{t({ en: 'Connecting...', it: 'Connessione...' })}</div>
+        ) : !liveSnapshot.live ? (
+          <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 text-center">
+            <p className="text-sm font-bold text-white">{t({ en: 'No session running', it: 'Nessuna sessione in corso', fr: 'Aucune session en cours', de: 'Keine laufende Session', es: 'Ninguna sesión en curso', ru: 'Сессия не идёт', zh: '当前没有进行中的赛段', ar: 'لا توجد جلسة جارية', ja: '進行中のセッションはありません' })}</p>
+            <p className="text-xs text-slate-400 mt-2">
+              {t({ en: 'Provisional points appear here during qualifying, the sprint and the race.', it: 'I punti provvisori compaiono qui durante qualifiche, sprint e gara.' })}
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 flex items-center justify-between">
+              <div>
+                <div className="text-[10px] font-bold uppercase tracking-widest text-red-400 flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+                  {liveSnapshot.session ? describeLiveSession(liveSnapshot.session.name) : ''}
+                </div>
+                <div className="text-sm font-bold text-white">{liveSnapshot.raceName}</div>
+                <div className="text-[10px] text-slate-500">
+                  {t({ en: 'Provisional, updated', it: 'Provvisorio, aggiornato' })} {new Date(liveSnapshot.updatedAt).toLocaleTimeString()}
+                </div>
+              </div>
+              {myTeam && (
+                <div className="text-right">
+                  <div className="text-2xl font-mono font-bold text-white">{myTeam.livePoints}</div>
+                  <div className="text-[10px] uppercase tracking-widest text-slate-500">P{myTeam.rank}</div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+              <div className="bg-slate-700/50 p-3 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-300">
+                {t({ en: 'Provisional standings', it: 'Classifica provvisoria', fr: 'Classement provisoire', de: 'Vorläufige Rangliste', es: 'Clasificación provisional', ru: 'Предварительный зачет', zh: '临时排名', ar: 'الترتيب المؤقت', ja: '暫定順位' })}
+              </div>
+              <div className="divide-y divide-slate-700">
+                {liveSnapshot.teams.map((team) => {
+                  const moved = team.previousRank - team.rank;
+                  return (
+                    <div key={team.teamId} className={`flex items-center justify-between p-3 ${team.userId === data?.user?.id ? 'bg-blue-900/20' : ''}`}>
+                      <div className="flex items-center gap-3">
+                        <span className="w-6 text-center font-mono font-bold text-slate-400">{team.rank}</span>
+                        <span className={`w-6 text-[10px] font-bold ${moved > 0 ? 'text-green-400' : moved < 0 ? 'text-red-400' : 'text-slate-600'}`}>
+                          {moved > 0 ? `▲${moved}` : moved < 0 ? `▼${-moved}` : '–'}
+                        </span>
+                        <div>
+                          <div className="text-sm font-bold text-white">{team.teamName || team.userName}</div>
+                          <div className="text-[10px] text-slate-500">{team.userName}</div>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-sm font-mono font-bold text-white">{team.totalPoints}</div>
+                        <div className={`text-[10px] font-mono ${team.livePoints >= 0 ? 'text-green-400' : 'text-red-400'}`}>{team.livePoints >= 0 ? '+' : ''}{team.livePoints}</div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+              <div className="bg-slate-700/50 p-3 border-b border-slate-700 font-bold text-xs uppercase tracking-widest text-slate-300">
+                {t({ en: 'Driver points', it: 'Punti piloti', fr: 'Points pilotes', de: 'Fahrerpunkte', es: 'Puntos pilotos', ru: 'Очки пилотов', zh: '车手积分', ar: 'نقاط السائقين', ja: 'ドライバーポイント' })}
+              </div>
+              <div className="divide-y divide-slate-700">
+                {liveSnapshot.drivers.map((driver) => {
+                  const mine = myTeam?.driverIds.includes(driver.id);
+                  return (
+                    <div key={driver.id} className={`flex items-center justify-between px-3 py-2 text-xs ${mine ? 'bg-blue-900/20' : ''}`}>
+                      <span className={mine ? 'font-bold text-white' : 'text-slate-300'}>
+                        {driver.name}{myTeam?.captainId === driver.id ? ' (C)' : ''}
+                      </span>
+                      <span className="font-mono text-slate-200">{driver.points}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
 
   const renderStandings = () => {
     const selectedRaceForResults = racesWithResults.find((race) => race.id === selectedRaceId) || racesWithResults[0] || null;
@@ -1124,6 +2015,7 @@ const App: React.FC = () => {
       <div className="space-y-6">
         <h1 className="text-2xl font-bold text-white flex items-center gap-2">
            <span className="text-3xl">🏆</span> {t({ en: 'Standings', it: 'Classifica' })}
+           {leagueSeasons?.current && <span className="text-sm font-mono text-slate-500">{leagueSeasons.current}</span>}
         </h1>
 
       {/* Official Results Button Area */}
@@ -1144,7 +2036,7 @@ const App: React.FC = () => {
                   >
                     {racesWithResults.map((race) => (
                       <option key={race.id} value={race.id}>
-                        {race.name.replace(' Grand Prix', '')}
+                        {race.name.replace(' Grand Prix', '')}{race.isCompleted ? '' : ` (${t({ en: 'in progress', it: 'in corso' })})`}
                       </option>
                     ))}
                   </select>
@@ -1306,10 +2198,59 @@ const App: React.FC = () => {
                       ja: '現状は表彰台のみ — 他のマネージャーを招待しましょう。',
                     })}
                   </div>
-                )}
-             </div>
-           )}
-        </div>
+                )}
+             </div>
+           )}
+        </div>
+
+        {/* Rules changes — every member can see when and how scoring changed */}
+        {rulesHistory.length > 1 && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-widest">{t({ en: 'Rules Changes', it: 'Modifiche Regole', fr: 'Modifications des règles', de: 'Regeländerungen', es: 'Cambios de reglas', ru: 'Изменения правил', zh: '规则变更', ar: 'تغييرات القواعد', ja: 'ルール変更履歴' })}</h2>
+            {renderRulesHistory()}
+          </div>
+        )}
+
+        {/* Past seasons — final standings archived by the season rollover */}
+        {leagueSeasons && leagueSeasons.archived.length > 0 && (
+          <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 space-y-3">
+            <h2 className="text-sm font-bold text-slate-500 uppercase tracking-widest">{t({ en: 'Past Seasons', it: 'Stagioni Passate', fr: 'Saisons passées', de: 'Vergangene Saisons', es: 'Temporadas pasadas', ru: 'Прошлые сезоны', zh: '往届赛季', ar: 'المواسم السابقة', ja: '過去のシーズン' })}</h2>
+            <div className="flex flex-wrap gap-2">
+              {leagueSeasons.archived.map(s => (
+                <button
+                  key={s.season}
+                  onClick={() => handleViewSeason(s.season)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold border ${archivedSeason?.season === s.season ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-600 text-slate-300 hover:border-blue-500'}`}
+                >
+                  {s.season}
+                </button>
+              ))}
+            </div>
+            {archivedSeason && (
+              <div className="divide-y divide-slate-700/50">
+                {archivedSeason.standings.map(s => (
+                  <div key={s.userId} className="flex items-center justify-between py-2 gap-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="w-6 text-center font-mono font-bold text-slate-400">{s.rank}</span>
+                      <div className="min-w-0">
+                        <div className="text-white font-bold truncate">{s.userName}</div>
+                        <div className="text-[10px] text-slate-500 truncate">
+                          {s.teamName || ''} · {s.results.length} {t({ en: 'races', it: 'gare' })}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <div className="font-mono font-bold text-blue-400">{s.totalPoints.toFixed(1)}</div>
+                      {s.penaltyPoints !== 0 && (
+                        <div className="text-[10px] text-slate-500 font-mono">{t({ en: 'Penalty', it: 'Penalità' })}: {s.penaltyPoints.toFixed(1)}</div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Scene modal — click on any user's helmet/emblem/podium opens this */}
         <DriverCardModal
@@ -1319,6 +2260,43 @@ const App: React.FC = () => {
         />
 
         {/* Modal: Team Lineup Detail */}
+        {priceDetail && (
+          <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-slate-900 border border-slate-700 w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+              <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-800/50">
+                <div>
+                  <h3 className="text-lg font-bold text-white">{priceDetail.name}</h3>
+                  <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{t({ en: 'Price history', it: 'Storico prezzi' })} — ${priceDetail.price}M</p>
+                </div>
+                <button onClick={() => setPriceDetail(null)} className="p-2 hover:bg-slate-700 rounded-full text-slate-400">✕</button>
+              </div>
+              <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                {priceDetail.history.length === 0 ? (
+                  <div className="text-center text-slate-500 text-sm">{t({ en: 'No price changes yet.', it: 'Nessuna variazione di prezzo.' })}</div>
+                ) : (
+                  [...priceDetail.history].reverse().map((h, i) => (
+                    <div key={i} className="p-3 rounded-xl border bg-slate-800/50 border-slate-700/30">
+                      <div className="flex justify-between items-center">
+                        <div className="text-sm text-white font-medium">{h.source === 'admin' ? t({ en: 'Admin edit', it: 'Modifica admin' }) : h.raceName}</div>
+                        <div className={`font-mono text-sm ${h.change > 0 ? 'text-green-400' : h.change < 0 ? 'text-red-400' : 'text-slate-400'}`}>
+                          {h.change > 0 ? '+' : ''}{h.change.toFixed(1)}M → ${h.newPrice}M
+                        </div>
+                      </div>
+                      {h.source === 'auto' && (
+                        <div className="mt-1 text-[10px] text-slate-400 font-mono flex flex-wrap gap-x-3">
+                          <span>{t({ en: 'Pts', it: 'Punti' })}: {h.points?.toFixed(1)} / {t({ en: 'exp.', it: 'att.' })} {h.expected?.toFixed(1)}</span>
+                          {h.form !== null && <span>{t({ en: 'Form', it: 'Forma' })}: {h.form.toFixed(1)}</span>}
+                          {h.ownership !== null && <span>{t({ en: 'Owned', it: 'Posseduto' })}: {(h.ownership * 100).toFixed(0)}%</span>}
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {viewingResult && (() => {
           const res = viewingResult;
           const selectedRace = races.find(r => r.id === selectedRaceId);
@@ -1331,6 +2309,9 @@ const App: React.FC = () => {
                       <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">
                         {selectedRace?.name || t({ en: 'Race Results', it: 'Risultati Gara' })} — {res.points?.toFixed(1)} {t({ en: 'pts', it: 'punti' })}
                       </p>
+                      {res.chip && (
+                        <span className="inline-block mt-1 text-[10px] bg-purple-600 text-white font-bold px-1.5 rounded">{chipLabel(res.chip)}</span>
+                      )}
                     </div>
                     <button onClick={() => setViewingResult(null)} className="p-2 hover:bg-slate-700 rounded-full text-slate-400">✕</button>
                   </div>
@@ -1451,6 +2432,9 @@ const App: React.FC = () => {
                     <div>
                       <h3 className="text-lg font-bold text-white">{race.name}</h3>
                       <p className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{t({ en: 'Official Results', it: 'Risultati Ufficiali' })}</p>
+                      {officialResultsChip && (
+                        <span className="inline-block mt-1 text-[10px] bg-purple-600 text-white font-bold px-1.5 rounded">{t({ en: 'Your chip', it: 'Il tuo chip' })}: {chipLabel(officialResultsChip)}</span>
+                      )}
                     </div>
                     <button onClick={() => setViewingOfficialResultsRaceId(null)} className="p-2 hover:bg-slate-700 rounded-full text-slate-400">✕</button>
                   </div>
@@ -1461,13 +2445,13 @@ const App: React.FC = () => {
                        onClick={() => setActiveResultSession('race')}
                        className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase transition-all flex items-center gap-1.5 whitespace-nowrap ${activeResultSession === 'race' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
                      >
-                       <span className="text-xs">🏁</span> {t({ en: 'Race', it: 'Gara' })}
+                       <span className="text-xs">🏁</span> {t({ en: 'Race', it: 'Gara' })} {race.sessionStatus?.race === 'pending' && <span title={t({ en: 'Not final yet', it: 'Non ancora definitivo' })}>⏳</span>}
                      </button>
                      <button 
                        onClick={() => setActiveResultSession('quali')}
                        className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase transition-all flex items-center gap-1.5 whitespace-nowrap ${activeResultSession === 'quali' ? 'bg-purple-600 text-white shadow-lg shadow-purple-900/40' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
                      >
-                       <span className="text-xs">⏱️</span> {t({ en: 'Quali', it: 'Quali' })}
+                       <span className="text-xs">⏱️</span> {t({ en: 'Quali', it: 'Quali' })} {race.sessionStatus?.quali === 'pending' && <span title={t({ en: 'Not final yet', it: 'Non ancora definitivo' })}>⏳</span>}
                      </button>
                      {race.isSprint && (
                        <>
@@ -1475,13 +2459,13 @@ const App: React.FC = () => {
                            onClick={() => setActiveResultSession('sprint')}
                            className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase transition-all flex items-center gap-1.5 whitespace-nowrap ${activeResultSession === 'sprint' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
                          >
-                           Sprint
+                           Sprint {race.sessionStatus?.sprint === 'pending' && <span title={t({ en: 'Not final yet', it: 'Non ancora definitivo' })}>⏳</span>}
                          </button>
                          <button 
                            onClick={() => setActiveResultSession('sprintQuali')}
                            className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase transition-all flex items-center gap-1.5 whitespace-nowrap ${activeResultSession === 'sprintQuali' ? 'bg-blue-600 text-white shadow-lg shadow-blue-900/40' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
                          >
-                           S.Quali
+                           S.Quali {race.sessionStatus?.sprintQuali === 'pending' && <span title={t({ en: 'Not final yet', it: 'Non ancora definitivo' })}>⏳</span>}
                          </button>
                        </>
                      )}
@@ -1505,6 +2489,11 @@ const App: React.FC = () => {
                         {t({ en: 'Loading league breakdown...', it: 'Caricamento breakdown lega...' })}
                       </div>
                     )}
+                    {(activeResultSession === 'race' || activeResultSession === 'quali' || activeResultSession === 'sprint' || activeResultSession === 'sprintQuali') && race.sessionStatus?.[activeResultSession] === 'pending' && (
+                      <div className="rounded-xl border border-slate-700 bg-slate-800/40 px-4 py-3 text-xs text-slate-400">
+                        {t({ en: 'This session is not final yet. Its points are added to the standings as soon as it is.', it: 'Questa sessione non è ancora definitiva. I suoi punti entrano in classifica appena lo è.' })}
+                      </div>
+                    )}
                     {officialResultsError && !officialResultsData && (
                       <div className="rounded-xl border border-amber-700/60 bg-amber-950/30 px-4 py-3 text-xs text-amber-200">
                         {t({ en: 'League breakdown unavailable. Showing stored race data.', it: 'Breakdown lega non disponibile. Mostro i dati gara salvati.' })}
@@ -1528,11 +2517,13 @@ const App: React.FC = () => {
                               <th className="p-3 whitespace-nowrap">#</th>
                               <th className="p-3 whitespace-nowrap">Pilota</th>
                               <th className="p-3 text-center" title="Punti Posizione Gara">Gara</th>
+                              <th className="p-3 text-center" title="Giro Veloce">GV</th>
                               <th className="p-3 text-center" title="Punti Sprint">Spr</th>
                               <th className="p-3 text-center" title="Punti Sorpassi/Overtakes">Sor</th>
                               <th className="p-3 text-center" title="Confronto Compagno">Cmp</th>
                               <th className="p-3 text-center" title="Ritiro / DNF">Rit</th>
                               <th className="p-3 text-center" title="Ultimo posto">Ult</th>
+                              <th className="p-3 text-center" title="Penalità Gara / Griglia">Pen</th>
                               <th className="p-3 text-center" title="Pole Position / Sprint Pole">Pol</th>
                               <th className="p-3 text-center" title="Sessione Qualifiche">Qua</th>
                               <th className="p-3 text-center" title="Moltiplicatore Costruttore">Mul</th>
@@ -1550,13 +2541,20 @@ const App: React.FC = () => {
                                return (
                                  <tr key={dId} className="border-b border-slate-800/50 hover:bg-slate-800/30">
                                    <td className="p-2">{idx+1}</td>
-                                   <td className="p-2 font-bold text-white whitespace-nowrap">{driver?.name || dId}</td>
+                                   <td className="p-2 font-bold text-white whitespace-nowrap">
+                                     {driver?.name || dId}
+                                     {officialResultsLineup?.captainId === dId && <span className="ml-1 text-[10px] text-yellow-500" title={t({ en: 'Your captain', it: 'Il tuo capitano' })}>👑</span>}
+                                     {officialResultsLineup?.reserveId === dId && <span className="ml-1 text-[10px] text-slate-400" title={t({ en: 'Your reserve', it: 'La tua riserva' })}>🔄</span>}
+                                     {officialResultsLineup?.driverIds.includes(dId) && officialResultsLineup.captainId !== dId && officialResultsLineup.reserveId !== dId && <span className="ml-1 text-[10px] text-blue-400" title={t({ en: 'In your lineup', it: 'Nella tua formazione' })}>●</span>}
+                                   </td>
                                    <td className="p-2 text-center text-emerald-400">{f(bd.racePosition)}</td>
+                                   <td className="p-2 text-center text-emerald-300">{f(bd.fastestLap || 0)}</td>
                                    <td className="p-2 text-center text-blue-400">{f(bd.sprint)}</td>
                                    <td className="p-2 text-center">{f(bd.overtakes)}</td>
                                    <td className="p-2 text-center">{f(bd.teammate)}</td>
                                    <td className="p-2 text-center text-red-400">{f(bd.dnf)}</td>
                                    <td className="p-2 text-center text-red-300">{f(bd.lastPlace)}</td>
+                                   <td className="p-2 text-center text-red-300">{f((bd.racePenalty || 0) + (bd.gridPenalty || 0))}</td>
                                    <td className="p-2 text-center text-purple-400">
                                      {f(bd.qualiPole)}
                                      {bd.sprintPole > 0 && <span className="text-[10px] ml-1 opacity-70">+{bd.sprintPole}</span>}
@@ -1643,9 +2641,11 @@ const App: React.FC = () => {
   const handleSellDriver = async (driver: Driver) => {
     if (!data?.user) return;
     if (!confirm(t({ en: `Sell ${driver.name} for $${driver.price}M?`, it: `Vendere ${driver.name} per ${driver.price}M?` }))) return;
+    if (!confirmTransferCost()) return;
 
     try {
       await updateMarket(data.user.leagueId, undefined, driver.id);
+      refreshTransfers();
       const updatedData = await getMe();
       const league = updatedData.leagues.find(l => l.id === data.user?.leagueId);
       if (league?.team) {
@@ -1786,7 +2786,7 @@ const App: React.FC = () => {
                 type="password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                placeholder={t({ en: 'Min 3 chars', it: 'Min 3 caratteri' })}
+                placeholder={isRegistering ? t({ en: `Min ${PASSWORD_MIN_LENGTH} chars`, it: `Min ${PASSWORD_MIN_LENGTH} caratteri` }) : ''}
                 className="w-full bg-slate-900 border border-slate-700 rounded p-3 text-white focus:outline-none focus:border-blue-500"
                 />
             </div>
@@ -1841,9 +2841,12 @@ const App: React.FC = () => {
 
           <button
             onClick={handleAuth}
-            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-bold py-3 px-4 rounded transition-all shadow-lg transform hover:scale-[1.02] flex items-center justify-center gap-2"
+            disabled={authRetrySeconds > 0}
+            className="w-full bg-gradient-to-r from-blue-600 to-blue-500 hover:from-blue-500 hover:to-blue-400 text-white font-bold py-3 px-4 rounded transition-all shadow-lg transform hover:scale-[1.02] flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
           >
-            {isRegistering 
+            {authRetrySeconds > 0
+                ? t({ en: `Try again in ${authRetrySeconds}s`, it: `Riprova tra ${authRetrySeconds}s` })
+                : isRegistering 
                 ? (loginMode === 'create' ? t({ en: 'Register & Create League', it: 'Registrati e Crea Lega' }) : t({ en: 'Register & Join League', it: 'Registrati e Unisciti' }))
                 : t({ en: 'Login to Account', it: 'Accedi all\'Account' })
             }
@@ -2053,6 +3056,50 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 )}
+                {/* Devices: one session per login, see /me/sessions */}
+                <div className="border border-slate-700/50 bg-slate-900/50 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t({ en: 'Devices', it: 'Dispositivi', fr: 'Appareils', de: 'Geräte', es: 'Dispositivos', ru: 'Устройства', zh: '设备', ar: 'الأجهزة', ja: 'デバイス' })}</h4>
+                    <button
+                      onClick={() => (sessions ? setSessions(null) : loadSessions())}
+                      className="text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      {sessions ? t({ en: 'Hide', it: 'Nascondi' }) : t({ en: 'Show', it: 'Mostra' })}
+                    </button>
+                  </div>
+                  {sessionsError && <p className="text-red-300 text-xs mt-2">{sessionsError}</p>}
+                  {sessions && (
+                    <div className="mt-2 space-y-2">
+                      {sessions.map(s => (
+                        <div key={s.id} className="flex items-center justify-between gap-2 text-sm">
+                          <div className="min-w-0">
+                            <div className="text-slate-200 truncate">
+                              {s.device || t({ en: 'Unknown device', it: 'Dispositivo sconosciuto' })}
+                              {s.current && <span className="ml-2 text-[10px] text-green-400 uppercase">{t({ en: 'This device', it: 'Questo dispositivo' })}</span>}
+                            </div>
+                            <div className="text-[11px] text-slate-500">
+                              {t({ en: 'Last active', it: 'Ultimo accesso' })}: {new Date(s.lastSeenAt).toLocaleString()}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => handleRevokeSession(s)}
+                            className="shrink-0 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-1 px-2 rounded border border-slate-600"
+                          >
+                            {t({ en: 'Log out', it: 'Disconnetti' })}
+                          </button>
+                        </div>
+                      ))}
+                      {sessions.some(s => !s.current) && (
+                        <button
+                          onClick={handleRevokeOtherSessions}
+                          className="w-full text-xs bg-red-900/40 hover:bg-red-800/50 text-red-200 py-2 rounded border border-red-900"
+                        >
+                          {t({ en: 'Log out all other devices', it: 'Disconnetti tutti gli altri dispositivi' })}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
                 <button
                   onClick={handleLogout}
                   className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded transition-colors"
@@ -2189,6 +3236,30 @@ const App: React.FC = () => {
                )}
             </div>
 
+            <div className="p-4 bg-slate-800 rounded-lg border border-slate-700 flex justify-between items-center">
+              <div>
+                <p className="text-xs text-slate-400 uppercase">{t({ en: 'Team Value', it: 'Valore Team', fr: "Valeur de l'équipe", de: 'Teamwert', es: 'Valor del Equipo', ru: 'Стоимость команды', zh: '车队价值', ar: 'قيمة الفريق', ja: 'チーム価値' })}</p>
+                <div className="text-xl font-mono text-white">${data.team.totalValue.toFixed(1)}M</div>
+                {teamValueHistory && teamValueHistory.history.length > 0 && (() => {
+                  const start = teamValueHistory.history[0]!.totalValue;
+                  const diff = data.team.totalValue - start;
+                  return (
+                    <div className={`text-[10px] font-mono ${diff >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {diff >= 0 ? '+' : ''}{diff.toFixed(1)}M {t({ en: 'since', it: 'da' })} {teamValueHistory.history[0]!.raceName}
+                    </div>
+                  );
+                })()}
+              </div>
+              {teamValueHistory && (
+                <Sparkline
+                  values={[...teamValueHistory.history.map(h => h.totalValue), data.team.totalValue]}
+                  width={120}
+                  height={36}
+                  title={t({ en: 'Team value after each race', it: 'Valore del team dopo ogni gara' })}
+                />
+              )}
+            </div>
+
             <div className="space-y-2">
               <h3 className="text-lg font-semibold text-slate-200">{t({ en: 'Roster', it: 'Rosa', fr: 'Effectif', de: 'Kader', es: 'Plantilla', ru: 'Состав', zh: '阵容', ar: 'القائمة', ja: 'ロースター' })}</h3>
               {data.team.driverIds.length === 0 ? (
@@ -2216,7 +3287,10 @@ const App: React.FC = () => {
                             <div className="text-xs text-slate-400">{c?.name}</div>
                           </div>
                         </div>
-                        <div className="font-mono text-slate-300">${d?.price}M</div>
+                        <div className="flex items-center gap-2">
+                          <Sparkline values={priceSeries(id)} title={t({ en: 'Price history', it: 'Storico prezzi' })} />
+                          <div className="font-mono text-slate-300">${d?.price}M</div>
+                        </div>
                       </li>
                     );
                   })}
@@ -2341,6 +3415,60 @@ const App: React.FC = () => {
                 })}
               </div>
             )}
+
+            {/* Chips */}
+            {chipsState && chipsState.enabled.length > 0 && (
+              <div className="bg-slate-800 p-4 rounded-lg border border-slate-700 space-y-3">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-lg font-bold text-white">{t({ en: 'Chips', it: 'Chip', fr: 'Jetons', de: 'Chips', es: 'Chips', ru: 'Чипы', zh: '道具', ar: 'الرقائق', ja: 'チップ' })}</h2>
+                  <span className="text-[10px] text-slate-400 uppercase">{t({ en: 'One per weekend', it: 'Uno per weekend' })}</span>
+                </div>
+                {chipsState.active && (
+                  <div className="bg-purple-900/40 border border-purple-600 p-2 rounded flex justify-between items-center">
+                    <div className="text-sm text-purple-200">
+                      {t({ en: 'Active', it: 'Attivo' })}: <span className="font-bold text-white">{chipLabel(chipsState.active.chip)}</span>
+                    </div>
+                    {!chipsState.locked && !(chipsState.active.chip === 'wildcard' && chipsState.active.marketUsed) && (
+                      <button
+                        onClick={handleCancelChip}
+                        disabled={chipBusy}
+                        className="px-3 py-1 text-xs rounded font-bold uppercase bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+                      >
+                        {t({ en: 'Cancel', it: 'Annulla' })}
+                      </button>
+                    )}
+                  </div>
+                )}
+                {chipsState.enabled.map(chip => {
+                  const left = Math.max(0, chipsState.usesPerSeason - (chipsState.used[chip] || 0));
+                  const disabled = chipBusy || chipsState.locked || !chipsState.raceId || !!chipsState.active || left === 0;
+                  return (
+                    <div key={chip} className="flex justify-between items-center">
+                      <div>
+                        <div className="text-white font-medium">{chipLabel(chip)}</div>
+                        {chip === 'triple_captain' && (
+                          <div className="text-xs text-slate-400">{t({ en: 'Captain', it: 'Capitano' })} x{tripleCaptainMultiplier(data.rules)}</div>
+                        )}
+                        <div className="text-xs text-slate-400">{left}/{chipsState.usesPerSeason} {t({ en: 'left this season', it: 'rimasti in stagione' })}</div>
+                      </div>
+                      <button
+                        onClick={() => handleActivateChip(chip)}
+                        disabled={disabled}
+                        className={`px-3 py-1 text-xs rounded font-bold uppercase ${disabled
+                          ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
+                          : 'bg-purple-600 hover:bg-purple-500 text-white'
+                          }`}
+                      >
+                        {t({ en: 'Play', it: 'Gioca' })}
+                      </button>
+                    </div>
+                  );
+                })}
+                {chipsState.locked && (
+                  <div className="text-xs text-red-300">{t({ en: 'Chips are locked until the next race.', it: 'I chip sono bloccati fino alla prossima gara.' })}</div>
+                )}
+              </div>
+            )}
           </div>
         );
 
@@ -2403,6 +3531,19 @@ const App: React.FC = () => {
                 <div className="text-xs text-slate-400 uppercase">{t({ en: 'Budget', it: 'Budget', fr: 'Budget', de: 'Budget', es: 'Presupuesto', ru: 'Бюджет', zh: '预算', ar: 'الميزانية', ja: '予算' })}</div>
                 <div className="text-xl font-mono text-white">${data.team.budget.toFixed(1)}M</div>
               </div>
+              {transferState && (
+                <div>
+                  <div className="text-xs text-slate-400 uppercase text-center">{t({ en: 'Free Transfers', it: 'Cambi Gratuiti', fr: 'Transferts Gratuits', de: 'Freie Transfers', es: 'Cambios Gratis', ru: 'Бесплатные замены', zh: '免费转会', ar: 'انتقالات مجانية', ja: '無料移籍' })}</div>
+                  {transferState.wildcard ? (
+                    <div className="text-xl font-mono text-purple-400 text-center">∞</div>
+                  ) : (
+                    <div className={`text-xl font-mono text-center ${transferState.freeLeft > 0 ? 'text-white' : 'text-orange-400'}`}>{transferState.freeLeft}</div>
+                  )}
+                  {!transferState.wildcard && transferState.freeLeft === 0 && transferState.extraTransferCost !== 0 && (
+                    <div className="text-[10px] text-orange-300 text-center">{transferState.extraTransferCost} {t({ en: 'pts each', it: 'punti ciascuno' })}</div>
+                  )}
+                </div>
+              )}
               <div>
                 <div className="text-xs text-slate-400 uppercase text-right">{t({ en: 'Team', it: 'Team', fr: 'Équipe', de: 'Team', es: 'Equipo', ru: 'Команда', zh: '车队', ar: 'الفريق', ja: 'チーム' })}</div>
                 <div className="text-xl font-mono text-white text-right">{data.team.driverIds.length}/5</div>
@@ -2410,7 +3551,7 @@ const App: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              {fetchedDrivers.map(driver => {
+              {fetchedDrivers.filter(driver => driver.active !== false || data.team.driverIds.includes(driver.id)).map(driver => {
                 const constr = activeConstructors.find(c => c.id === driver.constructorId);
                 const isOwned = data.team.driverIds.includes(driver.id);
                 const isTeamFull = data.team.driverIds.length >= 5;
@@ -2426,7 +3567,14 @@ const App: React.FC = () => {
                       </div>
                     </div>
                     <div className="flex flex-col items-end gap-1">
-                      <div className="font-mono text-slate-200">${driver.price}M</div>
+                      <div className="flex items-center gap-2">
+                        {priceSeries(driver.id).length > 1 && (
+                          <button onClick={() => openPriceDetail(driver.id)} className="opacity-80 hover:opacity-100" title={t({ en: 'Price history', it: 'Storico prezzi' })}>
+                            <Sparkline values={priceSeries(driver.id)} title={t({ en: 'Price history', it: 'Storico prezzi' })} />
+                          </button>
+                        )}
+                        <div className="font-mono text-slate-200">${driver.price}M</div>
+                      </div>
                       {isOwned ? (
                         <button
                           onClick={() => handleSellDriver(driver)}
@@ -2489,6 +3637,9 @@ const App: React.FC = () => {
                 <div className="text-center">
                   <div className="text-xs text-slate-400">{t({ en: 'Index', it: 'Indice', fr: 'Indice', de: 'Index', es: 'Índice', ru: 'Индекс', zh: '索引', ar: 'فهرس', ja: 'インデックス' })} {data.currentRaceIndex}</div>
                   <div className="font-bold text-white text-sm">{currentRace.name}</div>
+                  {(currentRace.status === 'cancelled' || currentRace.status === 'postponed') && (
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-red-400">{describeRaceStatus(currentRace.status)}</span>
+                  )}
                 </div>
                 <button
                   onClick={() => setData({ ...data, currentRaceIndex: Math.min(races.length - 1, data.currentRaceIndex + 1) })}
@@ -2500,6 +3651,20 @@ const App: React.FC = () => {
               {/* Inputs */}
               <div className="space-y-3">
 
+                <div className="p-2 rounded-lg border border-transparent">
+                  <label className="block text-xs text-slate-400 mb-1">{t({ en: 'Race status', it: 'Stato gara', fr: 'Statut de la course', de: 'Rennstatus', es: 'Estado de la carrera', ru: 'Статус гонки', zh: '比赛状态', ar: 'حالة السباق', ja: 'レース状況' })}</label>
+                  <select
+                    value={currentRace.status || 'scheduled'}
+                    onChange={(e) => handleSetRaceStatus(e.target.value as RaceStatus)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-sm text-white focus:outline-none focus:border-blue-500"
+                  >
+                    {RACE_STATUSES.map((status) => (
+                      <option key={status} value={status}>{describeRaceStatus(status)}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-slate-500 mt-1">{t({ en: 'Cancelled and postponed races are skipped by the calendar sync, the lineup lock and the crons.', it: 'Le gare annullate e rinviate sono ignorate dalla sincronizzazione del calendario, dal blocco formazioni e dai cron.' })}</p>
+                </div>
+
                  <div className={`p-2 rounded-lg border ${!currentRace.isSprint ? 'border-yellow-500 bg-yellow-900/20' : 'border-transparent'}`}>
                   <div className="flex justify-between">
                     <label className="block text-xs text-slate-400 mb-1">{t({ en: 'Qualifying UTC (ISO)', it: 'Qualifiche UTC (ISO)', fr: 'Qualif UTC (ISO)', de: 'Quali UTC (ISO)', es: 'Clasif UTC (ISO)', ru: 'Квалиф UTC', zh: '排位赛 UTC', ar: 'التصفيات UTC', ja: '予選 UTC' })}</label>
@@ -2572,28 +3737,31 @@ const App: React.FC = () => {
                             title={`Pos ${index + 1} Points`}
                             className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-center text-sm text-white focus:border-blue-500 focus:outline-none"
                           />
+                          {renderRuleError(`racePositionPoints.${index}`)}
                         </div>
                       );
                     })}
                   </div>
+                  {renderRuleError('racePositionPoints')}
                 </div>
 
                 {/* Quali */}
-                <div><label className="text-xs text-slate-400">{t({ en: 'Pole Position', it: 'Pole Position', fr: 'Pole Position', de: 'Pole Position', es: 'Pole Position', ru: 'Поул-позиция', zh: '杆位', ar: 'قطب الانطلاق', ja: 'ポールポジション' })}</label><input type="number" value={data.rules.qualiPole} onChange={(e) => handleRuleChange('qualiPole', Number(e.target.value))} title="Pole Position" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Q3 Reached (1-10)', it: 'Accesso Q3 (1-10)', fr: 'Q3 Atteint (1-10)', de: 'Q3 Erreicht (1.-10.)', es: 'Q3 Alcanzada (1-10)', ru: 'Q3 Достигнут (1-10)', zh: '进入Q3 (1-10)', ar: 'الوصول لـ Q3 (1-10)', ja: 'Q3進出 (1-10)' })}</label><input type="number" value={data.rules.qualiQ3Reached} onChange={(e) => handleRuleChange('qualiQ3Reached', Number(e.target.value))} title="Q3 Reached" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Q2 Reached (11-16)', it: 'Accesso Q2 (11-16)', fr: 'Q2 Atteint (11-16)', de: 'Q2 Erreicht (11.-16.)', es: 'Q2 Alcanzada (11-16)', ru: 'Q2 Достигнут (11-16)', zh: '进入Q2 (11-16)', ar: 'الوصول لـ Q2 (11-16)', ja: 'Q2進出 (11-16)' })}</label><input type="number" value={data.rules.qualiQ2Reached} onChange={(e) => handleRuleChange('qualiQ2Reached', Number(e.target.value))} title="Q2 Reached" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Q1 Elim (17-22)', it: 'Eliminato Q1 (17-22)', fr: 'Éliminé Q1 (17-22)', de: 'Q1 Ausgeschieden (17.-22.)', es: 'Eliminado Q1 (17-22)', ru: 'Выбыл в Q1 (17-22)', zh: 'Q1淘汰 (17-22)', ar: 'إقصاء Q1 (17-22)', ja: 'Q1敗退 (17-22)' })}</label><input type="number" value={data.rules.qualiQ1Eliminated} onChange={(e) => handleRuleChange('qualiQ1Eliminated', Number(e.target.value))} title="Q1 Eliminated" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Grid Penalty', it: 'Penalità Griglia', fr: 'Pénalité Grille', de: 'Startplatzstrafe', es: 'Penalización Parrilla', ru: 'Штраф на решетке', zh: '发车位处罚', ar: 'عقوبة الشبكة', ja: 'グリッド降格' })}</label><input type="number" value={data.rules.qualiGridPenalty} onChange={(e) => handleRuleChange('qualiGridPenalty', Number(e.target.value))} title="Grid Penalty" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Pole Position', it: 'Pole Position', fr: 'Pole Position', de: 'Pole Position', es: 'Pole Position', ru: 'Поул-позиция', zh: '杆位', ar: 'قطب الانطلاق', ja: 'ポールポジション' })}</label><input type="number" value={data.rules.qualiPole} onChange={(e) => handleRuleChange('qualiPole', Number(e.target.value))} title="Pole Position" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('qualiPole')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Q3 Reached (1-10)', it: 'Accesso Q3 (1-10)', fr: 'Q3 Atteint (1-10)', de: 'Q3 Erreicht (1.-10.)', es: 'Q3 Alcanzada (1-10)', ru: 'Q3 Достигнут (1-10)', zh: '进入Q3 (1-10)', ar: 'الوصول لـ Q3 (1-10)', ja: 'Q3進出 (1-10)' })}</label><input type="number" value={data.rules.qualiQ3Reached} onChange={(e) => handleRuleChange('qualiQ3Reached', Number(e.target.value))} title="Q3 Reached" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('qualiQ3Reached')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Q2 Reached (11-16)', it: 'Accesso Q2 (11-16)', fr: 'Q2 Atteint (11-16)', de: 'Q2 Erreicht (11.-16.)', es: 'Q2 Alcanzada (11-16)', ru: 'Q2 Достигнут (11-16)', zh: '进入Q2 (11-16)', ar: 'الوصول لـ Q2 (11-16)', ja: 'Q2進出 (11-16)' })}</label><input type="number" value={data.rules.qualiQ2Reached} onChange={(e) => handleRuleChange('qualiQ2Reached', Number(e.target.value))} title="Q2 Reached" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('qualiQ2Reached')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Q1 Elim (17-22)', it: 'Eliminato Q1 (17-22)', fr: 'Éliminé Q1 (17-22)', de: 'Q1 Ausgeschieden (17.-22.)', es: 'Eliminado Q1 (17-22)', ru: 'Выбыл в Q1 (17-22)', zh: 'Q1淘汰 (17-22)', ar: 'إقصاء Q1 (17-22)', ja: 'Q1敗退 (17-22)' })}</label><input type="number" value={data.rules.qualiQ1Eliminated} onChange={(e) => handleRuleChange('qualiQ1Eliminated', Number(e.target.value))} title="Q1 Eliminated" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('qualiQ1Eliminated')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Grid Penalty', it: 'Penalità Griglia', fr: 'Pénalité Grille', de: 'Startplatzstrafe', es: 'Penalización Parrilla', ru: 'Штраф на решетке', zh: '发车位处罚', ar: 'عقوبة الشبكة', ja: 'グリッド降格' })}</label><input type="number" value={data.rules.qualiGridPenalty} onChange={(e) => handleRuleChange('qualiGridPenalty', Number(e.target.value))} title="Grid Penalty" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('qualiGridPenalty')}</div>
 
                 {/* Race Bonuses */}
-                <div><label className="text-xs text-slate-400">{t({ en: 'Last Place Malus', it: 'Malus Ultimo Posto', fr: 'Malus Dernière Place', de: 'Malus Letzter Platz', es: 'Malus Último Lugar', ru: 'Штраф за посл. место', zh: '倒数第一惩罚', ar: 'عقوبة المركز الأخير', ja: '最下位ペナルティ' })}</label><input type="number" value={data.rules.raceLastPlaceMalus} onChange={(e) => handleRuleChange('raceLastPlaceMalus', Number(e.target.value))} title="Last Place Malus" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'DNF / DNS / DSQ', it: 'Ritirato / Squalificato', fr: 'Abandon / Disqualifié', de: 'DNF / DNS / DSQ', es: 'Abandono / Descalificado', ru: 'Сход / Дисквал.', zh: '未完赛/取消资格', ar: 'انسحاب / إقصاء', ja: 'リタイア / 失格' })}</label><input type="number" value={data.rules.raceDNF} onChange={(e) => handleRuleChange('raceDNF', Number(e.target.value))} title="DNF / DNS / DSQ" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Race Penalty', it: 'Penalità Gara', fr: 'Pénalité Course', de: 'Rennstrafe', es: 'Penalización Carrera', ru: 'Штраф в гонке', zh: '正赛惩罚', ar: 'عقوبة السباق', ja: 'レースペナルティ' })}</label><input type="number" value={data.rules.racePenalty} onChange={(e) => handleRuleChange('racePenalty', Number(e.target.value))} title="Race Penalty" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Fastest Lap', it: 'Giro Veloce', fr: 'Meilleur Tour', de: 'Schnellste Runde', es: 'Vuelta Rápida', ru: 'Быстрый круг', zh: '最快圈', ar: 'أسرع لفة', ja: 'ファステストラップ' })}</label><input type="number" value={data.rules.raceFastestLap} onChange={(e) => handleRuleChange('raceFastestLap', Number(e.target.value))} title="Fastest Lap" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('raceFastestLap')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Last Place Malus', it: 'Malus Ultimo Posto', fr: 'Malus Dernière Place', de: 'Malus Letzter Platz', es: 'Malus Último Lugar', ru: 'Штраф за посл. место', zh: '倒数第一惩罚', ar: 'عقوبة المركز الأخير', ja: '最下位ペナルティ' })}</label><input type="number" value={data.rules.raceLastPlaceMalus} onChange={(e) => handleRuleChange('raceLastPlaceMalus', Number(e.target.value))} title="Last Place Malus" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('raceLastPlaceMalus')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'DNF / DNS / DSQ', it: 'Ritirato / Squalificato', fr: 'Abandon / Disqualifié', de: 'DNF / DNS / DSQ', es: 'Abandono / Descalificado', ru: 'Сход / Дисквал.', zh: '未完赛/取消资格', ar: 'انسحاب / إقصاء', ja: 'リタイア / 失格' })}</label><input type="number" value={data.rules.raceDNF} onChange={(e) => handleRuleChange('raceDNF', Number(e.target.value))} title="DNF / DNS / DSQ" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('raceDNF')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Race Penalty', it: 'Penalità Gara', fr: 'Pénalité Course', de: 'Rennstrafe', es: 'Penalización Carrera', ru: 'Штраф в гонке', zh: '正赛惩罚', ar: 'عقوبة السباق', ja: 'レースペナルティ' })}</label><input type="number" value={data.rules.racePenalty} onChange={(e) => handleRuleChange('racePenalty', Number(e.target.value))} title="Race Penalty" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('racePenalty')}</div>
 
                 {/* Teammate */}
-                <div><label className="text-xs text-slate-400">{t({ en: 'Beat Teammate', it: 'Batte Compagno', fr: 'Bat Coéquipier', de: 'Teamkollegen geschlagen', es: 'Vence Compañero', ru: 'Опередил напарника', zh: '击败队友', ar: 'تغلب على الزميل', ja: 'チームメイトに勝利' })}</label><input type="number" value={data.rules.teammateBeat} onChange={(e) => handleRuleChange('teammateBeat', Number(e.target.value))} title="Beat Teammate" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Lost to Teammate', it: 'Perde vs Compagno', fr: 'Perd contre Coéquipier', de: 'Verliert gegen Teamk.', es: 'Pierde vs Compañero', ru: 'Проиграл напарнику', zh: '输给队友', ar: 'خسر أمام الزميل', ja: 'チームメイトに敗北' })}</label><input type="number" value={data.rules.teammateLost} onChange={(e) => handleRuleChange('teammateLost', Number(e.target.value))} title="Lost to Teammate" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Beat TM (TM DNF)', it: 'Batte Compagno (Ritirato)', fr: 'Bat Coéquipier (Abandon)', de: 'Teamk. geschlagen (DNF)', es: 'Vence Comp. (Abandono)', ru: 'Опередил (напарник сошел)', zh: '击败队友 (队友退赛)', ar: 'تغلب (انسحاب الزميل)', ja: '勝利 (僚機リタイア)' })}</label><input type="number" value={data.rules.teammateBeatDNF} onChange={(e) => handleRuleChange('teammateBeatDNF', Number(e.target.value))} title="Beat Teammate (Teammate DNF)" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Beat Teammate', it: 'Batte Compagno', fr: 'Bat Coéquipier', de: 'Teamkollegen geschlagen', es: 'Vence Compañero', ru: 'Опередил напарника', zh: '击败队友', ar: 'تغلب على الزميل', ja: 'チームメイトに勝利' })}</label><input type="number" value={data.rules.teammateBeat} onChange={(e) => handleRuleChange('teammateBeat', Number(e.target.value))} title="Beat Teammate" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('teammateBeat')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Lost to Teammate', it: 'Perde vs Compagno', fr: 'Perd contre Coéquipier', de: 'Verliert gegen Teamk.', es: 'Pierde vs Compañero', ru: 'Проиграл напарнику', zh: '输给队友', ar: 'خسر أمام الزميل', ja: 'チームメイトに敗北' })}</label><input type="number" value={data.rules.teammateLost} onChange={(e) => handleRuleChange('teammateLost', Number(e.target.value))} title="Lost to Teammate" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('teammateLost')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Beat TM (TM DNF)', it: 'Batte Compagno (Ritirato)', fr: 'Bat Coéquipier (Abandon)', de: 'Teamk. geschlagen (DNF)', es: 'Vence Comp. (Abandono)', ru: 'Опередил (напарник сошел)', zh: '击败队友 (队友退赛)', ar: 'تغلب (انسحاب الزميل)', ja: '勝利 (僚機リタイア)' })}</label><input type="number" value={data.rules.teammateBeatDNF} onChange={(e) => handleRuleChange('teammateBeatDNF', Number(e.target.value))} title="Beat Teammate (Teammate DNF)" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('teammateBeatDNF')}</div>
 
                 {/* Sprint */}
                 <div className="col-span-2 mt-2">
@@ -2611,12 +3779,51 @@ const App: React.FC = () => {
                             title={`Sprint Pos ${index + 1} Points`}
                             className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-center text-sm text-white focus:border-blue-500 focus:outline-none"
                           />
+                          {renderRuleError(`sprintPositionPoints.${index}`)}
                         </div>
                       );
                     })}
                   </div>
+                  {renderRuleError('sprintPositionPoints')}
+                </div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Sprint Quali Pole', it: 'Pole Sprint Quali', fr: 'Pole Qualif Sprint', de: 'Sprint Quali Pole', es: 'Pole Sprint Clasif', ru: 'Поул спринт-квал.', zh: '冲刺排位杆位', ar: 'قطب تصفيات السرعة', ja: 'S予選ポール' })}</label><input type="number" value={data.rules.sprintPole} onChange={(e) => handleRuleChange('sprintPole', Number(e.target.value))} title="Sprint Quali Pole" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('sprintPole')}</div>
+
+                {/* Captain & Reserve */}
+                <div><label className="text-xs text-slate-400">{t({ en: 'Captain Multiplier', it: 'Moltiplicatore Capitano', fr: 'Multiplicateur Capitaine', de: 'Kapitäns-Multiplikator', es: 'Multiplicador Capitán', ru: 'Множитель капитана', zh: '队长倍数', ar: 'مضاعف القائد', ja: 'キャプテン倍率' })}</label><input type="number" step="0.1" value={data.rules.captainMultiplier ?? 2} onChange={(e) => handleRuleChange('captainMultiplier', Number(e.target.value))} title="Captain Multiplier" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('captainMultiplier')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Reserve Multiplier', it: 'Moltiplicatore Riserva', fr: 'Multiplicateur Réserve', de: 'Reserve-Multiplikator', es: 'Multiplicador Reserva', ru: 'Множитель запасного', zh: '替补倍数', ar: 'مضاعف الاحتياطي', ja: 'リザーブ倍率' })}</label><input type="number" step="0.1" value={data.rules.reserveMultiplier ?? 0.5} onChange={(e) => handleRuleChange('reserveMultiplier', Number(e.target.value))} title="Reserve Multiplier" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('reserveMultiplier')}</div>
+                <div className="col-span-2"><label className="text-xs text-slate-400">{t({ en: 'Reserve Steps In For', it: 'La Riserva Entra Per', fr: 'La Réserve Remplace En Cas De', de: 'Reserve Springt Ein Bei', es: 'La Reserva Entra Por', ru: 'Запасной заменяет при', zh: '替补上场条件', ar: 'يدخل الاحتياطي عند', ja: 'リザーブ出場条件' })}</label>
+                  <select value={data.rules.reserveActivation ?? 'dns'} onChange={(e) => handleRuleChange('reserveActivation', e.target.value)} title="Reserve Activation" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white">
+                    <option value="dns">{t({ en: 'DNS only', it: 'Solo non partito (DNS)', fr: 'Non partant (DNS) uniquement', de: 'Nur DNS', es: 'Solo DNS', ru: 'Только DNS', zh: '仅未发车 (DNS)', ar: 'عدم الانطلاق فقط (DNS)', ja: 'DNSのみ' })}</option>
+                    <option value="dns_dnf">{t({ en: 'DNS or DNF', it: 'Non partito o ritirato (DNS/DNF)', fr: 'Non partant ou abandon (DNS/DNF)', de: 'DNS oder DNF', es: 'DNS o abandono (DNF)', ru: 'DNS или сход (DNF)', zh: '未发车或退赛 (DNS/DNF)', ar: 'عدم الانطلاق أو الانسحاب', ja: 'DNSまたはDNF' })}</option>
+                  </select>
+                  {renderRuleError('reserveActivation')}
+                </div>
+
+                {/* Chips */}
+                <div className="col-span-2"><label className="text-xs text-slate-400">{t({ en: 'Chips Enabled', it: 'Chip Abilitati', fr: 'Jetons Activés', de: 'Aktivierte Chips', es: 'Chips Activados', ru: 'Доступные чипы', zh: '启用的道具', ar: 'الرقائق المفعلة', ja: '有効なチップ' })}</label>
+                  <div className="grid grid-cols-2 gap-1 mt-1">
+                    {CHIP_IDS.map(chip => (
+                      <label key={chip} className="flex items-center gap-2 text-sm text-white">
+                        <input
+                          type="checkbox"
+                          checked={(data.rules.chipsEnabled || []).includes(chip)}
+                          onChange={(e) => {
+                            const current = data.rules.chipsEnabled || [];
+                            handleRuleChange('chipsEnabled', e.target.checked ? [...current, chip] : current.filter(c => c !== chip));
+                          }}
+                        />
+                        {chipLabel(chip)}
+                      </label>
+                    ))}
+                  </div>
+                  {renderRuleError('chipsEnabled')}
                 </div>
-                <div><label className="text-xs text-slate-400">{t({ en: 'Sprint Quali Pole', it: 'Pole Sprint Quali', fr: 'Pole Qualif Sprint', de: 'Sprint Quali Pole', es: 'Pole Sprint Clasif', ru: 'Поул спринт-квал.', zh: '冲刺排位杆位', ar: 'قطب تصفيات السرعة', ja: 'S予選ポール' })}</label><input type="number" value={data.rules.sprintPole} onChange={(e) => handleRuleChange('sprintPole', Number(e.target.value))} title="Sprint Quali Pole" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" /></div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Uses per Chip per Season', it: 'Utilizzi per Chip a Stagione', fr: 'Utilisations par Jeton par Saison', de: 'Nutzungen pro Chip pro Saison', es: 'Usos por Chip por Temporada', ru: 'Использований чипа за сезон', zh: '每个道具每赛季次数', ar: 'استخدامات كل رقاقة في الموسم', ja: 'チップ毎のシーズン使用回数' })}</label><input type="number" min="1" step="1" value={data.rules.chipUsesPerSeason ?? 1} onChange={(e) => handleRuleChange('chipUsesPerSeason', Number(e.target.value))} title="Chip Uses Per Season" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('chipUsesPerSeason')}</div>
+
+                {/* Transfers */}
+                <div><label className="text-xs text-slate-400">{t({ en: 'Free Transfers per Round', it: 'Cambi Gratuiti per Gara', fr: 'Transferts Gratuits par Manche', de: 'Freie Transfers pro Runde', es: 'Cambios Gratis por Ronda', ru: 'Бесплатных замен за этап', zh: '每站免费转会', ar: 'انتقالات مجانية لكل جولة', ja: 'ラウンド毎の無料移籍' })}</label><input type="number" min="0" step="1" value={data.rules.freeTransfersPerRound ?? 2} onChange={(e) => handleRuleChange('freeTransfersPerRound', Number(e.target.value))} title="Free Transfers Per Round" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('freeTransfersPerRound')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Rollover Cap (0 = off)', it: 'Massimo Accumulabile (0 = no)', fr: 'Report Max (0 = non)', de: 'Übertrag-Limit (0 = aus)', es: 'Acumulación Máx. (0 = no)', ru: 'Макс. накопление (0 = выкл)', zh: '累积上限 (0 = 关闭)', ar: 'حد الترحيل (0 = إيقاف)', ja: '繰越上限 (0 = なし)' })}</label><input type="number" min="0" step="1" value={data.rules.freeTransfersRolloverCap ?? 0} onChange={(e) => handleRuleChange('freeTransfersRolloverCap', Number(e.target.value))} title="Free Transfers Rollover Cap" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('freeTransfersRolloverCap')}</div>
+                <div><label className="text-xs text-slate-400">{t({ en: 'Extra Transfer Cost', it: 'Costo Cambio Extra', fr: 'Coût Transfert Supp.', de: 'Kosten Extra-Transfer', es: 'Coste Cambio Extra', ru: 'Штраф за доп. замену', zh: '额外转会扣分', ar: 'تكلفة الانتقال الإضافي', ja: '追加移籍コスト' })}</label><input type="number" max="0" step="1" value={data.rules.extraTransferCost ?? 0} onChange={(e) => handleRuleChange('extraTransferCost', Number(e.target.value))} title="Extra Transfer Cost" className="w-full bg-slate-900 border border-slate-600 rounded p-1 text-white" />{renderRuleError('extraTransferCost')}</div>
               </div>
             </div>
 
@@ -2641,6 +3848,7 @@ const App: React.FC = () => {
                         title={`${c.name} Multiplier`}
                         className="w-full bg-transparent text-white font-mono text-sm focus:outline-none border-b border-slate-600 focus:border-blue-500"
                       />
+                      {renderConstructorRuleError(c.id)}
                     </div>
                   </div>
                 ))}
@@ -2666,6 +3874,17 @@ const App: React.FC = () => {
                   ja: 'OpenF1から公式結果を取得。順位に基づいてドライバーポイントを自動更新します。'
                 })}
               </p>
+              {data && races[data.currentRaceIndex]?.resultsPinned && (
+                <div className="flex items-center justify-between gap-2 mb-3 p-2 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                  <p className="text-[10px] text-amber-300">
+                    {t({ en: 'Results entered by hand are pinned: syncs leave this race alone.', it: 'I risultati inseriti a mano sono bloccati: le sincronizzazioni non toccano questa gara.' })}
+                  </p>
+                  <button onClick={() => handleTogglePin(false)} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-[10px] font-bold text-slate-200 whitespace-nowrap">
+                    {t({ en: 'Unpin', it: 'Sblocca', fr: 'Désépingler', de: 'Lösen', es: 'Desfijar', ru: 'Открепить', zh: '解锁', ar: 'إلغاء التثبيت', ja: '固定解除' })}
+                  </button>
+                </div>
+              )}
+              {renderSyncPreview()}
               <button
                 onClick={handleSyncOpenF1}
                 disabled={syncing}
@@ -2683,8 +3902,41 @@ const App: React.FC = () => {
                   </>
                 )}
               </button>
+              <button
+                onClick={handlePurgeOpenF1Cache}
+                disabled={syncing}
+                className="w-full py-2 mb-3 rounded-xl text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50"
+              >
+                {t({ en: 'Clear cached OpenF1 data', it: 'Svuota cache OpenF1', fr: 'Vider le cache OpenF1', de: 'OpenF1-Cache leeren', es: 'Vaciar caché OpenF1', ru: 'Очистить кэш OpenF1', zh: '清除OpenF1缓存', ar: 'مسح ذاكرة OpenF1', ja: 'OpenF1キャッシュを消去' })}
+              </button>
 
-
+              {renderManualResults()}
+              {!manualResults && (
+                <button
+                  onClick={handleOpenManualResults}
+                  className="w-full py-2 mb-3 rounded-xl text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200"
+                >
+                  {t({ en: 'Enter results manually', it: 'Inserisci risultati a mano', fr: 'Saisir les résultats', de: 'Ergebnisse manuell eingeben', es: 'Introducir resultados a mano', ru: 'Ввести результаты вручную', zh: '手动输入结果', ar: 'إدخال النتائج يدوياً', ja: '結果を手動入力' })}
+                </button>
+              )}
+              {renderRaceEntries()}
+              {!raceEntries && (
+                <button
+                  onClick={handleOpenRaceEntries}
+                  className="w-full py-2 mb-3 rounded-xl text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200"
+                >
+                  {t({ en: 'Entry list', it: 'Lista iscritti', fr: 'Liste des engagés', de: 'Starterliste', es: 'Lista de inscritos', ru: 'Список участников', zh: '参赛名单', ar: 'قائمة المشاركين', ja: 'エントリーリスト' })}
+                </button>
+              )}
+              {renderResultRevisions()}
+              {!resultRevisions && (
+                <button
+                  onClick={handleLoadRevisions}
+                  className="w-full py-2 rounded-xl text-xs font-bold bg-slate-700 hover:bg-slate-600 text-slate-200"
+                >
+                  {t({ en: 'Result history', it: 'Storico risultati', fr: 'Historique des résultats', de: 'Ergebnisverlauf', es: 'Historial de resultados', ru: 'История результатов', zh: '结果历史', ar: 'سجل النتائج', ja: '結果の履歴' })}
+                </button>
+              )}
             </div>
 
             {/* Admin Driver Config (Merged) */}
@@ -2695,6 +3947,9 @@ const App: React.FC = () => {
           </>
         );
 
+      case Tab.LIVE:
+        return renderLive();
+
       case Tab.STANDINGS:
         return renderStandings();
 
@@ -2749,6 +4004,71 @@ const App: React.FC = () => {
     }
   };
 
+  const handleViewSeason = async (season: number) => {
+    if (!data?.user?.leagueId) return;
+    if (archivedSeason?.season === season) {
+      setArchivedSeason(null);
+      return;
+    }
+    try {
+      setArchivedSeason({ season, standings: await getSeasonStandings(data.user.leagueId, season) });
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Unable to load that season.', it: 'Impossibile caricare la stagione.' }));
+    }
+  };
+
+  // Archives the standings and empties every team for the next season.
+  const handleStartNewSeason = async () => {
+    if (!data?.user?.leagueId) return;
+    const current = leagueSeasons?.current ?? null;
+    const label = current === null ? t({ en: 'the current season', it: 'la stagione in corso' }) : String(current);
+    if (!confirm(t({
+      en: `End ${label} and start a new season? Final standings are archived; every team's budget, drivers and lineup are reset. Members and rules stay.`,
+      it: `Chiudere ${label} e iniziare una nuova stagione? La classifica finale viene archiviata; budget, piloti e formazione di ogni squadra vengono azzerati. Membri e regole restano.`,
+    }))) return;
+
+    try {
+      let res;
+      try {
+        res = await startNewSeason(data.user.leagueId);
+      } catch (e: any) {
+        // Races of the season are still open: ending it anyway takes an
+        // explicit target season, so a retry cannot end the next one too.
+        if (!e.message?.includes('season_not_over') || current === null) throw e;
+        if (!confirm(t({
+          en: `Some races of ${current} are not final yet. End the season anyway?`,
+          it: `Alcune gare del ${current} non sono ancora definitive. Chiudere comunque la stagione?`,
+        }))) return;
+        res = await startNewSeason(data.user.leagueId, current + 1);
+      }
+      alert(t({ en: `Season ${res.season} started.`, it: `Stagione ${res.season} iniziata.` }));
+      setLeagueSeasons(await getLeagueSeasons(data.user.leagueId));
+      const { leagues } = await getMe();
+      const league = leagues.find(l => l.id === data.user?.leagueId);
+      if (league?.team) {
+        setData({
+          ...data,
+          team: {
+            ...data.team,
+            budget: league.team.budget,
+            driverIds: league.team.driverIds,
+            captainId: league.team.captainId,
+            reserveDriverId: league.team.reserveId,
+            totalValue: calculateTotalValue(league.team.budget, league.team.driverIds)
+          }
+        });
+      }
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message?.includes('invalid_season') || e.message?.includes('season_already_started')
+        ? t({ en: 'That season has already started.', it: 'Quella stagione è già iniziata.' })
+        : e.message?.includes('season_not_over')
+          ? t({ en: 'The season is not over yet.', it: 'La stagione non è ancora finita.' })
+          : t({ en: 'Failed to start the new season.', it: 'Impossibile iniziare la nuova stagione.' }));
+    }
+  };
+
   const handleDeleteLeague = async () => {
     if (!confirm(t({ en: "DELETE ENTIRE LEAGUE? This cannot be undone.", it: "CANCELLARE INTERA LEGA? Non si può annullare." }))) return;
     if (!confirm(t({ en: "Are you really sure?", it: "Sei davvero sicuro?" }))) return;
@@ -2881,17 +4201,205 @@ const App: React.FC = () => {
     }
   };
 
+  const handleActivateChip = async (chip: ChipId) => {
+    if (!data?.user?.leagueId || chipBusy) return;
+    if (!confirm(t({ en: `Play ${chipLabel(chip)} for this race weekend?`, it: `Giocare ${chipLabel(chip)} per questo weekend di gara?` }))) return;
+    setChipBusy(true);
+    try {
+      const res = await activateChip(data.user.leagueId, chip);
+      if (res.newBudget !== null && data.team) {
+        setData({ ...data, team: { ...data.team, budget: res.newBudget, totalValue: calculateTotalValue(res.newBudget, data.team.driverIds) } });
+      }
+      setChipsState(await getChips(data.user.leagueId));
+    } catch (e: any) {
+      console.error(e);
+      if (e.message?.includes('chip_locked')) {
+        alert(t({ en: 'Too late! Chips are locked for this race.', it: 'Troppo tardi! I chip sono bloccati per questa gara.' }));
+      } else if (e.message?.includes('chip_already_active')) {
+        alert(t({ en: 'You already played a chip this weekend.', it: 'Hai già giocato un chip in questo weekend.' }));
+      } else if (e.message?.includes('chip_limit_reached')) {
+        alert(t({ en: 'No uses of this chip left this season.', it: 'Nessun utilizzo rimasto per questo chip in questa stagione.' }));
+      } else {
+        alert(t({ en: 'Failed to activate chip.', it: 'Attivazione chip fallita.' }));
+      }
+    } finally {
+      setChipBusy(false);
+    }
+  };
+
+  const handleCancelChip = async () => {
+    if (!data?.user?.leagueId || chipBusy) return;
+    setChipBusy(true);
+    try {
+      const res = await cancelChip(data.user.leagueId);
+      if (res.newBudget !== null && data.team) {
+        setData({ ...data, team: { ...data.team, budget: res.newBudget, totalValue: calculateTotalValue(res.newBudget, data.team.driverIds) } });
+      }
+      setChipsState(await getChips(data.user.leagueId));
+    } catch (e: any) {
+      console.error(e);
+      if (e.message?.includes('chip_in_use')) {
+        alert(t({ en: 'The Wildcard was already used in the Market and cannot be cancelled.', it: 'La Wildcard è già stata usata nel Mercato e non può essere annullata.' }));
+      } else if (e.message?.includes('chip_locked')) {
+        alert(t({ en: 'Too late! Chips are locked for this race.', it: 'Troppo tardi! I chip sono bloccati per questa gara.' }));
+      } else {
+        alert(t({ en: 'Failed to cancel chip.', it: 'Annullamento chip fallito.' }));
+      }
+    } finally {
+      setChipBusy(false);
+    }
+  };
+
   const handleSaveRules = async () => {
     if (!data?.user?.leagueId || !data.rules) return;
+    const leagueId = data.user.leagueId;
+    // Same checks as the server, minus the constructor ids it knows
+    const localErrors = validateScoringRules(data.rules);
+    setRuleErrors(localErrors);
+    if (localErrors.length > 0) {
+        alert(t({ en: "Some rules are invalid: check the highlighted fields.", it: "Alcune regole non sono valide: controlla i campi evidenziati." }));
+        return;
+    }
+    try {
+        const res = await updateLeagueRules(leagueId, data.rules, rulesRetroactive ? { retroactive: true, effectiveFromRound: rulesEffectiveRound } : {});
+        alert(t({ en: `Rules saved as version ${res.version}, effective from round ${res.effectiveFromRound}.`, it: `Regole salvate come versione ${res.version}, in vigore dalla gara ${res.effectiveFromRound}.` }));
+        // A retroactive version only counts once the affected races are rescored
+        if (res.rescoreRaceIds.length > 0 && confirm(t({ en: `Recalculate the ${res.rescoreRaceIds.length} scored races it affects now?`, it: `Ricalcolare ora le ${res.rescoreRaceIds.length} gare già assegnate interessate?` }))) {
+          for (const raceId of res.rescoreRaceIds) await recalculateRace(raceId, leagueId);
+          alert(t({ en: "Races recalculated.", it: "Gare ricalcolate." }));
+        }
+        setRulesRetroactive(false);
+        setRulesPreview(null);
+        setRulesHistory((await getRulesHistory(leagueId)).versions);
+    } catch (e: any) {
+        console.error(e);
+        const fieldErrors = getRuleFieldErrors(e);
+        if (fieldErrors) {
+          setRuleErrors(fieldErrors);
+          alert(t({ en: "Some rules are invalid: check the highlighted fields.", it: "Alcune regole non sono valide: controlla i campi evidenziati." }));
+        } else if (e.message?.includes('invalid_effective_round')) {
+          alert(t({ en: "A retroactive change must start from a round that is already locked or earlier.", it: "Una modifica retroattiva deve partire da una gara già bloccata o precedente." }));
+        } else {
+          alert(t({ en: "Error saving rules.", it: "Errore salvataggio regole." }));
+        }
+    }
+  };
+
+  const handlePreviewRules = async () => {
+    if (!data?.user?.leagueId || !data.rules) return;
+    const localErrors = validateScoringRules(data.rules);
+    setRuleErrors(localErrors);
+    if (localErrors.length > 0) {
+        alert(t({ en: "Some rules are invalid: check the highlighted fields.", it: "Alcune regole non sono valide: controlla i campi evidenziati." }));
+        return;
+    }
+    setRulesPreviewLoading(true);
     try {
-        await updateLeagueRules(data.user.leagueId, data.rules);
-        alert(t({ en: "Rules saved!", it: "Regole salvate!" }));
+        setRulesPreview(await previewLeagueRules(data.user.leagueId, data.rules));
     } catch (e) {
         console.error(e);
-        alert(t({ en: "Error saving rules.", it: "Errore salvataggio regole." }));
+        const fieldErrors = getRuleFieldErrors(e);
+        if (fieldErrors) setRuleErrors(fieldErrors);
+        alert(t({ en: "Unable to preview the rules.", it: "Impossibile calcolare l'anteprima delle regole." }));
+    } finally {
+        setRulesPreviewLoading(false);
+    }
+  };
+
+  const renderRulesPreview = () => {
+    if (!rulesPreview) return null;
+    return (
+      <div className="bg-slate-900/60 rounded-lg border border-blue-700/50 p-3 space-y-2">
+        <div className="flex justify-between items-center">
+          <h3 className="text-sm font-bold text-white">
+            {t({ en: 'Preview impact', it: 'Anteprima impatto', fr: 'Aperçu de l\u0027impact', de: 'Auswirkung ansehen', es: 'Vista previa del impacto', ru: 'Предпросмотр влияния', zh: '预览影响', ar: 'معاينة التأثير', ja: '影響をプレビュー' })}
+          </h3>
+          <button onClick={() => setRulesPreview(null)} className="text-slate-400 hover:text-white text-xs">✕</button>
+        </div>
+        <p className="text-[10px] text-slate-500">
+          {t({ en: `If these rules had applied to all ${rulesPreview.races} completed races. Nothing is saved.`, it: `Se queste regole fossero valse per tutte le ${rulesPreview.races} gare concluse. Nulla viene salvato.` })}
+        </p>
+        <div className="divide-y divide-slate-800">
+          {rulesPreview.standings.map(row => (
+            <div key={row.teamId} className="flex items-center gap-3 py-1.5 text-sm">
+              <span className="w-6 text-right font-mono text-white">{row.projectedRank}</span>
+              <span className={`w-8 text-[10px] font-bold ${row.rankChange > 0 ? 'text-green-400' : row.rankChange < 0 ? 'text-red-400' : 'text-slate-600'}`}>
+                {row.rankChange > 0 ? `▲${row.rankChange}` : row.rankChange < 0 ? `▼${-row.rankChange}` : '='}
+              </span>
+              <span className="flex-1 truncate text-slate-200">{row.userName}</span>
+              <span className="font-mono text-slate-500 text-xs">{row.currentPoints.toFixed(1)}</span>
+              <span className="font-mono text-white">{row.projectedPoints.toFixed(1)}</span>
+              <span className={`w-14 text-right font-mono text-xs ${row.delta > 0 ? 'text-green-400' : row.delta < 0 ? 'text-red-400' : 'text-slate-600'}`}>
+                {row.delta > 0 ? '+' : ''}{row.delta.toFixed(1)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const describeRuleError = (err: RuleFieldError) => {
+    switch (err.code) {
+      case 'required': return t({ en: 'Required', it: 'Obbligatorio' });
+      case 'not_a_number': return t({ en: 'Must be a number', it: 'Deve essere un numero' });
+      case 'not_an_integer': return t({ en: 'Must be a whole number', it: 'Deve essere un numero intero' });
+      case 'out_of_range': return t({ en: `Between ${err.min} and ${err.max}`, it: `Tra ${err.min} e ${err.max}` });
+      case 'wrong_length': return t({ en: `Needs ${err.length} values`, it: `Servono ${err.length} valori` });
+      case 'unknown_constructor': return t({ en: 'Unknown team', it: 'Scuderia sconosciuta' });
+      case 'duplicate': return t({ en: 'Duplicate', it: 'Duplicato' });
+      default: return t({ en: 'Invalid value', it: 'Valore non valido' });
     }
   };
 
+  const renderRuleError = (field: string) => {
+    const err = ruleErrors.find(e => e.field === field);
+    return err ? <p className="text-[10px] text-red-400 mt-0.5">{describeRuleError(err)}</p> : null;
+  };
+
+  // Constructor errors are reported by position in data.rules.constructors
+  const renderConstructorRuleError = (constructorId: string) => {
+    const index = (data?.rules.constructors || CONSTRUCTORS).findIndex(c => c.id === constructorId);
+    return renderRuleError(`constructors.${index}.id`) || renderRuleError(`constructors.${index}.multiplier`);
+  };
+
+  const formatRuleValue = (value: unknown) => {
+    if (value === null || value === undefined) return '—';
+    if (Array.isArray(value)) return value.join(' / ');
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const renderRulesHistory = () => (
+    <div className="space-y-2">
+      {rulesHistory.map(v => (
+        <div key={v.version} className="bg-slate-900/60 rounded-lg border border-slate-700 p-3">
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-white font-bold text-sm">v{v.version}</span>
+            <span className="text-[10px] text-slate-500 uppercase font-bold">
+              {t({ en: 'From round', it: 'Dalla gara', fr: 'À partir de la manche', de: 'Ab Runde', es: 'Desde la ronda', ru: 'С этапа', zh: '生效轮次', ar: 'من الجولة', ja: '適用ラウンド' })} {v.effectiveFromRound}{v.raceName ? ` · ${v.raceName.replace(' Grand Prix', '')}` : ''}
+              {v.retroactive && <span className="ml-2 text-amber-400">{t({ en: 'Retroactive', it: 'Retroattiva', fr: 'Rétroactive', de: 'Rückwirkend', es: 'Retroactiva', ru: 'Задним числом', zh: '追溯', ar: 'بأثر رجعي', ja: '遡及適用' })}</span>}
+            </span>
+          </div>
+          <div className="text-[10px] text-slate-500">
+            {new Date(v.createdAt).toLocaleDateString()}{v.createdByName ? ` · ${v.createdByName}` : ''}
+          </div>
+          {v.version === 1 ? (
+            <div className="text-xs text-slate-400 mt-1">{t({ en: 'Initial rules', it: 'Regole iniziali', fr: 'Règles initiales', de: 'Ursprüngliche Regeln', es: 'Reglas iniciales', ru: 'Исходные правила', zh: '初始规则', ar: 'القواعد الأولية', ja: '初期ルール' })}</div>
+          ) : (
+            <ul className="mt-1 space-y-0.5">
+              {v.changes.map(ch => (
+                <li key={ch.key} className="text-xs font-mono text-slate-300">
+                  {ch.key}: <span className="text-slate-500">{formatRuleValue(ch.from)}</span> → <span className="text-white">{formatRuleValue(ch.to)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
   const handleBuyPremiumSeason = async () => {
     let pkg = seasonPackage;
 
@@ -2938,6 +4446,91 @@ const App: React.FC = () => {
     }
   };
   
+  const handleCheckRoster = async (approve?: string[]) => {
+    try {
+      setRosterLoading(true);
+      const res = await syncDriverRoster(approve);
+      setRosterProposal({ source: `${res.meetingName || res.season} · ${res.sessionName}`, changes: res.changes });
+      setRosterApproved([]);
+      if (approve) {
+        setFetchedDrivers(await getDrivers());
+        if (res.skipped?.length) {
+          alert(t({ en: `${res.skipped.length} changes need a constructor and were skipped.`, it: `${res.skipped.length} modifiche richiedono una scuderia e sono state saltate.` }));
+        }
+      }
+    } catch (e) {
+      console.error(e);
+      alert(t({ en: 'Could not check the driver roster.', it: 'Impossibile verificare la lista piloti.' }));
+    } finally {
+      setRosterLoading(false);
+    }
+  };
+
+  const describeRosterChange = (change: RosterChange) => {
+    const name = fetchedDrivers.find(d => d.id === change.driverId)?.name || change.driverId;
+    switch (change.kind) {
+      case 'new_driver': return t({ en: `New driver: ${change.name} #${change.number} (${change.teamName || '?'})`, it: `Nuovo pilota: ${change.name} #${change.number} (${change.teamName || '?'})` });
+      case 'number': return t({ en: `${name}: number ${change.from ?? '-'} → ${change.to}`, it: `${name}: numero ${change.from ?? '-'} → ${change.to}` });
+      case 'alias': return t({ en: `${name}: also known as "${change.value}"`, it: `${name}: noto anche come "${change.value}"` });
+      default: return change.active
+        ? t({ en: `${name}: back on the grid`, it: `${name}: di nuovo in griglia` })
+        : t({ en: `${name}: left the grid`, it: `${name}: fuori dalla griglia` });
+    }
+  };
+
+  const renderDriverRoster = () => (
+    <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-3">
+      <div className="flex justify-between items-center border-b border-slate-700 pb-2">
+        <h2 className="text-lg font-bold text-white uppercase tracking-wider">{t({ en: 'Driver Roster', it: 'Griglia Piloti', fr: 'Grille Pilotes', de: 'Fahreraufstellung', es: 'Parrilla de Pilotos', ru: 'Состав пилотов', zh: '车手阵容', ar: 'قائمة السائقين', ja: 'ドライバー登録' })}</h2>
+        <button
+          onClick={() => handleCheckRoster()}
+          disabled={rosterLoading}
+          className="bg-blue-700 hover:bg-blue-600 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded transition-all"
+        >
+          {rosterLoading ? '...' : t({ en: 'CHECK OPENF1', it: 'VERIFICA OPENF1', fr: 'VÉRIFIER OPENF1', de: 'OPENF1 PRÜFEN', es: 'COMPROBAR OPENF1', ru: 'ПРОВЕРИТЬ OPENF1', zh: '检查OPENF1', ar: 'فحص OPENF1', ja: 'OPENF1を確認' })}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        {t({ en: 'Compares numbers, names and the grid with the latest OpenF1 entry list. Nothing changes until you apply it.', it: 'Confronta numeri, nomi e griglia con l\'ultima lista iscritti OpenF1. Nulla cambia finché non applichi.' })}
+      </p>
+      {rosterProposal && (
+        <>
+          <div className="text-[10px] uppercase tracking-widest text-slate-500">{rosterProposal.source}</div>
+          {rosterProposal.changes.length === 0 ? (
+            <div className="text-xs text-green-400">{t({ en: 'The roster matches OpenF1.', it: 'La griglia corrisponde a OpenF1.' })}</div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                {rosterProposal.changes.map(change => {
+                  const blocked = change.kind === 'new_driver' && !change.constructorId;
+                  return (
+                    <label key={change.id} className={`flex items-center gap-2 text-xs ${blocked ? 'text-slate-500' : 'text-slate-200'}`}>
+                      <input
+                        type="checkbox"
+                        disabled={blocked}
+                        checked={rosterApproved.includes(change.id)}
+                        onChange={(e) => setRosterApproved(prev => (e.target.checked ? [...prev, change.id] : prev.filter(id => id !== change.id)))}
+                      />
+                      {describeRosterChange(change)}
+                      {blocked && <span className="text-amber-400">{t({ en: '(no known teammate: add the driver by hand)', it: '(nessun compagno noto: aggiungi il pilota a mano)' })}</span>}
+                    </label>
+                  );
+                })}
+              </div>
+              <button
+                onClick={() => handleCheckRoster(rosterApproved)}
+                disabled={rosterLoading || rosterApproved.length === 0}
+                className="w-full bg-green-600 hover:bg-green-500 disabled:bg-slate-700 text-white text-xs font-bold py-2 rounded transition-all"
+              >
+                {t({ en: 'APPLY SELECTED', it: 'APPLICA SELEZIONATE', fr: 'APPLIQUER', de: 'AUSGEWÄHLTE ANWENDEN', es: 'APLICAR SELECCIÓN', ru: 'ПРИМЕНИТЬ', zh: '应用所选', ar: 'تطبيق المحدد', ja: '選択を適用' })}
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+
   const renderAdmin = () => {
     return (
       <div className="space-y-6">
@@ -2949,13 +4542,45 @@ const App: React.FC = () => {
         <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-4">
              <div className="flex justify-between items-center border-b border-slate-700 pb-2">
                  <h2 className="text-lg font-bold text-white uppercase tracking-wider">{t({ en: 'Scoring Rules', it: 'Regole Punteggio' })}</h2>
-                 <button 
-                    onClick={handleSaveRules}
-                    className="bg-green-600 hover:bg-green-500 text-white text-xs font-bold py-2 px-4 rounded transition-all"
-                 >
-                    {t({ en: 'SAVE RULES', it: 'SALVA REGOLE' })}
-                 </button>
+                 <div className="flex gap-2">
+                   <button
+                      onClick={handlePreviewRules}
+                      disabled={rulesPreviewLoading}
+                      className="bg-blue-700 hover:bg-blue-600 disabled:opacity-50 text-white text-xs font-bold py-2 px-4 rounded transition-all"
+                   >
+                      {rulesPreviewLoading ? '...' : t({ en: 'PREVIEW IMPACT', it: 'ANTEPRIMA IMPATTO', fr: 'APERÇU IMPACT', de: 'AUSWIRKUNG', es: 'VER IMPACTO', ru: 'ПРЕДПРОСМОТР', zh: '预览影响', ar: 'معاينة التأثير', ja: '影響プレビュー' })}
+                   </button>
+                   <button 
+                      onClick={handleSaveRules}
+                      className="bg-green-600 hover:bg-green-500 text-white text-xs font-bold py-2 px-4 rounded transition-all"
+                   >
+                      {t({ en: 'SAVE RULES', it: 'SALVA REGOLE' })}
+                   </button>
+                 </div>
              </div>
+             {renderRulesPreview()}
+
+             {/* Each save is a new version: from the next unlocked round, or retroactively */}
+             <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+                 <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={rulesRetroactive} onChange={(e) => setRulesRetroactive(e.target.checked)} />
+                    {t({ en: 'Apply retroactively from round', it: 'Applica retroattivamente dalla gara', fr: 'Appliquer rétroactivement depuis la manche', de: 'Rückwirkend anwenden ab Runde', es: 'Aplicar retroactivamente desde la ronda', ru: 'Применить задним числом с этапа', zh: '追溯应用自轮次', ar: 'تطبيق بأثر رجعي من الجولة', ja: '遡及適用する開始ラウンド' })}
+                 </label>
+                 <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={rulesEffectiveRound}
+                    disabled={!rulesRetroactive}
+                    onChange={(e) => setRulesEffectiveRound(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+                    title="Effective From Round"
+                    className="w-20 bg-slate-900 border border-slate-700 rounded p-1 text-white font-mono text-sm disabled:opacity-50"
+                 />
+                 {!rulesRetroactive && (
+                    <span className="text-xs text-slate-500">{t({ en: 'Otherwise changes apply from the next unlocked race.', it: 'Altrimenti le modifiche valgono dalla prossima gara non bloccata.', fr: 'Sinon, les changements s\u0027appliquent à la prochaine course non verrouillée.', de: 'Sonst gelten Änderungen ab dem nächsten offenen Rennen.', es: 'Si no, los cambios aplican desde la próxima carrera no bloqueada.', ru: 'Иначе изменения действуют со следующей открытой гонки.', zh: '否则更改从下一场未锁定的比赛开始生效。', ar: 'وإلا تسري التغييرات من السباق التالي غير المقفل.', ja: 'それ以外は次の未ロックのレースから適用されます。' })}</span>
+                 )}
+             </div>
+             {rulesHistory.length > 0 && renderRulesHistory()}
              
              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                  <div>
@@ -2974,6 +4599,7 @@ const App: React.FC = () => {
                         title="Overtake (P1-10)"
                         className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono text-sm"
                     />
+                    {renderRuleError('positionGainedPos1_10')}
                  </div>
                  <div>
                     <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">
@@ -2991,6 +4617,7 @@ const App: React.FC = () => {
                         title="Overtake (P11+)"
                         className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono text-sm"
                     />
+                    {renderRuleError('positionGainedPos11_Plus')}
                  </div>
                  <div>
                     <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">
@@ -3008,6 +4635,7 @@ const App: React.FC = () => {
                         title="Lost Position (P1-10)"
                         className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono text-sm"
                     />
+                    {renderRuleError('positionLostPos1_10')}
                  </div>
                  <div>
                     <label className="text-[10px] uppercase text-slate-500 font-bold mb-1 block">
@@ -3025,6 +4653,7 @@ const App: React.FC = () => {
                         title="Lost Position (P11+)"
                         className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono text-sm"
                     />
+                    {renderRuleError('positionLostPos11_Plus')}
                  </div>
              </div>
         </div>
@@ -3062,7 +4691,14 @@ const App: React.FC = () => {
             ))}
           </div>
 
-          <div className="pt-4 border-t border-slate-700">
+          <div className="pt-4 border-t border-slate-700 space-y-2">
+             <button
+                onClick={handleStartNewSeason}
+                className="w-full bg-slate-700 hover:bg-slate-600 text-white border border-slate-600 font-bold py-2 rounded transition-all"
+             >
+                {t({ en: 'START NEW SEASON', it: 'INIZIA NUOVA STAGIONE', fr: 'NOUVELLE SAISON', de: 'NEUE SAISON STARTEN', es: 'NUEVA TEMPORADA', ru: 'НОВЫЙ СЕЗОН', zh: '开始新赛季', ar: 'بدء موسم جديد', ja: '新シーズン開始' })}
+                {leagueSeasons?.current ? ` (${leagueSeasons.current + 1})` : ''}
+             </button>
              <button 
                 onClick={handleDeleteLeague}
                 className="w-full bg-red-900/50 hover:bg-red-800 text-red-200 border border-red-700 font-bold py-2 rounded transition-all flex items-center justify-center gap-2"
@@ -3073,6 +4709,8 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {renderDriverRoster()}
+
         <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 space-y-4">
           <div className="flex justify-between items-center border-b border-slate-700 pb-2">
              <h2 className="text-lg font-bold text-white uppercase tracking-wider">{t({ en: 'Drivers List', it: 'Lista Piloti', fr: 'Liste Pilotes', de: 'Fahrerliste', es: 'Lista Pilotos', ru: 'Список пилотов', zh: '车手列表', ar: 'قائمة السائقين', ja: 'ドライバー一覧' })}</h2>
@@ -3097,6 +4735,8 @@ const App: React.FC = () => {
                       <div className="flex items-center gap-2">
                          <div className={`w-1 h-6 rounded-full ${c ? `constr-bg-${c.id}` : 'constr-bg-default'}`}></div>
                          <div className="font-bold text-white">{d.name}</div>
+                         {d.number != null && <span className="text-xs font-mono text-slate-500">#{d.number}</span>}
+                         {d.active === false && <span className="text-[10px] uppercase font-bold text-amber-400">{t({ en: 'Off the grid', it: 'Fuori griglia' })}</span>}
                       </div>
                       <div className="grid grid-cols-2 gap-4">
                          <div>
@@ -1,4 +1,5 @@
-﻿import { Race, Driver } from "./types";
+﻿import { Race, Driver, RaceLineup, ChipId, ChipsState, TransferAllowance, DriverPricePoint, TeamValuePoint, RulesVersionEntry, RuleFieldError, RulesPreviewRow, ScoringDiff, ResultRevision, ManualResults, ResultFieldError, LiveSnapshot, RosterChange, RaceEntry, RaceEntryList, RaceStatus, ScoringRules, SeasonStanding, LeagueSeasons, UserSession } from "./types";
+import { Capacitor } from "@capacitor/core";
 
 const PROD_API = "https://laqjyqfnjnofmvgedunl.supabase.co/functions/v1/fanta-api";
 const DEV_API = "http://localhost:54321/functions/v1/fanta-api";
@@ -98,6 +99,19 @@ export async function apiPost<T>(path: string, body: any): Promise<T> {
   }
 }
 
+// JSON body of a failed apiPost (the text after the status), or null.
+export function errorBody(e: unknown): Record<string, unknown> | null {
+  const message = e instanceof Error ? e.message : "";
+  const start = message.indexOf("{");
+  if (start < 0) return null;
+  try {
+    const body = JSON.parse(message.slice(start));
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
 
 export async function health() {
   return apiGet<{ ok: boolean }>("/health");
@@ -111,14 +125,71 @@ export async function getDrivers(): Promise<Driver[]> {
   return apiGet<Driver[]>("/drivers");
 }
 
+export async function getDriversPriceHistory(): Promise<Record<string, DriverPricePoint[]>> {
+  return apiGet<Record<string, DriverPricePoint[]>>("/drivers/history");
+}
+
+export async function getDriverHistory(driverId: string) {
+  return apiGet<{
+    driverId: string;
+    name: string;
+    price: number;
+    history: (DriverPricePoint & {
+      raceName: string | null;
+      season: number | null;
+      round: number | null;
+      source: 'auto' | 'admin';
+      change: number;
+      points: number | null;
+      expected: number | null;
+      form: number | null;
+      ownership: number | null;
+    })[];
+  }>(`/drivers/${driverId}/history`);
+}
+
+export async function getTeamValueHistory(teamId: string) {
+  return apiGet<{
+    teamId: string;
+    current: { budget: number; driversValue: number; totalValue: number };
+    history: TeamValuePoint[];
+  }>(`/teams/${teamId}/value-history`);
+}
+
 // --- Auth & League ---
 
+// Both start a session for this device; the platform names it in the
+// session list.
 export async function register(name: string, password: string) {
-  return apiPost<{ id: string; authToken: string; displayName: string }>("/auth/register", { name, password });
+  return apiPost<{ id: string; authToken: string; displayName: string }>("/auth/register", { name, password, platform: Capacitor.getPlatform() });
 }
 
 export async function login(name: string, password: string) {
-  return apiPost<{ id: string; authToken: string; displayName: string }>("/auth/login", { name, password });
+  return apiPost<{ id: string; authToken: string; displayName: string }>("/auth/login", { name, password, platform: Capacitor.getPlatform() });
+}
+
+// Seconds to wait after a 429 too_many_attempts (login, register, join), or null.
+export function getRetryAfter(e: unknown): number | null {
+  const body = errorBody(e);
+  return body?.error === "too_many_attempts" && Number(body.retryAfter) > 0 ? Number(body.retryAfter) : null;
+}
+
+// Ends this device's session on the server.
+export async function logout() {
+  return apiPost<{ ok: true }>("/auth/logout", {});
+}
+
+export async function getSessions() {
+  return apiGet<UserSession[]>("/me/sessions");
+}
+
+export async function revokeSession(sessionId: string) {
+  return apiPost<{ ok: true; current: boolean }>("/me/sessions/revoke", { sessionId });
+}
+
+// Logs out every other device.
+export async function revokeAllSessions() {
+  return apiPost<{ ok: true; revoked: number }>("/me/sessions/revoke-all", {});
 }
 
 export async function getMe() {
@@ -131,6 +202,7 @@ export async function getMe() {
       joinCode: string; 
       role: "ADMIN" | "MEMBER"; 
       isAdmin: boolean;
+      season: number | null;
       members: { userId: string; userName: string; role: "ADMIN" | "MEMBER"; teamId?: string }[]; // Added
       team: {
         id: string;
@@ -154,7 +226,15 @@ export async function joinLeague(joinCode: string) {
 }
 
 export async function updateMarket(leagueId: string, driverIdIn?: string, driverIdOut?: string) {
-  return apiPost<{ ok: true; newBudget: number }>("/team/market", { leagueId, driverIdIn, driverIdOut });
+  return apiPost<{
+    ok: true;
+    newBudget: number;
+    transfer: { kind: 'free' | 'paid' | 'wildcard'; cost: number; freeLeft: number } | null;
+  }>("/team/market", { leagueId, driverIdIn, driverIdOut });
+}
+
+export async function getTransfers(leagueId: string) {
+  return apiGet<TransferAllowance>(`/leagues/${leagueId}/transfers`);
 }
 
 export async function updateLineup(leagueId: string, captainId?: string | null, reserveId?: string | null) {
@@ -173,8 +253,76 @@ export async function migrateTeamName() {
   return apiPost<{ ok: true; message: string }>("/admin/migrate-team-name", {});
 }
 
-export async function syncRaceResults(raceId: string) {
-  return apiPost<{ ok: true; classification: Record<string, number>; points: Record<string, number> }>("/admin/sync-race", { raceId });
+// With `dryRun` nothing is saved and the response carries the diff plus a
+// token; sending that token back applies the sync only if the diff is unchanged.
+export async function syncRaceResults(raceId: string, options: { dryRun?: boolean; confirmToken?: string } = {}) {
+  return apiPost<{ ok: true; dryRun: boolean; diff?: ScoringDiff; confirmToken?: string }>("/admin/sync-race", { raceId, ...options });
+}
+
+export async function getResultRevisions(raceId: string) {
+  return apiGet<{ revisions: ResultRevision[] }>(`/admin/races/${raceId}/revisions`);
+}
+
+// Same dryRun/confirmToken review as syncRaceResults.
+export async function revertRaceResults(raceId: string, revisionId: string, options: { dryRun?: boolean; confirmToken?: string } = {}) {
+  return apiPost<{ ok: true; dryRun: boolean; revertOf: number; diff?: ScoringDiff; confirmToken?: string }>("/admin/revert-race", { raceId, revisionId, ...options });
+}
+
+// Replaces the race's classification and pins it. Same dryRun/confirmToken
+// review as syncRaceResults.
+export async function saveManualResults(raceId: string, results: ManualResults, options: { dryRun?: boolean; confirmToken?: string } = {}) {
+  return apiPost<{ ok: true; dryRun: boolean; pinned: boolean; diff?: ScoringDiff; confirmToken?: string }>("/admin/race-results", { raceId, results, ...options });
+}
+
+export async function setResultsPinned(raceId: string, pinned: boolean) {
+  return apiPost<{ ok: true; pinned: boolean }>("/admin/race-results/pin", { raceId, pinned });
+}
+
+// Returns the status the race ended up with: setting one the clock has
+// already passed (e.g. scheduled after the lock) moves it on.
+export async function setRaceStatus(raceId: string, status: RaceStatus) {
+  return apiPost<{ ok: true; status: RaceStatus }>("/admin/race-status", { raceId, status });
+}
+
+export async function getRaceEntries(raceId: string) {
+  return apiGet<RaceEntryList>(`/admin/races/${raceId}/entries`);
+}
+
+// Replaces the race's entry list; `null` hands it back to the OpenF1 sync.
+export async function saveRaceEntries(raceId: string, entries: RaceEntry[] | null) {
+  return apiPost<{ ok: true } & RaceEntryList>("/admin/race-entries", { raceId, entries });
+}
+
+// Without `approve` lists the roster changes proposed from the latest OpenF1
+// entry list; with it applies the listed change ids.
+export async function syncDriverRoster(approve?: string[]) {
+  return apiPost<{
+    season: number;
+    sessionKey: number;
+    sessionName: string;
+    meetingName: string | null;
+    changes: RosterChange[];
+    applied?: string[];
+    skipped?: { id: string; error: string }[];
+  }>("/admin/drivers/roster-sync", approve ? { approve } : {});
+}
+
+// Drops the cached OpenF1 responses of the race's sessions; the next sync
+// fetches them again.
+export async function purgeOpenF1Cache(raceId: string) {
+  return apiPost<{ ok: true; sessionKeys: number[]; purged: number }>("/admin/openf1-cache/purge", { raceId });
+}
+
+// Per-field errors of a manual entry rejected with 400 invalid_results, or null.
+export function getResultFieldErrors(e: unknown): ResultFieldError[] | null {
+  const body = errorBody(e);
+  return (body?.error === "invalid_results" || body?.error === "invalid_entries") && Array.isArray(body.fields) ? body.fields : null;
+}
+
+// The fresh diff of a confirm rejected with 409 diff_changed, or null.
+export function getChangedDiff(e: unknown): { diff: ScoringDiff; confirmToken: string } | null {
+  const body = errorBody(e);
+  return body?.error === "diff_changed" && body.diff && body.confirmToken ? { diff: body.diff as ScoringDiff, confirmToken: String(body.confirmToken) } : null;
 }
 
 export async function kickMember(leagueId: string, userId: string) {
@@ -196,12 +344,86 @@ export async function addPenalty(leagueId: string, teamId: string, points: numbe
   return apiPost<{ ok: true }>("/league/penalty", { leagueId, teamId, points, comment });
 }
 
+// Archives the current standings and resets budgets and rosters for
+// `season` (default: the next one).
+export async function startNewSeason(leagueId: string, season?: number) {
+  return apiPost<{ ok: true; season: number; archived: { season: number; teams: number } }>("/league/season/start", { leagueId, season });
+}
+
+export async function getLeagueSeasons(leagueId: string) {
+  return apiGet<LeagueSeasons>(`/leagues/${leagueId}/seasons`);
+}
+
+export async function getSeasonStandings(leagueId: string, season: number) {
+  return apiGet<SeasonStanding[]>(`/leagues/${leagueId}/seasons/${season}/standings`);
+}
+
 export async function getLeagueStandings(leagueId: string) {
   return apiGet<{ userId: string; userName: string; totalPoints: number; penaltyPoints: number; rank: number }[]>(`/leagues/${leagueId}/standings`);
 }
 
+export async function getLeagueLive(leagueId: string) {
+  return apiGet<LiveSnapshot>(`/leagues/${leagueId}/live`);
+}
+
+const LIVE_RETRY_MS = 15000;
+
+// Follows /leagues/:id/live/stream until the returned function is called.
+// EventSource cannot send the bearer token, so the stream is read with fetch.
+// The server closes each stream after a couple of minutes and it is simply
+// reopened; if streaming fails the snapshot is polled instead.
+export function subscribeLeagueLive(leagueId: string, onSnapshot: (snapshot: LiveSnapshot) => void): () => void {
+  let stopped = false;
+  let controller: AbortController | null = null;
+
+  const follow = async () => {
+    const token = localStorage.getItem("fantaF1AuthToken");
+    controller = new AbortController();
+    const res = await fetch(`${API_URL}/leagues/${leagueId}/live/stream`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      signal: controller.signal,
+    });
+    if (!res.ok || !res.body) throw new Error(`GET /leagues/${leagueId}/live/stream failed: ${res.status}`);
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      let end = buffer.indexOf("\n\n");
+      while (end >= 0) {
+        const lines = buffer.slice(0, end).split("\n");
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\n\n");
+        const event = lines.find((l) => l.startsWith("event:"))?.slice(6).trim();
+        const data = lines.filter((l) => l.startsWith("data:")).map((l) => l.slice(5).trim()).join("\n");
+        if (event === "live" && data) onSnapshot(JSON.parse(data) as LiveSnapshot);
+      }
+    }
+  };
+
+  (async () => {
+    while (!stopped) {
+      try {
+        await follow();
+      } catch (e) {
+        if (stopped) return;
+        console.error("Live stream interrupted", e);
+        await getLeagueLive(leagueId).then(onSnapshot).catch(() => {});
+        await new Promise((resolve) => setTimeout(resolve, LIVE_RETRY_MS));
+      }
+    }
+  })();
+
+  return () => {
+    stopped = true;
+    controller?.abort();
+  };
+}
+
 export async function getRaceResults(leagueId: string, raceId: string) {
-  return apiGet<{ userId: string; userName: string; points: number; captainId: string; reserveId: string; drivers: { id: string; name: string; points: number }[] }[]>(`/leagues/${leagueId}/results/${raceId}`);
+  return apiGet<{ userId: string; userName: string; points: number; captainId: string; reserveId: string; drivers: { id: string; name: string; points: number }[]; lineup: RaceLineup | null; chip: ChipId | null }[]>(`/leagues/${leagueId}/results/${raceId}`);
 }
 
 export async function getRaceBreakdown(leagueId: string, raceId: string) {
@@ -209,12 +431,52 @@ export async function getRaceBreakdown(leagueId: string, raceId: string) {
     raceId: string;
     raceName: string;
     isCompleted: boolean;
+    lineup: RaceLineup | null;
+    chip: ChipId | null;
     results: any;
   }>(`/leagues/${leagueId}/breakdown/${raceId}`);
 }
 
-export async function updateLeagueRules(leagueId: string, rules: any) {
-  return apiPost<{ ok: true }>("/league/rules", { leagueId, rules });
+export async function getChips(leagueId: string) {
+  return apiGet<ChipsState>(`/leagues/${leagueId}/chips`);
+}
+
+export async function activateChip(leagueId: string, chip: ChipId) {
+  return apiPost<{ ok: true; chip: ChipId; raceId: string; newBudget: number | null }>("/team/chips/activate", { leagueId, chip });
+}
+
+export async function cancelChip(leagueId: string) {
+  return apiPost<{ ok: true; newBudget: number | null }>("/team/chips/cancel", { leagueId });
+}
+
+// Saves the rules as a new version. Without `retroactive` it applies from
+// the next unlocked round; `rescoreRaceIds` lists the scored races a
+// retroactive change affects.
+export async function updateLeagueRules(leagueId: string, rules: ScoringRules, options: { retroactive?: boolean; effectiveFromRound?: number } = {}) {
+  return apiPost<{
+    ok: true;
+    version: number;
+    effectiveFromSeason: number;
+    effectiveFromRound: number;
+    retroactive: boolean;
+    rescoreRaceIds: string[];
+  }>("/league/rules", { leagueId, rules, ...options });
+}
+
+// Field errors of a save rejected as `invalid_rules`, or null for any other failure.
+export function getRuleFieldErrors(e: unknown): RuleFieldError[] | null {
+  const body = errorBody(e);
+  return body?.error === "invalid_rules" && Array.isArray(body.fields) ? body.fields : null;
+}
+
+// Standings as they would be if `rules` had applied to every completed race.
+// Nothing is saved.
+export async function previewLeagueRules(leagueId: string, rules: ScoringRules) {
+  return apiPost<{ races: number; standings: RulesPreviewRow[] }>("/league/rules/preview", { leagueId, rules });
+}
+
+export async function getRulesHistory(leagueId: string) {
+  return apiGet<{ versions: RulesVersionEntry[] }>(`/leagues/${leagueId}/rules/history`);
 }
 export async function fixSchema() {
   return apiPost<{ ok: true; message: string }>("/admin/fix-schema", {});
@@ -222,7 +484,7 @@ export async function fixSchema() {
 export async function checkDrivers() {
   return apiPost<any>("/admin/check-drivers", {});
 }
-export async function recalculateRace(raceId: string) {
+export async function recalculateRace(raceId: string, leagueId?: string, options: { dryRun?: boolean; confirmToken?: string } = {}) {
   // Longer timeout: the recalculate endpoint runs heavy DB operations
   const token = localStorage.getItem("fantaF1AuthToken");
   const headers: Record<string, string> = { "Content-Type": "application/json" };
@@ -235,7 +497,7 @@ export async function recalculateRace(raceId: string) {
     const res = await fetch(`${getApiUrl()}/admin/recalculate-race`, {
       method: "POST",
       headers,
-      body: JSON.stringify({ raceId }),
+      body: JSON.stringify({ raceId, leagueId, ...options }),
       signal: controller.signal,
     });
     clearTimeout(timeoutId);
@@ -0,0 +1,36 @@
+// Tiny inline trend line (driver price, team value). Draws nothing useful
+// for fewer than two points, so callers can render it unconditionally.
+
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  title?: string;
+  className?: string;
+}
+
+const Sparkline: React.FC<SparklineProps> = ({ values, width = 64, height = 20, title, className }) => {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const stepX = width / (values.length - 1);
+  const points = values
+    .map((v, i) => `${(i * stepX).toFixed(1)},${(height - 1 - ((v - min) / range) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+  const first = values[0] ?? 0;
+  const last = values[values.length - 1] ?? 0;
+  const stroke = last > first ? '#4ade80' : last < first ? '#f87171' : '#94a3b8';
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} role="img" aria-label={title}>
+      {title && <title>{title}</title>}
+      <polyline points={points} fill="none" stroke={stroke} strokeWidth={1.5} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -1,55 +1,9 @@
 import { Constructor, Driver, Race, ScoringRules } from './types';
+import { CHIP_IDS, DEFAULT_SCORING_RULES as ENGINE_DEFAULT_SCORING_RULES } from '../supabase/functions/_shared/scoring';
 
 export const APP_VERSION = "1.0.0 (126)"; // Build number for display
-export const DEFAULT_SCORING_RULES: ScoringRules = {
-  // Race Classifica (padded to 22 positions)
-  racePositionPoints: [25, 18, 15, 12, 10, 8, 6, 4, 2, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
-  raceFastestLap: 0, 
-  raceLastPlaceMalus: -3,
-
-  // Quali
-  qualiQ1Eliminated: -3, // 22-17
-  qualiQ2Reached: 1,     // 16-11
-  qualiQ3Reached: 3,     // 10-1
-  qualiPole: 3,
-  qualiGridPenalty: 0,
-
-  // Race Bonus/Malus
-  raceDNF: -5,
-  racePenalty: -5,
-
-  // Teammate
-  teammateBeat: 2,
-  teammateLost: -2,
-  teammateBeatDNF: 1,
-
-  // Grid Pos
-  positionGained: 1, // Legacy/Display
-  positionGainedPos1_10: 1.0,
-  positionGainedPos11_Plus: 0.5,
-  positionLost: -1, // Legacy/Display
-  positionLostPos1_10: -1.0,
-  positionLostPos11_Plus: -0.5,
-
-  // Sprint
-  sprintPositionPoints: [8, 7, 6, 5, 4, 3, 2, 1],
-  sprintPole: 1,
-
-  // Constructors
-  constructors: [
-    { id: 'rbr', name: 'Red Bull Racing', color: '#3671C6', multiplier: 1.0 },
-    { id: 'fer', name: 'Ferrari', color: '#F91536', multiplier: 1.1 },
-    { id: 'mer', name: 'Mercedes', color: '#6CD3BF', multiplier: 1.1 },
-    { id: 'mcl', name: 'McLaren', color: '#F58020', multiplier: 1.0 },
-    { id: 'ast', name: 'Aston Martin', color: '#225941', multiplier: 1.3 },
-    { id: 'alp', name: 'Alpine', color: '#2293D1', multiplier: 1.3 },
-    { id: 'wil', name: 'Williams', color: '#37BEDD', multiplier: 1.3 },
-    { id: 'rb', name: 'Racing Bulls', color: '#6692FF', multiplier: 1.3 },
-    { id: 'haa', name: 'Haas', color: '#B6BABD', multiplier: 1.3 },
-    { id: 'sau', name: 'Audi', color: '#000000', multiplier: 1.5 },
-    { id: 'cad', name: 'Cadillac', color: '#E5C25B', multiplier: 1.6 },
-  ],
-};
+export const DEFAULT_SCORING_RULES: ScoringRules = ENGINE_DEFAULT_SCORING_RULES;
+export { CHIP_IDS };
 
 export const CONSTRUCTORS: Constructor[] = [
   { id: 'rbr', name: 'Red Bull Racing', color: '#3671C6', multiplier: 1.0 },
@@ -1,8 +1,15 @@
+import type { ChipId, RaceEntry, ResultFieldError, RuleFieldError, ScoringRules as EngineScoringRules, SessionStatus, WeekendSession } from '../supabase/functions/_shared/scoring';
+import type { RosterChange } from '../supabase/functions/_shared/roster';
+import type { RaceStatus } from '../supabase/functions/_shared/race-status';
+
+export type { ChipId, RaceEntry, RaceStatus, ResultFieldError, RosterChange, RuleFieldError, SessionStatus, WeekendSession };
+
 export enum Tab {
   HOME = 'HOME',
   TEAM = 'TEAM',
   LINEUP = 'LINEUP',
   MARKET = 'MARKET',
+  LIVE = 'LIVE',
   STANDINGS = 'STANDINGS',
   ADMIN = 'ADMIN',
 }
@@ -20,6 +27,8 @@ export interface Driver {
   constructorId: string;
   price: number;
   points: number;
+  number?: number | null; // Permanent racing number
+  active?: boolean; // False once the driver has left the grid
 }
 
 export interface Race {
@@ -28,6 +37,7 @@ export interface Race {
   date: string; // ISO String from API
   isSprint: boolean;
   isCompleted: boolean;
+  status?: RaceStatus | null; // Lifecycle, see _shared/race-status.ts; missing on old APIs
   
   // API Fields
   country?: string | null;
@@ -46,47 +56,39 @@ export interface Race {
   sprintUtc?: string | null;
   raceUtc?: string | null;
   results?: any; // Official F1 session results
+  resultsPinned?: boolean; // Entered by hand; syncs leave it alone
+  sessionStatus?: Partial<Record<WeekendSession, SessionStatus>>; // Final once published, pending until then
 }
 
-export interface ScoringRules {
-  // Race
-  racePositionPoints: number[]; // 1st to 22nd
-  raceFastestLap: number; // Keep for compatibility, default 0 or 1
-  raceLastPlaceMalus: number; // -3
-  
-  // Quali Bonuses
-  qualiQ1Eliminated: number; // -3 (17th-22nd)
-  qualiQ2Reached: number; // +1 (11th-16th)
-  qualiQ3Reached: number; // +3 (1st-10th)
-  qualiPole: number; // +3
-  qualiGridPenalty: number; // -3
-
-  // Race Bonus/Malus
-  raceDNF: number; // -5 (Squalificato / non partito / ritirato)
-  racePenalty: number; // -5 (In gara o post-gara)
-
-  // Teammate (Race)
-  teammateBeat: number; // +2
-  teammateLost: number; // -2
-  teammateBeatDNF: number; // +1
-
-  // Grid Position
-  positionGained: number; // Defaults (Legacy/Combined?)
-  positionGainedPos1_10: number; // +1
-  positionGainedPos11_Plus: number; // +0.5
-  positionLost: number; // Defaults
-  positionLostPos1_10: number; // -1
-  positionLostPos11_Plus: number; // -0.5
-
-  // Sprint
-  sprintPositionPoints: number[]; // 1st to 8th
-  sprintPole: number; // +1 (Qualifica Sprint)
-
-  // Constructors
-  constructors?: Constructor[]; // Optional for backward compatibility, but should be populated
+// Classification typed in by an admin (POST /admin/race-results).
+export interface ManualResults {
+  quali: Record<string, number>;
+  sprintQuali?: Record<string, number>;
+  sprint?: Record<string, number>;
+  race: Record<string, number>;
+  dnfDrivers: string[];
+  dnsDrivers: string[];
+  dsqDrivers: string[];
+  fastestLap?: string | null;
+}
+
+// Who drove which car at one race (GET /admin/races/:id/entries). `source`
+// is null while the race has no entry list.
+export interface RaceEntryList {
+  source: 'sync' | 'admin' | null;
+  entries: RaceEntry[];
+}
+
+// Scoring rules are defined once in the shared engine. The web keeps two
+// legacy display-only keys that older leagues still have in League.rules.
+export interface ScoringRules extends EngineScoringRules {
+  positionGained?: number;
+  positionLost?: number;
+  constructors?: Constructor[];
 }
 
 export interface UserTeam {
+  id?: string;
   name: string;
   driverIds: string[];
   reserveDriverId: string | null;
@@ -95,6 +97,140 @@ export interface UserTeam {
   totalValue: number; // Drivers value + budget
 }
 
+// Lineup a team fielded for a race, frozen when the race locked.
+export interface RaceLineup {
+  driverIds: string[];
+  captainId: string | null;
+  reserveId: string | null;
+  lockedAt: string;
+}
+
+// Chip state of the current team, returned by GET /leagues/:id/chips.
+export interface ChipsState {
+  enabled: ChipId[];
+  usesPerSeason: number;
+  season: number;
+  raceId: string | null;
+  lockDate: string | null;
+  locked: boolean;
+  active: { chip: ChipId; marketUsed: boolean } | null;
+  used: Partial<Record<ChipId, number>>;
+  history: { raceId: string; chip: ChipId }[];
+}
+
+// Transfer allowance of the current team for the active race, returned by
+// GET /leagues/:id/transfers. `extraTransferCost` is <= 0.
+// One price move of a driver, as returned by GET /drivers/history.
+export interface DriverPricePoint {
+  raceId: string | null;
+  oldPrice: number;
+  newPrice: number;
+  createdAt: string;
+}
+
+// One scoring-rules version, as returned by GET /leagues/:id/rules/history.
+// `changes` lists the settings that differ from the previous version.
+export interface RulesVersionEntry {
+  version: number;
+  effectiveFromSeason: number;
+  effectiveFromRound: number;
+  raceName: string | null;
+  retroactive: boolean;
+  createdByName: string | null;
+  createdAt: string;
+  changes: { key: string; from: unknown; to: unknown }[];
+}
+
+// One team in a what-if rules preview (POST /league/rules/preview).
+// rankChange > 0 means the team would move up.
+export interface RulesPreviewRow {
+  teamId: string;
+  teamName: string | null;
+  userId: string;
+  userName: string;
+  currentPoints: number;
+  projectedPoints: number;
+  delta: number;
+  currentRank: number;
+  projectedRank: number;
+  rankChange: number;
+}
+
+// What a race sync or recalculation would change, returned by a dry run.
+// `before`/`after` hold a session's position or a driver's points.
+export interface ScoringDiff {
+  raceId: string;
+  classification: { session: string; driverId: string | null; before: unknown; after: unknown }[];
+  teams: {
+    leagueId: string;
+    teamId: string;
+    teamName: string | null;
+    userName: string | null;
+    oldPoints: number | null;
+    newPoints: number | null;
+    delta: number;
+  }[];
+}
+
+// One payload written to Race.results, from GET /admin/races/:raceId/revisions.
+export interface ResultRevision {
+  id: string;
+  revision: number;
+  isCompleted: boolean;
+  source: 'openf1_sync' | 'cron_resync' | 'manual' | 'simulation' | 'revert' | 'legacy';
+  actorId: string | null;
+  actorName: string | null;
+  revertOf: number | null;
+  summary: ScoringDiff['classification'];
+  createdAt: string;
+  current: boolean;
+}
+
+// Provisional league standings during a session, from GET /leagues/:id/live
+// and its /stream. `live` is false (and the lists empty) outside sessions.
+export interface LiveSnapshot {
+  live: boolean;
+  raceId: string | null;
+  raceName: string | null;
+  session: { name: 'Qualifying' | 'Sprint Qualifying' | 'Sprint' | 'Race'; startsAt: string; endsAt: string | null } | null;
+  updatedAt: string;
+  teams: {
+    teamId: string;
+    teamName: string | null;
+    userId: string;
+    userName: string;
+    driverIds: string[];
+    captainId: string | null;
+    livePoints: number;
+    totalPoints: number;
+    rank: number;
+    previousRank: number;
+  }[];
+  drivers: { id: string; name: string; points: number }[];
+}
+
+// Team value after a priced race, as returned by GET /teams/:id/value-history.
+export interface TeamValuePoint {
+  raceId: string;
+  raceName: string;
+  season: number;
+  round: number;
+  budget: number;
+  driversValue: number;
+  totalValue: number;
+  createdAt: string;
+}
+
+export interface TransferAllowance {
+  raceId: string;
+  freeTransfersPerRound: number;
+  freeLeft: number;
+  made: number;
+  paid: number;
+  extraTransferCost: number;
+  wildcard: boolean;
+}
+
 export interface User {
   id: string;
   name: string;
@@ -140,6 +276,35 @@ export interface EquippedCosmetics {
   liveryProductId: string | null;
 }
 
+// Final standings row of an archived season (GET /leagues/:id/seasons/:season/standings).
+export interface SeasonStanding {
+  rank: number;
+  userId: string;
+  userName: string;
+  teamId: string | null;
+  teamName: string | null;
+  totalPoints: number;
+  penaltyPoints: number;
+  driverIds: string[];
+  results: { raceId: string; name: string; round: number; points: number }[];
+}
+
+// A device the user is logged in on (GET /me/sessions).
+export interface UserSession {
+  id: string;
+  device: string | null; // e.g. "Chrome on Android"; null when unrecognised
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  current: boolean; // the session this request was made with
+}
+
+export interface LeagueSeasons {
+  current: number | null; // null for leagues from before seasons
+  archived: { season: number; teams: number }[];
+}
+
 export interface CosmeticsState {
   owned: OwnedCosmetic[];
   equipped: EquippedCosmetics[];
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
@@ -8,6 +9,9 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The scoring engine is shared with the Edge Function and lives
+        // outside web/ (supabase/functions/_shared).
+        fs: { allow: ['..'] },
       },
       plugins: [react()],
       define: {
@@ -18,6 +22,10 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        root: path.resolve(__dirname, '..'),
+        include: ['supabase/functions/_shared/**/*.test.ts'],
       }
     };
 });